@@ -0,0 +1,63 @@
+import { parseDuration, signJwt, verifyJwt } from './jwt';
+
+const claims = {
+  sub: '0x00000000000000000000000000000000000000aa',
+  iat: 1_800_000_000,
+  exp: 1_800_003_600,
+};
+const during = new Date(1_800_001_000 * 1000);
+
+describe('signJwt and verifyJwt', () => {
+  it('round-trips the claims', () => {
+    const token = signJwt(claims, 'secret');
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(verifyJwt(token, 'secret', during)).toEqual(claims);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(verifyJwt(signJwt(claims, 'other'), 'secret', during)).toBeNull();
+  });
+
+  it('rejects a token whose claims were changed', () => {
+    const [header, , signature] = signJwt(claims, 'secret').split('.');
+    const forged = Buffer.from(
+      JSON.stringify({
+        ...claims,
+        sub: '0x00000000000000000000000000000000000000bb',
+      }),
+    ).toString('base64url');
+
+    expect(
+      verifyJwt(`${header}.${forged}.${signature}`, 'secret', during),
+    ).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    const token = signJwt(claims, 'secret');
+
+    expect(verifyJwt(token, 'secret', new Date(claims.exp * 1000))).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyJwt('', 'secret', during)).toBeNull();
+    expect(verifyJwt('a.b', 'secret', during)).toBeNull();
+    expect(
+      verifyJwt(`${signJwt(claims, 'secret')}.extra`, 'secret', during),
+    ).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads seconds, minutes, hours and days', () => {
+    expect(parseDuration('3600')).toBe(3600);
+    expect(parseDuration('90s')).toBe(90);
+    expect(parseDuration('30m')).toBe(1800);
+    expect(parseDuration('24h')).toBe(86400);
+    expect(parseDuration('7d')).toBe(604800);
+  });
+
+  it('rejects other formats', () => {
+    expect(() => parseDuration('1 week')).toThrow('Invalid duration: 1 week');
+  });
+});
@@ -0,0 +1,87 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Claims of the tokens issued at sign-in; times are in seconds since the epoch
+export interface JwtClaims {
+  sub: string; // Wallet address, lowercased
+  iat: number;
+  exp: number;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Sign the claims as an HS256 JSON Web Token.
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const payload = base64url(JSON.stringify(claims));
+  return `${HEADER}.${payload}.${signature(`${HEADER}.${payload}`, secret)}`;
+}
+
+/**
+ * Verify an HS256 token. Returns its claims, or null if the token is
+ * malformed, signed with another secret or expired.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  now: Date = new Date(),
+): JwtClaims | null {
+  const [header, payload, signed, ...rest] = token.split('.');
+  if (!header || !payload || !signed || rest.length > 0 || header !== HEADER) {
+    return null;
+  }
+
+  // Constant-time comparison, so a signature cannot be guessed byte by byte
+  const expected = Buffer.from(signature(`${header}.${payload}`, secret));
+  const provided = Buffer.from(signed);
+  if (
+    expected.length !== provided.length ||
+    !timingSafeEqual(expected, provided)
+  ) {
+    return null;
+  }
+
+  let claims: Partial<JwtClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (
+    typeof claims.sub !== 'string' ||
+    typeof claims.iat !== 'number' ||
+    typeof claims.exp !== 'number' ||
+    claims.exp <= Math.floor(now.getTime() / 1000)
+  ) {
+    return null;
+  }
+  return { sub: claims.sub, iat: claims.iat, exp: claims.exp };
+}
+
+/**
+ * Read a token lifetime such as 3600, 90s, 30m, 24h or 7d, in seconds.
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const units: Record<string, number> = {
+    '': 1,
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+  };
+  return parseInt(match[1] ?? '0') * (units[match[2] ?? ''] ?? 1);
+}
+
+function signature(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(data: string): string {
+  return Buffer.from(data, 'utf-8').toString('base64url');
+}
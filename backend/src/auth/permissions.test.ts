@@ -0,0 +1,28 @@
+import { PERMISSIONS, hasPermission, permissionsOf } from './permissions';
+
+describe('permissionsOf', () => {
+  it('lets submitters submit rituals and take part in elections only', () => {
+    expect(permissionsOf(['submitter'])).toEqual([
+      'rituals:submit',
+      'elections:vote',
+    ]);
+  });
+
+  it('lets validators decide reviews but not manage bioregions', () => {
+    expect(hasPermission(['validator'], 'reviews:decide')).toBe(true);
+    expect(hasPermission(['validator'], 'bioregions:manage')).toBe(false);
+  });
+
+  it('gives admins every permission', () => {
+    expect(permissionsOf(['admin'])).toEqual([...PERMISSIONS]);
+  });
+
+  it('combines the permissions of several roles in a stable order', () => {
+    expect(permissionsOf(['validator', 'submitter'])).toEqual([
+      'rituals:submit',
+      'reviews:decide',
+      'elections:vote',
+    ]);
+    expect(permissionsOf([])).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+export const ROLES = ['submitter', 'validator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  'rituals:submit',
+  'reviews:decide', // Claim, comment on and decide expert reviews
+  'bioregions:manage',
+  'elections:manage', // Schedule and certify council elections
+  'elections:vote', // Stand and vote in the elections of their bioregions
+  'system:operate', // Reconciliation, indexing and database maintenance
+  'roles:manage',
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// What each role may do; roles are granted to wallets in the database
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  submitter: ['rituals:submit', 'elections:vote'],
+  validator: ['rituals:submit', 'reviews:decide', 'elections:vote'],
+  admin: PERMISSIONS,
+};
+
+export function permissionsOf(roles: Iterable<Role>): Permission[] {
+  const granted = new Set<Permission>();
+  for (const role of roles) {
+    ROLE_PERMISSIONS[role].forEach((permission) => granted.add(permission));
+  }
+  // In declaration order, so responses are stable
+  return PERMISSIONS.filter((permission) => granted.has(permission));
+}
+
+export function hasPermission(
+  roles: Iterable<Role>,
+  permission: Permission,
+): boolean {
+  return permissionsOf(roles).includes(permission);
+}
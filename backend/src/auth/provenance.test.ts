@@ -0,0 +1,109 @@
+import { Wallet } from 'ethers';
+import {
+  AUTHORSHIP_TYPES,
+  AuthorSignature,
+  authorshipDomain,
+  checkSignatureAge,
+  contentHashOf,
+  verifyAuthorSignature,
+} from './provenance';
+
+const wallet = new Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+);
+const ritual = {
+  name: 'Spring Water Blessing',
+  bioregionId: 'cascadia',
+  content: 'Gather at the spring at first light and offer thanks.',
+  author: wallet.address,
+};
+const timestamp = 1767268800; // 2026-01-01T12:00:00Z
+const noon = new Date(timestamp * 1000);
+
+const sign = async (
+  signer: Wallet = wallet,
+  content = ritual.content,
+): Promise<AuthorSignature> => ({
+  scheme: 'eip712',
+  chainId: 84532,
+  contentHash: contentHashOf(content),
+  timestamp,
+  signature: await signer.signTypedData(
+    authorshipDomain(84532),
+    AUTHORSHIP_TYPES,
+    {
+      name: ritual.name,
+      bioregionId: ritual.bioregionId,
+      contentHash: contentHashOf(content),
+      timestamp,
+    },
+  ),
+});
+
+describe('verifyAuthorSignature', () => {
+  it('accepts a ritual signed by its author', async () => {
+    expect(verifyAuthorSignature(ritual, await sign())).toEqual({
+      signer: wallet.address.toLowerCase(),
+      problems: [],
+    });
+  });
+
+  it('rejects content changed after signing', async () => {
+    const signature = await sign();
+    expect(
+      verifyAuthorSignature(
+        { ...ritual, content: `${ritual.content} And dance.` },
+        signature,
+      ).problems,
+    ).toEqual(['content: Does not match the signed content hash']);
+  });
+
+  it('rejects a ritual signed by another wallet', async () => {
+    const { signer, problems } = verifyAuthorSignature(
+      ritual,
+      await sign(new Wallet(`0x${'11'.repeat(32)}`)),
+    );
+    expect(signer).not.toBe(wallet.address.toLowerCase());
+    expect(problems).toEqual(['signature: Not signed by the author']);
+  });
+
+  it('rejects a signature over another name or chain', async () => {
+    const signature = await sign();
+    expect(
+      verifyAuthorSignature({ ...ritual, name: 'Renamed' }, signature).problems,
+    ).toEqual(['signature: Not signed by the author']);
+    expect(
+      verifyAuthorSignature(ritual, { ...signature, chainId: 8453 }).problems,
+    ).toEqual(['signature: Not signed by the author']);
+  });
+
+  it('rejects a malformed signature', () => {
+    expect(
+      verifyAuthorSignature(ritual, {
+        scheme: 'eip712',
+        chainId: 84532,
+        contentHash: contentHashOf(ritual.content),
+        timestamp,
+        signature: `0x${'00'.repeat(65)}`,
+      }),
+    ).toEqual({ signer: null, problems: ['signature: Not a valid signature'] });
+  });
+});
+
+describe('checkSignatureAge', () => {
+  const limits = { maxAgeMs: 60 * 60 * 1000, maxClockSkewMs: 5 * 60 * 1000 };
+
+  it('accepts a recent signature and tolerates clock skew', () => {
+    expect(checkSignatureAge(timestamp, limits, noon)).toEqual([]);
+    expect(checkSignatureAge(timestamp + 60, limits, noon)).toEqual([]);
+  });
+
+  it('rejects signatures from the future or long ago', () => {
+    expect(checkSignatureAge(timestamp + 600, limits, noon)).toEqual([
+      'signedAt: Signed in the future',
+    ]);
+    expect(checkSignatureAge(timestamp - 7200, limits, noon)).toEqual([
+      'signedAt: Signed too long ago; sign the ritual again',
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { TypedDataDomain, TypedDataField, id, verifyTypedData } from 'ethers';
+
+// Signature of an author over their ritual, kept with its metadata
+export interface AuthorSignature {
+  scheme: 'eip712';
+  chainId: number; // Chain ID of the typed data domain
+  contentHash: string; // keccak256 of the UTF-8 content
+  timestamp: number; // Unix seconds, as signed
+  signature: string;
+}
+
+// The ritual as the author signs it, as EIP-712 typed data
+export interface RitualAuthorship {
+  name: string;
+  bioregionId: string;
+  contentHash: string;
+  timestamp: number;
+}
+
+export interface SignedRitual {
+  name: string;
+  bioregionId: string;
+  content: string;
+  author: string; // Wallet address
+}
+
+export interface SignatureAge {
+  maxAgeMs: number; // How long a signature may wait before submission
+  maxClockSkewMs: number; // Tolerated drift between the wallet and the server
+}
+
+export const AUTHORSHIP_TYPES: Record<string, TypedDataField[]> = {
+  RitualAuthorship: [
+    { name: 'name', type: 'string' },
+    { name: 'bioregionId', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+};
+
+export function authorshipDomain(chainId: number): TypedDataDomain {
+  return { name: 'Global Regeneration Ceremony', version: '1', chainId };
+}
+
+export function contentHashOf(content: string): string {
+  return id(content);
+}
+
+/**
+ * Lowercased address that signed the ritual; null for a malformed
+ * signature.
+ */
+export function recoverAuthor(
+  authorship: RitualAuthorship,
+  signature: string,
+  chainId: number,
+): string | null {
+  try {
+    return verifyTypedData(
+      authorshipDomain(chainId),
+      AUTHORSHIP_TYPES,
+      authorship,
+      signature,
+    ).toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that the author signed the ritual as it is. Returns the signer, if
+ * the signature could be read, and the problems found, as "field: message".
+ */
+export function verifyAuthorSignature(
+  ritual: SignedRitual,
+  signature: AuthorSignature,
+): { signer: string | null; problems: string[] } {
+  const problems: string[] = [];
+  if (contentHashOf(ritual.content) !== signature.contentHash) {
+    problems.push('content: Does not match the signed content hash');
+  }
+
+  const signer = recoverAuthor(
+    {
+      name: ritual.name,
+      bioregionId: ritual.bioregionId,
+      contentHash: signature.contentHash,
+      timestamp: signature.timestamp,
+    },
+    signature.signature,
+    signature.chainId,
+  );
+  if (!signer) {
+    problems.push('signature: Not a valid signature');
+  } else if (signer !== ritual.author.toLowerCase()) {
+    problems.push('signature: Not signed by the author');
+  }
+
+  return { signer, problems };
+}
+
+/**
+ * Check that a signature was made recently, so that one made for a ritual
+ * long ago cannot be submitted in its name.
+ */
+export function checkSignatureAge(
+  timestamp: number,
+  limits: SignatureAge,
+  now: Date = new Date(),
+): string[] {
+  const signedAt = timestamp * 1000;
+  if (signedAt > now.getTime() + limits.maxClockSkewMs) {
+    return ['signedAt: Signed in the future'];
+  }
+  if (signedAt < now.getTime() - limits.maxAgeMs) {
+    return ['signedAt: Signed too long ago; sign the ritual again'];
+  }
+  return [];
+}
@@ -0,0 +1,115 @@
+import { Wallet, id } from 'ethers';
+import {
+  RELAY_AUTHORIZATION_TYPES,
+  RelayAuthorization,
+  checkRelayAuthorization,
+  relayDomain,
+} from './relay';
+
+const wallet = new Wallet(
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+);
+const contractAddress = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const expected = {
+  chainId: 84532,
+  contractAddress,
+  minValidityMs: 24 * 60 * 60 * 1000,
+};
+const ritual = { author: wallet.address, bioregionId: 'cascadia' };
+const noon = new Date('2026-01-01T12:00:00.000Z');
+const deadline = noon.getTime() / 1000 + 7 * 24 * 60 * 60;
+
+const authorize = async (
+  signer: Wallet = wallet,
+  bioregionId = ritual.bioregionId,
+): Promise<RelayAuthorization> => {
+  const authorization = {
+    contentHash: id('Gather at the spring at first light.'),
+    nonce: id('nonce-1'),
+    deadline,
+  };
+  return {
+    ...authorization,
+    signature: await signer.signTypedData(
+      relayDomain(84532, contractAddress),
+      RELAY_AUTHORIZATION_TYPES,
+      { author: ritual.author, bioregionId, ...authorization },
+    ),
+  };
+};
+
+describe('checkRelayAuthorization', () => {
+  it('accepts an authorization signed by the author', async () => {
+    expect(
+      checkRelayAuthorization(await authorize(), ritual, expected, noon),
+    ).toEqual([]);
+  });
+
+  it('accepts the author address in any case', async () => {
+    expect(
+      checkRelayAuthorization(
+        await authorize(),
+        { ...ritual, author: wallet.address.toLowerCase() },
+        expected,
+        noon,
+      ),
+    ).toEqual([]);
+  });
+
+  it('rejects an authorization signed by another wallet', async () => {
+    expect(
+      checkRelayAuthorization(
+        await authorize(new Wallet(`0x${'11'.repeat(32)}`)),
+        ritual,
+        expected,
+        noon,
+      ),
+    ).toEqual(['authorization.signature: Not signed by the author']);
+  });
+
+  it('rejects an authorization for another bioregion or contract', async () => {
+    expect(
+      checkRelayAuthorization(
+        await authorize(wallet, 'sonoran-desert'),
+        ritual,
+        expected,
+        noon,
+      ),
+    ).toEqual(['authorization.signature: Not signed by the author']);
+    expect(
+      checkRelayAuthorization(
+        await authorize(),
+        ritual,
+        {
+          ...expected,
+          contractAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        },
+        noon,
+      ),
+    ).toEqual(['authorization.signature: Not signed by the author']);
+  });
+
+  it('rejects a malformed signature', async () => {
+    expect(
+      checkRelayAuthorization(
+        { ...(await authorize()), signature: `0x${'00'.repeat(65)}` },
+        ritual,
+        expected,
+        noon,
+      ),
+    ).toEqual(['authorization.signature: Not signed by the author']);
+  });
+
+  it('rejects an authorization that expires before the ritual can be logged', async () => {
+    expect(
+      checkRelayAuthorization(
+        await authorize(),
+        ritual,
+        { ...expected, minValidityMs: 8 * 24 * 60 * 60 * 1000 },
+        noon,
+      ),
+    ).toEqual([
+      'authorization.deadline: Must leave at least 192 hours to log the ritual',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { TypedDataDomain, TypedDataField, verifyTypedData } from 'ethers';
+
+// Consent of an author to have the backend log their ritual on chain, as
+// GRC_RitualSubmission.submitRitualBySig checks it. The content hash is
+// stored with the ritual on chain, to check the pinned metadata against
+export interface RelayAuthorization {
+  contentHash: string; // keccak256 of the UTF-8 content
+  nonce: string; // 32 bytes chosen by the author; usable once
+  deadline: number; // Unix seconds
+  signature: string;
+}
+
+export interface RelayedRitual {
+  author: string; // Wallet address
+  bioregionId: string;
+}
+
+export interface RelayExpectations {
+  chainId: number;
+  contractAddress: string; // GRC_RitualSubmission
+  minValidityMs: number; // Time left to log the ritual, reviews included
+}
+
+export const RELAY_AUTHORIZATION_TYPES: Record<string, TypedDataField[]> = {
+  RitualAuthorization: [
+    { name: 'author', type: 'address' },
+    { name: 'bioregionId', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export function relayDomain(
+  chainId: number,
+  contractAddress: string,
+): TypedDataDomain {
+  return {
+    name: 'GRC_RitualSubmission',
+    version: '1',
+    chainId,
+    verifyingContract: contractAddress,
+  };
+}
+
+/**
+ * Check an authorization before the ritual is queued, so that the contract
+ * will accept it when the ritual is logged. Returns the problems found, as
+ * "field: message".
+ */
+export function checkRelayAuthorization(
+  authorization: RelayAuthorization,
+  ritual: RelayedRitual,
+  expected: RelayExpectations,
+  now: Date = new Date(),
+): string[] {
+  if (authorization.deadline * 1000 < now.getTime() + expected.minValidityMs) {
+    const hours = Math.ceil(expected.minValidityMs / (60 * 60 * 1000));
+    return [
+      `authorization.deadline: Must leave at least ${hours} hours to log the ritual`,
+    ];
+  }
+
+  let signer: string | null;
+  try {
+    signer = verifyTypedData(
+      relayDomain(expected.chainId, expected.contractAddress),
+      RELAY_AUTHORIZATION_TYPES,
+      {
+        author: ritual.author,
+        bioregionId: ritual.bioregionId,
+        contentHash: authorization.contentHash,
+        nonce: authorization.nonce,
+        deadline: authorization.deadline,
+      },
+      authorization.signature,
+    );
+  } catch {
+    signer = null;
+  }
+
+  if (signer?.toLowerCase() !== ritual.author.toLowerCase()) {
+    return ['authorization.signature: Not signed by the author'];
+  }
+  return [];
+}
@@ -0,0 +1,109 @@
+import { checkSiweMessage, parseSiweMessage } from './siwe';
+
+const address = '0x71C7656EC7ab88b098defB751B7401B5f6d8976F';
+
+const message = (fields: string[], statement = 'Sign in to the GRC') =>
+  [
+    'localhost:3000 wants you to sign in with your Ethereum account:',
+    address,
+    '',
+    ...(statement ? [statement, ''] : []),
+    'URI: http://localhost:3000',
+    'Version: 1',
+    'Chain ID: 84532',
+    'Nonce: 32891756ab',
+    'Issued At: 2026-01-01T12:00:00.000Z',
+    ...fields,
+  ].join('\n');
+
+const expected = {
+  domain: 'localhost:3000',
+  chainId: 84532,
+  maxClockSkewMs: 5 * 60 * 1000,
+};
+const noon = new Date('2026-01-01T12:00:00.000Z');
+
+describe('parseSiweMessage', () => {
+  it('reads the fields of an EIP-4361 message', () => {
+    expect(
+      parseSiweMessage(
+        message([
+          'Expiration Time: 2026-01-02T12:00:00.000Z',
+          'Resources:',
+          '- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq',
+        ]),
+      ),
+    ).toEqual({
+      domain: 'localhost:3000',
+      address,
+      statement: 'Sign in to the GRC',
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 84532,
+      nonce: '32891756ab',
+      issuedAt: noon,
+      expirationTime: new Date('2026-01-02T12:00:00.000Z'),
+      notBefore: undefined,
+      requestId: undefined,
+      resources: [
+        'ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq',
+      ],
+    });
+  });
+
+  it('reads a message without a statement', () => {
+    expect(parseSiweMessage(message([], ''))?.statement).toBeUndefined();
+  });
+
+  it('rejects text in another format', () => {
+    expect(parseSiweMessage('Sign in please')).toBeNull();
+    expect(
+      parseSiweMessage(message([]).replace('Nonce: 32891756ab\n', '')),
+    ).toBeNull();
+    expect(
+      parseSiweMessage(message(['Issued Later: whenever', 'garbage'])),
+    ).toBeNull();
+  });
+});
+
+describe('checkSiweMessage', () => {
+  const parse = (fields: string[] = []) => {
+    const parsed = parseSiweMessage(message(fields));
+    if (!parsed) throw new Error('Unparsable test message');
+    return parsed;
+  };
+
+  it('accepts a current message for the app', () => {
+    expect(checkSiweMessage(parse(), expected, noon)).toEqual([]);
+  });
+
+  it('rejects a message for another domain or chain', () => {
+    expect(
+      checkSiweMessage(
+        parse(),
+        { ...expected, domain: 'grc.example', chainId: 8453 },
+        noon,
+      ),
+    ).toEqual([
+      'message: Signed for localhost:3000, not grc.example',
+      'message: Chain ID must be 8453',
+    ]);
+  });
+
+  it('rejects an expired message', () => {
+    const expiring = parse(['Expiration Time: 2026-01-01T12:30:00.000Z']);
+
+    expect(
+      checkSiweMessage(expiring, expected, new Date('2026-01-01T13:00:00Z')),
+    ).toEqual(['message: Expired']);
+  });
+
+  it('tolerates clock skew on the issue time only up to the limit', () => {
+    expect(
+      checkSiweMessage(parse(), expected, new Date('2026-01-01T11:57:00Z')),
+    ).toEqual([]);
+    expect(
+      checkSiweMessage(parse(), expected, new Date('2026-01-01T11:50:00Z')),
+    ).toEqual(['message: Issued in the future']);
+  });
+});
@@ -0,0 +1,142 @@
+import { isAddress } from 'ethers';
+
+// Sign-In with Ethereum (EIP-4361) message, as signed by the wallet
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string | undefined;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date | undefined;
+  notBefore?: Date | undefined;
+  requestId?: string | undefined;
+  resources: string[];
+}
+
+export interface SiweExpectations {
+  domain: string; // Host of the app users sign in to
+  chainId: number;
+  maxClockSkewMs: number; // Tolerated drift between the wallet and the server
+}
+
+const PREAMBLE = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * Parse the text of a SIWE message. Returns null if it is not in the
+ * format of EIP-4361.
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const [header, address] = lines;
+  if (!header?.endsWith(PREAMBLE) || !address) {
+    return null;
+  }
+
+  // An optional statement between blank lines precedes the fields
+  const fieldsStart = lines.findIndex((line) => line.startsWith('URI: '));
+  if (fieldsStart < 0) {
+    return null;
+  }
+  const statement = lines.slice(2, fieldsStart).join('\n').trim();
+
+  const fields = new Map<string, string>();
+  const resources: string[] = [];
+  let inResources = false;
+  for (const line of lines.slice(fieldsStart)) {
+    if (inResources && line.startsWith('- ')) {
+      resources.push(line.slice(2));
+      continue;
+    }
+    inResources = line === 'Resources:';
+    const separator = line.indexOf(': ');
+    if (!inResources && separator > 0) {
+      fields.set(line.slice(0, separator), line.slice(separator + 2));
+    } else if (!inResources && line !== '') {
+      return null;
+    }
+  }
+
+  const date = (name: string): Date | undefined => {
+    const value = fields.get(name);
+    return value === undefined ? undefined : new Date(value);
+  };
+
+  const uri = fields.get('URI');
+  const version = fields.get('Version');
+  const chainId = Number(fields.get('Chain ID'));
+  const nonce = fields.get('Nonce');
+  const issuedAt = date('Issued At');
+  if (
+    !uri ||
+    !version ||
+    !Number.isInteger(chainId) ||
+    !nonce ||
+    !issuedAt ||
+    [issuedAt, date('Expiration Time'), date('Not Before')].some(
+      (d) => d !== undefined && Number.isNaN(d.getTime()),
+    )
+  ) {
+    return null;
+  }
+
+  return {
+    domain: header.slice(0, -PREAMBLE.length).replace(/^[a-z]+:\/\//, ''),
+    address,
+    statement: statement || undefined,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: date('Expiration Time'),
+    notBefore: date('Not Before'),
+    requestId: fields.get('Request ID'),
+    resources,
+  };
+}
+
+/**
+ * Check a parsed message against the app it signs in to. Returns the
+ * problems found, in the form of validation error details; the nonce and
+ * signature are checked by the caller.
+ */
+export function checkSiweMessage(
+  message: SiweMessage,
+  expected: SiweExpectations,
+  now: Date = new Date(),
+): string[] {
+  const errors: string[] = [];
+  const time = now.getTime();
+
+  if (message.domain !== expected.domain) {
+    errors.push(
+      `message: Signed for ${message.domain}, not ${expected.domain}`,
+    );
+  }
+  if (!isAddress(message.address)) {
+    errors.push('message: Not a wallet address');
+  }
+  if (message.version !== '1') {
+    errors.push(`message: Unsupported version ${message.version}`);
+  }
+  if (message.chainId !== expected.chainId) {
+    errors.push(`message: Chain ID must be ${expected.chainId}`);
+  }
+  if (message.issuedAt.getTime() > time + expected.maxClockSkewMs) {
+    errors.push('message: Issued in the future');
+  }
+  if (message.expirationTime && message.expirationTime.getTime() <= time) {
+    errors.push('message: Expired');
+  }
+  if (
+    message.notBefore &&
+    message.notBefore.getTime() > time + expected.maxClockSkewMs
+  ) {
+    errors.push('message: Not valid yet');
+  }
+
+  return errors;
+}
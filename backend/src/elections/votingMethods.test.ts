@@ -0,0 +1,261 @@
+import { BallotChoice, ElectionDocument } from '../services/DatabaseService';
+import { tallyElection, validateChoice } from './votingMethods';
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+const candidate = (candidateId: string, nominatedOn: number) => ({
+  candidateId,
+  member: `0x${candidateId.padStart(40, '0')}`,
+  name: `Candidate ${candidateId}`,
+  statement: '',
+  nominatedAt: day(nominatedOn),
+});
+
+const election = (
+  overrides: Partial<ElectionDocument> = {},
+): ElectionDocument => ({
+  electionId: 'e1',
+  bioregionId: 'cascadia',
+  title: 'Cascadia council',
+  seats: 2,
+  votingMethod: 'plurality',
+  quorum: 5,
+  nominationStartsAt: day(1),
+  nominationEndsAt: day(8),
+  votingEndsAt: day(15),
+  candidates: [candidate('a', 1), candidate('b', 2), candidate('c', 3)],
+  createdAt: day(1),
+  updatedAt: day(1),
+  ...overrides,
+});
+
+const times = (n: number, choice: BallotChoice): BallotChoice[] =>
+  Array.from({ length: n }, () => choice);
+
+const plurality = (candidateId: string, n: number) =>
+  times(n, { method: 'plurality', candidateId });
+
+const ranked = (n: number, ...rankings: string[]) =>
+  times(n, { method: 'ranked_choice', rankings });
+
+describe('tallyElection', () => {
+  describe('plurality', () => {
+    it('elects the candidates with the most votes to the seats', () => {
+      const result = tallyElection(
+        election(),
+        [...plurality('a', 1), ...plurality('b', 4), ...plurality('c', 2)],
+        day(15),
+      );
+
+      expect(result).toEqual({
+        method: 'plurality',
+        ballots: 7,
+        totalVotes: 7,
+        quorum: 5,
+        quorumMet: true,
+        tallies: [
+          { candidateId: 'b', name: 'Candidate b', votes: 4, elected: true },
+          { candidateId: 'c', name: 'Candidate c', votes: 2, elected: true },
+          { candidateId: 'a', name: 'Candidate a', votes: 1, elected: false },
+        ],
+        elected: ['b', 'c'],
+        talliedAt: day(15),
+      });
+    });
+
+    it('breaks ties in favour of the earlier nomination', () => {
+      const result = tallyElection(election(), [
+        ...plurality('c', 3),
+        ...plurality('b', 3),
+        ...plurality('a', 3),
+      ]);
+
+      expect(result.elected).toEqual(['a', 'b']);
+    });
+
+    it('elects nobody without quorum', () => {
+      const result = tallyElection(election(), plurality('a', 4));
+
+      expect(result.quorumMet).toBe(false);
+      expect(result.elected).toEqual([]);
+      expect(result.tallies.every((t) => !t.elected)).toBe(true);
+    });
+
+    it('does not elect candidates without votes', () => {
+      const result = tallyElection(election({ quorum: 1 }), plurality('c', 1));
+
+      expect(result.elected).toEqual(['c']);
+    });
+  });
+
+  it('counts every approval', () => {
+    const result = tallyElection(election({ votingMethod: 'approval' }), [
+      ...times(3, { method: 'approval', approvals: ['a', 'c'] }),
+      ...times(2, { method: 'approval', approvals: ['b', 'c'] }),
+    ]);
+
+    expect(result.ballots).toBe(5);
+    expect(result.totalVotes).toBe(10);
+    expect(result.elected).toEqual(['c', 'a']);
+  });
+
+  it('sums quadratic votes', () => {
+    const result = tallyElection(
+      election({ votingMethod: 'quadratic', creditBudget: 9, quorum: 2 }),
+      [
+        {
+          method: 'quadratic',
+          allocations: [
+            { candidateId: 'a', votes: 2 },
+            { candidateId: 'b', votes: 2 },
+          ],
+        },
+        { method: 'quadratic', allocations: [{ candidateId: 'c', votes: 3 }] },
+      ],
+    );
+
+    expect(result.tallies.map((t) => [t.candidateId, t.votes])).toEqual([
+      ['c', 3],
+      ['a', 2],
+      ['b', 2],
+    ]);
+    expect(result.elected).toEqual(['c', 'a']);
+  });
+
+  describe('ranked choice', () => {
+    const rankedElection = election({
+      votingMethod: 'ranked_choice',
+      candidates: [
+        candidate('a', 1),
+        candidate('b', 2),
+        candidate('c', 3),
+        candidate('d', 4),
+      ],
+    });
+    const ballots = [
+      ...ranked(5, 'a', 'b'),
+      ...ranked(2, 'c', 'b'),
+      ...ranked(2, 'd', 'c'),
+      ...ranked(1, 'b'),
+    ];
+
+    it('transfers surpluses and excluded ballots round by round', () => {
+      const result = tallyElection(rankedElection, ballots);
+
+      expect(result.quota).toBe(4);
+      expect(result.elected).toEqual(['a', 'c']);
+      expect(result.rounds).toEqual([
+        {
+          round: 1,
+          votes: [
+            { candidateId: 'a', votes: 5 },
+            { candidateId: 'c', votes: 2 },
+            { candidateId: 'd', votes: 2 },
+            { candidateId: 'b', votes: 1 },
+          ],
+          exhausted: 0,
+          elected: 'a',
+          transferValue: 0.2,
+        },
+        {
+          round: 2,
+          votes: [
+            { candidateId: 'b', votes: 2 },
+            { candidateId: 'c', votes: 2 },
+            { candidateId: 'd', votes: 2 },
+          ],
+          exhausted: 0,
+          excluded: 'd',
+        },
+        {
+          round: 3,
+          votes: [
+            { candidateId: 'c', votes: 4 },
+            { candidateId: 'b', votes: 2 },
+          ],
+          exhausted: 0,
+          elected: 'c',
+          transferValue: 0,
+        },
+      ]);
+      expect(result.tallies.map((t) => [t.candidateId, t.votes])).toEqual([
+        ['a', 5],
+        ['c', 4],
+        ['b', 2],
+        ['d', 2],
+      ]);
+    });
+
+    it('gives the same result whatever the order of the ballots', () => {
+      const forward = tallyElection(rankedElection, ballots, day(15));
+      const reversed = tallyElection(
+        rankedElection,
+        [...ballots].reverse(),
+        day(15),
+      );
+
+      expect(reversed).toEqual(forward);
+    });
+
+    it('fills the last seats with the continuing candidates', () => {
+      const result = tallyElection(
+        election({ votingMethod: 'ranked_choice' }),
+        [...ranked(3, 'a'), ...ranked(1, 'b'), ...ranked(1, 'c')],
+      );
+
+      // b never reaches the quota of 2 but is the last continuing candidate
+      expect(result.elected).toEqual(['a', 'b']);
+      expect(result.rounds?.map((r) => r.elected ?? r.excluded)).toEqual([
+        'a',
+        'c',
+        'b',
+      ]);
+    });
+  });
+});
+
+describe('validateChoice', () => {
+  it('rejects a ballot in the form of another voting method', () => {
+    expect(
+      validateChoice(election({ votingMethod: 'approval' }), {
+        method: 'plurality',
+        candidateId: 'a',
+      }),
+    ).toEqual(['method: Election uses approval voting']);
+  });
+
+  it('rejects unknown and repeated candidates', () => {
+    expect(
+      validateChoice(election({ votingMethod: 'ranked_choice' }), {
+        method: 'ranked_choice',
+        rankings: ['a', 'x', 'a'],
+      }),
+    ).toEqual([
+      'rankings: Not a candidate in this election: x',
+      'rankings: A candidate can only be chosen once',
+    ]);
+  });
+
+  it('rejects quadratic votes over the credit budget', () => {
+    const quadratic = election({ votingMethod: 'quadratic', creditBudget: 10 });
+
+    expect(
+      validateChoice(quadratic, {
+        method: 'quadratic',
+        allocations: [
+          { candidateId: 'a', votes: 3 },
+          { candidateId: 'b', votes: 1 },
+        ],
+      }),
+    ).toEqual([]);
+    expect(
+      validateChoice(quadratic, {
+        method: 'quadratic',
+        allocations: [
+          { candidateId: 'a', votes: 3 },
+          { candidateId: 'b', votes: 2 },
+        ],
+      }),
+    ).toEqual(['allocations: Votes cost 13 credits; the budget is 10']);
+  });
+});
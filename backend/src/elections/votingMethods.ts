@@ -0,0 +1,280 @@
+import {
+  BallotChoice,
+  CandidateTally,
+  ElectionDocument,
+  ElectionResult,
+  TallyRound,
+} from '../services/DatabaseService';
+
+// Ranked-choice ballots carry fractions of a vote in units of 1/VOTE_SCALE,
+// so surplus transfers are integer arithmetic and repeat exactly
+const VOTE_SCALE = 10000;
+
+/**
+ * Check a ballot against the election's voting method and candidates.
+ * Returns the problems found, in the form of validation error details.
+ */
+export function validateChoice(
+  election: ElectionDocument,
+  choice: BallotChoice,
+): string[] {
+  if (choice.method !== election.votingMethod) {
+    return [`method: Election uses ${election.votingMethod} voting`];
+  }
+
+  const [field, chosen] = chosenCandidates(choice);
+  const candidates = new Set(election.candidates.map((c) => c.candidateId));
+  const errors: string[] = [];
+
+  if (chosen.length === 0) {
+    errors.push(`${field}: Choose at least one candidate`);
+  }
+  for (const candidateId of chosen) {
+    if (!candidates.has(candidateId)) {
+      errors.push(`${field}: Not a candidate in this election: ${candidateId}`);
+    }
+  }
+  if (new Set(chosen).size !== chosen.length) {
+    errors.push(`${field}: A candidate can only be chosen once`);
+  }
+
+  if (choice.method === 'quadratic') {
+    const budget = election.creditBudget ?? 0;
+    const cost = quadraticCost(choice.allocations);
+    if (cost > budget) {
+      errors.push(
+        `allocations: Votes cost ${cost} credits; the budget is ${budget}`,
+      );
+    }
+  }
+
+  return errors;
+}
+
+// Casting n votes for a candidate costs n² credits
+export function quadraticCost(allocations: { votes: number }[]): number {
+  return allocations.reduce((sum, { votes }) => sum + votes * votes, 0);
+}
+
+/**
+ * Tally an election by its voting method. Ties are broken in favour of the
+ * earlier nomination, so the same ballots always give the same result.
+ * Nobody is elected if fewer ballots than the quorum were cast.
+ */
+export function tallyElection(
+  election: ElectionDocument,
+  choices: BallotChoice[],
+  talliedAt: Date = new Date(),
+): ElectionResult {
+  const quorumMet = choices.length >= election.quorum;
+  const common = {
+    method: election.votingMethod,
+    ballots: choices.length,
+    quorum: election.quorum,
+    quorumMet,
+    talliedAt,
+  };
+
+  if (election.votingMethod === 'ranked_choice') {
+    const count = countTransferableVotes(election, choices);
+    const elected = quorumMet ? count.elected : [];
+    return {
+      ...common,
+      totalVotes: count.totalVotes,
+      quota: count.quota,
+      tallies: count.tallies.map((tally) => ({
+        ...tally,
+        elected: elected.includes(tally.candidateId),
+      })),
+      rounds: count.rounds,
+      elected,
+    };
+  }
+
+  const votes = countVotes(choices);
+  const tallies = byVotes(election, votes).map(([candidateId, n], index) => ({
+    candidateId,
+    name: nameOf(election, candidateId),
+    votes: n,
+    elected: quorumMet && n > 0 && index < election.seats,
+  }));
+
+  return {
+    ...common,
+    totalVotes: [...votes.values()].reduce((sum, n) => sum + n, 0),
+    tallies,
+    elected: tallies.filter((t) => t.elected).map((t) => t.candidateId),
+  };
+}
+
+// Votes per candidate under plurality, approval and quadratic voting
+function countVotes(choices: BallotChoice[]): Map<string, number> {
+  const votes = new Map<string, number>();
+  const add = (candidateId: string, n: number) =>
+    votes.set(candidateId, (votes.get(candidateId) ?? 0) + n);
+
+  for (const choice of choices) {
+    switch (choice.method) {
+      case 'plurality':
+        add(choice.candidateId, 1);
+        break;
+      case 'approval':
+        choice.approvals.forEach((candidateId) => add(candidateId, 1));
+        break;
+      case 'quadratic':
+        choice.allocations.forEach((a) => add(a.candidateId, a.votes));
+        break;
+    }
+  }
+
+  return votes;
+}
+
+/**
+ * Single transferable vote with the Droop quota. Each round counts the
+ * ballots for their most preferred continuing candidate. A candidate who
+ * reaches the quota is elected and the surplus passes on at a reduced value;
+ * otherwise the candidate with the fewest votes is excluded and their
+ * ballots pass on in full. Candidates left when the continuing candidates
+ * fit in the open seats are elected, if they have votes.
+ */
+function countTransferableVotes(
+  election: ElectionDocument,
+  choices: BallotChoice[],
+): {
+  totalVotes: number;
+  quota: number;
+  tallies: CandidateTally[];
+  rounds: TallyRound[];
+  elected: string[];
+} {
+  const nominationOrder = new Map(
+    election.candidates.map((c, index) => [c.candidateId, index]),
+  );
+  const ballots = choices.flatMap((choice) =>
+    choice.method === 'ranked_choice'
+      ? [{ rankings: choice.rankings, weight: VOTE_SCALE }]
+      : [],
+  );
+  const quota =
+    (Math.floor(ballots.length / (election.seats + 1)) + 1) * VOTE_SCALE;
+
+  const continuing = new Set(nominationOrder.keys());
+  const preference = (ballot: { rankings: string[] }) =>
+    ballot.rankings.find((candidateId) => continuing.has(candidateId));
+  const lastVotes = new Map<string, number>();
+  const elected: string[] = [];
+  const rounds: TallyRound[] = [];
+
+  while (elected.length < election.seats && continuing.size > 0) {
+    const votes = new Map([...continuing].map((id) => [id, 0]));
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const candidateId = preference(ballot);
+      if (candidateId === undefined) {
+        exhausted += ballot.weight;
+      } else {
+        votes.set(candidateId, (votes.get(candidateId) ?? 0) + ballot.weight);
+      }
+    }
+
+    const standing = [...votes].sort(
+      ([a, aVotes], [b, bVotes]) =>
+        bVotes - aVotes ||
+        (nominationOrder.get(a) ?? 0) - (nominationOrder.get(b) ?? 0),
+    );
+    standing.forEach(([candidateId, n]) => lastVotes.set(candidateId, n));
+
+    const round: TallyRound = {
+      round: rounds.length + 1,
+      votes: standing.map(([candidateId, n]) => ({
+        candidateId,
+        votes: n / VOTE_SCALE,
+      })),
+      exhausted: exhausted / VOTE_SCALE,
+    };
+    rounds.push(round);
+
+    const [leader, leaderVotes] = standing[0] ?? ['', 0];
+    const openSeats = election.seats - elected.length;
+
+    if (leaderVotes >= quota) {
+      const surplus = leaderVotes - quota;
+      for (const ballot of ballots) {
+        if (preference(ballot) === leader) {
+          ballot.weight = Math.floor((ballot.weight * surplus) / leaderVotes);
+        }
+      }
+      round.elected = leader;
+      round.transferValue = Math.floor((surplus / leaderVotes) * 10000) / 10000;
+      elected.push(leader);
+      continuing.delete(leader);
+    } else if (continuing.size <= openSeats) {
+      if (leaderVotes === 0) break;
+      round.elected = leader;
+      elected.push(leader);
+      continuing.delete(leader);
+    } else {
+      // The fewest votes, and of those the latest nomination
+      const [lowest] = standing[standing.length - 1] ?? [''];
+      round.excluded = lowest;
+      continuing.delete(lowest);
+    }
+  }
+
+  const others = byVotes(election, lastVotes).filter(
+    ([candidateId]) => !elected.includes(candidateId),
+  );
+  const tallies = [
+    ...elected.map((id) => [id, lastVotes.get(id) ?? 0] as const),
+    ...others,
+  ].map(([candidateId, n]) => ({
+    candidateId,
+    name: nameOf(election, candidateId),
+    votes: n / VOTE_SCALE,
+    elected: elected.includes(candidateId),
+  }));
+
+  return {
+    totalVotes: ballots.length,
+    quota: quota / VOTE_SCALE,
+    tallies,
+    rounds,
+    elected,
+  };
+}
+
+// Every candidate with their votes, most first, then by nomination
+function byVotes(
+  election: ElectionDocument,
+  votes: Map<string, number>,
+): [string, number][] {
+  return election.candidates
+    .map((candidate): [string, number] => [
+      candidate.candidateId,
+      votes.get(candidate.candidateId) ?? 0,
+    ])
+    .sort(([, a], [, b]) => b - a);
+}
+
+function nameOf(election: ElectionDocument, candidateId: string): string {
+  return (
+    election.candidates.find((c) => c.candidateId === candidateId)?.name ?? ''
+  );
+}
+
+function chosenCandidates(choice: BallotChoice): [string, string[]] {
+  switch (choice.method) {
+    case 'plurality':
+      return ['candidateId', [choice.candidateId]];
+    case 'ranked_choice':
+      return ['rankings', choice.rankings];
+    case 'approval':
+      return ['approvals', choice.approvals];
+    case 'quadratic':
+      return [
+        'allocations',
+        choice.allocations.map((allocation) => allocation.candidateId),
+      ];
+  }
+}
@@ -1,18 +1,61 @@
+import { randomUUID } from 'crypto';
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { ESEPFilter } from '../filters/ESEPFilter';
-import { CEDAFilter } from '../filters/CEDAFilter';
-import { NarrativeForensics } from '../filters/NarrativeForensics';
-import { DatabaseService } from '../services/DatabaseService';
-import { IPFSService } from '../services/IPFSService';
-import { BlockchainService } from '../services/BlockchainService';
+import {
+  GRCDocument,
+  formatDiagnostic,
+  hasErrors,
+  parseGRC,
+  toRitualDraft,
+  validateGRC,
+} from 'grc-grammar';
+import { AppropriationResult } from '../filters/AppropriationFilter';
+import { CEDAResult } from '../filters/CEDAFilter';
+import { createDefaultFilterRegistry } from '../filters/FilterRegistry';
+import { getSupportedLanguages } from '../filters/lexicon';
+import {
+  SubmissionMetadata,
+  ValidationReport,
+  getFilterDetails,
+} from '../filters/ValidationFilter';
+import { AuthorSignature } from '../auth/provenance';
+import { RelayAuthorization } from '../auth/relay';
+import { locationJsonSchema, locationSchema, toGeoPoint } from '../geo/geojson';
+import { requirePermission } from '../middleware/permissions';
+import { requireWallet, signedInWallet } from '../middleware/walletAuth';
+import {
+  TriageOutcome,
+  loadReviewSettings,
+  triageForReview,
+} from '../policy/reviewTriage';
+import { PolicyDecision, ValidationPolicy } from '../policy/ValidationPolicy';
+import { BioregionDocument, JobDocument } from '../services/DatabaseService';
+import { IPFSMetadata } from '../services/IPFSService';
+import { RitualSubmissionData } from '../services/BlockchainService';
+import { JobQueue } from '../services/JobQueue';
+import { ProvenanceService } from '../services/ProvenanceService';
+import { RelayService } from '../services/RelayService';
+import { ReviewService } from '../services/ReviewService';
+import { Saga } from '../services/Saga';
 
 // Validation schemas
+const authorizationSchema = z.object({
+  nonce: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Must be 32 hex bytes'),
+  deadline: z.number().int().positive(), // Unix seconds
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{130}$/, 'Must be a 65-byte hex signature'),
+});
+
 const ritualSubmissionSchema = z.object({
   name: z.string().min(1, 'Ritual name is required').max(100, 'Name too long'),
-  bioregionId: z.enum(['tech-haven', 'mythic-forest', 'isolated-bastion'], {
-    errorMap: () => ({ message: 'Invalid bioregion selection' }),
-  }),
+  // Checked against the bioregion registry once parsed
+  bioregionId: z
+    .string()
+    .min(1, 'Bioregion is required')
+    .max(64, 'Invalid bioregion selection'),
+  // Checked against the bioregion boundary, if it has one
+  location: locationSchema.optional(),
   description: z
     .string()
     .min(10, 'Description must be at least 10 characters')
@@ -21,68 +64,444 @@ const ritualSubmissionSchema = z.object({
     .string()
     .min(20, 'Cultural context must be at least 20 characters')
     .max(1000, 'Cultural context too long'),
+  culturalTradition: z
+    .string()
+    .max(100, 'Cultural tradition too long')
+    .optional(),
   content: z
     .string()
     .min(100, 'Ritual content must be at least 100 characters')
     .max(10000, 'Content too long'),
-  author: z
-    .string()
-    .min(1, 'Author name is required')
-    .max(100, 'Author name too long'),
   culturalReferences: z.array(z.string()).optional(),
+  language: z
+    .string()
+    .refine((code) => getSupportedLanguages().includes(code), {
+      message: 'Unsupported language',
+    })
+    .optional(),
   permissions: z
     .object({
       culturalConsultation: z.boolean().default(false),
       communityApproval: z.boolean().default(false),
       expertReview: z.boolean().default(false),
     })
-    .optional(),
+    .default({}),
+  // EIP-712 signature of the author over the name, bioregion, content hash
+  // and signing time of the ritual
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{130}$/, 'Must be a 65-byte hex signature'),
+  signedAt: z.number().int().positive(), // Unix seconds, as signed
+  // Authorization of the author for the backend to log the ritual on chain
+  // on their behalf, signed for GRC_RitualSubmission
+  authorization: authorizationSchema,
 });
 
 const ritualFileSchema = z.object({
   file: z.object({
     filename: z.string().endsWith('.grc', 'File must be a .grc file'),
-    mimetype: z.string().includes('text/', 'File must be a text file'),
+    mimetype: z
+      .string()
+      .includes('text/', { message: 'File must be a text file' }),
     data: z.instanceof(Buffer),
   }),
 });
 
+// Form fields sent with a .grc file, before or after it; numbers arrive as text
+const ritualFileFieldsSchema = z.object({
+  signature: ritualSubmissionSchema.shape.signature,
+  signedAt: z.coerce.number().int().positive(),
+  nonce: authorizationSchema.shape.nonce,
+  deadline: z.coerce.number().int().positive(),
+  authorizationSignature: authorizationSchema.shape.signature,
+});
+
+const diagnosticSchema = {
+  type: 'object',
+  properties: {
+    severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+    code: { type: 'string' },
+    line: { type: 'number' },
+    column: { type: 'number' },
+    message: { type: 'string' },
+    suggestion: { type: 'string' },
+  },
+};
+
+const filterRunSchema = {
+  type: 'object',
+  properties: {
+    filterId: { type: 'string' },
+    filterName: { type: 'string' },
+    status: { type: 'string', enum: ['completed', 'timeout', 'error'] },
+    score: { type: ['number', 'null'] },
+    feedback: { type: 'array', items: { type: 'string' } },
+    durationMs: { type: 'number' },
+    error: { type: 'string' },
+  },
+};
+
+const permissionsSchema = {
+  type: 'object',
+  properties: {
+    culturalConsultation: { type: 'boolean', default: false },
+    communityApproval: { type: 'boolean', default: false },
+    expertReview: { type: 'boolean', default: false },
+  },
+};
+
+const languageSchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string' },
+    name: { type: 'string' },
+    detected: { type: 'boolean' },
+    confidence: { type: 'number' },
+  },
+};
+
+const annotationSchema = {
+  type: 'object',
+  properties: {
+    filterId: { type: 'string' },
+    start: { type: 'number' },
+    end: { type: 'number' },
+    text: { type: 'string' },
+    kind: { type: 'string' },
+    label: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const jobSchema = {
+  type: 'object',
+  properties: {
+    jobId: { type: 'string' },
+    status: {
+      type: 'string',
+      enum: ['queued', 'running', 'completed', 'failed'],
+    },
+    stages: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: [
+          'validated',
+          'queued_for_review',
+          'reserved',
+          'pinned',
+          'anchored',
+          'indexed',
+        ],
+      },
+    },
+    compensated: { type: 'array', items: { type: 'string' } },
+    compensationFailures: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          stage: { type: 'string' },
+          error: { type: 'string' },
+        },
+      },
+    },
+    attempts: { type: 'number' },
+    maxAttempts: { type: 'number' },
+    error: { type: 'string' },
+    outcome: {
+      type: 'string',
+      enum: ['approved', 'rejected', 'pending_review'],
+    },
+    ritualId: { type: 'string' },
+    reviewId: { type: 'string' },
+    reviewReasons: { type: 'array', items: { type: 'string' } },
+    ipfsHash: { type: 'string' },
+    transactionHash: { type: 'string' },
+    anchorStatus: { type: 'string', enum: ['pending', 'anchored'] },
+    validation: {
+      type: 'object',
+      properties: {
+        esepScore: { type: 'number' },
+        cedaScore: { type: 'number' },
+        narrativeScore: { type: 'number' },
+        policyScore: { type: 'number' },
+        isApproved: { type: 'boolean' },
+        policyVersion: { type: 'string' },
+        language: { type: 'string' },
+        appropriationRisk: { type: 'string' },
+        requiredReviews: { type: 'array', items: { type: 'string' } },
+        feedback: { type: 'array', items: { type: 'string' } },
+        culturalReferences: { type: 'array', items: { type: 'string' } },
+        validationTimestamp: { type: 'string' },
+      },
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
 type RitualSubmissionRequest = z.infer<typeof ritualSubmissionSchema>;
-type RitualFileRequest = z.infer<typeof ritualFileSchema>;
+
+// Queued submission; the author is the wallet signed in to submit it
+type RitualSubmissionPayload = Omit<
+  RitualSubmissionRequest,
+  'signature' | 'signedAt' | 'authorization'
+> & {
+  author: string;
+  authorSignature?: AuthorSignature | undefined; // Absent on jobs queued before signed submissions
+  authorization?: RelayAuthorization | undefined; // Absent on jobs queued before relayed authorship
+};
+
+// Body of /validate and /explain
+interface ValidationRequest extends SubmissionMetadata {
+  content: string;
+  bioregionId: string;
+  language?: string;
+}
 
 interface ValidationResult {
   esepScore: number;
   cedaScore: number;
   narrativeScore: number;
+  policyScore: number;
   isApproved: boolean;
+  policyVersion: string;
+  language: string; // Code of the lexicon the filters used
+  appropriationRisk: string; // none, low, medium or high
+  requiredReviews: string[]; // Permissions to obtain for the cultural elements used
   feedback: string[];
   culturalReferences: string[];
   validationTimestamp: string;
 }
 
-interface RitualSubmissionResponse {
+interface SubmissionAcceptedResponse {
   success: boolean;
-  ritualId: string;
-  ipfsHash: string;
-  transactionHash?: string | undefined;
-  validation: ValidationResult;
+  jobId: string;
+  status: string;
+  statusUrl: string;
+  eventsUrl: string;
   message: string;
 }
 
+// Output of the submission stages, stored on the job as they complete
+interface SubmissionJobResult {
+  ritualId: string; // Reserved when the job is queued
+  outcome?: TriageOutcome | undefined;
+  validation?: ValidationResult | undefined;
+  reviewReasons?: string[] | undefined;
+  reviewId?: string | undefined;
+  ipfsHash?: string | undefined;
+  transactionHash?: string | undefined;
+  anchorStatus?: 'pending' | 'anchored' | undefined;
+  anchoringJobId?: string | undefined; // Job that resumes deferred anchoring
+}
+
+type SubmissionJob = JobDocument<RitualSubmissionPayload, SubmissionJobResult>;
+
 export default async function submitRitualRoutes(fastify: FastifyInstance) {
-  const esepFilter = new ESEPFilter();
-  const cedaFilter = new CEDAFilter();
-  const narrativeForensics = new NarrativeForensics();
-  const dbService = new DatabaseService();
-  const ipfsService = new IPFSService();
-  const blockchainService = new BlockchainService();
-
-  // POST /api/v1/rituals/submit - Submit ritual via JSON
+  const filterRegistry = createDefaultFilterRegistry(fastify.log);
+  const validationPolicy = ValidationPolicy.load();
+  const dbService = fastify.db;
+  const ipfsService = fastify.ipfs;
+  const blockchainService = fastify.blockchain;
+  const provenanceService = new ProvenanceService(dbService, ipfsService);
+  const relayService = new RelayService(dbService);
+  const reviewService = new ReviewService(
+    dbService,
+    ipfsService,
+    fastify.anchoring,
+  );
+  const reviewSettings = loadReviewSettings();
+
+  /**
+   * Submission saga: validated (filters, policy and review triage), reserved
+   * (ritual stored as processing), pinned (metadata on IPFS), anchored
+   * (logged on chain) and indexed (ritual stored with its hashes). Rejected
+   * rituals stop after validation; rituals sent to review are stored as
+   * pending and queued_for_review instead, and published once a reviewer
+   * decides.
+   *
+   * Anchoring is the pivot. If pinning fails for good, the reservation is
+   * undone; once anchoring was attempted for good, indexing is retried until
+   * the database agrees with the chain. Anchoring that keeps failing does not
+   * hold the ritual back: it is indexed as pending anchoring and the anchoring
+   * queue resumes it.
+   */
+  const submissionSaga = new Saga<RitualSubmissionPayload, SubmissionJobResult>(
+    [
+      {
+        name: 'validated',
+        run: async ({ payload }) => {
+          const report = await filterRegistry.run(
+            payload.content,
+            payload.bioregionId,
+            {
+              language: payload.language,
+              submission: {
+                culturalContext: payload.culturalContext,
+                culturalTradition: payload.culturalTradition,
+                permissions: payload.permissions,
+              },
+            },
+          );
+          const decision = validationPolicy.evaluate(report);
+          const triage = triageForReview(report, decision, reviewSettings);
+
+          if (triage.outcome === 'rejected') {
+            fastify.log.warn(
+              {
+                bioregionId: payload.bioregionId,
+                policyVersion: decision.policyVersion,
+              },
+              'Ritual validation failed',
+            );
+          }
+
+          return {
+            outcome: triage.outcome,
+            validation: buildValidationResult(report, decision),
+            reviewReasons: triage.reasons,
+          };
+        },
+      },
+      {
+        // Borderline and culturally sensitive rituals wait for an expert
+        name: 'queued_for_review',
+        when: ({ result }) => result.outcome === 'pending_review',
+        run: async ({ job, payload, result }) => {
+          const { reviewId } = await reviewService.enqueue(
+            toRitualMetadata(payload, result, job.createdAt),
+            result.reviewReasons ?? [],
+            result.ritualId,
+            payload.authorization,
+          );
+          fastify.log.info(
+            { jobId: job.jobId, ritualId: result.ritualId, reviewId },
+            'Ritual queued for expert review',
+          );
+          return { reviewId };
+        },
+      },
+      {
+        name: 'reserved',
+        when: ({ result }) => result.outcome === 'approved',
+        run: async ({ job, payload, result }) => {
+          if (!(await dbService.getRitualById(result.ritualId))) {
+            await dbService.createRitual({
+              ...toRitualMetadata(payload, result, job.createdAt),
+              ritualId: result.ritualId,
+              status: 'processing',
+            });
+          }
+        },
+        compensate: async ({ result }) => {
+          await dbService.deleteRitual(result.ritualId);
+        },
+      },
+      {
+        name: 'pinned',
+        when: ({ result }) => result.outcome === 'approved',
+        run: async ({ job, payload, result }) => ({
+          ipfsHash: await ipfsService.storeMetadata(
+            toRitualMetadata(payload, result, job.createdAt),
+          ),
+        }),
+        compensate: async ({ result }) => {
+          if (result.ipfsHash) {
+            await ipfsService.unpinContent(result.ipfsHash);
+          }
+        },
+      },
+      {
+        name: 'anchored',
+        when: ({ result }) => result.outcome === 'approved',
+        pivot: true,
+        run: async ({ job, payload, result, isLastAttempt }) => {
+          try {
+            const transactionHash = await blockchainService.logRitualSubmission(
+              toAnchoringData(payload, result),
+            );
+            return { transactionHash, anchorStatus: 'anchored' };
+          } catch (blockchainError) {
+            if (!isLastAttempt) throw blockchainError;
+
+            fastify.log.error(
+              {
+                jobId: job.jobId,
+                ritualId: result.ritualId,
+                error: blockchainError,
+              },
+              'Blockchain logging failed, deferring anchoring',
+            );
+            return { anchorStatus: 'pending' };
+          }
+        },
+      },
+      {
+        name: 'indexed',
+        when: ({ result }) => result.outcome === 'approved',
+        run: async ({ job, payload, result }) => {
+          await dbService.updateRitual(result.ritualId, {
+            status: 'approved',
+            ipfsHash: result.ipfsHash,
+            transactionHash: result.transactionHash,
+            anchorStatus: result.anchorStatus,
+          });
+
+          // Queued only once the ritual records the pending anchoring, so
+          // the anchoring job cannot be overwritten by this step
+          let { anchoringJobId } = result;
+          if (result.anchorStatus === 'pending' && !anchoringJobId) {
+            anchoringJobId = await fastify.anchoring.defer(
+              result.ritualId,
+              toAnchoringData(payload, result),
+            );
+          }
+
+          fastify.log.info(
+            {
+              jobId: job.jobId,
+              ritualId: result.ritualId,
+              ipfsHash: result.ipfsHash,
+              transactionHash: result.transactionHash,
+            },
+            'Ritual submission successful',
+          );
+          return { anchoringJobId };
+        },
+      },
+    ],
+  );
+
+  const submissionQueue = new JobQueue(
+    dbService,
+    'ritual-submission',
+    submissionSaga.run,
+    JobQueue.optionsFromEnv(),
+  );
+  submissionQueue.start();
+  fastify.addHook('onClose', async () => {
+    await submissionQueue.stop();
+  });
+
+  // POST /api/v1/rituals/submit - Submit ritual via JSON, as the signed-in wallet
   fastify.post<{ Body: RitualSubmissionRequest }>(
     '/submit',
     {
+      onRequest: requireWallet(),
+      preHandler: requirePermission('rituals:submit'),
       schema: {
-        description: 'Submit a ritual for validation and storage',
+        description:
+          'Submit a ritual for validation and storage; the signed-in wallet is its author and must have signed it',
         tags: ['rituals'],
         body: {
           type: 'object',
@@ -92,56 +511,50 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
             'description',
             'culturalContext',
             'content',
-            'author',
+            'signature',
+            'signedAt',
+            'authorization',
           ],
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 100 },
-            bioregionId: {
-              type: 'string',
-              enum: ['tech-haven', 'mythic-forest', 'isolated-bastion'],
-            },
+            bioregionId: { type: 'string', minLength: 1, maxLength: 64 },
+            location: locationJsonSchema,
             description: { type: 'string', minLength: 10, maxLength: 500 },
             culturalContext: { type: 'string', minLength: 20, maxLength: 1000 },
+            culturalTradition: { type: 'string', maxLength: 100 },
             content: { type: 'string', minLength: 100, maxLength: 10000 },
-            author: { type: 'string', minLength: 1, maxLength: 100 },
             culturalReferences: {
               type: 'array',
               items: { type: 'string' },
               default: [],
             },
-            permissions: {
+            language: { type: 'string', enum: getSupportedLanguages() },
+            permissions: permissionsSchema,
+            signature: { type: 'string', pattern: '^0x[a-fA-F0-9]{130}$' },
+            signedAt: { type: 'integer', minimum: 1 },
+            authorization: {
               type: 'object',
+              required: ['nonce', 'deadline', 'signature'],
               properties: {
-                culturalConsultation: { type: 'boolean', default: false },
-                communityApproval: { type: 'boolean', default: false },
-                expertReview: { type: 'boolean', default: false },
+                nonce: { type: 'string', pattern: '^0x[a-fA-F0-9]{64}$' },
+                deadline: { type: 'integer', minimum: 1 },
+                signature: {
+                  type: 'string',
+                  pattern: '^0x[a-fA-F0-9]{130}$',
+                },
               },
             },
           },
         },
         response: {
-          200: {
+          202: {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              ritualId: { type: 'string' },
-              ipfsHash: { type: 'string' },
-              transactionHash: { type: 'string' },
-              validation: {
-                type: 'object',
-                properties: {
-                  esepScore: { type: 'number' },
-                  cedaScore: { type: 'number' },
-                  narrativeScore: { type: 'number' },
-                  isApproved: { type: 'boolean' },
-                  feedback: { type: 'array', items: { type: 'string' } },
-                  culturalReferences: {
-                    type: 'array',
-                    items: { type: 'string' },
-                  },
-                  validationTimestamp: { type: 'string' },
-                },
-              },
+              jobId: { type: 'string' },
+              status: { type: 'string' },
+              statusUrl: { type: 'string' },
+              eventsUrl: { type: 'string' },
               message: { type: 'string' },
             },
           },
@@ -153,150 +566,239 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
               details: { type: 'array', items: { type: 'string' } },
             },
           },
-          422: {
-            type: 'object',
-            properties: {
-              success: { type: 'boolean' },
-              error: { type: 'string' },
-              validation: {
-                type: 'object',
-                properties: {
-                  esepScore: { type: 'number' },
-                  cedaScore: { type: 'number' },
-                  narrativeScore: { type: 'number' },
-                  feedback: { type: 'array', items: { type: 'string' } },
-                },
-              },
-            },
-          },
         },
       },
     },
     async (
       request: FastifyRequest<{ Body: RitualSubmissionRequest }>,
       reply: FastifyReply,
-    ): Promise<RitualSubmissionResponse> => {
+    ): Promise<SubmissionAcceptedResponse> => {
       try {
         // Validate request body
         const validatedData = ritualSubmissionSchema.parse(request.body);
 
-        // Log submission attempt
-        fastify.log.info('Ritual submission attempt', {
-          bioregionId: validatedData.bioregionId,
-          author: validatedData.author,
-          contentLength: validatedData.content.length,
-        });
-
-        // Run AI validation filters
-        const [esepResult, cedaResult, narrativeResult] = await Promise.all([
-          esepFilter.validate(validatedData.content),
-          cedaFilter.validate(validatedData.content),
-          narrativeForensics.analyzeNarrative(validatedData.content),
-        ]);
-
-        // Combine validation results
-        const validation: ValidationResult = {
-          esepScore: esepResult.score,
-          cedaScore: cedaResult.culturalReferences.length,
-          narrativeScore: narrativeResult.overallScore,
-          isApproved:
-            esepResult.score <= 0.7 &&
-            cedaResult.culturalReferences.length >= 2 &&
-            narrativeResult.overallScore >= 0.6,
-          feedback: [
-            ...esepResult.feedback,
-            ...cedaResult.feedback,
-            ...narrativeResult.feedback,
-          ],
-          culturalReferences: cedaResult.culturalReferences.map(
-            (ref) => ref.content,
-          ),
-          validationTimestamp: new Date().toISOString(),
-        };
+        const bioregion = await dbService.getBioregionById(
+          validatedData.bioregionId,
+        );
+        if (!bioregion?.isActive) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: ['bioregionId: Invalid bioregion selection'],
+          });
+        }
 
-        // Check if ritual meets approval criteria
-        if (!validation.isApproved) {
-          fastify.log.warn('Ritual validation failed', {
-            esepScore: validation.esepScore,
-            cedaScore: validation.cedaScore,
-            narrativeScore: validation.narrativeScore,
+        if (
+          validatedData.location &&
+          bioregion.boundary &&
+          !(await dbService.isPointInBioregion(
+            bioregion.bioregionId,
+            toGeoPoint(validatedData.location),
+          ))
+        ) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: [`location: Location is outside ${bioregion.name}`],
           });
+        }
 
-          return reply.status(422).send({
+        // The author signs the ritual before it is pinned under their name
+        const author = signedInWallet(request);
+        const { signature, signedAt, authorization, ...ritual } = validatedData;
+        const signatureCheck = provenanceService.checkSubmission(
+          { ...ritual, author },
+          signature,
+          signedAt,
+        );
+        if ('errors' in signatureCheck) {
+          return reply.status(400).send({
             success: false,
-            error: 'Ritual validation failed',
-            validation: {
-              esepScore: validation.esepScore,
-              cedaScore: validation.cedaScore,
-              narrativeScore: validation.narrativeScore,
-              feedback: validation.feedback,
-            },
+            error: 'Invalid author signature',
+            details: signatureCheck.errors,
           });
         }
 
-        // Create ritual metadata
-        const ritualMetadata = {
-          name: validatedData.name,
-          bioregionId: validatedData.bioregionId,
-          description: validatedData.description,
-          culturalContext: validatedData.culturalContext,
-          content: validatedData.content,
-          author: validatedData.author,
-          culturalReferences: validatedData.culturalReferences || [],
-          permissions: validatedData.permissions || {},
-          validation,
-          submittedAt: new Date().toISOString(),
-          version: '1.0',
-        };
+        // The author consents to being logged as such on chain; the
+        // nonce of the authorization is reserved for this submission
+        const relay = await relayService.authorize(
+          { ...ritual, author },
+          authorization,
+        );
+        if ('errors' in relay) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Invalid authorization',
+            details: relay.errors,
+          });
+        }
 
-        // Store metadata on IPFS
-        const ipfsHash = await ipfsService.storeMetadata(ritualMetadata);
-        fastify.log.info('Ritual metadata stored on IPFS', { ipfsHash });
+        // Validation, storage and anchoring run in the submission queue
+        const job = await submissionQueue.enqueue(
+          {
+            ...ritual,
+            author,
+            authorSignature: signatureCheck.authorSignature,
+            authorization: relay.authorization,
+          },
+          { ritualId: randomUUID() },
+        );
 
-        // Log transaction on blockchain
-        let transactionHash: string | undefined;
-        try {
-          transactionHash = await blockchainService.logRitualSubmission({
-            ipfsHash,
+        fastify.log.info(
+          {
+            jobId: job.jobId,
             bioregionId: validatedData.bioregionId,
-            author: validatedData.author,
-            esepScore: validation.esepScore,
-            cedaScore: validation.cedaScore,
-            narrativeScore: validation.narrativeScore,
-            isApproved: validation.isApproved,
-          });
-          fastify.log.info('Ritual logged on blockchain', { transactionHash });
-        } catch (blockchainError) {
-          fastify.log.error('Blockchain logging failed', {
-            error: blockchainError,
+            author,
+            contentLength: validatedData.content.length,
+          },
+          'Ritual submission queued',
+        );
+
+        return reply.status(202).send({
+          success: true,
+          jobId: job.jobId,
+          status: job.status,
+          statusUrl: `/api/v1/rituals/jobs/${job.jobId}`,
+          eventsUrl: `/api/v1/rituals/jobs/${job.jobId}/events`,
+          message: 'Ritual submission accepted for processing',
+        });
+      } catch (error) {
+        fastify.log.error({ error }, 'Ritual submission error');
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: error.errors.map(
+              (e) => `${e.path.join('.')}: ${e.message}`,
+            ),
           });
-          // Continue without blockchain logging - IPFS storage is sufficient
         }
 
-        // Store in database
-        const ritualId = await dbService.createRitual({
-          ...ritualMetadata,
-          ipfsHash,
-          transactionHash,
-          status: 'approved',
+        return reply.status(500).send({
+          success: false,
+          error: 'Internal server error',
+          details: ['An unexpected error occurred while processing the ritual'],
         });
+      }
+    },
+  );
 
-        fastify.log.info('Ritual submission successful', {
-          ritualId,
-          ipfsHash,
-          transactionHash,
+  // POST /api/v1/rituals/:id/authorization - New authorization from the
+  // author of a ritual whose anchoring failed, to log it on chain again
+  fastify.post<{ Params: { id: string } }>(
+    '/:id/authorization',
+    {
+      onRequest: requireWallet(),
+      preHandler: requirePermission('rituals:submit'),
+      schema: {
+        description:
+          'Sign a new authorization for a ritual whose authorization expired or was used before it was logged on chain',
+        tags: ['rituals'],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        body: {
+          type: 'object',
+          required: ['nonce', 'deadline', 'signature'],
+          properties: {
+            nonce: { type: 'string', pattern: '^0x[a-fA-F0-9]{64}$' },
+            deadline: { type: 'integer', minimum: 1 },
+            signature: { type: 'string', pattern: '^0x[a-fA-F0-9]{130}$' },
+          },
+        },
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              anchorStatus: { type: 'string' },
+              message: { type: 'string' },
+            },
+          },
+          400: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const signed = authorizationSchema.parse(request.body);
+        const ritual = await dbService.getRitualById(request.params.id);
+        if (!ritual) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Ritual not found',
+            details: [`No ritual found with ID: ${request.params.id}`],
+          });
+        }
+
+        const author = signedInWallet(request);
+        if (ritual.author?.toLowerCase() !== author.toLowerCase()) {
+          return reply.status(403).send({
+            success: false,
+            error: 'Not the author of the ritual',
+            details: ['Only the author can authorize logging their ritual'],
+          });
+        }
+
+        if (ritual.anchorStatus !== 'failed' || !ritual.ipfsHash) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Ritual does not need a new authorization',
+            details: [`Anchoring is ${ritual.anchorStatus ?? 'not deferred'}`],
+          });
+        }
+
+        // The authorization covers the content as pinned
+        const metadata = await ipfsService.retrieveMetadata(ritual.ipfsHash);
+        const relay = await relayService.authorize(
+          {
+            author: metadata.author,
+            bioregionId: metadata.bioregionId,
+            content: metadata.content,
+          },
+          signed,
+        );
+        if ('errors' in relay) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Invalid authorization',
+            details: relay.errors,
+          });
+        }
+
+        if (!(await dbService.reopenRitualAnchoring(ritual.ritualId))) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Ritual does not need a new authorization',
+            details: ['Anchoring was already resumed'],
+          });
+        }
+        await fastify.anchoring.defer(ritual.ritualId, {
+          ipfsHash: ritual.ipfsHash,
+          bioregionId: metadata.bioregionId,
+          author: metadata.author,
+          esepScore: metadata.validation.esepScore,
+          cedaScore: metadata.validation.cedaScore,
+          narrativeScore: metadata.validation.narrativeScore,
+          isApproved: metadata.validation.isApproved,
+          authorization: relay.authorization,
         });
 
-        return {
+        return reply.status(202).send({
           success: true,
-          ritualId,
-          ipfsHash,
-          transactionHash,
-          validation,
-          message: 'Ritual submitted successfully and approved',
-        };
+          anchorStatus: 'pending',
+          message: 'Ritual queued to be logged on chain',
+        });
       } catch (error) {
-        fastify.log.error('Ritual submission error', { error });
+        fastify.log.error({ error }, 'Ritual authorization error');
 
         if (error instanceof z.ZodError) {
           return reply.status(400).send({
@@ -311,70 +813,200 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
         return reply.status(500).send({
           success: false,
           error: 'Internal server error',
-          details: ['An unexpected error occurred while processing the ritual'],
+          details: ['Failed to authorize the ritual'],
         });
       }
     },
   );
 
-  // POST /api/v1/rituals/submit/file - Submit ritual via .grc file upload
-  fastify.post<{ Body: RitualFileRequest }>(
-    '/submit/file',
+  // GET /api/v1/rituals/jobs/:id - Status of a submission job
+  fastify.get<{ Params: { id: string } }>(
+    '/jobs/:id',
     {
       schema: {
-        description: 'Submit a ritual via .grc file upload',
+        description: 'Get the status of a ritual submission job',
         tags: ['rituals'],
-        consumes: ['multipart/form-data'],
-        body: {
+        params: {
           type: 'object',
           properties: {
-            file: {
-              type: 'object',
-              properties: {
-                filename: { type: 'string' },
-                mimetype: { type: 'string' },
-                data: { type: 'string', format: 'binary' },
-              },
-            },
+            id: { type: 'string' },
           },
+          required: ['id'],
         },
         response: {
           200: {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
-              ritualId: { type: 'string' },
-              ipfsHash: { type: 'string' },
-              transactionHash: { type: 'string' },
-              validation: {
-                type: 'object',
-                properties: {
-                  esepScore: { type: 'number' },
-                  cedaScore: { type: 'number' },
-                  narrativeScore: { type: 'number' },
-                  isApproved: { type: 'boolean' },
-                  feedback: { type: 'array', items: { type: 'string' } },
-                  culturalReferences: {
-                    type: 'array',
-                    items: { type: 'string' },
-                  },
-                  validationTimestamp: { type: 'string' },
-                },
-              },
+              job: jobSchema,
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              details: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const job = await submissionQueue.getJob(request.params.id);
+        if (!job) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Job not found',
+            details: [`No submission job found with ID: ${request.params.id}`],
+          });
+        }
+
+        return reply.send({ success: true, job: toJobResponse(job) });
+      } catch (error) {
+        fastify.log.error({ error }, 'Job status error');
+        return reply.status(500).send({
+          success: false,
+          error: 'Internal server error',
+          details: ['Failed to fetch submission job'],
+        });
+      }
+    },
+  );
+
+  // GET /api/v1/rituals/jobs/:id/events - Server-sent progress of a job
+  fastify.get<{ Params: { id: string } }>(
+    '/jobs/:id/events',
+    {
+      schema: {
+        description:
+          'Stream the progress of a ritual submission job as server-sent events',
+        tags: ['rituals'],
+        produces: ['text/event-stream'],
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+      },
+    },
+    async (request, reply) => {
+      let streaming = false;
+      let lastProgress = -1;
+      const missed: SubmissionJob[] = [];
+
+      // One "progress" event per change; the stream ends with the job
+      const send = (update: SubmissionJob): void => {
+        if (!streaming || (update.progress ?? 0) <= lastProgress) return;
+        lastProgress = update.progress ?? 0;
+
+        reply.raw.write(
+          `event: progress\ndata: ${JSON.stringify(toJobResponse(update))}\n\n`,
+        );
+        if (update.status === 'completed' || update.status === 'failed') {
+          streaming = false;
+          unsubscribe();
+          reply.raw.end();
+        }
+      };
+
+      // Listen before reading the job, so no change falls in between
+      const unsubscribe = submissionQueue.subscribe(
+        request.params.id,
+        (update) => (streaming ? send(update) : missed.push(update)),
+      );
+
+      let job: SubmissionJob | null;
+      try {
+        job = await submissionQueue.getJob(request.params.id);
+      } catch (error) {
+        unsubscribe();
+        throw error;
+      }
+      if (!job) {
+        unsubscribe();
+        return reply.status(404).send({
+          success: false,
+          error: 'Job not found',
+          details: [`No submission job found with ID: ${request.params.id}`],
+        });
+      }
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+
+      // The job as read, then what changed since, skipping what it already shows
+      streaming = true;
+      request.raw.on('close', unsubscribe);
+      for (const update of [job, ...missed]) {
+        send(update);
+      }
+    },
+  );
+
+  // POST /api/v1/rituals/submit/file - Submit ritual via .grc file upload
+  fastify.post(
+    '/submit/file',
+    {
+      onRequest: requireWallet(),
+      preHandler: requirePermission('rituals:submit'),
+      schema: {
+        description:
+          'Submit a ritual via .grc file upload, as multipart form data: the file, and the fields signature, signedAt, nonce, deadline and authorizationSignature with the signature and authorization of the author over the ritual it describes',
+        tags: ['rituals'],
+        consumes: ['multipart/form-data'],
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              jobId: { type: 'string' },
+              status: { type: 'string' },
+              statusUrl: { type: 'string' },
+              eventsUrl: { type: 'string' },
               message: { type: 'string' },
             },
           },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: { type: 'string' },
+              details: { type: 'array', items: { type: 'string' } },
+              diagnostics: { type: 'array', items: diagnosticSchema },
+            },
+          },
         },
       },
     },
     async (
-      request: FastifyRequest<{ Body: RitualFileRequest }>,
+      request: FastifyRequest,
       reply: FastifyReply,
-    ): Promise<RitualSubmissionResponse> => {
+    ): Promise<SubmissionAcceptedResponse> => {
       try {
-        // Parse uploaded file
-        const data = await request.file();
-        if (!data) {
+        // The fields may come before or after the file, so every part is read
+        let file: { filename: string; mimetype: string; data: Buffer } | null =
+          null;
+        const fields: Record<string, unknown> = {};
+        for await (const part of request.parts()) {
+          if (part.type === 'file') {
+            file = {
+              filename: part.filename,
+              mimetype: part.mimetype,
+              data: await part.toBuffer(),
+            };
+          } else {
+            fields[part.fieldname] = part.value;
+          }
+        }
+        if (!file) {
           return reply.status(400).send({
             success: false,
             error: 'No file uploaded',
@@ -382,27 +1014,59 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Validate file
-        const validatedFile = ritualFileSchema.parse({ file: data });
+        // Validate file and fields
+        const validatedFile = ritualFileSchema.parse({ file });
+        const signed = ritualFileFieldsSchema.parse(fields);
 
-        // Parse .grc file content
+        // Parse .grc file content and report problems by line and column
         const fileContent = validatedFile.file.data.toString('utf-8');
-        const parsedRitual = parseGRCFile(fileContent);
+        const document = parseGRC(fileContent);
+        // The header may name a bioregion or give its ID
+        const bioregions = await dbService.getAllBioregions();
+        const diagnostics = validateGRC(document, {
+          bioregions: bioregions.flatMap((bioregion) => [
+            bioregion.name,
+            bioregion.bioregionId,
+          ]),
+        });
 
-        // Process as regular ritual submission
-        const submissionRequest: RitualSubmissionRequest = {
-          ...parsedRitual,
-          culturalReferences: parsedRitual.culturalReferences || [],
-        };
+        if (hasErrors(diagnostics)) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Invalid .grc file',
+            details: diagnostics
+              .filter((diagnostic) => diagnostic.severity === 'error')
+              .map(formatDiagnostic),
+            diagnostics,
+          });
+        }
+
+        const parsedRitual = ritualFromGRC(document, bioregions);
+
+        // Process as regular ritual submission; the author signature and
+        // authorization come in form fields sent along with the file
+        const submissionRequest: RitualSubmissionRequest =
+          ritualSubmissionSchema.parse({
+            ...parsedRitual,
+            signature: signed.signature,
+            signedAt: signed.signedAt,
+            authorization: {
+              nonce: signed.nonce,
+              deadline: signed.deadline,
+              signature: signed.authorizationSignature,
+            },
+          });
 
-        // Reuse the main submission logic
-        return await fastify.inject({
+        // Reuse the main submission logic, which queues the ritual
+        const response = await fastify.inject({
           method: 'POST',
           url: '/api/v1/rituals/submit',
+          headers: { authorization: request.headers.authorization },
           payload: submissionRequest,
         });
+        return reply.status(response.statusCode).send(response.json());
       } catch (error) {
-        fastify.log.error('File upload error', { error });
+        fastify.log.error({ error }, 'File upload error');
 
         if (error instanceof z.ZodError) {
           return reply.status(400).send({
@@ -435,10 +1099,16 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
           required: ['content', 'bioregionId'],
           properties: {
             content: { type: 'string', minLength: 100 },
-            bioregionId: {
+            bioregionId: { type: 'string', minLength: 1, maxLength: 64 },
+            language: {
               type: 'string',
-              enum: ['tech-haven', 'mythic-forest', 'isolated-bastion'],
+              enum: getSupportedLanguages(),
+              description:
+                'Lexicon to use; detected from the content if omitted',
             },
+            culturalContext: { type: 'string', maxLength: 1000 },
+            culturalTradition: { type: 'string', maxLength: 100 },
+            permissions: permissionsSchema,
           },
         },
         response: {
@@ -452,7 +1122,12 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
                   esepScore: { type: 'number' },
                   cedaScore: { type: 'number' },
                   narrativeScore: { type: 'number' },
+                  policyScore: { type: 'number' },
                   isApproved: { type: 'boolean' },
+                  policyVersion: { type: 'string' },
+                  language: { type: 'string' },
+                  appropriationRisk: { type: 'string' },
+                  requiredReviews: { type: 'array', items: { type: 'string' } },
                   feedback: { type: 'array', items: { type: 'string' } },
                   culturalReferences: {
                     type: 'array',
@@ -461,6 +1136,10 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
                   validationTimestamp: { type: 'string' },
                 },
               },
+              language: languageSchema,
+              filters: { type: 'array', items: filterRunSchema },
+              skippedFilters: { type: 'array', items: { type: 'string' } },
+              annotations: { type: 'array', items: annotationSchema },
             },
           },
         },
@@ -468,38 +1147,34 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
-        const { content, bioregionId } = request.body as {
-          content: string;
-          bioregionId: string;
-        };
+        const { content, bioregionId, language, ...submission } =
+          request.body as ValidationRequest;
 
         // Run AI validation filters
-        const [esepResult, cedaResult, narrativeResult] = await Promise.all([
-          esepFilter.evaluateRitual(content),
-          cedaFilter.analyzeCulturalExpression(content),
-          narrativeForensics.analyzeNarrative(content),
-        ]);
-
-        const validation: ValidationResult = {
-          esepScore: esepResult.score,
-          cedaScore: cedaResult.culturalReferences.length,
-          narrativeScore: narrativeResult.overallScore,
-          isApproved:
-            esepResult.score <= 0.7 &&
-            cedaResult.culturalReferences.length >= 2 &&
-            narrativeResult.overallScore >= 0.6,
-          feedback: [
-            ...esepResult.feedback,
-            ...cedaResult.feedback,
-            ...narrativeResult.feedback,
-          ],
-          culturalReferences: cedaResult.culturalReferences,
-          validationTimestamp: new Date().toISOString(),
-        };
+        const report = await filterRegistry.run(content, bioregionId, {
+          language,
+          submission,
+        });
+        const validation = buildValidationResult(
+          report,
+          validationPolicy.evaluate(report),
+        );
 
         return {
           success: true,
           validation,
+          language: report.language,
+          filters: report.results.map((result) => ({
+            filterId: result.filterId,
+            filterName: result.filterName,
+            status: result.status,
+            score: result.score,
+            feedback: result.feedback,
+            durationMs: result.durationMs,
+            error: result.error,
+          })),
+          skippedFilters: report.skippedFilters,
+          annotations: report.annotations,
         };
       } catch (error) {
         fastify.log.error('Validation error', { error });
@@ -511,54 +1186,283 @@ export default async function submitRitualRoutes(fastify: FastifyInstance) {
       }
     },
   );
-}
 
-// Helper function to parse .grc file content
-function parseGRCFile(content: string): Partial<RitualSubmissionRequest> {
-  const lines = content.split('\n');
-  const result: Partial<RitualSubmissionRequest> = {};
-
-  let currentSection = '';
-  let contentLines: string[] = [];
-
-  for (const line of lines) {
-    if (line.startsWith('# ')) {
-      if (line.includes('Bioregion:')) {
-        const bioregionName = line.split('Bioregion:')[1]?.trim();
-        result.bioregionId = getBioregionId(bioregionName);
-      } else if (!line.includes('Created:') && !line.includes('Bioregion:')) {
-        result.name = line.replace('# ', '').trim();
-      }
-    } else if (line.startsWith('## Description')) {
-      currentSection = 'description';
-    } else if (line.startsWith('## Cultural Context')) {
-      currentSection = 'culturalContext';
-    } else if (line.startsWith('## Ritual Content')) {
-      currentSection = 'content';
-    } else if (line.startsWith('## ') && currentSection === 'content') {
-      currentSection = '';
-    } else if (line.trim() && currentSection) {
-      if (currentSection === 'content') {
-        contentLines.push(line);
-      } else {
-        result[currentSection as keyof RitualSubmissionRequest] = line.trim();
+  // POST /api/v1/rituals/explain - Explain how each score was reached
+  fastify.post(
+    '/explain',
+    {
+      schema: {
+        description:
+          'Break down the validation scores of a ritual into components, weights and matched terms',
+        tags: ['rituals'],
+        body: {
+          type: 'object',
+          required: ['content', 'bioregionId'],
+          properties: {
+            content: { type: 'string', minLength: 100 },
+            bioregionId: { type: 'string', minLength: 1, maxLength: 64 },
+            language: {
+              type: 'string',
+              enum: getSupportedLanguages(),
+              description:
+                'Lexicon to use; detected from the content if omitted',
+            },
+            culturalContext: { type: 'string', maxLength: 1000 },
+            culturalTradition: { type: 'string', maxLength: 100 },
+            permissions: permissionsSchema,
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              bioregionId: { type: 'string' },
+              language: languageSchema,
+              isApproved: { type: 'boolean' },
+              policy: {
+                type: 'object',
+                properties: {
+                  version: { type: 'string' },
+                  score: { type: 'number' },
+                  weights: {
+                    type: 'object',
+                    additionalProperties: { type: 'number' },
+                  },
+                  checks: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        name: { type: 'string' },
+                        filterId: { type: 'string' },
+                        passed: { type: 'boolean' },
+                        value: { type: 'number' },
+                        threshold: { type: 'number' },
+                        message: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+              filters: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    filterId: { type: 'string' },
+                    filterName: { type: 'string' },
+                    status: {
+                      type: 'string',
+                      enum: ['completed', 'timeout', 'error'],
+                    },
+                    score: { type: ['number', 'null'] },
+                    direction: { type: 'string' },
+                    components: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string' },
+                          value: { type: 'number' },
+                          weight: { type: 'number' },
+                          contribution: { type: 'number' },
+                          description: { type: 'string' },
+                        },
+                      },
+                    },
+                    terms: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          term: { type: 'string' },
+                          category: { type: 'string' },
+                          count: { type: 'number' },
+                          contribution: { type: 'number' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { content, bioregionId, language, ...submission } =
+          request.body as ValidationRequest;
+
+        const report = await filterRegistry.run(content, bioregionId, {
+          language,
+          submission,
+        });
+        const decision = validationPolicy.evaluate(report);
+
+        return {
+          success: true,
+          bioregionId,
+          language: report.language,
+          isApproved: decision.isApproved,
+          policy: {
+            version: decision.policyVersion,
+            score: decision.policyScore,
+            weights: validationPolicy.weightsFor(bioregionId),
+            checks: decision.checks,
+          },
+          filters: report.results.map((result) => ({
+            filterId: result.filterId,
+            filterName: result.filterName,
+            status: result.status,
+            score: result.score,
+            direction: result.explanation?.direction,
+            components: result.explanation?.components ?? [],
+            terms: result.explanation?.terms ?? [],
+          })),
+        };
+      } catch (error) {
+        fastify.log.error('Explain error', { error });
+        return reply.status(500).send({
+          success: false,
+          error: 'Explanation failed',
+          details: ['An error occurred while explaining the validation'],
+        });
       }
-    }
+    },
+  );
+}
+
+// Helper function to summarize a filter report and policy decision
+function buildValidationResult(
+  report: ValidationReport,
+  decision: PolicyDecision,
+): ValidationResult {
+  const scoreOf = (filterId: string): number =>
+    report.results.find((result) => result.filterId === filterId)?.score ?? 0;
+  const cedaResult = getFilterDetails<CEDAResult>(report, 'ceda');
+  const appropriationResult = getFilterDetails<AppropriationResult>(
+    report,
+    'appropriation',
+  );
+
+  return {
+    esepScore: scoreOf('esep'),
+    cedaScore: scoreOf('ceda'),
+    narrativeScore: scoreOf('narrative'),
+    policyScore: decision.policyScore,
+    isApproved: decision.isApproved,
+    policyVersion: decision.policyVersion,
+    language: report.language.code,
+    appropriationRisk: appropriationResult?.riskLevel ?? 'none',
+    requiredReviews: appropriationResult?.requiredReviews ?? [],
+    feedback: [...decision.feedback, ...report.feedback],
+    culturalReferences:
+      cedaResult?.culturalReferences.map((ref) => ref.content) ?? [],
+    validationTimestamp: report.completedAt,
+  };
+}
+
+// Helper function to build the metadata published for a submission; it is
+// the same on every attempt, so IPFS stores it under the same hash
+function toRitualMetadata(
+  payload: RitualSubmissionPayload,
+  result: SubmissionJobResult,
+  submittedAt: Date,
+): IPFSMetadata {
+  if (!result.validation) {
+    throw new Error('Submission has not been validated');
   }
 
-  if (contentLines.length > 0) {
-    result.content = contentLines.join('\n');
+  return {
+    name: payload.name,
+    bioregionId: payload.bioregionId,
+    location: payload.location && toGeoPoint(payload.location),
+    description: payload.description,
+    culturalContext: payload.culturalContext,
+    culturalTradition: payload.culturalTradition,
+    content: payload.content,
+    author: payload.author,
+    culturalReferences: payload.culturalReferences || [],
+    permissions: payload.permissions,
+    validation: result.validation,
+    authorSignature: payload.authorSignature,
+    submittedAt: submittedAt.toISOString(),
+    version: '1.0',
+  };
+}
+
+// Helper function to build the on-chain record of an approved submission
+function toAnchoringData(
+  payload: RitualSubmissionPayload,
+  result: SubmissionJobResult,
+): RitualSubmissionData {
+  if (!result.validation || !result.ipfsHash) {
+    throw new Error('Submission has not been pinned');
   }
 
-  return result;
+  return {
+    ipfsHash: result.ipfsHash,
+    bioregionId: payload.bioregionId,
+    author: payload.author,
+    esepScore: result.validation.esepScore,
+    cedaScore: result.validation.cedaScore,
+    narrativeScore: result.validation.narrativeScore,
+    isApproved: result.validation.isApproved,
+    authorization: payload.authorization,
+  };
 }
 
-// Helper function to map bioregion names to IDs
-function getBioregionId(name: string): string {
-  const mapping: Record<string, string> = {
-    'Tech Haven': 'tech-haven',
-    'Mythic Forest': 'mythic-forest',
-    'Isolated Bastion': 'isolated-bastion',
+// Helper function to expose a submission job; the ritual ID is only
+// reported once the ritual is stored
+function toJobResponse(job: SubmissionJob) {
+  const { ritualId, ...result } = job.result;
+
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    stages: job.stages,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    compensated: job.compensated,
+    compensationFailures: job.compensationFailures,
+    ...result,
+    ritualId:
+      job.stages.includes('indexed') || job.stages.includes('queued_for_review')
+        ? ritualId
+        : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
   };
-  return mapping[name] || '';
+}
+
+// Helper function to read a parsed .grc file as a submission
+function ritualFromGRC(
+  document: GRCDocument,
+  bioregions: BioregionDocument[],
+): Partial<RitualSubmissionRequest> {
+  const draft = toRitualDraft(document);
+  // Matched case-insensitively, as validateGRC does
+  const wanted = draft.bioregion.toLowerCase();
+  const result: Partial<RitualSubmissionRequest> = {
+    name: draft.name,
+    bioregionId:
+      bioregions.find(
+        (bioregion) =>
+          bioregion.name.toLowerCase() === wanted ||
+          bioregion.bioregionId.toLowerCase() === wanted,
+      )?.bioregionId ?? '',
+    description: draft.description,
+    culturalContext: draft.culturalContext,
+    content: draft.content,
+  };
+
+  if (draft.culturalTradition) {
+    result.culturalTradition = draft.culturalTradition;
+  }
+
+  return result;
 }
@@ -0,0 +1,229 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { config } from 'dotenv';
+import { createDefaultFilterRegistry } from '../filters/FilterRegistry';
+import { ValidationPolicy } from '../policy/ValidationPolicy';
+import {
+  ClassificationMetrics,
+  EvaluationReport,
+  MetricsBreakdown,
+  evaluateCorpus,
+  loadLabeledCorpus,
+} from './filterEvaluation';
+
+// Evaluate the validation filters and policy against a labeled corpus.
+//
+//   npm run evaluate -- [--corpus <file>] [--policy <file>] [--lexicons <dir>]
+//                       [--output <file>] [--baseline <file>]
+//
+// Save a report with --output before changing thresholds or lexicons, then
+// pass it as --baseline to see how precision and recall moved.
+
+interface CliOptions {
+  corpus: string;
+  policy?: string;
+  lexicons?: string;
+  output?: string;
+  baseline?: string;
+}
+
+const USAGE =
+  'Usage: evaluate [--corpus <file>] [--policy <file>] [--lexicons <dir>] [--output <file>] [--baseline <file>]';
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    corpus: join(__dirname, 'fixtures/labeled-rituals.json'),
+  };
+
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new Error(`Missing value for ${flag}\n${USAGE}`);
+    }
+
+    switch (flag) {
+      case '--corpus':
+        options.corpus = value;
+        break;
+      case '--policy':
+        options.policy = value;
+        break;
+      case '--lexicons':
+        options.lexicons = value;
+        break;
+      case '--output':
+        options.output = value;
+        break;
+      case '--baseline':
+        options.baseline = value;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}\n${USAGE}`);
+    }
+  }
+
+  return options;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? '   n/a' : value.toFixed(3).padStart(6);
+}
+
+function formatDelta(current: number | null, baseline: number | null): string {
+  if (current === null || baseline === null) return '   n/a';
+  const delta = current - baseline;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`.padStart(6);
+}
+
+function metricsRow(name: string, metrics: ClassificationMetrics): string {
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } =
+    metrics.confusion;
+  return [
+    name.padEnd(18),
+    formatMetric(metrics.precision),
+    formatMetric(metrics.recall),
+    formatMetric(metrics.f1),
+    formatMetric(metrics.accuracy),
+    `  ${truePositives}/${falsePositives}/${trueNegatives}/${falseNegatives}`,
+  ].join(' ');
+}
+
+function printBreakdown(title: string, breakdown: MetricsBreakdown): void {
+  console.log(`\n${title}`);
+  console.log(
+    `${''.padEnd(18)}  prec.  recall     f1   acc.  TP/FP/TN/FN (positive = rejected)`,
+  );
+  console.log(metricsRow('policy decision', breakdown.overall));
+  for (const [reason, metrics] of Object.entries(breakdown.reasons)) {
+    console.log(metricsRow(`  ${reason}`, metrics));
+  }
+}
+
+function printConfusionMatrix(metrics: ClassificationMetrics): void {
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } =
+    metrics.confusion;
+  console.log('\nConfusion matrix (rows: reviewers, columns: filters)');
+  console.log(
+    `${''.padEnd(12)}${'approved'.padStart(10)}${'rejected'.padStart(10)}`,
+  );
+  console.log(
+    `${'approved'.padEnd(12)}${`${trueNegatives}`.padStart(10)}${`${falsePositives}`.padStart(10)}`,
+  );
+  console.log(
+    `${'rejected'.padEnd(12)}${`${falseNegatives}`.padStart(10)}${`${truePositives}`.padStart(10)}`,
+  );
+}
+
+function printComparison(
+  report: EvaluationReport,
+  baseline: EvaluationReport,
+): void {
+  console.log(
+    `\nChange since baseline (policy ${baseline.policyVersion}, ${baseline.evaluatedAt})`,
+  );
+  console.log(`${''.padEnd(18)}  prec.  recall     f1   acc.`);
+
+  const rows: [
+    string,
+    ClassificationMetrics,
+    ClassificationMetrics | undefined,
+  ][] = [
+    ['policy decision', report.overall, baseline.overall],
+    ...Object.entries(report.reasons).map(
+      ([reason, metrics]): [
+        string,
+        ClassificationMetrics,
+        ClassificationMetrics | undefined,
+      ] => [`  ${reason}`, metrics, baseline.reasons[reason]],
+    ),
+  ];
+
+  for (const [name, current, previous] of rows) {
+    if (!previous) continue;
+    console.log(
+      [
+        name.padEnd(18),
+        formatDelta(current.precision, previous.precision),
+        formatDelta(current.recall, previous.recall),
+        formatDelta(current.f1, previous.f1),
+        formatDelta(current.accuracy, previous.accuracy),
+      ].join(' '),
+    );
+  }
+
+  const previousOutcomes = new Map(
+    baseline.outcomes.map((outcome) => [outcome.id, outcome]),
+  );
+  const changed = report.outcomes.filter((outcome) => {
+    const previous = previousOutcomes.get(outcome.id);
+    return previous && previous.predicted !== outcome.predicted;
+  });
+  for (const outcome of changed) {
+    console.log(
+      `  ${outcome.id}: now ${outcome.predicted} (reviewers: ${outcome.expected})`,
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  config();
+  const options = parseArgs(process.argv.slice(2));
+
+  // Lexicons are loaded on first use, so this must happen before evaluating
+  if (options.lexicons) {
+    process.env['LEXICON_DIR'] = options.lexicons;
+  }
+  const policy = ValidationPolicy.load(
+    options.policy
+      ? { ...process.env, VALIDATION_POLICY_PATH: options.policy }
+      : process.env,
+  );
+  const corpus = loadLabeledCorpus(options.corpus);
+
+  const report = await evaluateCorpus(
+    corpus,
+    createDefaultFilterRegistry(),
+    policy,
+  );
+
+  console.log(
+    `Evaluated ${report.rituals} labeled rituals with policy ${report.policyVersion}`,
+  );
+  printConfusionMatrix(report.overall);
+  printBreakdown('All bioregions', report);
+  for (const [bioregionId, breakdown] of Object.entries(report.bioregions)) {
+    printBreakdown(`Bioregion ${bioregionId}`, breakdown);
+  }
+
+  const disagreements = report.outcomes.filter(
+    (outcome) =>
+      outcome.expected !== outcome.predicted ||
+      outcome.expectedReasons.join() !== outcome.flaggedBy.join(),
+  );
+  if (disagreements.length > 0) {
+    console.log('\nDisagreements with the reviewers');
+    for (const outcome of disagreements) {
+      console.log(
+        `  ${outcome.id} [${outcome.bioregionId}, ${outcome.language}]: expected ${outcome.expected} (${outcome.expectedReasons.join(', ') || 'no reasons'}), got ${outcome.predicted} (${outcome.flaggedBy.join(', ') || 'no failed checks'})`,
+      );
+    }
+  }
+
+  if (options.baseline) {
+    const baseline: EvaluationReport = JSON.parse(
+      readFileSync(options.baseline, 'utf-8'),
+    );
+    printComparison(report, baseline);
+  }
+
+  if (options.output) {
+    writeFileSync(options.output, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nReport written to ${options.output}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDefaultFilterRegistry } from '../filters/FilterRegistry';
+import { ValidationPolicy } from '../policy/ValidationPolicy';
+import defaultPolicy from '../policy/validation-policy.json';
+import {
+  classify,
+  evaluateCorpus,
+  loadLabeledCorpus,
+} from './filterEvaluation';
+
+const corpusPath = join(__dirname, 'fixtures/labeled-rituals.json');
+
+function writeCorpus(corpus: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'corpus-')), 'corpus.json');
+  writeFileSync(path, JSON.stringify(corpus));
+  return path;
+}
+
+describe('classify', () => {
+  it('counts rejections as positives', () => {
+    const metrics = classify([
+      { expected: true, predicted: true },
+      { expected: true, predicted: false },
+      { expected: false, predicted: true },
+      { expected: false, predicted: false },
+      { expected: false, predicted: false },
+    ]);
+
+    expect(metrics.confusion).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      trueNegatives: 2,
+      falseNegatives: 1,
+    });
+    expect(metrics.precision).toBe(0.5);
+    expect(metrics.recall).toBe(0.5);
+    expect(metrics.f1).toBe(0.5);
+    expect(metrics.accuracy).toBe(0.6);
+  });
+
+  it('leaves undefined ratios null', () => {
+    const metrics = classify([{ expected: false, predicted: false }]);
+
+    expect(metrics.precision).toBeNull();
+    expect(metrics.recall).toBeNull();
+    expect(metrics.f1).toBeNull();
+    expect(metrics.accuracy).toBe(1);
+  });
+});
+
+describe('loadLabeledCorpus', () => {
+  it('loads the bundled corpus', () => {
+    expect(loadLabeledCorpus(corpusPath).length).toBeGreaterThan(0);
+  });
+
+  it('requires reasons for rejected rituals', () => {
+    const path = writeCorpus([
+      {
+        id: 'a',
+        bioregionId: 'tech-haven',
+        label: 'rejected',
+        text: 'Some ritual text.',
+      },
+    ]);
+
+    expect(() => loadLabeledCorpus(path)).toThrow(
+      'Rejected rituals need at least one reason',
+    );
+  });
+
+  it('rejects duplicate ids', () => {
+    const ritual = {
+      id: 'a',
+      bioregionId: 'tech-haven',
+      label: 'approved',
+      text: 'Some ritual text.',
+    };
+
+    expect(() => loadLabeledCorpus(writeCorpus([ritual, ritual]))).toThrow(
+      'Ritual ids must be unique',
+    );
+  });
+});
+
+describe('evaluateCorpus', () => {
+  it('breaks the bundled corpus down per bioregion and filter', async () => {
+    const corpus = loadLabeledCorpus(corpusPath);
+    const report = await evaluateCorpus(
+      corpus,
+      createDefaultFilterRegistry(),
+      new ValidationPolicy(ValidationPolicy.parse(defaultPolicy)),
+    );
+
+    expect(report.rituals).toBe(corpus.length);
+    expect(report.overall.total).toBe(corpus.length);
+    expect(Object.keys(report.bioregions).sort()).toEqual(
+      [...new Set(corpus.map((ritual) => ritual.bioregionId))].sort(),
+    );
+    expect(Object.keys(report.reasons)).toEqual([
+      'esep',
+      'ceda',
+      'narrative',
+      'appropriation',
+      'policy',
+    ]);
+  });
+
+  it('leaves filters disabled for a bioregion out of their metrics', async () => {
+    const registry = createDefaultFilterRegistry();
+    registry.setEnabled('ceda', false, 'tech-haven');
+
+    const report = await evaluateCorpus(
+      [
+        {
+          id: 'a',
+          bioregionId: 'tech-haven',
+          label: 'rejected',
+          reasons: ['ceda'],
+          text: 'Meeting at the hall on Friday at seven.',
+        },
+      ],
+      registry,
+      new ValidationPolicy(ValidationPolicy.parse(defaultPolicy)),
+    );
+
+    expect(report.reasons['ceda']?.total).toBe(0);
+    expect(report.outcomes[0]?.skippedFilters).toEqual(['ceda']);
+  });
+});
@@ -0,0 +1,282 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { FilterRegistry } from '../filters/FilterRegistry';
+import {
+  PolicyCheck,
+  PolicyDecision,
+  ValidationPolicy,
+} from '../policy/ValidationPolicy';
+
+// Rejection reasons name the filter whose checks should fail, or "policy"
+// for the combined score check
+export const REJECTION_REASONS = [
+  'esep',
+  'ceda',
+  'narrative',
+  'appropriation',
+  'policy',
+] as const;
+
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+const labeledRitualSchema = z
+  .object({
+    id: z.string().min(1, 'Ritual id is required'),
+    bioregionId: z.string().min(1, 'Bioregion ID is required'),
+    language: z.string().optional(),
+    label: z.enum(['approved', 'rejected']),
+    reasons: z.array(z.enum(REJECTION_REASONS)).default([]),
+    notes: z.string().optional(),
+    // What the author declared alongside the text, as in a submission
+    culturalContext: z.string().optional(),
+    culturalTradition: z.string().optional(),
+    permissions: z
+      .object({
+        culturalConsultation: z.boolean().default(false),
+        communityApproval: z.boolean().default(false),
+        expertReview: z.boolean().default(false),
+      })
+      .optional(),
+    text: z.string().min(1, 'Ritual text is required'),
+  })
+  .refine(
+    (ritual) => ritual.label === 'approved' || ritual.reasons.length > 0,
+    {
+      message: 'Rejected rituals need at least one reason',
+      path: ['reasons'],
+    },
+  )
+  .refine(
+    (ritual) => ritual.label === 'rejected' || ritual.reasons.length === 0,
+    {
+      message: 'Approved rituals cannot have rejection reasons',
+      path: ['reasons'],
+    },
+  );
+
+const labeledCorpusSchema = z
+  .array(labeledRitualSchema)
+  .min(1, 'Corpus is empty')
+  .refine(
+    (rituals) =>
+      new Set(rituals.map((ritual) => ritual.id)).size === rituals.length,
+    'Ritual ids must be unique',
+  );
+
+export type LabeledRitual = z.infer<typeof labeledRitualSchema>;
+
+// Counts for one binary decision, where a positive is a rejection
+export interface ConfusionMatrix {
+  truePositives: number; // Rejected by the reviewers and by the filters
+  falsePositives: number; // Approved by the reviewers, rejected by the filters
+  trueNegatives: number;
+  falseNegatives: number; // Rejected by the reviewers, approved by the filters
+}
+
+export interface ClassificationMetrics {
+  confusion: ConfusionMatrix;
+  total: number;
+  precision: number | null; // Null when nothing was rejected
+  recall: number | null; // Null when the reviewers rejected nothing
+  f1: number | null;
+  accuracy: number | null;
+}
+
+export interface RitualOutcome {
+  id: string;
+  bioregionId: string;
+  language: string; // Lexicon the filters used
+  expected: LabeledRitual['label'];
+  predicted: LabeledRitual['label'];
+  expectedReasons: RejectionReason[];
+  flaggedBy: RejectionReason[]; // Filters, or "policy", with a failed check
+  skippedFilters: string[];
+  policyScore: number;
+  failedChecks: string[];
+}
+
+export interface MetricsBreakdown {
+  overall: ClassificationMetrics; // Approval decision of the policy
+  reasons: Record<string, ClassificationMetrics>; // Per filter, and "policy"
+}
+
+export interface EvaluationReport extends MetricsBreakdown {
+  policyVersion: string;
+  evaluatedAt: string;
+  rituals: number;
+  bioregions: Record<string, MetricsBreakdown>;
+  outcomes: RitualOutcome[];
+}
+
+// Filter each threshold check belongs to
+const CHECK_REASONS: Record<PolicyCheck['name'], RejectionReason | undefined> =
+  {
+    esepMaxScore: 'esep',
+    cedaMinReferences: 'ceda',
+    cedaMinDiversity: 'ceda',
+    cedaMinAuthenticity: 'ceda',
+    narrativeMinScore: 'narrative',
+    appropriationMaxRisk: 'appropriation',
+    minPolicyScore: 'policy',
+    filterCompleted: undefined, // Named by the check's filterId
+  };
+
+/**
+ * Load a labeled corpus, throwing with every problem found.
+ */
+export function loadLabeledCorpus(path: string): LabeledRitual[] {
+  const result = labeledCorpusSchema.safeParse(
+    JSON.parse(readFileSync(path, 'utf-8')),
+  );
+  if (!result.success) {
+    throw new Error(
+      `Invalid labeled corpus: ${result.error.errors
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Run every ritual of the corpus through the filters and the policy, and
+ * compare the decisions with the reviewers' labels.
+ */
+export async function evaluateCorpus(
+  corpus: LabeledRitual[],
+  registry: FilterRegistry,
+  policy: ValidationPolicy,
+): Promise<EvaluationReport> {
+  const outcomes: RitualOutcome[] = [];
+
+  // One at a time, so filter timeouts are not caused by the harness itself
+  for (const ritual of corpus) {
+    const report = await registry.run(ritual.text, ritual.bioregionId, {
+      language: ritual.language,
+      submission: {
+        culturalContext: ritual.culturalContext,
+        culturalTradition: ritual.culturalTradition,
+        permissions: ritual.permissions,
+      },
+    });
+    const decision = policy.evaluate(report);
+
+    outcomes.push({
+      id: ritual.id,
+      bioregionId: ritual.bioregionId,
+      language: report.language.code,
+      expected: ritual.label,
+      predicted: decision.isApproved ? 'approved' : 'rejected',
+      expectedReasons: REJECTION_REASONS.filter((reason) =>
+        ritual.reasons.includes(reason),
+      ),
+      flaggedBy: flaggedReasons(decision),
+      skippedFilters: report.skippedFilters,
+      policyScore: decision.policyScore,
+      failedChecks: decision.feedback,
+    });
+  }
+
+  const bioregions: Record<string, MetricsBreakdown> = {};
+  for (const bioregionId of [
+    ...new Set(outcomes.map((outcome) => outcome.bioregionId)),
+  ].sort()) {
+    bioregions[bioregionId] = breakdown(
+      outcomes.filter((outcome) => outcome.bioregionId === bioregionId),
+    );
+  }
+
+  return {
+    policyVersion: policy.version,
+    evaluatedAt: new Date().toISOString(),
+    rituals: outcomes.length,
+    ...breakdown(outcomes),
+    bioregions,
+    outcomes,
+  };
+}
+
+/**
+ * Precision, recall, F1 and accuracy of a list of (expected, predicted)
+ * decisions, treating a rejection as the positive class.
+ */
+export function classify(
+  decisions: { expected: boolean; predicted: boolean }[],
+): ClassificationMetrics {
+  const confusion: ConfusionMatrix = {
+    truePositives: 0,
+    falsePositives: 0,
+    trueNegatives: 0,
+    falseNegatives: 0,
+  };
+
+  for (const { expected, predicted } of decisions) {
+    if (expected && predicted) confusion.truePositives++;
+    else if (predicted) confusion.falsePositives++;
+    else if (expected) confusion.falseNegatives++;
+    else confusion.trueNegatives++;
+  }
+
+  const { truePositives, falsePositives, trueNegatives, falseNegatives } =
+    confusion;
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    confusion,
+    total: decisions.length,
+    precision,
+    recall,
+    f1:
+      precision === null || recall === null
+        ? null
+        : (ratio(2 * precision * recall, precision + recall) ?? 0),
+    accuracy: ratio(truePositives + trueNegatives, decisions.length),
+  };
+}
+
+function breakdown(outcomes: RitualOutcome[]): MetricsBreakdown {
+  const reasons: Record<string, ClassificationMetrics> = {};
+
+  for (const reason of REJECTION_REASONS) {
+    // A filter disabled for a bioregion cannot be judged on its rituals
+    const judged = outcomes.filter(
+      (outcome) => !outcome.skippedFilters.includes(reason),
+    );
+    reasons[reason] = classify(
+      judged.map((outcome) => ({
+        expected: outcome.expectedReasons.includes(reason),
+        predicted: outcome.flaggedBy.includes(reason),
+      })),
+    );
+  }
+
+  return {
+    overall: classify(
+      outcomes.map((outcome) => ({
+        expected: outcome.expected === 'rejected',
+        predicted: outcome.predicted === 'rejected',
+      })),
+    ),
+    reasons,
+  };
+}
+
+function flaggedReasons(decision: PolicyDecision): RejectionReason[] {
+  const flagged = new Set<RejectionReason>();
+
+  for (const check of decision.checks.filter((entry) => !entry.passed)) {
+    const reason = CHECK_REASONS[check.name] ?? check.filterId;
+    if (REJECTION_REASONS.includes(reason as RejectionReason)) {
+      flagged.add(reason as RejectionReason);
+    }
+  }
+
+  return REJECTION_REASONS.filter((reason) => flagged.has(reason));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0
+    ? Math.round((numerator / denominator) * 1000) / 1000
+    : null;
+}
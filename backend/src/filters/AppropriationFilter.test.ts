@@ -0,0 +1,81 @@
+import { AppropriationFilter } from './AppropriationFilter';
+
+const filter = new AppropriationFilter();
+
+const lodgeRitual =
+  'We gather at the sweat lodge at dawn and pray for the healing of the land.';
+
+describe('AppropriationFilter', () => {
+  it('rates a restricted tradition without permissions as high risk', async () => {
+    const result = await filter.analyze(lodgeRitual, {}, 'en');
+
+    expect(result.riskLevel).toBe('high');
+    expect(result.score).toBe(1);
+    expect(result.findings.map((finding) => finding.tradition)).toEqual([
+      'sweat lodge',
+    ]);
+    expect(result.requiredReviews).toEqual([
+      'culturalConsultation',
+      'communityApproval',
+      'expertReview',
+    ]);
+  });
+
+  it('lowers the risk for each declared permission', async () => {
+    const approved = await filter.analyze(
+      lodgeRitual,
+      { permissions: { communityApproval: true } },
+      'en',
+    );
+    const consulted = await filter.analyze(
+      lodgeRitual,
+      { permissions: { communityApproval: true, culturalConsultation: true } },
+      'en',
+    );
+
+    expect(approved.riskLevel).toBe('medium');
+    expect(approved.requiredReviews).toEqual(['culturalConsultation']);
+    expect(consulted.riskLevel).toBe('low');
+    expect(consulted.requiredReviews).toEqual([]);
+  });
+
+  it('credits traditions named in the cultural context', async () => {
+    const result = await filter.analyze(
+      'The circle opens with smudging and a song.',
+      {
+        culturalContext:
+          'I learned smudging from the elders of my own community.',
+        permissions: { culturalConsultation: true },
+      },
+      'en',
+    );
+
+    expect(result.findings[0]?.acknowledgedInContext).toBe(true);
+    expect(result.riskLevel).toBe('none');
+  });
+
+  it('reports no risk when no community traditions are used', async () => {
+    const result = await filter.analyze(
+      'We plant trees together and share bread in gratitude.',
+      {},
+      'en',
+    );
+
+    expect(result.riskLevel).toBe('none');
+    expect(result.findings).toEqual([]);
+    expect(result.requiredReviews).toEqual([]);
+  });
+
+  it('uses the lexicon of the ritual language', async () => {
+    const result = await filter.analyze(
+      'Nos reunimos en el temazcal para orar por la tierra.',
+      {},
+      'es',
+    );
+
+    expect(result.findings.map((finding) => finding.tradition)).toEqual([
+      'temazcal',
+    ]);
+    expect(result.riskLevel).toBe('high');
+  });
+});
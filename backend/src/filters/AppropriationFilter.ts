@@ -0,0 +1,244 @@
+import { detectLanguage, getLexicon } from './lexicon';
+import { TextSpan, extractContext } from './textSpans';
+import { findTermOccurrences, tokenize } from './tokenizer';
+import {
+  CulturalPermissions,
+  FilterContext,
+  FilterOutput,
+  ScoreExplanation,
+  SubmissionMetadata,
+  ValidationFilter,
+  nextStep,
+  roundScore,
+} from './ValidationFilter';
+
+export type AppropriationRisk = 'none' | 'low' | 'medium' | 'high';
+
+export type CulturalPermission = keyof CulturalPermissions;
+
+export interface AppropriationFinding extends TextSpan {
+  tradition: string; // Lexicon term, also detected by CEDA
+  sensitivity: 'restricted' | 'sensitive';
+  risk: AppropriationRisk;
+  declaredPermissions: CulturalPermission[];
+  missingPermissions: CulturalPermission[];
+  acknowledgedInContext: boolean; // Named in the author's cultural context
+  context: string; // Text around the first occurrence
+  occurrences: TextSpan[]; // Every occurrence; start/end are the first one
+}
+
+export interface AppropriationResult {
+  score: number; // 0.0 to 1.0, risk of the riskiest finding
+  riskLevel: AppropriationRisk;
+  feedback: string[];
+  findings: AppropriationFinding[];
+  requiredReviews: CulturalPermission[]; // Reviews to obtain before approval
+  language: string; // Code of the lexicon the traditions came from
+}
+
+const RISK_LEVELS: AppropriationRisk[] = ['none', 'low', 'medium', 'high'];
+
+// Permissions that make a tradition safe to share, by sensitivity
+const REQUIRED_PERMISSIONS: Record<
+  AppropriationFinding['sensitivity'],
+  CulturalPermission[]
+> = {
+  restricted: ['communityApproval', 'culturalConsultation'],
+  sensitive: ['culturalConsultation'],
+};
+
+const PERMISSION_LABELS: Record<CulturalPermission, string> = {
+  culturalConsultation: 'cultural consultation',
+  communityApproval: 'community approval',
+  expertReview: 'expert review',
+};
+
+/**
+ * Grades the risk that a ritual appropriates traditions belonging to specific
+ * communities. Restricted traditions start at high risk and sensitive ones at
+ * medium; each required permission the author declared, naming the tradition
+ * in their cultural context and a declared expert review lower it one level.
+ */
+export class AppropriationFilter implements ValidationFilter<AppropriationResult> {
+  readonly id = 'appropriation';
+  readonly name = 'Cultural Appropriation Risk';
+
+  async run(
+    ritualText: string,
+    context: FilterContext = {},
+  ): Promise<FilterOutput<AppropriationResult>> {
+    const result = await this.analyze(
+      ritualText,
+      context.submission,
+      context.language,
+      context.signal,
+    );
+    return {
+      score: result.score,
+      feedback: result.feedback,
+      annotations: result.findings.flatMap((finding) =>
+        finding.occurrences.map((occurrence) => ({
+          ...occurrence,
+          text: ritualText.slice(occurrence.start, occurrence.end),
+          kind: 'appropriation',
+          label: `${finding.sensitivity === 'restricted' ? 'Restricted' : 'Sensitive'} tradition "${finding.tradition}" (${finding.risk} risk)`,
+        })),
+      ),
+      explanation: this.explain(result),
+      details: result,
+    };
+  }
+
+  async analyze(
+    ritualText: string,
+    submission: SubmissionMetadata = {},
+    language?: string,
+    signal?: AbortSignal,
+  ): Promise<AppropriationResult> {
+    const lexicon = getLexicon(language ?? detectLanguage(ritualText).code);
+    const tokenized = tokenize(ritualText, lexicon);
+    const statedContext = tokenize(
+      [submission.culturalTradition, submission.culturalContext]
+        .filter(Boolean)
+        .join('. '),
+      lexicon,
+    );
+    const declared = (
+      Object.keys(PERMISSION_LABELS) as CulturalPermission[]
+    ).filter((permission) => submission.permissions?.[permission] === true);
+
+    const findings: AppropriationFinding[] = [];
+    for (const sensitivity of ['restricted', 'sensitive'] as const) {
+      await nextStep(signal);
+      for (const tradition of new Set(lexicon.appropriation[sensitivity])) {
+        const occurrences = findTermOccurrences(tokenized, tradition);
+        const [first] = occurrences;
+        if (!first) continue;
+
+        const required = REQUIRED_PERMISSIONS[sensitivity];
+        const acknowledgedInContext =
+          findTermOccurrences(statedContext, tradition).length > 0;
+        const level =
+          (sensitivity === 'restricted' ? 3 : 2) -
+          required.filter((permission) => declared.includes(permission))
+            .length -
+          (acknowledgedInContext ? 1 : 0) -
+          (declared.includes('expertReview') ? 1 : 0);
+
+        findings.push({
+          tradition,
+          sensitivity,
+          risk: RISK_LEVELS[Math.max(level, 0)] ?? 'none',
+          declaredPermissions: declared,
+          missingPermissions: required.filter(
+            (permission) => !declared.includes(permission),
+          ),
+          acknowledgedInContext,
+          context: extractContext(ritualText, first),
+          start: first.start,
+          end: first.end,
+          occurrences,
+        });
+      }
+    }
+
+    findings.sort(
+      (a, b) =>
+        RISK_LEVELS.indexOf(b.risk) - RISK_LEVELS.indexOf(a.risk) ||
+        a.start - b.start,
+    );
+    const riskLevel = findings[0]?.risk ?? 'none';
+
+    return {
+      score: roundScore(RISK_LEVELS.indexOf(riskLevel) / 3),
+      riskLevel,
+      feedback: this.generateFeedback(findings),
+      findings,
+      requiredReviews: this.requiredReviews(findings, riskLevel, declared),
+      language: lexicon.code,
+    };
+  }
+
+  // Missing permissions of every risky finding, plus an expert review when
+  // the risk is high
+  private requiredReviews(
+    findings: AppropriationFinding[],
+    riskLevel: AppropriationRisk,
+    declared: CulturalPermission[],
+  ): CulturalPermission[] {
+    const required = new Set(
+      findings
+        .filter((finding) => finding.risk !== 'none')
+        .flatMap((finding) => finding.missingPermissions),
+    );
+    if (riskLevel === 'high' && !declared.includes('expertReview')) {
+      required.add('expertReview');
+    }
+
+    return (Object.keys(PERMISSION_LABELS) as CulturalPermission[]).filter(
+      (permission) => required.has(permission),
+    );
+  }
+
+  private generateFeedback(findings: AppropriationFinding[]): string[] {
+    const feedback: string[] = [];
+
+    for (const finding of findings) {
+      if (finding.risk === 'none' || finding.risk === 'low') continue;
+
+      const kind =
+        finding.sensitivity === 'restricted'
+          ? 'a restricted tradition'
+          : 'a tradition shared only with guidance';
+      const missing = finding.missingPermissions.map(
+        (permission) => PERMISSION_LABELS[permission],
+      );
+      feedback.push(
+        missing.length > 0
+          ? `"${finding.tradition}" is ${kind}; obtain ${missing.join(' and ')} before sharing it`
+          : `"${finding.tradition}" is ${kind}; describe your relationship to it in the cultural context`,
+      );
+    }
+
+    if (findings.length > 0 && feedback.length === 0) {
+      feedback.push(
+        'Cultural traditions are referenced with the declared permissions',
+      );
+    }
+
+    return feedback;
+  }
+
+  /**
+   * One component per finding, valued at its risk. Only the riskiest finding
+   * sets the score.
+   */
+  private explain(result: AppropriationResult): ScoreExplanation {
+    return {
+      direction: 'lower-is-better',
+      components: result.findings.map((finding, index) => {
+        const value = roundScore(RISK_LEVELS.indexOf(finding.risk) / 3);
+        return {
+          name: finding.tradition,
+          value,
+          weight: index === 0 ? 1 : 0,
+          contribution: index === 0 ? value : 0,
+          description: `${finding.sensitivity === 'restricted' ? 'Restricted' : 'Sensitive'} tradition; ${
+            finding.missingPermissions.length > 0
+              ? `missing ${finding.missingPermissions
+                  .map((permission) => PERMISSION_LABELS[permission])
+                  .join(' and ')}`
+              : 'required permissions declared'
+          }${finding.acknowledgedInContext ? ', named in the cultural context' : ''}`,
+        };
+      }),
+      terms: result.findings.map((finding, index) => ({
+        term: finding.tradition,
+        category: finding.sensitivity,
+        count: finding.occurrences.length,
+        contribution:
+          index === 0 ? roundScore(RISK_LEVELS.indexOf(finding.risk) / 3) : 0,
+      })),
+    };
+  }
+}
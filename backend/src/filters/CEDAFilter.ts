@@ -1,292 +1,119 @@
+import { detectLanguage, getLexicon } from './lexicon';
+import {
+  SentenceSpan,
+  TextSpan,
+  extractContext,
+  findSentences,
+} from './textSpans';
+import { TokenizedText, findTermOccurrences, tokenize } from './tokenizer';
+import {
+  FilterContext,
+  FilterOutput,
+  ScoreExplanation,
+  ValidationFilter,
+  nextStep,
+  roundScore,
+} from './ValidationFilter';
+
 export interface CEDAResult {
   score: number; // Number of cultural references detected
   feedback: string[];
   culturalReferences: CulturalReference[];
   culturalDiversity: number; // 0.0 to 1.0
   authenticityScore: number; // 0.0 to 1.0
+  language: string; // Code of the lexicon the references came from
 }
 
-export interface CulturalReference {
+export interface CulturalReference extends TextSpan {
   type: 'tradition' | 'language' | 'symbol' | 'practice' | 'belief' | 'custom';
   content: string;
   confidence: number; // 0.0 to 1.0
-  context: string;
+  context: string; // Text around the first occurrence
+  occurrences: TextSpan[]; // Every occurrence; start/end are the first one
 }
 
-export class CEDAFilter {
-  private culturalTraditions = [
-    // Indigenous traditions
-    'smudging',
-    'sweat lodge',
-    'vision quest',
-    'medicine wheel',
-    'talking circle',
-    'powwow',
-    'potlatch',
-    'giveaway',
-    'naming ceremony',
-    'coming of age',
-
-    // Eastern traditions
-    'meditation',
-    'yoga',
-    'qi gong',
-    'tai chi',
-    'zen',
-    'mindfulness',
-    'chakra',
-    'kundalini',
-    'prana',
-    'dharma',
-    'karma',
-    'samsara',
-    'mandala',
-    'mudra',
-    'mantra',
-    'yantra',
-    'puja',
-    'darshan',
-
-    // Western traditions
-    'prayer',
-    'worship',
-    'blessing',
-    'communion',
-    'baptism',
-    'confirmation',
-    'pilgrimage',
-    'retreat',
-    'contemplation',
-    'mysticism',
-    'gnosis',
-
-    // African traditions
-    'ancestral veneration',
-    'libation',
-    'drumming',
-    'dancing',
-    'storytelling',
-    'griot',
-    'sankofa',
-    'ubuntu',
-    'kwanzaa',
-    'harvest festival',
-
-    // Middle Eastern traditions
-    'salah',
-    'dhikr',
-    'sufism',
-    'whirling',
-    'zakat',
-    'hajj',
-    'ramadan',
-    'eid',
-    'halal',
-    'kosher',
-    'shabbat',
-
-    // Latin American traditions
-    'día de los muertos',
-    'quinceañera',
-    'fiesta',
-    'celebration',
-    'curandero',
-    'shaman',
-    'ayahuasca',
-    'tobacco',
-    'cacao ceremony',
-
-    // Pacific traditions
-    'hula',
-    'lei',
-    'aloha',
-    'mana',
-    'kapu',
-    'kahuna',
-    'tapu',
-    'mana',
-    'tiki',
-    'haka',
-    'koru',
-
-    // European traditions
-    'maypole',
-    'bonfire',
-    'harvest',
-    'solstice',
-    'equinox',
-    'sabbat',
-    'wheel of the year',
-    'imbolc',
-    'beltane',
-    'lughnasadh',
-    'samhain',
-  ];
-
-  private culturalSymbols = [
-    // Universal symbols
-    'circle',
-    'cross',
-    'star',
-    'moon',
-    'sun',
-    'tree',
-    'water',
-    'fire',
-    'earth',
-    'air',
-
-    // Cultural specific symbols
-    'yin yang',
-    'om',
-    'swastika',
-    'ankh',
-    'eye of horus',
-    'lotus',
-    'dragon',
-    'phoenix',
-    'eagle',
-    'wolf',
-    'bear',
-    'deer',
-    'feather',
-    'shell',
-    'crystal',
-    'gemstone',
-    'herb',
-    'flower',
-
-    // Geometric patterns
-    'mandala',
-    'yantra',
-    'labyrinth',
-    'spiral',
-    'infinity',
-    'vesica piscis',
-    'flower of life',
-    'seed of life',
-    'metatron cube',
-    'sacred geometry',
-  ];
-
-  private culturalPractices = [
-    // Ritual practices
-    'ceremony',
-    'ritual',
-    'celebration',
-    'festival',
-    'gathering',
-    'offering',
-    'sacrifice',
-    'libation',
-    'incense',
-    'candle',
-    'altar',
-    'shrine',
-    'temple',
-    'sacred space',
-    'sanctuary',
-
-    // Movement practices
-    'dance',
-    'movement',
-    'gesture',
-    'posture',
-    'walking',
-    'procession',
-    'pilgrimage',
-    'journey',
-    'quest',
-    'adventure',
-    'exploration',
-
-    // Sound practices
-    'chanting',
-    'singing',
-    'drumming',
-    'music',
-    'sound',
-    'vibration',
-    'mantra',
-    'prayer',
-    'invocation',
-    'evocation',
-    'blessing',
-  ];
-
-  private culturalLanguages = [
-    // Sacred languages
-    'sanskrit',
-    'pali',
-    'hebrew',
-    'arabic',
-    'latin',
-    'greek',
-    'old english',
-    'gaelic',
-    'quechua',
-    'nahuatl',
-    'maori',
-
-    // Sacred words
-    'amen',
-    'om',
-    'shalom',
-    'salaam',
-    'namaste',
-    'aloha',
-    'blessed be',
-    'so mote it be',
-    'as above so below',
-    'peace be with you',
-    'may the force be with you',
-  ];
-
-  async validate(ritualText: string): Promise<CEDAResult> {
+export class CEDAFilter implements ValidationFilter<CEDAResult> {
+  readonly id = 'ceda';
+  readonly name = 'Cultural Expression Detection Algorithm';
+
+  async run(
+    ritualText: string,
+    context: FilterContext = {},
+  ): Promise<FilterOutput<CEDAResult>> {
+    const result = await this.validate(
+      ritualText,
+      context.language,
+      context.signal,
+    );
+    return {
+      score: result.score,
+      feedback: result.feedback,
+      annotations: result.culturalReferences.flatMap((ref) =>
+        ref.occurrences.map((occurrence) => ({
+          ...occurrence,
+          text: ritualText.slice(occurrence.start, occurrence.end),
+          kind: ref.type,
+          label: `Cultural ${ref.type} "${ref.content}"`,
+        })),
+      ),
+      explanation: this.explain(result),
+      details: result,
+    };
+  }
+
+  async validate(
+    ritualText: string,
+    language?: string,
+    signal?: AbortSignal,
+  ): Promise<CEDAResult> {
     const feedback: string[] = [];
     const culturalReferences: CulturalReference[] = [];
+    const lexicon = getLexicon(language ?? detectLanguage(ritualText).code);
 
-    const normalizedText = ritualText.toLowerCase();
-    const words = normalizedText.split(/\s+/);
-    const sentences = ritualText
-      .split(/[.!?]+/)
-      .filter((s) => s.trim().length > 0);
+    const tokenized = tokenize(ritualText, lexicon);
+    const sentences = findSentences(ritualText);
+    await nextStep(signal);
 
     // Detect cultural traditions
     const traditionMatches = this.detectPatterns(
-      normalizedText,
-      this.culturalTraditions,
+      tokenized,
+      lexicon.ceda.traditions,
       'tradition',
     );
     culturalReferences.push(...traditionMatches);
 
     // Detect cultural symbols
     const symbolMatches = this.detectPatterns(
-      normalizedText,
-      this.culturalSymbols,
+      tokenized,
+      lexicon.ceda.symbols,
       'symbol',
     );
     culturalReferences.push(...symbolMatches);
 
     // Detect cultural practices
     const practiceMatches = this.detectPatterns(
-      normalizedText,
-      this.culturalPractices,
+      tokenized,
+      lexicon.ceda.practices,
       'practice',
     );
     culturalReferences.push(...practiceMatches);
 
     // Detect cultural languages
     const languageMatches = this.detectPatterns(
-      normalizedText,
-      this.culturalLanguages,
+      tokenized,
+      lexicon.ceda.languages,
       'language',
     );
     culturalReferences.push(...languageMatches);
+    await nextStep(signal);
 
     // Detect cultural beliefs and customs through context analysis
-    const beliefMatches = this.detectBeliefsAndCustoms(sentences);
+    const beliefMatches = this.detectBeliefsAndCustoms(
+      sentences,
+      lexicon.ceda.beliefPatterns,
+    );
     culturalReferences.push(...beliefMatches);
+    await nextStep(signal);
 
     // Calculate cultural diversity
     const culturalDiversity =
@@ -337,29 +164,32 @@ export class CEDAFilter {
       culturalReferences,
       culturalDiversity,
       authenticityScore,
+      language: lexicon.code,
     };
   }
 
+  // Every occurrence counts, negated or not: "without drumming" still refers
+  // to drumming
   private detectPatterns(
-    text: string,
+    tokenized: TokenizedText,
     patterns: string[],
     type: CulturalReference['type'],
   ): CulturalReference[] {
     const references: CulturalReference[] = [];
 
-    for (const pattern of patterns) {
-      const regex = new RegExp(
-        `\\b${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`,
-        'gi',
-      );
-      const matches = text.match(regex);
+    for (const pattern of [...new Set(patterns)]) {
+      const occurrences = findTermOccurrences(tokenized, pattern);
+      const [first] = occurrences;
 
-      if (matches) {
+      if (first) {
         references.push({
           type,
           content: pattern,
           confidence: 0.9,
-          context: this.extractContext(text, pattern),
+          context: extractContext(tokenized.text, first),
+          start: first.start,
+          end: first.end,
+          occurrences,
         });
       }
     }
@@ -367,28 +197,28 @@ export class CEDAFilter {
     return references;
   }
 
-  private detectBeliefsAndCustoms(sentences: string[]): CulturalReference[] {
+  private detectBeliefsAndCustoms(
+    sentences: SentenceSpan[],
+    patterns: string[],
+  ): CulturalReference[] {
     const references: CulturalReference[] = [];
 
-    // Common cultural belief patterns
-    const beliefPatterns = [
-      /ancestors?\s+(spirit|guide|protect|bless)/i,
-      /(sacred|holy)\s+(land|water|air|fire|earth)/i,
-      /(spirit|soul)\s+(world|realm|dimension)/i,
-      /(divine|god|goddess)\s+(presence|blessing|guidance)/i,
-      /(traditional|ancient)\s+(wisdom|knowledge|practice)/i,
-      /(cultural|heritage)\s+(preservation|celebration)/i,
-    ];
+    // Common cultural belief patterns of the lexicon
+    const beliefPatterns = patterns.map((pattern) => new RegExp(pattern, 'iu'));
 
     for (const sentence of sentences) {
       for (const pattern of beliefPatterns) {
-        const match = sentence.match(pattern);
+        const match = sentence.text.match(pattern);
         if (match) {
+          const start = sentence.start + (match.index ?? 0);
+          const span = { start, end: start + match[0].length };
           references.push({
             type: 'belief',
             content: match[0],
             confidence: 0.7,
-            context: sentence.trim(),
+            context: sentence.text,
+            ...span,
+            occurrences: [span],
           });
         }
       }
@@ -397,13 +227,52 @@ export class CEDAFilter {
     return references;
   }
 
-  private extractContext(text: string, pattern: string): string {
-    const index = text.toLowerCase().indexOf(pattern.toLowerCase());
-    if (index === -1) return '';
+  /**
+   * Break the reference count down by reference type. Every distinct reference
+   * counts once, however often it occurs.
+   */
+  private explain(result: CEDAResult): ScoreExplanation {
+    const typeCounts = new Map<string, number>();
+    for (const ref of result.culturalReferences) {
+      typeCounts.set(ref.type, (typeCounts.get(ref.type) ?? 0) + 1);
+    }
 
-    const start = Math.max(0, index - 50);
-    const end = Math.min(text.length, index + pattern.length + 50);
-    return text.substring(start, end).trim();
+    return {
+      direction: 'higher-is-better',
+      components: [
+        ...[...typeCounts].map(([type, count]) => ({
+          name: type,
+          value: count,
+          weight: 1,
+          contribution: count,
+          description: `Distinct cultural ${type} references`,
+        })),
+        {
+          name: 'culturalDiversity',
+          value: roundScore(result.culturalDiversity),
+          weight: 0,
+          contribution: 0,
+          description:
+            'Spread of reference types; checked by the validation policy',
+        },
+        {
+          name: 'authenticity',
+          value: roundScore(result.authenticityScore),
+          weight: 0,
+          contribution: 0,
+          description:
+            'Confidence and context of references; checked by the validation policy',
+        },
+      ],
+      terms: result.culturalReferences
+        .map((ref) => ({
+          term: ref.content,
+          category: ref.type,
+          count: ref.occurrences.length,
+          contribution: 1,
+        }))
+        .sort((a, b) => b.count - a.count),
+    };
   }
 
   private calculateCulturalDiversity(references: CulturalReference[]): number {
@@ -1,107 +1,81 @@
+import {
+  DEFAULT_LANGUAGE,
+  Lexicon,
+  detectLanguage,
+  getLexicon,
+} from './lexicon';
+import { KeywordHit } from './textSpans';
+import { findTermHits, tokenize } from './tokenizer';
+import {
+  FilterContext,
+  FilterOutput,
+  ScoreExplanation,
+  ValidationFilter,
+  explainTerms,
+  nextStep,
+  roundScore,
+} from './ValidationFilter';
+
 export interface ESEPResult {
   score: number; // 0.0 to 1.0, where 0.0 is perfectly balanced
   feedback: string[];
   ethicalScore: number;
   spiritualScore: number;
   balanceScore: number;
+  keywordHits: KeywordHit[]; // Category is "ethical", "spiritual" or "negative"
+  wordCount: number;
+  language: string; // Code of the lexicon the keywords came from
+}
+
+interface KeywordCounts {
+  ethical: number;
+  spiritual: number;
+  negative: number;
 }
 
-export class ESEPFilter {
-  private ethicalKeywords = [
-    'justice',
-    'equity',
-    'fairness',
-    'compassion',
-    'empathy',
-    'kindness',
-    'respect',
-    'dignity',
-    'rights',
-    'freedom',
-    'autonomy',
-    'consent',
-    'responsibility',
-    'accountability',
-    'transparency',
-    'integrity',
-    'honesty',
-    'trust',
-    'cooperation',
-    'solidarity',
-    'community',
-    'inclusion',
-    'diversity',
-    'tolerance',
-    'acceptance',
-    'forgiveness',
-  ];
-
-  private spiritualKeywords = [
-    'sacred',
-    'divine',
-    'holy',
-    'blessed',
-    'enlightened',
-    'awakened',
-    'consciousness',
-    'awareness',
-    'presence',
-    'mindfulness',
-    'meditation',
-    'prayer',
-    'worship',
-    'devotion',
-    'faith',
-    'belief',
-    'spirit',
-    'soul',
-    'essence',
-    'transcendence',
-    'unity',
-    'oneness',
-    'connection',
-    'harmony',
-    'balance',
-    'peace',
-    'love',
-    'grace',
-    'wisdom',
-    'truth',
-  ];
-
-  private negativeKeywords = [
-    'hate',
-    'violence',
-    'harm',
-    'destruction',
-    'exclusion',
-    'discrimination',
-    'oppression',
-    'exploitation',
-    'manipulation',
-    'deception',
-    'corruption',
-    'greed',
-    'selfishness',
-    'arrogance',
-    'pride',
-    'anger',
-    'fear',
-    'separation',
-    'division',
-    'conflict',
-    'war',
-    'suffering',
-    'pain',
-  ];
-
-  async validate(ritualText: string): Promise<ESEPResult> {
+export class ESEPFilter implements ValidationFilter<ESEPResult> {
+  readonly id = 'esep';
+  readonly name = 'Ethical-Spiritual Evaluation Protocol';
+
+  // Weights of the components of the ESEP score
+  private weights = { balance: 0.4, negative: 0.3, presence: 0.3 };
+
+  async run(
+    ritualText: string,
+    context: FilterContext = {},
+  ): Promise<FilterOutput<ESEPResult>> {
+    const result = await this.validate(
+      ritualText,
+      context.language,
+      context.signal,
+    );
+    return {
+      score: result.score,
+      feedback: result.feedback,
+      annotations: result.keywordHits.map((hit) => ({
+        start: hit.start,
+        end: hit.end,
+        text: hit.text,
+        kind: hit.category,
+        label: `${hit.category} keyword "${hit.keyword}"`,
+      })),
+      explanation: this.explain(result),
+      details: result,
+    };
+  }
+
+  async validate(
+    ritualText: string,
+    language?: string,
+    signal?: AbortSignal,
+  ): Promise<ESEPResult> {
     const feedback: string[] = [];
+    const lexicon = getLexicon(language ?? detectLanguage(ritualText).code);
 
-    // Normalize text
-    const normalizedText = ritualText.toLowerCase();
-    const words = normalizedText.split(/\s+/);
-    const totalWords = words.length;
+    // Split into words, marking negated ones such as "no violence"
+    const tokenized = tokenize(ritualText, lexicon);
+    const totalWords = tokenized.tokens.length;
+    await nextStep(signal);
 
     if (totalWords === 0) {
       return {
@@ -110,46 +84,43 @@ export class ESEPFilter {
         ethicalScore: 0,
         spiritualScore: 0,
         balanceScore: 0,
+        keywordHits: [],
+        wordCount: 0,
+        language: lexicon.code,
       };
     }
 
-    // Count keyword occurrences
-    const ethicalCount = this.countKeywords(words, this.ethicalKeywords);
-    const spiritualCount = this.countKeywords(words, this.spiritualKeywords);
-    const negativeCount = this.countKeywords(words, this.negativeKeywords);
-
-    // Calculate scores (0.0 to 1.0)
-    const ethicalScore = Math.min(
-      ethicalCount / Math.max(totalWords * 0.1, 1),
-      1.0,
+    // Find keyword occurrences
+    const ethicalHits = findTermHits(
+      tokenized,
+      lexicon.esep.ethical,
+      'ethical',
     );
-    const spiritualScore = Math.min(
-      spiritualCount / Math.max(totalWords * 0.1, 1),
-      1.0,
+    const spiritualHits = findTermHits(
+      tokenized,
+      lexicon.esep.spiritual,
+      'spiritual',
     );
-    const negativeScore = Math.min(
-      negativeCount / Math.max(totalWords * 0.05, 1),
-      1.0,
+    const negativeHits = findTermHits(
+      tokenized,
+      lexicon.esep.negative,
+      'negative',
     );
-
-    // Calculate balance score (how well ethical and spiritual elements are balanced)
-    const balanceScore = 1.0 - Math.abs(ethicalScore - spiritualScore);
-
-    // Calculate overall ESEP score (lower is better)
-    let esepScore = 0.0;
-
-    // Balance component (40% weight)
-    esepScore += (1.0 - balanceScore) * 0.4;
-
-    // Negative content penalty (30% weight)
-    esepScore += negativeScore * 0.3;
-
-    // Minimum presence requirement (30% weight)
-    const minPresenceScore = Math.max(
-      0,
-      0.3 - (ethicalScore + spiritualScore) * 0.15,
+    await nextStep(signal);
+    const {
+      ethicalScore,
+      spiritualScore,
+      negativeScore,
+      balanceScore,
+      score: esepScore,
+    } = this.calculateScores(
+      {
+        ethical: ethicalHits.length,
+        spiritual: spiritualHits.length,
+        negative: negativeHits.length,
+      },
+      totalWords,
     );
-    esepScore += minPresenceScore * 0.3;
 
     // Generate feedback
     if (ethicalScore < 0.1) {
@@ -190,22 +161,140 @@ export class ESEPFilter {
     }
 
     return {
-      score: Math.min(esepScore, 1.0),
+      score: esepScore,
       feedback,
       ethicalScore,
       spiritualScore,
       balanceScore,
+      keywordHits: [...ethicalHits, ...spiritualHits, ...negativeHits].sort(
+        (a, b) => a.start - b.start,
+      ),
+      wordCount: totalWords,
+      language: lexicon.code,
+    };
+  }
+
+  // Calculate keyword densities and the overall ESEP score (lower is better)
+  private calculateScores(counts: KeywordCounts, totalWords: number) {
+    const ethicalScore = Math.min(
+      counts.ethical / Math.max(totalWords * 0.1, 1),
+      1.0,
+    );
+    const spiritualScore = Math.min(
+      counts.spiritual / Math.max(totalWords * 0.1, 1),
+      1.0,
+    );
+    const negativeScore = Math.min(
+      counts.negative / Math.max(totalWords * 0.05, 1),
+      1.0,
+    );
+
+    // How well ethical and spiritual elements are balanced
+    const balanceScore = 1.0 - Math.abs(ethicalScore - spiritualScore);
+
+    // Minimum presence requirement
+    const minPresenceScore = Math.max(
+      0,
+      0.3 - (ethicalScore + spiritualScore) * 0.15,
+    );
+
+    const score = Math.min(
+      (1.0 - balanceScore) * this.weights.balance +
+        negativeScore * this.weights.negative +
+        minPresenceScore * this.weights.presence,
+      1.0,
+    );
+
+    return {
+      ethicalScore,
+      spiritualScore,
+      negativeScore,
+      balanceScore,
+      minPresenceScore,
+      score,
     };
   }
 
-  private countKeywords(words: string[], keywords: string[]): number {
-    return words.filter((word) =>
-      keywords.some((keyword) => word.includes(keyword)),
-    ).length;
+  /**
+   * Break the ESEP score down into its weighted components and the effect of
+   * each matched keyword.
+   */
+  private explain(result: ESEPResult): ScoreExplanation {
+    const totalWords = result.wordCount;
+    const counts: KeywordCounts = { ethical: 0, spiritual: 0, negative: 0 };
+    for (const hit of result.keywordHits) {
+      counts[hit.category as keyof KeywordCounts]++;
+    }
+    const scores = this.calculateScores(counts, totalWords);
+
+    return {
+      direction: 'lower-is-better',
+      components: [
+        {
+          name: 'imbalance',
+          value: roundScore(1.0 - scores.balanceScore),
+          weight: this.weights.balance,
+          contribution: roundScore(
+            (1.0 - scores.balanceScore) * this.weights.balance,
+          ),
+          description:
+            'Difference between ethical and spiritual keyword density',
+        },
+        {
+          name: 'negativeLanguage',
+          value: roundScore(scores.negativeScore),
+          weight: this.weights.negative,
+          contribution: roundScore(
+            scores.negativeScore * this.weights.negative,
+          ),
+          description: 'Density of negative or harmful keywords',
+        },
+        {
+          name: 'missingPresence',
+          value: roundScore(scores.minPresenceScore),
+          weight: this.weights.presence,
+          contribution: roundScore(
+            scores.minPresenceScore * this.weights.presence,
+          ),
+          description: 'Penalty when ethical and spiritual keywords are scarce',
+        },
+        {
+          name: 'ethical',
+          value: roundScore(scores.ethicalScore),
+          weight: 0,
+          contribution: 0,
+          description:
+            'Ethical keyword density, used by the imbalance and presence components',
+        },
+        {
+          name: 'spiritual',
+          value: roundScore(scores.spiritualScore),
+          weight: 0,
+          contribution: 0,
+          description:
+            'Spiritual keyword density, used by the imbalance and presence components',
+        },
+      ],
+      terms: explainTerms(
+        result.keywordHits,
+        (category, count) =>
+          this.calculateScores(
+            {
+              ...counts,
+              [category]: counts[category as keyof KeywordCounts] - count,
+            },
+            totalWords,
+          ).score,
+        scores.score,
+      ),
+    };
   }
 
   // Additional method for detailed analysis
-  async analyzeRitualStructure(ritualText: string): Promise<{
+  async analyzeRitualStructure(
+    ritualText: string,
+    lexicon: Lexicon = getLexicon(DEFAULT_LANGUAGE),
+  ): Promise<{
     sections: string[];
     ethicalDensity: number[];
     spiritualDensity: number[];
@@ -219,11 +308,19 @@ export class ESEPFilter {
     const spiritualDensity: number[] = [];
 
     for (const section of sections) {
-      const words = section.toLowerCase().split(/\s+/);
-      const totalWords = words.length;
+      const tokenized = tokenize(section, lexicon);
+      const totalWords = tokenized.tokens.length;
 
-      const ethicalCount = this.countKeywords(words, this.ethicalKeywords);
-      const spiritualCount = this.countKeywords(words, this.spiritualKeywords);
+      const ethicalCount = findTermHits(
+        tokenized,
+        lexicon.esep.ethical,
+        'ethical',
+      ).length;
+      const spiritualCount = findTermHits(
+        tokenized,
+        lexicon.esep.spiritual,
+        'spiritual',
+      ).length;
 
       ethicalDensity.push(totalWords > 0 ? ethicalCount / totalWords : 0);
       spiritualDensity.push(totalWords > 0 ? spiritualCount / totalWords : 0);
@@ -0,0 +1,128 @@
+import { FilterRegistry } from './FilterRegistry';
+import { FilterOutput, ValidationFilter, nextStep } from './ValidationFilter';
+
+const ritual = 'We gather at the spring at first light and give thanks.';
+
+const output = (score: number): FilterOutput => ({
+  score,
+  feedback: [`Scored ${score}`],
+  annotations: [],
+  explanation: { direction: 'higher-is-better', components: [], terms: [] },
+  details: {},
+});
+
+const filter = (
+  id: string,
+  run: ValidationFilter['run'] = async () => output(1),
+): ValidationFilter => ({ id, name: `Filter ${id}`, run });
+
+const logger = () => ({ warn: jest.fn(), error: jest.fn() });
+
+describe('FilterRegistry', () => {
+  it('reports a filter that does not finish in time and keeps the others', async () => {
+    const log = logger();
+    const registry = new FilterRegistry(5000, log)
+      .register(filter('fast'))
+      .register(
+        filter('slow', () => new Promise(() => undefined)),
+        {
+          timeoutMs: 10,
+        },
+      );
+
+    const report = await registry.run(ritual, 'cascadia');
+
+    expect(
+      report.results.map(({ filterId, status }) => [filterId, status]),
+    ).toEqual([
+      ['fast', 'completed'],
+      ['slow', 'timeout'],
+    ]);
+    expect(report.results[1]).toMatchObject({
+      score: null,
+      error: 'Timed out after 10ms',
+    });
+    expect(report.feedback).toContain('Filter slow did not finish within 10ms');
+    expect(log.warn).toHaveBeenCalledWith(
+      { filterId: 'slow', timeoutMs: 10 },
+      'Validation filter timed out',
+    );
+  });
+
+  it('stops a filter that computes between steps once it times out', async () => {
+    let finished = false;
+    const registry = new FilterRegistry(10, logger()).register(
+      filter('busy', async (_text, context) => {
+        for (let step = 0; step < 3; step++) {
+          const end = Date.now() + 20;
+          while (Date.now() < end);
+          await nextStep(context?.signal);
+        }
+        finished = true;
+        return output(1);
+      }),
+    );
+
+    const report = await registry.run(ritual, 'cascadia');
+    await nextStep();
+
+    expect(report.results[0]?.status).toBe('timeout');
+    expect(finished).toBe(false);
+  });
+
+  it('skips filters disabled everywhere or for the bioregion', async () => {
+    const registry = new FilterRegistry()
+      .register(filter('a'))
+      .register(filter('b'), { enabled: false })
+      .register(filter('c'), { disabledBioregions: ['cascadia'] });
+
+    const report = await registry.run(ritual, 'cascadia');
+
+    expect(report.results.map((result) => result.filterId)).toEqual(['a']);
+    expect(report.skippedFilters).toEqual(['b', 'c']);
+
+    registry.setEnabled('b', true);
+    registry.setEnabled('c', true, 'cascadia');
+    expect(
+      (await registry.run(ritual, 'cascadia')).results.map(
+        (result) => result.filterId,
+      ),
+    ).toEqual(['a', 'b', 'c']);
+  });
+
+  it('reports filters that throw, synchronously or not, as errors', async () => {
+    const log = logger();
+    const registry = new FilterRegistry(5000, log)
+      .register(
+        filter('rejects', async () => {
+          throw new Error('Model unavailable');
+        }),
+      )
+      .register(
+        filter('throws', () => {
+          throw new Error('Lexicon missing');
+        }),
+      )
+      .register(filter('ok'));
+
+    const report = await registry.run(ritual, 'cascadia');
+
+    expect(
+      report.results.map(({ filterId, status, error }) => [
+        filterId,
+        status,
+        error,
+      ]),
+    ).toEqual([
+      ['rejects', 'error', 'Model unavailable'],
+      ['throws', 'error', 'Lexicon missing'],
+      ['ok', 'completed', undefined],
+    ]);
+    expect(report.feedback).toEqual([
+      'Filter rejects could not evaluate the ritual',
+      'Filter throws could not evaluate the ritual',
+      'Scored 1',
+    ]);
+    expect(log.error).toHaveBeenCalledTimes(2);
+  });
+});
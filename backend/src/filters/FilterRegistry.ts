@@ -0,0 +1,275 @@
+import { AppropriationFilter } from './AppropriationFilter';
+import { CEDAFilter } from './CEDAFilter';
+import { ESEPFilter } from './ESEPFilter';
+import { resolveLanguage } from './lexicon';
+import { NarrativeForensics } from './NarrativeForensics';
+import {
+  FilterContext,
+  FilterOutput,
+  FilterRunResult,
+  SubmissionMetadata,
+  ValidationFilter,
+  ValidationReport,
+} from './ValidationFilter';
+
+export interface FilterRegistrationOptions {
+  order?: number; // Lower runs first in the report, defaults to registration order
+  timeoutMs?: number;
+  enabled?: boolean;
+  disabledBioregions?: string[];
+}
+
+export interface FilterRunOptions {
+  language?: string | undefined; // Lexicon code, detected from the ritual text when absent
+  submission?: SubmissionMetadata | undefined;
+}
+
+// Where the registry reports filters that time out or fail; fastify's logger
+// can be passed as is
+export interface FilterLogger {
+  warn(details: object, message: string): void;
+  error(details: object, message: string): void;
+}
+
+interface FilterRegistration {
+  filter: ValidationFilter;
+  order: number;
+  timeoutMs: number;
+  enabled: boolean;
+  bioregionOverrides: Map<string, boolean>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+const consoleLogger: FilterLogger = {
+  warn: (details, message) => console.warn(message, details),
+  error: (details, message) => console.error(message, details),
+};
+
+/**
+ * Registry of validation filters. Filters run concurrently, each with its own
+ * timeout, and their results are collected into a single ValidationReport.
+ */
+export class FilterRegistry {
+  private registrations = new Map<string, FilterRegistration>();
+  private defaultTimeoutMs: number;
+  private logger: FilterLogger;
+
+  constructor(
+    defaultTimeoutMs: number = DEFAULT_TIMEOUT_MS,
+    logger: FilterLogger = consoleLogger,
+  ) {
+    this.defaultTimeoutMs = defaultTimeoutMs;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a filter, replacing any filter with the same id.
+   */
+  register(
+    filter: ValidationFilter,
+    options: FilterRegistrationOptions = {},
+  ): this {
+    const existing = this.registrations.get(filter.id);
+
+    this.registrations.set(filter.id, {
+      filter,
+      order:
+        options.order ?? existing?.order ?? this.registrations.size * 10 + 10,
+      timeoutMs: options.timeoutMs ?? this.defaultTimeoutMs,
+      enabled: options.enabled ?? true,
+      bioregionOverrides: new Map(
+        (options.disabledBioregions ?? []).map((bioregionId) => [
+          bioregionId,
+          false,
+        ]),
+      ),
+    });
+
+    return this;
+  }
+
+  unregister(filterId: string): boolean {
+    return this.registrations.delete(filterId);
+  }
+
+  /**
+   * Enable or disable a filter everywhere, or only for one bioregion.
+   */
+  setEnabled(filterId: string, enabled: boolean, bioregionId?: string): void {
+    const registration = this.getRegistration(filterId);
+
+    if (bioregionId === undefined) {
+      registration.enabled = enabled;
+      registration.bioregionOverrides.clear();
+    } else {
+      registration.bioregionOverrides.set(bioregionId, enabled);
+    }
+  }
+
+  isEnabled(filterId: string, bioregionId: string): boolean {
+    const registration = this.getRegistration(filterId);
+    return (
+      registration.bioregionOverrides.get(bioregionId) ?? registration.enabled
+    );
+  }
+
+  /**
+   * Registered filters in run order.
+   */
+  getFilters(): ValidationFilter[] {
+    return this.sortedRegistrations().map(
+      (registration) => registration.filter,
+    );
+  }
+
+  /**
+   * Run every filter enabled for the bioregion against the ritual text. The
+   * language is resolved once so that all filters use the same lexicon.
+   */
+  async run(
+    ritualText: string,
+    bioregionId: string,
+    options: FilterRunOptions = {},
+  ): Promise<ValidationReport> {
+    const startedAt = new Date().toISOString();
+    const language = resolveLanguage(ritualText, options.language);
+    const context: FilterContext = {
+      language: language.code,
+      submission: options.submission,
+    };
+    const registrations = this.sortedRegistrations();
+    const active = registrations.filter((registration) =>
+      this.isEnabled(registration.filter.id, bioregionId),
+    );
+
+    const results = await Promise.all(
+      active.map((registration) =>
+        this.runFilter(registration, ritualText, context),
+      ),
+    );
+
+    return {
+      bioregionId,
+      language,
+      results,
+      skippedFilters: registrations
+        .filter((registration) => !active.includes(registration))
+        .map((registration) => registration.filter.id),
+      feedback: results.flatMap((result) => result.feedback),
+      annotations: results
+        .flatMap((result) =>
+          result.annotations.map((annotation) => ({
+            ...annotation,
+            filterId: result.filterId,
+          })),
+        )
+        .sort((a, b) => a.start - b.start || a.end - b.end),
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  private async runFilter(
+    registration: FilterRegistration,
+    ritualText: string,
+    context: FilterContext,
+  ): Promise<FilterRunResult> {
+    const { filter, timeoutMs } = registration;
+    const start = Date.now();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    // Aborting stops the filter at its next step; the race stops waiting for
+    // filters that do not check the signal
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve('timeout');
+      }, timeoutMs);
+    });
+
+    try {
+      const output: FilterOutput | 'timeout' = await Promise.race([
+        filter.run(ritualText, { ...context, signal: controller.signal }),
+        timeout,
+      ]);
+
+      if (output === 'timeout') {
+        this.logger.warn(
+          { filterId: filter.id, timeoutMs },
+          'Validation filter timed out',
+        );
+        return {
+          filterId: filter.id,
+          filterName: filter.name,
+          status: 'timeout',
+          score: null,
+          feedback: [`${filter.name} did not finish within ${timeoutMs}ms`],
+          annotations: [],
+          error: `Timed out after ${timeoutMs}ms`,
+          durationMs: Date.now() - start,
+        };
+      }
+
+      return {
+        filterId: filter.id,
+        filterName: filter.name,
+        status: 'completed',
+        score: output.score,
+        feedback: output.feedback,
+        annotations: output.annotations,
+        explanation: output.explanation,
+        details: output.details,
+        durationMs: Date.now() - start,
+      };
+    } catch (error) {
+      this.logger.error(
+        { filterId: filter.id, error },
+        'Validation filter failed',
+      );
+      return {
+        filterId: filter.id,
+        filterName: filter.name,
+        status: 'error',
+        score: null,
+        feedback: [`${filter.name} could not evaluate the ritual`],
+        annotations: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - start,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getRegistration(filterId: string): FilterRegistration {
+    const registration = this.registrations.get(filterId);
+    if (!registration) {
+      throw new Error(`Unknown validation filter: ${filterId}`);
+    }
+    return registration;
+  }
+
+  private sortedRegistrations(): FilterRegistration[] {
+    return [...this.registrations.values()].sort((a, b) => a.order - b.order);
+  }
+}
+
+/**
+ * Registry with the built-in ESEP, CEDA, Narrative Forensics and cultural
+ * appropriation filters.
+ */
+export function createDefaultFilterRegistry(
+  logger?: FilterLogger,
+): FilterRegistry {
+  const timeoutMs = parseInt(
+    process.env['FILTER_TIMEOUT_MS'] || `${DEFAULT_TIMEOUT_MS}`,
+  );
+
+  return new FilterRegistry(timeoutMs, logger)
+    .register(new ESEPFilter(), { order: 10 })
+    .register(new CEDAFilter(), { order: 20 })
+    .register(new NarrativeForensics(), { order: 30 })
+    .register(new AppropriationFilter(), { order: 40 });
+}
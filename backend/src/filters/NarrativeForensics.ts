@@ -1,3 +1,21 @@
+import { detectLanguage, getLexicon } from './lexicon';
+import { KeywordHit, SentenceSpan, TextSpan, findSentences } from './textSpans';
+import {
+  TokenizedText,
+  findTermHits,
+  sliceTokens,
+  tokenize,
+} from './tokenizer';
+import {
+  FilterContext,
+  FilterOutput,
+  ScoreExplanation,
+  ValidationFilter,
+  explainTerms,
+  nextStep,
+  roundScore,
+} from './ValidationFilter';
+
 export interface NarrativeForensicsResult {
   polarizationScore: number; // 0.0 to 1.0 (lower is better)
   biasScore: number; // 0.0 to 1.0 (lower is better)
@@ -7,229 +25,132 @@ export interface NarrativeForensicsResult {
   feedback: string[];
   detectedIssues: NarrativeIssue[];
   recommendations: string[];
+  keywordHits: KeywordHit[]; // Category is "polarization", "bias" or "harmony"
+  wordCount: number;
+  language: string; // Code of the lexicon the terms came from
 }
 
-export interface NarrativeIssue {
+export interface NarrativeIssue extends TextSpan {
   type: 'polarization' | 'bias' | 'factual' | 'harmony' | 'cultural';
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
-  context: string;
+  context: string; // The sentence; start/end are its offsets
   suggestion: string;
+  highlights: TextSpan[]; // Phrases in the sentence that raised the issue
 }
 
-export class NarrativeForensics {
-  private polarizingKeywords = [
-    // Us vs Them language
-    'us',
-    'them',
-    'we',
-    'they',
-    'our',
-    'their',
-    'ours',
-    'theirs',
-    'enemy',
-    'opponent',
-    'adversary',
-    'foe',
-    'rival',
-    'superior',
-    'inferior',
-    'better',
-    'worse',
-    'right',
-    'wrong',
-
-    // Absolute statements
-    'always',
-    'never',
-    'everyone',
-    'nobody',
-    'all',
-    'none',
-    'completely',
-    'totally',
-    'absolutely',
-    'definitely',
-
-    // Divisive language
-    'divide',
-    'separate',
-    'split',
-    'fragment',
-    'isolate',
-    'exclude',
-    'reject',
-    'ban',
-    'prohibit',
-    'forbid',
-
-    // Emotional manipulation
-    'fear',
-    'anger',
-    'hate',
-    'despise',
-    'loathe',
-    'abhor',
-    'manipulate',
-    'control',
-    'dominate',
-    'subjugate',
-  ];
-
-  private biasIndicators = [
-    // Gender bias
-    'manly',
-    'womanly',
-    'masculine',
-    'feminine',
-    'girly',
-    'manly',
-    'bossy',
-    'aggressive',
-    'emotional',
-    'rational',
-
-    // Cultural bias
-    'primitive',
-    'advanced',
-    'civilized',
-    'uncivilized',
-    'modern',
-    'traditional',
-    'backward',
-    'progressive',
-
-    // Religious bias
-    'heathen',
-    'pagan',
-    'infidel',
-    'believer',
-    'non-believer',
-    'sacred',
-    'profane',
-    'holy',
-    'unholy',
-
-    // Economic bias
-    'rich',
-    'poor',
-    'wealthy',
-    'destitute',
-    'privileged',
-    'underprivileged',
-    'elite',
-    'common',
-    'noble',
-    'peasant',
-  ];
-
-  private factualVerificationTerms = [
-    // Claims that need verification
-    'proven',
-    'scientifically',
-    'research shows',
-    'studies indicate',
-    'experts say',
-    'authorities claim',
-    'traditionally',
-    'historically',
-    'ancient wisdom',
-    'time-tested',
-    'universally accepted',
-  ];
-
-  private communityHarmonyTerms = [
-    // Positive community language
-    'together',
-    'united',
-    'harmony',
-    'peace',
-    'cooperation',
-    'collaboration',
-    'mutual',
-    'shared',
-    'collective',
-    'community',
-    'inclusive',
-    'welcoming',
-    'embracing',
-    'accepting',
-    'respecting',
-
-    // Healing and reconciliation
-    'heal',
-    'reconcile',
-    'forgive',
-    'understand',
-    'empathize',
-    'support',
-    'help',
-    'assist',
-    'nurture',
-    'care',
-  ];
-
-  private culturalSensitivityTerms = [
-    // Respectful cultural language
-    'honor',
-    'respect',
-    'acknowledge',
-    'recognize',
-    'appreciate',
-    'learn from',
-    'guided by',
-    'inspired by',
-    'following',
-
-    // Permission and consent
-    'with permission',
-    'with guidance',
-    'with blessing',
-    'with consent',
-    'in consultation',
-    'with elders',
-    'with community',
-  ];
+export class NarrativeForensics implements ValidationFilter<NarrativeForensicsResult> {
+  readonly id = 'narrative';
+  readonly name = 'Narrative Forensics';
+
+  // Weights of the overall score, with emphasis on polarization and bias
+  private overallWeights = {
+    polarization: 0.3,
+    bias: 0.3,
+    harmony: 0.2,
+    factual: 0.2,
+  };
+
+  async run(
+    ritualText: string,
+    context: FilterContext = {},
+  ): Promise<FilterOutput<NarrativeForensicsResult>> {
+    const result = await this.analyzeNarrative(
+      ritualText,
+      context.language,
+      context.signal,
+    );
+    return {
+      score: result.overallScore,
+      feedback: result.feedback,
+      annotations: [
+        ...result.keywordHits.map((hit) => ({
+          start: hit.start,
+          end: hit.end,
+          text: hit.text,
+          kind: hit.category,
+          label: `${hit.category} keyword "${hit.keyword}"`,
+        })),
+        ...result.detectedIssues.flatMap((issue) =>
+          (issue.highlights.length > 0 ? issue.highlights : [issue]).map(
+            (span) => ({
+              start: span.start,
+              end: span.end,
+              text: ritualText.slice(span.start, span.end),
+              kind: issue.type,
+              label: issue.description,
+            }),
+          ),
+        ),
+      ],
+      explanation: this.explain(result),
+      details: result,
+    };
+  }
 
   async analyzeNarrative(
     ritualText: string,
+    language?: string,
+    signal?: AbortSignal,
   ): Promise<NarrativeForensicsResult> {
     const feedback: string[] = [];
     const detectedIssues: NarrativeIssue[] = [];
     const recommendations: string[] = [];
-
-    // Normalize text for analysis
-    const normalizedText = ritualText.toLowerCase();
-    const sentences = ritualText
-      .split(/[.!?]+/)
-      .filter((s) => s.trim().length > 0);
-    const words = normalizedText.split(/\s+/);
+    const lexicon = getLexicon(language ?? detectLanguage(ritualText).code);
+
+    // Split into words, marking negated ones such as "not divided"
+    const tokenized = tokenize(ritualText, lexicon);
+    const sentences = findSentences(ritualText);
+    const totalWords = tokenized.tokens.length;
+    const polarizationHits = findTermHits(
+      tokenized,
+      lexicon.narrative.polarizing,
+      'polarization',
+    );
+    const biasHits = findTermHits(tokenized, lexicon.narrative.bias, 'bias');
+    const harmonyHits = findTermHits(
+      tokenized,
+      lexicon.narrative.harmony,
+      'harmony',
+    );
+    await nextStep(signal);
 
     // 1. Polarization Analysis
     const polarizationScore = this.analyzePolarization(
-      words,
+      tokenized,
+      polarizationHits,
       sentences,
       detectedIssues,
     );
+    await nextStep(signal);
 
     // 2. Bias Detection
-    const biasScore = this.analyzeBias(words, sentences, detectedIssues);
+    const biasScore = this.analyzeBias(
+      tokenized,
+      biasHits,
+      sentences,
+      detectedIssues,
+    );
+    await nextStep(signal);
 
     // 3. Community Harmony Assessment
-    const communityHarmonyScore = this.analyzeCommunityHarmony(
-      words,
-      sentences,
+    const communityHarmonyScore = this.keywordScore(
+      'harmony',
+      harmonyHits.length,
+      totalWords,
     );
 
     // 4. Fact Verification
     const factVerificationScore = this.analyzeFactualClaims(
+      tokenized,
       sentences,
       detectedIssues,
     );
+    await nextStep(signal);
 
     // 5. Cultural Sensitivity Check
-    this.analyzeCulturalSensitivity(sentences, detectedIssues);
+    this.analyzeCulturalSensitivity(tokenized, sentences, detectedIssues);
+    await nextStep(signal);
 
     // Calculate overall score
     const overallScore = this.calculateOverallScore({
@@ -261,187 +182,167 @@ export class NarrativeForensics {
       feedback,
       detectedIssues,
       recommendations,
+      keywordHits: [...polarizationHits, ...biasHits, ...harmonyHits].sort(
+        (a, b) => a.start - b.start,
+      ),
+      wordCount: totalWords,
+      language: lexicon.code,
     };
   }
 
   private analyzePolarization(
-    words: string[],
-    sentences: string[],
+    tokenized: TokenizedText,
+    polarizationHits: KeywordHit[],
+    sentences: SentenceSpan[],
     issues: NarrativeIssue[],
   ): number {
-    let polarizationCount = 0;
-    let totalWords = words.length;
-
-    // Count polarizing keywords
-    for (const word of words) {
-      if (this.polarizingKeywords.some((keyword) => word.includes(keyword))) {
-        polarizationCount++;
-      }
-    }
+    const { inGroup, outGroup, absolutes } = tokenized.lexicon.narrative;
+    const polarizationCount = polarizationHits.length;
+    let totalWords = tokenized.tokens.length;
 
     // Analyze sentence structure for us vs them patterns
     for (const sentence of sentences) {
-      const lowerSentence = sentence.toLowerCase();
+      const words = sliceTokens(tokenized, sentence);
 
       // Check for us vs them patterns
-      if (
-        (lowerSentence.includes('us') ||
-          lowerSentence.includes('we') ||
-          lowerSentence.includes('our')) &&
-        (lowerSentence.includes('them') ||
-          lowerSentence.includes('they') ||
-          lowerSentence.includes('their'))
-      ) {
+      const inGroupHits = findTermHits(words, inGroup, 'inGroup');
+      const outGroupHits = findTermHits(words, outGroup, 'outGroup');
+      if (inGroupHits.length > 0 && outGroupHits.length > 0) {
         issues.push({
           type: 'polarization',
           severity: 'medium',
           description: 'Us vs them language detected',
-          context: sentence.trim(),
+          context: sentence.text,
           suggestion:
             'Consider using inclusive language that unites rather than divides',
+          start: sentence.start,
+          end: sentence.end,
+          highlights: spansOf([...inGroupHits, ...outGroupHits]),
         });
       }
 
       // Check for absolute statements
-      if (
-        this.polarizingKeywords.some(
-          (keyword) =>
-            ['always', 'never', 'everyone', 'nobody', 'all', 'none'].includes(
-              keyword,
-            ) && lowerSentence.includes(keyword),
-        )
-      ) {
+      const absoluteHits = findTermHits(words, absolutes, 'absolute');
+      if (absoluteHits.length > 0) {
         issues.push({
           type: 'polarization',
           severity: 'low',
           description: 'Absolute statement detected',
-          context: sentence.trim(),
+          context: sentence.text,
           suggestion:
             'Consider using more nuanced language that acknowledges complexity',
+          start: sentence.start,
+          end: sentence.end,
+          highlights: spansOf(absoluteHits),
         });
       }
     }
 
-    // Calculate polarization score (lower is better)
-    const score = Math.min(
-      polarizationCount / Math.max(totalWords * 0.1, 1),
-      1.0,
-    );
-    return 1.0 - score; // Invert so higher is better
+    return this.keywordScore('polarization', polarizationCount, totalWords);
   }
 
   private analyzeBias(
-    words: string[],
-    sentences: string[],
+    tokenized: TokenizedText,
+    biasHits: KeywordHit[],
+    sentences: SentenceSpan[],
     issues: NarrativeIssue[],
   ): number {
-    let biasCount = 0;
-    let totalWords = words.length;
-
-    // Count bias indicators
-    for (const word of words) {
-      if (this.biasIndicators.some((indicator) => word.includes(indicator))) {
-        biasCount++;
-      }
-    }
+    const { genderBias, culturalBias } = tokenized.lexicon.narrative;
+    const biasCount = biasHits.length;
+    let totalWords = tokenized.tokens.length;
 
     // Analyze sentences for bias patterns
     for (const sentence of sentences) {
-      const lowerSentence = sentence.toLowerCase();
+      const words = sliceTokens(tokenized, sentence);
 
       // Check for gender bias
-      if (
-        lowerSentence.includes('manly') ||
-        lowerSentence.includes('womanly') ||
-        lowerSentence.includes('bossy') ||
-        lowerSentence.includes('aggressive')
-      ) {
+      const genderBiasHits = findTermHits(words, genderBias, 'genderBias');
+      if (genderBiasHits.length > 0) {
         issues.push({
           type: 'bias',
           severity: 'medium',
           description: 'Potential gender bias detected',
-          context: sentence.trim(),
+          context: sentence.text,
           suggestion: 'Consider using gender-neutral language',
+          start: sentence.start,
+          end: sentence.end,
+          highlights: spansOf(genderBiasHits),
         });
       }
 
       // Check for cultural bias
-      if (
-        lowerSentence.includes('primitive') ||
-        lowerSentence.includes('advanced') ||
-        lowerSentence.includes('civilized') ||
-        lowerSentence.includes('backward')
-      ) {
+      const culturalBiasHits = findTermHits(
+        words,
+        culturalBias,
+        'culturalBias',
+      );
+      if (culturalBiasHits.length > 0) {
         issues.push({
           type: 'bias',
           severity: 'high',
           description: 'Cultural bias detected',
-          context: sentence.trim(),
+          context: sentence.text,
           suggestion:
             'Avoid hierarchical language that implies cultural superiority',
+          start: sentence.start,
+          end: sentence.end,
+          highlights: spansOf(culturalBiasHits),
         });
       }
     }
 
-    // Calculate bias score (lower is better)
-    const score = Math.min(biasCount / Math.max(totalWords * 0.05, 1), 1.0);
-    return 1.0 - score; // Invert so higher is better
+    return this.keywordScore('bias', biasCount, totalWords);
   }
 
-  private analyzeCommunityHarmony(
-    words: string[],
-    sentences: string[],
+  // Score from keyword density, inverted for polarization and bias so that
+  // higher is always better
+  private keywordScore(
+    category: string,
+    count: number,
+    totalWords: number,
   ): number {
-    let harmonyCount = 0;
-    let totalWords = words.length;
-
-    // Count community harmony terms
-    for (const word of words) {
-      if (this.communityHarmonyTerms.some((term) => word.includes(term))) {
-        harmonyCount++;
-      }
+    switch (category) {
+      case 'polarization':
+        return 1.0 - Math.min(count / Math.max(totalWords * 0.1, 1), 1.0);
+      case 'bias':
+        return 1.0 - Math.min(count / Math.max(totalWords * 0.05, 1), 1.0);
+      default:
+        return Math.min(count / Math.max(totalWords * 0.1, 1), 1.0);
     }
-
-    // Calculate harmony score (higher is better)
-    return Math.min(harmonyCount / Math.max(totalWords * 0.1, 1), 1.0);
   }
 
   private analyzeFactualClaims(
-    sentences: string[],
+    tokenized: TokenizedText,
+    sentences: SentenceSpan[],
     issues: NarrativeIssue[],
   ): number {
+    const { factualClaims: claimTerms, qualifiers } =
+      tokenized.lexicon.narrative;
     let factualClaims = 0;
     let verifiedClaims = 0;
 
     for (const sentence of sentences) {
-      const lowerSentence = sentence.toLowerCase();
+      const words = sliceTokens(tokenized, sentence);
 
       // Check for factual claims
-      if (
-        this.factualVerificationTerms.some((term) =>
-          lowerSentence.includes(term),
-        )
-      ) {
+      const claimHits = findTermHits(words, claimTerms, 'factual');
+      if (claimHits.length > 0) {
         factualClaims++;
 
         // Check if claim is properly qualified
-        if (
-          lowerSentence.includes('may') ||
-          lowerSentence.includes('might') ||
-          lowerSentence.includes('could') ||
-          lowerSentence.includes('suggest') ||
-          lowerSentence.includes('appear') ||
-          lowerSentence.includes('seem')
-        ) {
+        if (findTermHits(words, qualifiers, 'qualifier').length > 0) {
           verifiedClaims++;
         } else {
           issues.push({
             type: 'factual',
             severity: 'medium',
             description: 'Unqualified factual claim detected',
-            context: sentence.trim(),
+            context: sentence.text,
             suggestion:
               'Consider qualifying claims with appropriate language like "may" or "suggest"',
+            start: sentence.start,
+            end: sentence.end,
+            highlights: spansOf(claimHits),
           });
         }
       }
@@ -452,30 +353,34 @@ export class NarrativeForensics {
   }
 
   private analyzeCulturalSensitivity(
-    sentences: string[],
+    tokenized: TokenizedText,
+    sentences: SentenceSpan[],
     issues: NarrativeIssue[],
   ): void {
+    const { appropriation, permission } = tokenized.lexicon.narrative;
+
     for (const sentence of sentences) {
-      const lowerSentence = sentence.toLowerCase();
-
-      // Check for cultural appropriation indicators
-      if (
-        lowerSentence.includes('ancient wisdom') ||
-        lowerSentence.includes('traditional knowledge')
-      ) {
-        if (
-          !lowerSentence.includes('permission') &&
-          !lowerSentence.includes('guidance') &&
-          !lowerSentence.includes('blessing') &&
-          !lowerSentence.includes('consultation')
-        ) {
+      const words = sliceTokens(tokenized, sentence);
+
+      // Check for cultural appropriation indicators; "without permission"
+      // does not count as permission
+      const appropriationHits = findTermHits(
+        words,
+        appropriation,
+        'appropriation',
+      );
+      if (appropriationHits.length > 0) {
+        if (findTermHits(words, permission, 'permission').length === 0) {
           issues.push({
             type: 'cultural',
             severity: 'high',
             description: 'Potential cultural appropriation detected',
-            context: sentence.trim(),
+            context: sentence.text,
             suggestion:
               'Ensure proper permission and guidance when referencing cultural traditions',
+            start: sentence.start,
+            end: sentence.end,
+            highlights: spansOf(appropriationHits),
           });
         }
       }
@@ -488,13 +393,7 @@ export class NarrativeForensics {
     communityHarmonyScore: number;
     factVerificationScore: number;
   }): number {
-    // Weighted average with emphasis on polarization and bias
-    const weights = {
-      polarization: 0.3,
-      bias: 0.3,
-      harmony: 0.2,
-      factual: 0.2,
-    };
+    const weights = this.overallWeights;
 
     return (
       scores.polarizationScore * weights.polarization +
@@ -504,6 +403,87 @@ export class NarrativeForensics {
     );
   }
 
+  /**
+   * Break the overall score down into its weighted components and the effect
+   * of each matched keyword.
+   */
+  private explain(result: NarrativeForensicsResult): ScoreExplanation {
+    const totalWords = result.wordCount;
+    const weights = this.overallWeights;
+    const scoreKeys: Record<string, keyof NarrativeForensicsResult> = {
+      polarization: 'polarizationScore',
+      bias: 'biasScore',
+      harmony: 'communityHarmonyScore',
+    };
+    const categoryCounts = new Map<string, number>();
+    for (const hit of result.keywordHits) {
+      categoryCounts.set(
+        hit.category,
+        (categoryCounts.get(hit.category) ?? 0) + 1,
+      );
+    }
+
+    return {
+      direction: 'higher-is-better',
+      components: [
+        {
+          name: 'polarization',
+          value: roundScore(result.polarizationScore),
+          weight: weights.polarization,
+          contribution: roundScore(
+            result.polarizationScore * weights.polarization,
+          ),
+          description: 'Absence of polarizing language (higher is better)',
+        },
+        {
+          name: 'bias',
+          value: roundScore(result.biasScore),
+          weight: weights.bias,
+          contribution: roundScore(result.biasScore * weights.bias),
+          description: 'Absence of bias indicators (higher is better)',
+        },
+        {
+          name: 'harmony',
+          value: roundScore(result.communityHarmonyScore),
+          weight: weights.harmony,
+          contribution: roundScore(
+            result.communityHarmonyScore * weights.harmony,
+          ),
+          description: 'Density of community harmony language',
+        },
+        {
+          name: 'factual',
+          value: roundScore(result.factVerificationScore),
+          weight: weights.factual,
+          contribution: roundScore(
+            result.factVerificationScore * weights.factual,
+          ),
+          description: 'Share of factual claims that are qualified',
+        },
+      ],
+      terms: explainTerms(
+        result.keywordHits,
+        (category, count) => {
+          const scoreKey = scoreKeys[category];
+          if (!scoreKey) return result.overallScore;
+
+          return this.calculateOverallScore({
+            polarizationScore: result.polarizationScore,
+            biasScore: result.biasScore,
+            communityHarmonyScore: result.communityHarmonyScore,
+            factVerificationScore: result.factVerificationScore,
+            [scoreKey]: this.keywordScore(
+              category,
+              (categoryCounts.get(category) ?? 0) - count,
+              totalWords,
+            ),
+          });
+        },
+        result.overallScore,
+      ),
+    };
+  }
+
   private generateFeedback(
     scores: {
       polarizationScore: number;
@@ -559,13 +539,16 @@ export class NarrativeForensics {
   }
 
   // Additional method for detailed narrative analysis
-  async generateNarrativeReport(ritualText: string): Promise<{
+  async generateNarrativeReport(
+    ritualText: string,
+    language?: string,
+  ): Promise<{
     summary: string;
     strengths: string[];
     areasForImprovement: string[];
     culturalConsiderations: string[];
   }> {
-    const result = await this.analyzeNarrative(ritualText);
+    const result = await this.analyzeNarrative(ritualText, language);
 
     const summary = `Narrative analysis completed with overall score: ${(
       result.overallScore * 100
@@ -594,3 +577,7 @@ export class NarrativeForensics {
     };
   }
 }
+
+function spansOf(hits: KeywordHit[]): TextSpan[] {
+  return hits.map((hit) => ({ start: hit.start, end: hit.end }));
+}
@@ -0,0 +1,55 @@
+import { CEDAFilter } from './CEDAFilter';
+import { ESEPFilter } from './ESEPFilter';
+import { NarrativeForensics } from './NarrativeForensics';
+import { FilterOutput, explainTerms } from './ValidationFilter';
+
+const ritual =
+  'We gather in gratitude at the sacred river. With respect and compassion we share water and song, and there is no hatred here. Our community always honors the elders.';
+
+const total = (output: FilterOutput) =>
+  output.explanation.components.reduce(
+    (sum, component) => sum + component.contribution,
+    0,
+  );
+
+describe('score explanations', () => {
+  it('adds the ESEP components up to the score', async () => {
+    const output = await new ESEPFilter().run(ritual);
+
+    expect(total(output)).toBeCloseTo(output.score, 3);
+    expect(output.explanation.direction).toBe('lower-is-better');
+  });
+
+  it('adds the narrative components up to the score', async () => {
+    const output = await new NarrativeForensics().run(ritual);
+
+    expect(total(output)).toBeCloseTo(output.score, 3);
+    expect(output.explanation.direction).toBe('higher-is-better');
+  });
+
+  it('adds the CEDA components up to the reference count', async () => {
+    const output = await new CEDAFilter().run(ritual);
+
+    expect(total(output)).toBe(output.details.culturalReferences.length);
+  });
+});
+
+describe('explainTerms', () => {
+  it('counts each term and measures the score without it', () => {
+    const terms = explainTerms(
+      [
+        { keyword: 'sacred', category: 'spiritual' },
+        { keyword: 'respect', category: 'ethical' },
+        { keyword: 'sacred', category: 'spiritual' },
+      ],
+      (category, count) =>
+        category === 'spiritual' ? 0.5 - count * 0.1 : 0.45,
+      0.5,
+    );
+
+    expect(terms).toEqual([
+      { term: 'sacred', category: 'spiritual', count: 2, contribution: 0.2 },
+      { term: 'respect', category: 'ethical', count: 1, contribution: 0.05 },
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { LanguageDetection } from './lexicon';
+import { TextSpan } from './textSpans';
+
+// A phrase in the ritual text that contributed to a filter's score
+export interface FilterAnnotation extends TextSpan {
+  text: string;
+  kind: string; // e.g. "ethical", "tradition", "bias"
+  label: string;
+}
+
+// One weighted part of a filter score
+export interface ScoreComponent {
+  name: string;
+  value: number;
+  weight: number; // 0 for components that are reported but not scored
+  contribution: number; // Amount this component adds to the score
+  description: string;
+}
+
+// How much a matched term moved the score
+export interface TermContribution {
+  term: string;
+  category: string;
+  count: number;
+  contribution: number; // Score with the term minus score without it
+}
+
+export interface ScoreExplanation {
+  direction: 'lower-is-better' | 'higher-is-better';
+  components: ScoreComponent[];
+  terms: TermContribution[]; // Largest effect first
+}
+
+export interface FilterOutput<TDetails = unknown> {
+  score: number; // Headline score of the filter, on the filter's own scale
+  feedback: string[];
+  annotations: FilterAnnotation[];
+  explanation: ScoreExplanation;
+  details: TDetails; // Full filter-specific result
+}
+
+// Consent the author declared for the cultural elements of a ritual
+export interface CulturalPermissions {
+  culturalConsultation: boolean;
+  communityApproval: boolean;
+  expertReview: boolean;
+}
+
+// What the author stated about a ritual besides its text
+export interface SubmissionMetadata {
+  culturalContext?: string | undefined; // The author's relationship to the traditions used
+  culturalTradition?: string | undefined;
+  permissions?: Partial<CulturalPermissions> | undefined;
+}
+
+export interface FilterContext {
+  language?: string; // Lexicon code; filters detect the language when absent
+  submission?: SubmissionMetadata | undefined; // Absent when only text is validated
+  signal?: AbortSignal | undefined; // Aborted when the run times out
+}
+
+/**
+ * Common interface of the AI validation filters, so they can be registered
+ * and run by a FilterRegistry. The registry's timeout is a timer on the event
+ * loop, so it can only end a run while the filter awaits: filters that
+ * compute locally await nextStep between their steps.
+ */
+export interface ValidationFilter<TDetails = unknown> {
+  readonly id: string;
+  readonly name: string;
+  run(
+    ritualText: string,
+    context?: FilterContext,
+  ): Promise<FilterOutput<TDetails>>;
+}
+
+/**
+ * Yield to the event loop, so that timers and other filters can run, and
+ * throw if the run was aborted in the meantime.
+ */
+export async function nextStep(signal?: AbortSignal): Promise<void> {
+  await new Promise<void>((resolve) => setImmediate(resolve));
+  signal?.throwIfAborted();
+}
+
+export type FilterRunStatus = 'completed' | 'timeout' | 'error';
+
+export interface FilterRunResult<TDetails = unknown> {
+  filterId: string;
+  filterName: string;
+  status: FilterRunStatus;
+  score: number | null;
+  feedback: string[];
+  annotations: FilterAnnotation[];
+  explanation?: ScoreExplanation | undefined;
+  details?: TDetails | undefined;
+  error?: string | undefined;
+  durationMs: number;
+}
+
+export interface ValidationReport {
+  bioregionId: string;
+  language: LanguageDetection; // Lexicon every filter evaluated the ritual with
+  results: FilterRunResult[]; // In registry order
+  skippedFilters: string[]; // Disabled for the bioregion
+  feedback: string[];
+  annotations: (FilterAnnotation & { filterId: string })[]; // Sorted by offset
+  startedAt: string;
+  completedAt: string;
+}
+
+/**
+ * Details of a filter that completed, or undefined if it was skipped, timed
+ * out or failed.
+ */
+export function getFilterDetails<TDetails>(
+  report: ValidationReport,
+  filterId: string,
+): TDetails | undefined {
+  const result = report.results.find((entry) => entry.filterId === filterId);
+  return result?.status === 'completed'
+    ? (result.details as TDetails)
+    : undefined;
+}
+
+/**
+ * Count keyword hits per term and measure each term's effect on the score by
+ * recomputing the score without it.
+ */
+export function explainTerms(
+  hits: { keyword: string; category: string }[],
+  scoreWithout: (category: string, count: number) => number,
+  score: number,
+): TermContribution[] {
+  const counts = new Map<string, TermContribution>();
+
+  for (const hit of hits) {
+    const key = `${hit.category}:${hit.keyword}`;
+    const entry = counts.get(key) ?? {
+      term: hit.keyword,
+      category: hit.category,
+      count: 0,
+      contribution: 0,
+    };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  return [...counts.values()]
+    .map((entry) => ({
+      ...entry,
+      contribution: roundScore(
+        score - scoreWithout(entry.category, entry.count),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        Math.abs(b.contribution) - Math.abs(a.contribution) ||
+        b.count - a.count,
+    );
+}
+
+export function roundScore(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
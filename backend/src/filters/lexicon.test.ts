@@ -0,0 +1,74 @@
+import { CEDAFilter } from './CEDAFilter';
+import { ESEPFilter } from './ESEPFilter';
+import { detectLanguage, parseLexicon, resolveLanguage } from './lexicon';
+
+const spanish =
+  'Nos reunimos en la ceremonia con respeto y gratitud. El agua es sagrada para nuestra comunidad.';
+
+describe('detectLanguage', () => {
+  it('detects the language from its stopwords', () => {
+    expect(detectLanguage(spanish)).toMatchObject({
+      code: 'es',
+      name: 'Español',
+      detected: true,
+    });
+  });
+
+  it('falls back to the default language when too few stopwords match', () => {
+    expect(detectLanguage('Salmon, cedar, tide.')).toEqual({
+      code: 'en',
+      name: 'English',
+      detected: false,
+      confidence: 0,
+    });
+    expect(detectLanguage('')).toMatchObject({ code: 'en', detected: false });
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('uses the requested language over the detected one', () => {
+    expect(resolveLanguage(spanish, 'FR')).toMatchObject({
+      code: 'fr',
+      detected: false,
+      confidence: 1,
+    });
+  });
+
+  it('rejects languages without a lexicon', () => {
+    expect(() => resolveLanguage(spanish, 'lut')).toThrow(
+      'Unsupported language: lut',
+    );
+  });
+});
+
+describe('parseLexicon', () => {
+  it('reports every problem in a lexicon', () => {
+    expect(() =>
+      parseLexicon({ code: 'x', name: 'X', stopwords: ['The'] }),
+    ).toThrow(
+      /code: Language code is required.*stopwords\.0: Terms must be lowercase/,
+    );
+  });
+});
+
+describe('non-English lexicons', () => {
+  it('scores a Spanish ritual with the Spanish lexicon', async () => {
+    const esep = await new ESEPFilter().validate(spanish);
+
+    expect(esep.language).toBe('es');
+    expect(esep.keywordHits.map((hit) => [hit.category, hit.text])).toEqual([
+      ['ethical', 'respeto'],
+      ['spiritual', 'gratitud'],
+      ['spiritual', 'sagrada'],
+      ['ethical', 'comunidad'],
+    ]);
+  });
+
+  it('finds Spanish cultural references', async () => {
+    const ceda = await new CEDAFilter().validate(spanish);
+
+    expect(ceda.culturalReferences.map((ref) => ref.content)).toEqual(
+      expect.arrayContaining(['ceremonia', 'agua']),
+    );
+  });
+});
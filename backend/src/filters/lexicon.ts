@@ -0,0 +1,206 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import en from './lexicons/en.json';
+import es from './lexicons/es.json';
+import fr from './lexicons/fr.json';
+import pt from './lexicons/pt.json';
+
+// Terms are matched against lowercased ritual text, so they must be
+// lowercase. A trailing "*" matches any word starting with the term.
+const termList = z.array(
+  z
+    .string()
+    .min(1)
+    .refine((term) => term === term.toLowerCase(), 'Terms must be lowercase'),
+);
+
+const lexiconSchema = z
+  .object({
+    code: z.string().min(2, 'Language code is required'),
+    name: z.string().min(1),
+    stopwords: termList, // Common words used to detect the language
+    negations: termList.default([]), // Words that negate the terms following them
+    elisions: termList.default([]), // Elided prefixes split off words, e.g. "l'"
+    esep: z.object({
+      ethical: termList,
+      spiritual: termList,
+      negative: termList,
+    }),
+    ceda: z.object({
+      traditions: termList,
+      symbols: termList,
+      practices: termList,
+      languages: termList,
+      beliefPatterns: z.array(z.string().min(1)), // Regular expression sources
+    }),
+    narrative: z.object({
+      polarizing: termList,
+      bias: termList,
+      factualClaims: termList,
+      harmony: termList,
+      culturalSensitivity: termList,
+      inGroup: termList,
+      outGroup: termList,
+      absolutes: termList,
+      genderBias: termList,
+      culturalBias: termList,
+      qualifiers: termList,
+      appropriation: termList,
+      permission: termList,
+    }),
+    // CEDA traditions and symbols that belong to specific communities
+    appropriation: z.object({
+      restricted: termList, // Closed ceremonies and regalia
+      sensitive: termList, // Shared with outsiders only with guidance
+    }),
+  })
+  .superRefine((lexicon, ctx) => {
+    const cedaTerms = new Set([
+      ...lexicon.ceda.traditions,
+      ...lexicon.ceda.symbols,
+      ...lexicon.ceda.practices,
+    ]);
+    for (const level of ['restricted', 'sensitive'] as const) {
+      lexicon.appropriation[level].forEach((term, index) => {
+        if (!cedaTerms.has(term)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['appropriation', level, index],
+            message: `"${term}" is not a CEDA tradition, symbol or practice`,
+          });
+        }
+      });
+    }
+  });
+
+export type Lexicon = z.infer<typeof lexiconSchema>;
+
+export interface LanguageDetection {
+  code: string;
+  name: string;
+  detected: boolean; // False when the language was requested or detection fell back to the default
+  confidence: number; // 0.0 to 1.0, share of stopword matches for this language
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Fewer stopword matches than this are not enough to tell languages apart
+const MIN_DETECTION_MATCHES = 3;
+
+let lexicons: Map<string, Lexicon> | undefined;
+
+/**
+ * Validate a lexicon document, throwing with every problem found.
+ */
+export function parseLexicon(source: unknown): Lexicon {
+  const result = lexiconSchema.safeParse(source);
+  if (!result.success) {
+    throw new Error(
+      `Invalid lexicon: ${result.error.errors
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')}`,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Bundled lexicons plus any *.json lexicons in LEXICON_DIR. A lexicon in
+ * LEXICON_DIR replaces the bundled lexicon with the same code.
+ */
+export function getLexicons(): Map<string, Lexicon> {
+  if (lexicons) return lexicons;
+
+  const loaded = new Map<string, Lexicon>();
+  for (const source of [en, es, fr, pt]) {
+    const lexicon = parseLexicon(source);
+    loaded.set(lexicon.code, lexicon);
+  }
+
+  const directory = process.env['LEXICON_DIR'];
+  if (directory) {
+    for (const file of readdirSync(directory).filter((name) =>
+      name.endsWith('.json'),
+    )) {
+      const lexicon = parseLexicon(
+        JSON.parse(readFileSync(join(directory, file), 'utf-8')),
+      );
+      loaded.set(lexicon.code, lexicon);
+      console.log(`Loaded ${lexicon.name} lexicon from ${file}`);
+    }
+  }
+
+  lexicons = loaded;
+  return lexicons;
+}
+
+export function getSupportedLanguages(): string[] {
+  return [...getLexicons().keys()];
+}
+
+export function getLexicon(code: string): Lexicon {
+  const lexicon = getLexicons().get(code.toLowerCase());
+  if (!lexicon) {
+    throw new Error(`Unsupported language: ${code}`);
+  }
+  return lexicon;
+}
+
+/**
+ * Guess the language of a ritual from the stopwords it uses. Falls back to
+ * the default language when too few stopwords match.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const matches = new Map<string, number>();
+  let total = 0;
+
+  for (const lexicon of getLexicons().values()) {
+    const stopwords = new Set(lexicon.stopwords);
+    const count = words.filter((word) => stopwords.has(word)).length;
+    matches.set(lexicon.code, count);
+    total += count;
+  }
+
+  const [bestCode, bestCount] = [...matches.entries()].reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    [DEFAULT_LANGUAGE, matches.get(DEFAULT_LANGUAGE) ?? 0],
+  );
+
+  if (bestCount < MIN_DETECTION_MATCHES) {
+    return {
+      code: DEFAULT_LANGUAGE,
+      name: getLexicon(DEFAULT_LANGUAGE).name,
+      detected: false,
+      confidence: 0,
+    };
+  }
+
+  return {
+    code: bestCode,
+    name: getLexicon(bestCode).name,
+    detected: true,
+    confidence: Math.round((bestCount / total) * 100) / 100,
+  };
+}
+
+/**
+ * Use the requested language if given, otherwise detect it from the text.
+ */
+export function resolveLanguage(
+  text: string,
+  language?: string,
+): LanguageDetection {
+  if (language === undefined) {
+    return detectLanguage(text);
+  }
+
+  const lexicon = getLexicon(language);
+  return {
+    code: lexicon.code,
+    name: lexicon.name,
+    detected: false,
+    confidence: 1,
+  };
+}
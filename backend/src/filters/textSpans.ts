@@ -0,0 +1,46 @@
+// Character offsets into the original ritual text; end is exclusive
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface SentenceSpan extends TextSpan {
+  text: string; // Trimmed sentence text
+}
+
+export interface KeywordHit extends TextSpan {
+  keyword: string;
+  category: string;
+  text: string; // Matched text as written in the ritual
+}
+
+/**
+ * Sentences split on ".", "!" and "?", trimmed, with their offsets.
+ */
+export function findSentences(text: string): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+
+  for (const match of text.matchAll(/[^.!?]+/g)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+
+    const start = (match.index ?? 0) + raw.indexOf(trimmed);
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+
+  return sentences;
+}
+
+/**
+ * Text surrounding a span, as written in the original text.
+ */
+export function extractContext(
+  text: string,
+  span: TextSpan,
+  radius: number = 50,
+): string {
+  const start = Math.max(0, span.start - radius);
+  const end = Math.min(text.length, span.end + radius);
+  return text.substring(start, end).trim();
+}
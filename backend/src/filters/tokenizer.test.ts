@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CEDAFilter } from './CEDAFilter';
+import { ESEPFilter } from './ESEPFilter';
+import { Lexicon, getLexicon } from './lexicon';
+import { NarrativeForensics } from './NarrativeForensics';
+import { findTermHits, stem, tokenize } from './tokenizer';
+
+interface RegressionCase {
+  description: string;
+  language: string;
+  list: string; // Lexicon list as "<filter>.<list>", e.g. "esep.negative"
+  text: string;
+  expected: string[]; // Lexicon terms matched, in order
+}
+
+const corpus: RegressionCase[] = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures/regression-corpus.json'), 'utf-8'),
+);
+
+function termList(lexicon: Lexicon, list: string): string[] {
+  const [group, name] = list.split('.');
+  const terms = (
+    lexicon as unknown as Record<string, Record<string, string[]>>
+  )[group ?? '']?.[name ?? ''];
+  if (!terms) throw new Error(`Unknown lexicon list: ${list}`);
+  return terms;
+}
+
+describe('regression corpus', () => {
+  it.each(corpus.map((entry) => [entry.description, entry] as const))(
+    '%s',
+    (_description, entry) => {
+      const lexicon = getLexicon(entry.language);
+      const hits = findTermHits(
+        tokenize(entry.text, lexicon),
+        termList(lexicon, entry.list),
+        'test',
+      );
+
+      expect(hits.map((hit) => hit.keyword)).toEqual(entry.expected);
+    },
+  );
+});
+
+describe('tokenize', () => {
+  it('keeps offsets into the original text', () => {
+    const text = '“Sacred” water, no harm.';
+    const { tokens } = tokenize(text, getLexicon('en'));
+
+    expect(tokens.map((token) => text.slice(token.start, token.end))).toEqual([
+      'Sacred',
+      'water',
+      'no',
+      'harm',
+    ]);
+    expect(tokens.map((token) => token.negated)).toEqual([
+      false,
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it('stems inflected English forms to a shared stem', () => {
+    expect(stem('ceremonies', 'en')).toBe(stem('ceremony', 'en'));
+    expect(stem('sharing', 'en')).toBe(stem('share', 'en'));
+    expect(stem('banned', 'en')).toBe('ban');
+    expect(stem('harmless', 'en')).not.toBe(stem('harm', 'en'));
+  });
+});
+
+describe('filters', () => {
+  it('does not penalize negated negative language', async () => {
+    const result = await new ESEPFilter().validate(
+      'We gather in peace. There is no violence and no hatred in this circle.',
+      'en',
+    );
+
+    expect(
+      result.keywordHits.filter((hit) => hit.category === 'negative'),
+    ).toEqual([]);
+  });
+
+  it('flags appropriation only when permission is absent', async () => {
+    const narrative = new NarrativeForensics();
+    const without = await narrative.analyzeNarrative(
+      'We share ancient wisdom without permission.',
+      'en',
+    );
+    const withBlessing = await narrative.analyzeNarrative(
+      'We share ancient wisdom with the blessing of the elders.',
+      'en',
+    );
+
+    expect(without.detectedIssues.map((issue) => issue.type)).toContain(
+      'cultural',
+    );
+    expect(
+      withBlessing.detectedIssues.map((issue) => issue.type),
+    ).not.toContain('cultural');
+  });
+
+  it('reports offsets into text with multi-byte characters', async () => {
+    const text =
+      '🌊🌿 Bendiciones al agua sagrada de la montaña 🏔️ con gratitud y respeto.';
+    const esep = await new ESEPFilter().validate(text);
+    const ceda = await new CEDAFilter().validate(text);
+
+    // Offsets count UTF-16 code units, as String.prototype.slice does
+    expect(
+      esep.keywordHits.map((hit) => [hit.text, text.slice(hit.start, hit.end)]),
+    ).toEqual([
+      ['Bendiciones', 'Bendiciones'],
+      ['sagrada', 'sagrada'],
+      ['gratitud', 'gratitud'],
+      ['respeto', 'respeto'],
+    ]);
+    const water = ceda.culturalReferences.find((ref) => ref.content === 'agua');
+    expect(
+      water?.occurrences.map((span) => text.slice(span.start, span.end)),
+    ).toEqual(['agua']);
+  });
+
+  it('does not read "focus" and "call" as us-vs-them or absolute language', async () => {
+    const result = await new NarrativeForensics().analyzeNarrative(
+      'We focus on the river and call the herons home.',
+      'en',
+    );
+
+    expect(result.detectedIssues).toEqual([]);
+  });
+});
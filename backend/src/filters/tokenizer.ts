@@ -0,0 +1,290 @@
+import { Lexicon } from './lexicon';
+import { KeywordHit, TextSpan } from './textSpans';
+
+export interface Token extends TextSpan {
+  text: string; // As written in the ritual
+  normalized: string; // Lowercase, with typographic apostrophes unified
+  stem: string; // Used to match lexicon terms
+  negated: boolean; // Inside the scope of a negation such as "no" or "without"
+}
+
+// A ritual text split into tokens with the lexicon of its language
+export interface TokenizedText {
+  text: string;
+  lexicon: Lexicon;
+  tokens: Token[];
+}
+
+interface CompiledTerm {
+  term: string; // As written in the lexicon
+  words: string[]; // Stems, or a prefix for the last word of "term*" entries
+  prefix: boolean;
+}
+
+// Letters and digits, keeping inner apostrophes and hyphens ("don't", "time-tested")
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+// Punctuation between tokens that ends the scope of a negation
+const CLAUSE_BOUNDARY = /[.,;:!?()–—]/;
+
+// Number of tokens after a negation that it applies to
+const NEGATION_SCOPE = 3;
+
+const STEMMERS: Record<string, (word: string) => string> = {
+  en: stemEnglish,
+  es: stemIberian,
+  pt: stemIberian,
+  fr: stemFrench,
+};
+
+const compiledTermCache = new WeakMap<string[], CompiledTerm[]>();
+
+/**
+ * Split text into word tokens with their offsets, stems and negation scope.
+ * Languages without a stemmer are matched on the lowercase word.
+ */
+export function tokenize(text: string, lexicon: Lexicon): TokenizedText {
+  const stemWord = STEMMERS[lexicon.code] ?? ((word: string) => word);
+  const tokens: Token[] = [];
+  let negationScope = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const matchStart = match.index ?? 0;
+    const previous = tokens[tokens.length - 1];
+    if (
+      previous &&
+      CLAUSE_BOUNDARY.test(text.slice(previous.end, matchStart))
+    ) {
+      negationScope = 0;
+    }
+
+    for (const part of splitElision(match[0], lexicon.elisions)) {
+      const normalized = normalizeWord(part.text);
+      tokens.push({
+        text: part.text,
+        normalized,
+        stem: stemWord(normalized),
+        start: matchStart + part.offset,
+        end: matchStart + part.offset + part.text.length,
+        negated: negationScope > 0,
+      });
+
+      negationScope = matchesAny(normalized, lexicon.negations)
+        ? NEGATION_SCOPE
+        : Math.max(0, negationScope - 1);
+    }
+  }
+
+  return { text, lexicon, tokens };
+}
+
+/**
+ * The tokens of a tokenized text that fall inside a span, such as a sentence.
+ */
+export function sliceTokens(
+  tokenized: TokenizedText,
+  span: TextSpan,
+): TokenizedText {
+  return {
+    ...tokenized,
+    tokens: tokenized.tokens.filter(
+      (token) => token.start >= span.start && token.end <= span.end,
+    ),
+  };
+}
+
+/**
+ * Non-overlapping occurrences of lexicon terms, preferring the longest term
+ * at each position. Multi-word terms match consecutive tokens. Terms in the
+ * scope of a negation are skipped unless includeNegated is set.
+ */
+export function findTermHits(
+  tokenized: TokenizedText,
+  terms: string[],
+  category: string,
+  options: { includeNegated?: boolean } = {},
+): KeywordHit[] {
+  const compiled = compileTerms(terms, tokenized.lexicon);
+  const { tokens } = tokenized;
+  const hits: KeywordHit[] = [];
+
+  for (let index = 0; index < tokens.length;) {
+    const term = compiled.find((candidate) =>
+      matchesAt(tokens, index, candidate),
+    );
+    const first = tokens[index];
+    const last = term ? tokens[index + term.words.length - 1] : undefined;
+
+    if (!term || !first || !last) {
+      index++;
+      continue;
+    }
+
+    if (options.includeNegated || !first.negated) {
+      hits.push({
+        keyword: term.term,
+        category,
+        text: tokenized.text.slice(first.start, last.end),
+        start: first.start,
+        end: last.end,
+      });
+    }
+    index += term.words.length;
+  }
+
+  return hits;
+}
+
+/**
+ * Every occurrence of a single term, including negated ones.
+ */
+export function findTermOccurrences(
+  tokenized: TokenizedText,
+  term: string,
+): TextSpan[] {
+  return findTermHits(tokenized, [term], term, { includeNegated: true }).map(
+    (hit) => ({ start: hit.start, end: hit.end }),
+  );
+}
+
+/**
+ * Reduce a lowercase word to a stem shared by its inflected forms.
+ */
+export function stem(word: string, language: string): string {
+  const normalized = normalizeWord(word);
+  return (STEMMERS[language] ?? ((value: string) => value))(normalized);
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/’/g, "'");
+}
+
+// "term*" matches words starting with "term", "*term" words ending with it
+function matchesAny(word: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith('*')
+      ? word.startsWith(pattern.slice(0, -1))
+      : pattern.startsWith('*')
+        ? word.endsWith(pattern.slice(1))
+        : word === pattern,
+  );
+}
+
+// Split elided articles and pronouns off a word, e.g. "l'eau" into "l'" "eau"
+function splitElision(
+  word: string,
+  elisions: string[],
+): { text: string; offset: number }[] {
+  const normalized = normalizeWord(word);
+  const elision = elisions.find(
+    (candidate) =>
+      normalized.startsWith(candidate) && normalized.length > candidate.length,
+  );
+  if (!elision) return [{ text: word, offset: 0 }];
+
+  return [
+    { text: word.slice(0, elision.length), offset: 0 },
+    { text: word.slice(elision.length), offset: elision.length },
+  ];
+}
+
+// Terms are compiled once per lexicon list, longest first
+function compileTerms(terms: string[], lexicon: Lexicon): CompiledTerm[] {
+  const cached = compiledTermCache.get(terms);
+  if (cached) return cached;
+
+  const compiled = terms
+    .map((term) => {
+      const prefix = term.endsWith('*');
+      const { tokens } = tokenize(prefix ? term.slice(0, -1) : term, lexicon);
+      return {
+        term,
+        prefix,
+        words: tokens.map((token, index) =>
+          prefix && index === tokens.length - 1 ? token.normalized : token.stem,
+        ),
+      };
+    })
+    .filter((term) => term.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  compiledTermCache.set(terms, compiled);
+  return compiled;
+}
+
+function matchesAt(
+  tokens: Token[],
+  index: number,
+  term: CompiledTerm,
+): boolean {
+  return term.words.every((word, offset) => {
+    const token = tokens[index + offset];
+    if (!token) return false;
+
+    return term.prefix && offset === term.words.length - 1
+      ? token.normalized.startsWith(word)
+      : token.stem === word;
+  });
+}
+
+/**
+ * Light English stemmer for plurals, "-ness", "-ful", "-ed" and "-ing". It
+ * leaves "-less" alone, so "harmless" does not match "harm".
+ */
+function stemEnglish(word: string): string {
+  let stem = word.replace(/'s$/, '');
+  if (stem.length <= 3) return stem;
+
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  stem = stripSuffix(stem, /(fulness|ness|ful)$/);
+
+  const base = stripSuffix(stem, /(ing|ed)$/);
+  if (base !== stem && /[aeiouy]/.test(base)) {
+    if (/([^aeiouylsz])\1$/.test(base) && base.length > 3) {
+      // "banned" -> "ban", but not "called" -> "cal"
+      stem = base.slice(0, -1);
+    } else if (/^[^aeiouy]*[aeiouy][^aeiouwxy]$/.test(base)) {
+      // "hated" -> "hate", "caring" -> "care"
+      stem = `${base}e`;
+    } else {
+      stem = base;
+    }
+  }
+
+  return stem.length > 4 && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * Spanish and Portuguese: plural "-s" and a final gender vowel, so
+ * "sagrado", "sagrada" and "sagrados" share the stem "sagrad".
+ */
+function stemIberian(word: string): string {
+  let stem = word;
+  if (stem.length > 3 && stem.endsWith('s')) stem = stem.slice(0, -1);
+  if (stem.length > 3 && /[aeo]$/.test(stem)) stem = stem.slice(0, -1);
+  return stem;
+}
+
+/**
+ * French: plural "-s"/"-x" and a feminine "-e", so "sacré", "sacrée" and
+ * "sacrés" share a stem.
+ */
+function stemFrench(word: string): string {
+  let stem = word;
+  if (stem.length > 3 && /[sx]$/.test(stem)) stem = stem.slice(0, -1);
+  if (stem.length > 3 && stem.endsWith('e')) stem = stem.slice(0, -1);
+  return stem;
+}
+
+// Remove a suffix unless that leaves fewer than three letters
+function stripSuffix(word: string, suffix: RegExp): string {
+  const stripped = word.replace(suffix, '');
+  return stripped.length >= 3 ? stripped : word;
+}
@@ -0,0 +1,68 @@
+import { boundarySchema, toGeoPoint } from './geojson';
+
+const square = [
+  [-123, 45],
+  [-122, 45],
+  [-122, 46],
+  [-123, 46],
+  [-123, 45],
+];
+
+describe('boundarySchema', () => {
+  it('accepts a polygon and a multipolygon', () => {
+    expect(
+      boundarySchema.safeParse({ type: 'Polygon', coordinates: [square] })
+        .success,
+    ).toBe(true);
+    expect(
+      boundarySchema.safeParse({
+        type: 'MultiPolygon',
+        coordinates: [[square], [square]],
+      }).success,
+    ).toBe(true);
+  });
+
+  it('rejects a ring that is not closed', () => {
+    const result = boundarySchema.safeParse({
+      type: 'Polygon',
+      coordinates: [square.slice(0, 4).concat([[-123, 45.5]])],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]?.message).toBe(
+      'A ring must end at its first position',
+    );
+  });
+
+  it('rejects positions outside longitude and latitude bounds', () => {
+    const result = boundarySchema.safeParse({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [0, 95],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects geometries other than polygons', () => {
+    expect(
+      boundarySchema.safeParse({ type: 'Point', coordinates: [-123, 45] })
+        .success,
+    ).toBe(false);
+  });
+});
+
+describe('toGeoPoint', () => {
+  it('orders coordinates as longitude then latitude', () => {
+    expect(toGeoPoint({ latitude: 45.5, longitude: -122.7 })).toEqual({
+      type: 'Point',
+      coordinates: [-122.7, 45.5],
+    });
+  });
+});
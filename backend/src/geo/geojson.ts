@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: Position;
+}
+
+export type GeoBoundary =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type Location = z.infer<typeof locationSchema>;
+
+const positionSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]);
+
+// A linear ring has at least four positions and ends where it starts
+const ringSchema = z
+  .array(positionSchema)
+  .min(4, 'A ring needs at least four positions')
+  .refine(
+    (ring) => {
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      return first?.[0] === last?.[0] && first?.[1] === last?.[1];
+    },
+    { message: 'A ring must end at its first position' },
+  );
+
+const polygonSchema = z.array(ringSchema).min(1, 'A polygon needs a ring');
+
+export const boundarySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonSchema }),
+  z.object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z
+      .array(polygonSchema)
+      .min(1, 'A multipolygon needs a polygon'),
+  }),
+]);
+
+export function toGeoPoint(location: Location): GeoPoint {
+  return {
+    type: 'Point',
+    coordinates: [location.longitude, location.latitude],
+  };
+}
+
+// JSON schemas for Fastify routes
+export const locationJsonSchema = {
+  type: 'object',
+  required: ['latitude', 'longitude'],
+  properties: {
+    latitude: { type: 'number', minimum: -90, maximum: 90 },
+    longitude: { type: 'number', minimum: -180, maximum: 180 },
+  },
+};
+
+export const geoPointJsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['Point'] },
+    coordinates: { type: 'array', items: { type: 'number' } },
+  },
+};
+
+export const boundaryJsonSchema = {
+  type: 'object',
+  required: ['type', 'coordinates'],
+  properties: {
+    type: { type: 'string', enum: ['Polygon', 'MultiPolygon'] },
+    coordinates: { type: 'array' },
+  },
+};
@@ -1,6 +1,7 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
+import multipart from '@fastify/multipart';
 import rateLimit from '@fastify/rate-limit';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
@@ -8,13 +9,35 @@ import { config } from 'dotenv';
 
 // Import routes
 import { ritualRoutes } from './routes/ritualRoutes';
+import submitRitualRoutes from './endpoints/submitRitual';
 import { bioregionRoutes } from './routes/bioregionRoutes';
 import { daoRoutes } from './routes/daoRoutes';
+import { reviewRoutes } from './routes/reviewRoutes';
+import { adminRoutes } from './routes/adminRoutes';
+import { authRoutes } from './routes/authRoutes';
+import { provenanceRoutes } from './routes/provenanceRoutes';
+import { roleRoutes } from './routes/roleRoutes';
 
 // Import services
 import { DatabaseService } from './services/DatabaseService';
 import { IPFSService } from './services/IPFSService';
 import { BlockchainService } from './services/BlockchainService';
+import { AnchoringService } from './services/AnchoringService';
+import { BioregionService } from './services/BioregionService';
+import { ChainReconciler } from './services/ChainReconciler';
+import { EventIndexer } from './services/EventIndexer';
+
+// Services shared by the routes, decorated in initializeServices
+declare module 'fastify' {
+  interface FastifyInstance {
+    db: DatabaseService;
+    ipfs: IPFSService;
+    blockchain: BlockchainService;
+    anchoring: AnchoringService;
+    reconciler: ChainReconciler;
+    indexer: EventIndexer;
+  }
+}
 
 // Load environment variables
 config();
@@ -56,6 +79,11 @@ async function registerPlugins() {
     timeWindow: '1 minute',
   });
 
+  // .grc file uploads; rituals are at most 10000 characters
+  await fastify.register(multipart, {
+    limits: { files: 1, fileSize: 1024 * 1024 },
+  });
+
   // Swagger documentation
   await fastify.register(swagger, {
     swagger: {
@@ -79,8 +107,14 @@ async function registerPlugins() {
 // Register routes
 async function registerRoutes() {
   await fastify.register(ritualRoutes, { prefix: '/api/v1/rituals' });
+  await fastify.register(submitRitualRoutes, { prefix: '/api/v1/rituals' });
   await fastify.register(bioregionRoutes, { prefix: '/api/v1/bioregions' });
   await fastify.register(daoRoutes, { prefix: '/api/v1/dao' });
+  await fastify.register(reviewRoutes, { prefix: '/api/v1/reviews' });
+  await fastify.register(adminRoutes, { prefix: '/api/v1/admin' });
+  await fastify.register(authRoutes, { prefix: '/api/v1/auth' });
+  await fastify.register(roleRoutes, { prefix: '/api/v1/admin/roles' });
+  await fastify.register(provenanceRoutes, { prefix: '/api/v1/provenance' });
 }
 
 // Initialize services
@@ -95,8 +129,59 @@ async function initializeServices() {
   fastify.decorate('ipfs', ipfsService);
 
   // Initialize blockchain service
-  const blockchainService = new BlockchainService();
+  const blockchainService = new BlockchainService(dbService);
   fastify.decorate('blockchain', blockchainService);
+
+  // Follow up the transactions left pending when the server last stopped
+  try {
+    const resumed = await blockchainService.resumeTransactions();
+    fastify.log.info({ resumed }, 'Pending transactions resumed');
+  } catch (error) {
+    fastify.log.warn({ error }, 'Failed to resume pending transactions');
+  }
+
+  // Log rituals on chain whose anchoring was deferred
+  const anchoringService = new AnchoringService(dbService, blockchainService);
+  fastify.decorate('anchoring', anchoringService);
+  fastify.addHook('onClose', async () => {
+    await anchoringService.stop();
+  });
+  anchoringService.start();
+
+  // Bioregions registered when the contracts were deployed join the registry
+  try {
+    const imported = await new BioregionService(
+      dbService,
+      blockchainService,
+    ).importFromChain();
+    fastify.log.info({ imported }, 'Bioregions imported from chain');
+  } catch (error) {
+    fastify.log.warn({ error }, 'Failed to import bioregions from chain');
+  }
+
+  // Keep rituals in step with the events logged on chain
+  const reconciler = new ChainReconciler(
+    dbService,
+    blockchainService,
+    ChainReconciler.optionsFromEnv(),
+  );
+  fastify.decorate('reconciler', reconciler);
+  fastify.addHook('onClose', async () => {
+    await reconciler.stop();
+  });
+  reconciler.start();
+
+  // Index contract events into query-friendly collections
+  const indexer = new EventIndexer(
+    dbService,
+    blockchainService,
+    EventIndexer.optionsFromEnv(),
+  );
+  fastify.decorate('indexer', indexer);
+  fastify.addHook('onClose', async () => {
+    await indexer.stop();
+  });
+  indexer.start();
 }
 
 // Health check endpoint
@@ -119,8 +204,9 @@ process.on('SIGINT', async () => {
 async function start() {
   try {
     await registerPlugins();
-    await registerRoutes();
+    // Routes start their job queues on the shared services
     await initializeServices();
+    await registerRoutes();
 
     const port = parseInt(process.env.PORT || '3001');
     const host = process.env.HOST || '0.0.0.0';
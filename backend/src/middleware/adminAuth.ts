@@ -0,0 +1,21 @@
+import { timingSafeEqual } from 'crypto';
+import { FastifyRequest } from 'fastify';
+
+/**
+ * Whether a request carries the ADMIN_API_KEY as its x-api-key header.
+ * Without a configured key no request does.
+ */
+export function hasAdminKey(
+  request: FastifyRequest,
+  apiKey: string = process.env['ADMIN_API_KEY'] || '',
+): boolean {
+  const provided = request.headers['x-api-key'];
+  return !!apiKey && typeof provided === 'string' && matches(provided, apiKey);
+}
+
+// Constant-time comparison, so the key cannot be guessed byte by byte
+function matches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,57 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { Permission, hasPermission } from '../auth/permissions';
+import { RoleService } from '../services/RoleService';
+import { hasAdminKey } from './adminAuth';
+import { bearerWallet } from './walletAuth';
+
+// Actor recorded for requests admitted by the ADMIN_API_KEY
+export const API_KEY_ACTOR = 'admin-api-key';
+
+/**
+ * preHandler that admits requests whose caller holds the permission: a
+ * wallet signed in with a bearer token whose roles grant it, or an operator
+ * sending the ADMIN_API_KEY as x-api-key, who holds every permission. Routes
+ * that need to know the wallet run requireWallet first, which rules out the
+ * key.
+ */
+export function requirePermission(permission: Permission) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.wallet && request.headers['x-api-key'] !== undefined) {
+      if (hasAdminKey(request)) return;
+
+      return reply.status(401).send({
+        success: false,
+        error: 'Unauthorized',
+        details: ['A valid x-api-key header is required'],
+      });
+    }
+
+    const wallet = request.wallet ?? bearerWallet(request);
+    if (!wallet) {
+      return reply.status(401).send({
+        success: false,
+        error: 'Unauthorized',
+        details: [
+          'Sign in with a wallet and send the token as a bearer token, or send the x-api-key header',
+        ],
+      });
+    }
+    request.wallet = wallet;
+
+    const roles = await new RoleService(request.server.db).rolesOf(wallet);
+    if (!hasPermission(roles, permission)) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Forbidden',
+        details: [`Requires the ${permission} permission`],
+      });
+    }
+  };
+}
+
+/**
+ * Who made a request admitted by requirePermission, for audit trails.
+ */
+export function actorOf(request: FastifyRequest): string {
+  return request.wallet ?? API_KEY_ACTOR;
+}
@@ -0,0 +1,53 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { verifyJwt } from '../auth/jwt';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    wallet?: string | undefined; // Set by requireWallet
+  }
+}
+
+/**
+ * onRequest hook that admits requests carrying a token issued by
+ * /api/v1/auth/verify as a bearer token, and sets request.wallet to the
+ * signed-in wallet address. Without a JWT_SECRET every request is refused.
+ */
+export function requireWallet(
+  secret: string = process.env['JWT_SECRET'] || '',
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const wallet = bearerWallet(request, secret);
+
+    if (!wallet) {
+      return reply.status(401).send({
+        success: false,
+        error: 'Unauthorized',
+        details: ['Sign in with a wallet and send the token as a bearer token'],
+      });
+    }
+    request.wallet = wallet;
+  };
+}
+
+/**
+ * Wallet address of the bearer token of a request; null without a valid
+ * token.
+ */
+export function bearerWallet(
+  request: FastifyRequest,
+  secret: string = process.env['JWT_SECRET'] || '',
+): string | null {
+  const header = request.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : '';
+  return (secret && token && verifyJwt(token, secret)?.sub) || null;
+}
+
+/**
+ * Wallet address of a request admitted by requireWallet.
+ */
+export function signedInWallet(request: FastifyRequest): string {
+  if (!request.wallet) {
+    throw new Error('Route is not protected by requireWallet');
+  }
+  return request.wallet;
+}
@@ -0,0 +1,137 @@
+import { FilterRunResult, ValidationReport } from '../filters/ValidationFilter';
+import { ValidationPolicy, ValidationPolicyDocument } from './ValidationPolicy';
+
+const document: ValidationPolicyDocument = {
+  version: '2.0.0',
+  thresholds: {
+    esepMaxScore: 0.7,
+    cedaMinReferences: 2,
+    cedaMinDiversity: 0,
+    cedaMinAuthenticity: 0,
+    narrativeMinScore: 0.6,
+    minPolicyScore: 0,
+    appropriationMaxRisk: 0.67,
+  },
+  weights: { esep: 0.5, ceda: 0, narrative: 0.5 },
+  bioregions: {
+    cascadia: { thresholds: { cedaMinReferences: 1 } },
+  },
+};
+
+function completed(filterId: string, details: unknown): FilterRunResult {
+  return {
+    filterId,
+    filterName: filterId,
+    status: 'completed',
+    score: 0,
+    feedback: [],
+    annotations: [],
+    details,
+    durationMs: 0,
+  };
+}
+
+function report(
+  results: FilterRunResult[],
+  bioregionId: string = 'tech-haven',
+): ValidationReport {
+  return {
+    bioregionId,
+    language: { code: 'en', name: 'English', detected: true, confidence: 1 },
+    results,
+    skippedFilters: [],
+    feedback: [],
+    annotations: [],
+    startedAt: '',
+    completedAt: '',
+  };
+}
+
+const references = (count: number) =>
+  completed('ceda', {
+    culturalReferences: Array.from({ length: count }, () => ({})),
+    culturalDiversity: 0.5,
+    authenticityScore: 0.8,
+  });
+
+describe('ValidationPolicy.evaluate', () => {
+  const policy = new ValidationPolicy(document);
+
+  it('approves rituals that pass every check and records the policy version', () => {
+    const decision = policy.evaluate(
+      report([
+        completed('esep', { score: 0.2 }),
+        references(2),
+        completed('narrative', { overallScore: 0.8 }),
+      ]),
+    );
+
+    expect(decision).toMatchObject({
+      policyVersion: '2.0.0',
+      isApproved: true,
+      policyScore: 0.8,
+      feedback: [],
+    });
+  });
+
+  it('explains each failed check', () => {
+    const decision = policy.evaluate(
+      report([
+        completed('esep', { score: 0.9 }),
+        references(1),
+        completed('narrative', { overallScore: 0.8 }),
+      ]),
+    );
+
+    expect(decision.isApproved).toBe(false);
+    expect(decision.feedback).toEqual([
+      'ESEP skew 0.90 exceeds the maximum of 0.7',
+      'Cultural reference count 1 is below the minimum of 2',
+    ]);
+  });
+
+  it('applies the thresholds of the bioregion', () => {
+    expect(
+      policy.evaluate(report([references(1)], 'cascadia')).isApproved,
+    ).toBe(true);
+  });
+
+  it('rejects rituals whose filters did not complete', () => {
+    const decision = policy.evaluate(
+      report([
+        references(2),
+        {
+          ...completed('narrative', undefined),
+          filterName: 'Narrative Forensics',
+          status: 'timeout',
+        },
+      ]),
+    );
+
+    expect(decision.isApproved).toBe(false);
+    expect(decision.feedback).toEqual([
+      'Narrative Forensics did not complete (timeout)',
+    ]);
+  });
+});
+
+describe('ValidationPolicy.load', () => {
+  it('versions the policy when the environment overrides a threshold', () => {
+    const policy = ValidationPolicy.load({ ESEP_MAX_SCORE: '0.5' });
+
+    expect(policy.version).toMatch(/^1\.1\.0\+env\.[0-9a-f]{8}$/);
+    expect(policy.thresholdsFor('any').esepMaxScore).toBe(0.5);
+    expect(ValidationPolicy.load({ ESEP_MAX_SCORE: '0.7' }).version).toBe(
+      '1.1.0',
+    );
+  });
+
+  it('rejects invalid overrides and documents', () => {
+    expect(() => ValidationPolicy.load({ ESEP_MAX_SCORE: 'high' })).toThrow(
+      'ESEP_MAX_SCORE must be a number',
+    );
+    expect(() => ValidationPolicy.parse({ ...document, version: '' })).toThrow(
+      'version: Policy version is required',
+    );
+  });
+});
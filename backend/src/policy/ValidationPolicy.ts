@@ -0,0 +1,364 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ESEPResult } from '../filters/ESEPFilter';
+import { AppropriationResult } from '../filters/AppropriationFilter';
+import { CEDAResult } from '../filters/CEDAFilter';
+import { NarrativeForensicsResult } from '../filters/NarrativeForensics';
+import {
+  ValidationReport,
+  getFilterDetails,
+} from '../filters/ValidationFilter';
+import defaultPolicyDocument from './validation-policy.json';
+
+const thresholdsSchema = z.object({
+  esepMaxScore: z.number().min(0).max(1),
+  cedaMinReferences: z.number().int().min(0),
+  cedaMinDiversity: z.number().min(0).max(1),
+  cedaMinAuthenticity: z.number().min(0).max(1),
+  narrativeMinScore: z.number().min(0).max(1),
+  minPolicyScore: z.number().min(0).max(1),
+  // Defaults to 1 so policies written before the appropriation filter keep
+  // their decisions
+  appropriationMaxRisk: z.number().min(0).max(1).default(1),
+});
+
+const weightsSchema = z.object({
+  esep: z.number().min(0),
+  ceda: z.number().min(0),
+  narrative: z.number().min(0),
+});
+
+const policyDocumentSchema = z.object({
+  version: z.string().min(1, 'Policy version is required'),
+  description: z.string().optional(),
+  thresholds: thresholdsSchema,
+  weights: weightsSchema,
+  bioregions: z
+    .record(
+      z.object({
+        thresholds: thresholdsSchema.partial().optional(),
+        weights: weightsSchema.partial().optional(),
+      }),
+    )
+    .default({}),
+});
+
+export type PolicyThresholds = z.infer<typeof thresholdsSchema>;
+export type PolicyWeights = z.infer<typeof weightsSchema>;
+export type ValidationPolicyDocument = z.infer<typeof policyDocumentSchema>;
+
+// Results of the filters that completed; disabled or failed filters are absent
+export interface FilterResults {
+  esep?: ESEPResult | undefined;
+  ceda?: CEDAResult | undefined;
+  narrative?: NarrativeForensicsResult | undefined;
+  appropriation?: AppropriationResult | undefined;
+}
+
+export interface PolicyCheck {
+  name: keyof PolicyThresholds | 'filterCompleted';
+  filterId?: string | undefined;
+  passed: boolean;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export interface PolicyDecision {
+  policyVersion: string;
+  bioregionId: string;
+  isApproved: boolean;
+  policyScore: number; // 0.0 to 1.0, weighted combination of the filter scores
+  checks: PolicyCheck[];
+  feedback: string[]; // One entry per failed check
+}
+
+// Environment variables that override the thresholds of the policy document
+const THRESHOLD_ENV_VARS: Record<keyof PolicyThresholds, string> = {
+  esepMaxScore: 'ESEP_MAX_SCORE',
+  cedaMinReferences: 'CEDA_MIN_REFERENCES',
+  cedaMinDiversity: 'CEDA_DIVERSITY_THRESHOLD',
+  cedaMinAuthenticity: 'CEDA_AUTHENTICITY_THRESHOLD',
+  narrativeMinScore: 'NARRATIVE_MIN_SCORE',
+  minPolicyScore: 'POLICY_MIN_SCORE',
+  appropriationMaxRisk: 'APPROPRIATION_MAX_RISK',
+};
+
+/**
+ * Approval policy for ritual submissions. Thresholds, score weights and
+ * per-bioregion overrides come from a versioned policy document, so every
+ * decision can be traced back to the policy that made it.
+ */
+export class ValidationPolicy {
+  private readonly document: ValidationPolicyDocument;
+
+  constructor(document: ValidationPolicyDocument) {
+    this.document = document;
+  }
+
+  /**
+   * Load the policy document from VALIDATION_POLICY_PATH, or the bundled
+   * default, and apply threshold overrides from the environment.
+   */
+  static load(env: NodeJS.ProcessEnv = process.env): ValidationPolicy {
+    const path = env['VALIDATION_POLICY_PATH'];
+    const source: unknown = path
+      ? JSON.parse(readFileSync(path, 'utf-8'))
+      : defaultPolicyDocument;
+    const document = ValidationPolicy.parse(source);
+
+    const overrides: Partial<PolicyThresholds> = {};
+    for (const [name, variable] of Object.entries(THRESHOLD_ENV_VARS) as [
+      keyof PolicyThresholds,
+      string,
+    ][]) {
+      const raw = env[variable];
+      if (raw === undefined || raw.trim() === '') continue;
+
+      const value = Number(raw);
+      if (Number.isNaN(value)) {
+        throw new Error(
+          `Invalid validation policy: ${variable} must be a number`,
+        );
+      }
+      if (value !== document.thresholds[name]) {
+        overrides[name] = value;
+      }
+    }
+
+    if (Object.keys(overrides).length === 0) {
+      return new ValidationPolicy(document);
+    }
+
+    // Environment overrides change the effective policy, so they get their own
+    // version to keep recorded decisions reproducible
+    const thresholds = ValidationPolicy.parseThresholds({
+      ...document.thresholds,
+      ...overrides,
+    });
+    const digest = createHash('sha256')
+      .update(JSON.stringify(thresholds))
+      .digest('hex')
+      .slice(0, 8);
+
+    return new ValidationPolicy({
+      ...document,
+      version: `${document.version}+env.${digest}`,
+      thresholds,
+    });
+  }
+
+  /**
+   * Validate a policy document, throwing with every problem found.
+   */
+  static parse(source: unknown): ValidationPolicyDocument {
+    const result = policyDocumentSchema.safeParse(source);
+    if (!result.success) {
+      throw new Error(
+        `Invalid validation policy: ${result.error.errors
+          .map((e) => `${e.path.join('.')}: ${e.message}`)
+          .join('; ')}`,
+      );
+    }
+    return result.data;
+  }
+
+  private static parseThresholds(source: unknown): PolicyThresholds {
+    const result = thresholdsSchema.safeParse(source);
+    if (!result.success) {
+      throw new Error(
+        `Invalid validation policy: ${result.error.errors
+          .map((e) => `thresholds.${e.path.join('.')}: ${e.message}`)
+          .join('; ')}`,
+      );
+    }
+    return result.data;
+  }
+
+  get version(): string {
+    return this.document.version;
+  }
+
+  /**
+   * Thresholds in effect for a bioregion.
+   */
+  thresholdsFor(bioregionId: string): PolicyThresholds {
+    return {
+      ...this.document.thresholds,
+      ...this.document.bioregions[bioregionId]?.thresholds,
+    } as PolicyThresholds;
+  }
+
+  /**
+   * Score weights in effect for a bioregion.
+   */
+  weightsFor(bioregionId: string): PolicyWeights {
+    return {
+      ...this.document.weights,
+      ...this.document.bioregions[bioregionId]?.weights,
+    } as PolicyWeights;
+  }
+
+  /**
+   * Decide whether a ritual is approved from a filter validation report.
+   * Filters that timed out or failed reject the ritual; filters disabled for
+   * the bioregion are left out of the decision.
+   */
+  evaluate(report: ValidationReport): PolicyDecision {
+    const { bioregionId } = report;
+    const thresholds = this.thresholdsFor(bioregionId);
+    const results: FilterResults = {
+      esep: getFilterDetails<ESEPResult>(report, 'esep'),
+      ceda: getFilterDetails<CEDAResult>(report, 'ceda'),
+      narrative: getFilterDetails<NarrativeForensicsResult>(
+        report,
+        'narrative',
+      ),
+      appropriation: getFilterDetails<AppropriationResult>(
+        report,
+        'appropriation',
+      ),
+    };
+    const policyScore = this.calculatePolicyScore(
+      this.weightsFor(bioregionId),
+      results,
+    );
+
+    const checks: PolicyCheck[] = report.results
+      .filter((result) => result.status !== 'completed')
+      .map((result) => ({
+        name: 'filterCompleted',
+        filterId: result.filterId,
+        passed: false,
+        value: 0,
+        threshold: 1,
+        message: `${result.filterName} did not complete (${result.status})`,
+      }));
+
+    if (results.esep) {
+      checks.push(
+        checkThreshold(
+          'esepMaxScore',
+          'ESEP skew',
+          results.esep.score,
+          thresholds.esepMaxScore,
+        ),
+      );
+    }
+    if (results.ceda) {
+      checks.push(
+        checkThreshold(
+          'cedaMinReferences',
+          'Cultural reference count',
+          results.ceda.culturalReferences.length,
+          thresholds.cedaMinReferences,
+        ),
+        checkThreshold(
+          'cedaMinDiversity',
+          'Cultural diversity',
+          results.ceda.culturalDiversity,
+          thresholds.cedaMinDiversity,
+        ),
+        checkThreshold(
+          'cedaMinAuthenticity',
+          'Cultural authenticity',
+          results.ceda.authenticityScore,
+          thresholds.cedaMinAuthenticity,
+        ),
+      );
+    }
+    if (results.narrative) {
+      checks.push(
+        checkThreshold(
+          'narrativeMinScore',
+          'Narrative score',
+          results.narrative.overallScore,
+          thresholds.narrativeMinScore,
+        ),
+      );
+    }
+    if (results.appropriation) {
+      checks.push(
+        checkThreshold(
+          'appropriationMaxRisk',
+          'Cultural appropriation risk',
+          results.appropriation.score,
+          thresholds.appropriationMaxRisk,
+        ),
+      );
+    }
+    checks.push(
+      checkThreshold(
+        'minPolicyScore',
+        'Combined score',
+        policyScore,
+        thresholds.minPolicyScore,
+      ),
+    );
+
+    return {
+      policyVersion: this.version,
+      bioregionId,
+      isApproved: checks.every((check) => check.passed),
+      policyScore,
+      checks,
+      feedback: checks
+        .filter((check) => !check.passed)
+        .map((check) => check.message),
+    };
+  }
+
+  private calculatePolicyScore(
+    weights: PolicyWeights,
+    results: FilterResults,
+  ): number {
+    let score = 0;
+    let totalWeight = 0;
+
+    // ESEP measures skew, so a lower score is better
+    if (results.esep) {
+      score += weights.esep * (1 - results.esep.score);
+      totalWeight += weights.esep;
+    }
+    if (results.ceda) {
+      score += weights.ceda * results.ceda.authenticityScore;
+      totalWeight += weights.ceda;
+    }
+    if (results.narrative) {
+      score += weights.narrative * results.narrative.overallScore;
+      totalWeight += weights.narrative;
+    }
+
+    return totalWeight > 0
+      ? Math.round((score / totalWeight) * 1000) / 1000
+      : 0;
+  }
+}
+
+// Thresholds named "...Max..." are upper bounds, all others are lower bounds
+function checkThreshold(
+  name: keyof PolicyThresholds,
+  label: string,
+  value: number,
+  threshold: number,
+): PolicyCheck {
+  const isMaximum = name.includes('Max');
+  const passed = isMaximum ? value <= threshold : value >= threshold;
+  const relation = isMaximum
+    ? passed
+      ? 'is within the maximum of'
+      : 'exceeds the maximum of'
+    : passed
+      ? 'meets the minimum of'
+      : 'is below the minimum of';
+  const formatted = Number.isInteger(value) ? `${value}` : value.toFixed(2);
+
+  return {
+    name,
+    passed,
+    value,
+    threshold,
+    message: `${label} ${formatted} ${relation} ${threshold}`,
+  };
+}
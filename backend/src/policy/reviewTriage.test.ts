@@ -0,0 +1,148 @@
+import { ValidationReport } from '../filters/ValidationFilter';
+import { loadReviewSettings, triageForReview } from './reviewTriage';
+import { PolicyCheck, PolicyDecision } from './ValidationPolicy';
+
+const settings = { enabled: true, confidence: 0.8 };
+
+function check(
+  name: PolicyCheck['name'],
+  value: number,
+  threshold: number,
+  passed: boolean,
+): PolicyCheck {
+  return { name, passed, value, threshold, message: `${name} is ${value}` };
+}
+
+function decision(checks: PolicyCheck[]): PolicyDecision {
+  return {
+    policyVersion: '1.1.0',
+    bioregionId: 'tech-haven',
+    isApproved: checks.every((entry) => entry.passed),
+    policyScore: 0.5,
+    checks,
+    feedback: [],
+  };
+}
+
+function report(details: Record<string, unknown> = {}): ValidationReport {
+  return {
+    bioregionId: 'tech-haven',
+    language: { code: 'en', name: 'English', detected: true, confidence: 1 },
+    results: Object.entries(details).map(([filterId, entry]) => ({
+      filterId,
+      filterName: filterId,
+      status: 'completed',
+      score: 0,
+      feedback: [],
+      annotations: [],
+      details: entry,
+      durationMs: 0,
+    })),
+    skippedFilters: [],
+    feedback: [],
+    annotations: [],
+    startedAt: '',
+    completedAt: '',
+  };
+}
+
+describe('triageForReview', () => {
+  it('keeps clear decisions automatic', () => {
+    const triage = triageForReview(
+      report(),
+      decision([
+        check('esepMaxScore', 0.2, 0.7, true),
+        check('narrativeMinScore', 0.9, 0.6, true),
+      ]),
+      settings,
+    );
+
+    expect(triage).toEqual({ outcome: 'approved', reasons: [] });
+  });
+
+  it('sends checks within the margin of their threshold to review', () => {
+    const triage = triageForReview(
+      report(),
+      decision([
+        check('esepMaxScore', 0.2, 0.7, true),
+        check('narrativeMinScore', 0.55, 0.6, false),
+      ]),
+      settings,
+    );
+
+    expect(triage.outcome).toBe('pending_review');
+    expect(triage.reasons).toEqual([
+      'narrativeMinScore is 0.55, within the review margin',
+    ]);
+  });
+
+  it('sends culturally sensitive rituals to review', () => {
+    const triage = triageForReview(
+      report({
+        appropriation: {
+          riskLevel: 'high',
+          requiredReviews: ['expertReview'],
+          findings: [
+            {
+              tradition: 'sweat lodge',
+              missingPermissions: ['communityApproval'],
+            },
+          ],
+        },
+      }),
+      decision([check('appropriationMaxRisk', 1, 0.67, false)]),
+      settings,
+    );
+
+    expect(triage.outcome).toBe('pending_review');
+    expect(triage.reasons).toEqual([
+      'Cultural appropriation risk is high for "sweat lodge"',
+    ]);
+  });
+
+  it('rejects rituals that fail another check clearly', () => {
+    const triage = triageForReview(
+      report({
+        appropriation: {
+          riskLevel: 'high',
+          requiredReviews: ['expertReview'],
+          findings: [],
+        },
+      }),
+      decision([
+        check('appropriationMaxRisk', 1, 0.67, false),
+        check('esepMaxScore', 0.95, 0.7, false),
+      ]),
+      settings,
+    );
+
+    expect(triage).toEqual({ outcome: 'rejected', reasons: [] });
+  });
+
+  it('keeps the automatic decision when review is disabled', () => {
+    const triage = triageForReview(
+      report(),
+      decision([check('narrativeMinScore', 0.55, 0.6, false)]),
+      { ...settings, enabled: false },
+    );
+
+    expect(triage.outcome).toBe('rejected');
+  });
+});
+
+describe('loadReviewSettings', () => {
+  it('reads the confidence from the environment', () => {
+    expect(
+      loadReviewSettings({
+        EXPERT_REVIEW_ENABLED: 'false',
+        EXPERT_REVIEW_THRESHOLD: '0.9',
+      }),
+    ).toEqual({ enabled: false, confidence: 0.9 });
+  });
+
+  it('rejects confidences outside 0 to 1', () => {
+    expect(() => loadReviewSettings({ EXPERT_REVIEW_THRESHOLD: '80' })).toThrow(
+      'EXPERT_REVIEW_THRESHOLD must be a number from 0 to 1',
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { AppropriationResult } from '../filters/AppropriationFilter';
+import { NarrativeForensicsResult } from '../filters/NarrativeForensics';
+import {
+  ValidationReport,
+  getFilterDetails,
+} from '../filters/ValidationFilter';
+import { PolicyCheck, PolicyDecision } from './ValidationPolicy';
+
+export interface ReviewSettings {
+  enabled: boolean;
+  // Confidence needed for an automatic decision: checks closer to their
+  // threshold than (1 - confidence) x threshold go to expert review
+  confidence: number;
+}
+
+export type TriageOutcome = 'approved' | 'rejected' | 'pending_review';
+
+export interface ReviewTriage {
+  outcome: TriageOutcome;
+  reasons: string[]; // Why the ritual needs a human decision
+}
+
+// Cultural checks are resolved by the review itself rather than rejecting
+const CULTURAL_CHECKS: PolicyCheck['name'][] = ['appropriationMaxRisk'];
+
+export function loadReviewSettings(
+  env: NodeJS.ProcessEnv = process.env,
+): ReviewSettings {
+  const confidence = Number(env['EXPERT_REVIEW_THRESHOLD'] ?? '0.8');
+  if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error('EXPERT_REVIEW_THRESHOLD must be a number from 0 to 1');
+  }
+
+  return {
+    enabled: env['EXPERT_REVIEW_ENABLED'] !== 'false',
+    confidence,
+  };
+}
+
+/**
+ * Decide whether a policy decision stands or a ritual goes to expert review.
+ * Rituals near a threshold or with cultural sensitivity flags are reviewed,
+ * unless another check fails clearly, in which case they are rejected.
+ */
+export function triageForReview(
+  report: ValidationReport,
+  decision: PolicyDecision,
+  settings: ReviewSettings,
+): ReviewTriage {
+  const automatic: ReviewTriage = {
+    outcome: decision.isApproved ? 'approved' : 'rejected',
+    reasons: [],
+  };
+  if (!settings.enabled) return automatic;
+
+  const margin = 1 - settings.confidence;
+  const borderline = decision.checks.filter((check) =>
+    isBorderline(check, margin),
+  );
+  const clearFailures = decision.checks.filter(
+    (check) =>
+      !check.passed &&
+      !borderline.includes(check) &&
+      !CULTURAL_CHECKS.includes(check.name),
+  );
+  if (clearFailures.length > 0) return automatic;
+
+  const reasons = borderline.map(
+    (check) => `${check.message}, within the review margin`,
+  );
+
+  const appropriation = getFilterDetails<AppropriationResult>(
+    report,
+    'appropriation',
+  );
+  if (appropriation && appropriation.requiredReviews.length > 0) {
+    reasons.push(
+      `Cultural appropriation risk is ${appropriation.riskLevel} for ${appropriation.findings
+        .filter((finding) => finding.missingPermissions.length > 0)
+        .map((finding) => `"${finding.tradition}"`)
+        .join(', ')}`,
+    );
+  }
+
+  const narrative = getFilterDetails<NarrativeForensicsResult>(
+    report,
+    'narrative',
+  );
+  const culturalIssues =
+    narrative?.detectedIssues.filter((issue) => issue.type === 'cultural') ??
+    [];
+  if (culturalIssues.length > 0) {
+    reasons.push(
+      `${culturalIssues.length} cultural sensitivity issue(s) in the narrative`,
+    );
+  }
+
+  return reasons.length > 0
+    ? { outcome: 'pending_review', reasons }
+    : automatic;
+}
+
+// Thresholds of 0 disable a check, so nothing is near them
+function isBorderline(check: PolicyCheck, margin: number): boolean {
+  if (check.name === 'filterCompleted' || check.threshold <= 0) return false;
+  return Math.abs(check.value - check.threshold) <= check.threshold * margin;
+}
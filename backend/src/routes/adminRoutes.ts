@@ -0,0 +1,606 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { actorOf, requirePermission } from '../middleware/permissions';
+import { TransactionDocument } from '../services/DatabaseService';
+
+const DISCREPANCY_TYPES = [
+  'orphaned_event',
+  'transaction_mismatch',
+  'approval_mismatch',
+  'missing_event',
+] as const;
+
+// Request schemas
+const discrepancyQuerySchema = z.object({
+  type: z.enum(DISCREPANCY_TYPES).optional(),
+  resolved: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+const TRANSACTION_STATUSES = [
+  'pending',
+  'confirmed',
+  'failed',
+  'canceled',
+  'dropped',
+] as const;
+
+const transactionQuerySchema = z.object({
+  status: z.enum(TRANSACTION_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const runSchema = z
+  .object({
+    fromBlock: z.number().int().min(0).optional(),
+    toBlock: z.number().int().min(0).optional(),
+  })
+  .refine(
+    ({ fromBlock, toBlock }) =>
+      fromBlock === undefined || toBlock === undefined || fromBlock <= toBlock,
+    { message: 'fromBlock must not be after toBlock', path: ['fromBlock'] },
+  );
+
+const reportSchema = {
+  type: 'object',
+  properties: {
+    fromBlock: { type: 'number' },
+    toBlock: { type: 'number' },
+    events: { type: 'number' },
+    backfilled: { type: 'number' },
+    discrepancies: { type: 'number' },
+    resolved: { type: 'number' },
+    startedAt: { type: 'string' },
+    completedAt: { type: 'string' },
+  },
+};
+
+const discrepancySchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string' },
+    type: { type: 'string', enum: DISCREPANCY_TYPES },
+    message: { type: 'string' },
+    ritualId: { type: 'string' },
+    chainRitualId: { type: 'string' },
+    transactionHash: { type: 'string' },
+    blockNumber: { type: 'number' },
+    detectedAt: { type: 'string' },
+    lastSeenAt: { type: 'string' },
+    resolvedAt: { type: 'string' },
+  },
+};
+
+const transactionSchema = {
+  type: 'object',
+  properties: {
+    txId: { type: 'string' },
+    label: { type: 'string' },
+    key: { type: 'string' },
+    from: { type: 'string' },
+    nonce: { type: 'number' },
+    to: { type: 'string' },
+    value: { type: 'string' },
+    gasLimit: { type: 'string' },
+    status: { type: 'string', enum: TRANSACTION_STATUSES },
+    canceling: { type: 'boolean' },
+    broadcasts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          hash: { type: 'string' },
+          kind: { type: 'string' },
+          maxFeePerGas: { type: 'string' },
+          maxPriorityFeePerGas: { type: 'string' },
+          sentAt: { type: 'string' },
+        },
+      },
+    },
+    minedHash: { type: 'string' },
+    blockNumber: { type: 'number' },
+    error: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+type TransactionParams = { txId: string };
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Operator endpoints, for wallets with the system:operate permission and the
+// ADMIN_API_KEY sent as x-api-key
+export async function adminRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', requirePermission('system:operate'));
+
+  // State of the chain reconciliation worker and its last run
+  fastify.get(
+    '/reconciliation',
+    {
+      schema: {
+        description: 'Get the status of chain-to-database reconciliation',
+        tags: ['admin'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              enabled: { type: 'boolean' },
+              running: { type: 'boolean' },
+              cursor: { type: ['number', 'null'] },
+              lastReport: { ...reportSchema, nullable: true },
+              lastError: { type: ['string', 'null'] },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const status = await fastify.reconciler.status();
+        return reply.send({ success: true, ...status });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to fetch reconciliation status',
+        );
+      }
+    },
+  );
+
+  // State of the contract event indexer and what it has indexed
+  fastify.get(
+    '/indexer',
+    {
+      schema: {
+        description: 'Get the status of the contract event indexer',
+        tags: ['admin'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              enabled: { type: 'boolean' },
+              running: { type: 'boolean' },
+              cursor: { type: ['number', 'null'] },
+              lastReport: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  fromBlock: { type: 'number' },
+                  toBlock: { type: 'number' },
+                  events: { type: 'number' },
+                  rolledBackTo: { type: ['number', 'null'] },
+                  startedAt: { type: 'string' },
+                  completedAt: { type: 'string' },
+                },
+              },
+              lastError: { type: ['string', 'null'] },
+              statistics: {
+                type: 'object',
+                properties: {
+                  rituals: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'number' },
+                      approved: { type: 'number' },
+                    },
+                  },
+                  bioregions: { type: 'number' },
+                  pledges: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'number' },
+                      fulfilled: { type: 'number' },
+                      verified: { type: 'number' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const [status, statistics] = await Promise.all([
+          fastify.indexer.status(),
+          fastify.db.getChainStatistics(),
+        ]);
+        return reply.send({ success: true, ...status, statistics });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to fetch indexer status',
+        );
+      }
+    },
+  );
+
+  // Discrepancies between the chain and the database, newest first
+  fastify.get(
+    '/reconciliation/discrepancies',
+    {
+      schema: {
+        description:
+          'List discrepancies found between on-chain events and stored rituals',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: DISCREPANCY_TYPES },
+            resolved: { type: 'string', enum: ['true', 'false'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              discrepancies: { type: 'array', items: discrepancySchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { type, resolved } = discrepancyQuerySchema.parse(request.query);
+        const discrepancies = await fastify.db.getDiscrepancies({
+          ...(type && { type }),
+          ...(resolved !== undefined && { resolved }),
+        });
+
+        return reply.send({
+          success: true,
+          discrepancies,
+          count: discrepancies.length,
+        });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to list discrepancies',
+        );
+      }
+    },
+  );
+
+  // Reconcile now, from the cursor or over an explicit block range
+  fastify.post(
+    '/reconciliation/run',
+    {
+      schema: {
+        description:
+          'Run reconciliation now; an explicit block range is rescanned without moving the cursor',
+        tags: ['admin'],
+        body: {
+          type: 'object',
+          properties: {
+            fromBlock: { type: 'integer', minimum: 0 },
+            toBlock: { type: 'integer', minimum: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              report: reportSchema,
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { fromBlock, toBlock } = runSchema.parse(request.body ?? {});
+        if ((await fastify.reconciler.status()).running) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Reconciliation already running',
+            details: ['Wait for the current run to finish'],
+          });
+        }
+
+        const report = await fastify.reconciler.run({
+          ...(fromBlock !== undefined && { fromBlock }),
+          ...(toBlock !== undefined && { toBlock }),
+        });
+
+        fastify.log.info({ report }, 'Reconciliation run completed');
+        return reply.send({ success: true, report });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Reconciliation run failed');
+      }
+    },
+  );
+
+  // Transactions sent from the backend wallet, newest first
+  fastify.get(
+    '/transactions',
+    {
+      schema: {
+        description: 'List transactions sent from the backend wallet',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: TRANSACTION_STATUSES },
+            limit: { type: 'integer', minimum: 1, maximum: 500 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              transactions: { type: 'array', items: transactionSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { status, limit } = transactionQuerySchema.parse(request.query);
+        const transactions = await fastify.db.getTransactions(
+          { ...(status && { status }) },
+          limit,
+        );
+
+        return reply.send({
+          success: true,
+          transactions,
+          count: transactions.length,
+        });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to list transactions',
+        );
+      }
+    },
+  );
+
+  // Rebroadcast a stuck transaction with higher fees
+  fastify.post(
+    '/transactions/:txId/speed-up',
+    {
+      schema: {
+        description:
+          'Rebroadcast a pending transaction with the same nonce and higher fees',
+        tags: ['admin'],
+        params: {
+          type: 'object',
+          properties: {
+            txId: { type: 'string' },
+          },
+          required: ['txId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              transaction: transactionSchema,
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { txId } = request.params as TransactionParams;
+      try {
+        const unavailable = await checkPending(fastify, reply, txId);
+        if (unavailable) return unavailable;
+
+        const transaction = await fastify.blockchain.speedUpTransaction(txId);
+        if (!transaction) {
+          return notPending(reply, txId);
+        }
+
+        fastify.log.info(
+          { txId, actor: actorOf(request) },
+          'Transaction sped up',
+        );
+        return reply.send({ success: true, transaction });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to speed up transaction',
+        );
+      }
+    },
+  );
+
+  // Replace a stuck transaction with a transfer of nothing to the wallet
+  fastify.post(
+    '/transactions/:txId/cancel',
+    {
+      schema: {
+        description:
+          'Replace a pending transaction with a zero-value transfer to the wallet itself, with higher fees',
+        tags: ['admin'],
+        params: {
+          type: 'object',
+          properties: {
+            txId: { type: 'string' },
+          },
+          required: ['txId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              transaction: transactionSchema,
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { txId } = request.params as TransactionParams;
+      try {
+        const unavailable = await checkPending(fastify, reply, txId);
+        if (unavailable) return unavailable;
+
+        const transaction = await fastify.blockchain.cancelTransaction(txId);
+        if (!transaction) {
+          return notPending(reply, txId);
+        }
+
+        fastify.log.info(
+          { txId, actor: actorOf(request) },
+          'Transaction canceled',
+        );
+        return reply.send({ success: true, transaction });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to cancel transaction',
+        );
+      }
+    },
+  );
+
+  // Remove rituals older than a year from the database
+  fastify.post(
+    '/maintenance/cleanup',
+    {
+      schema: {
+        description: 'Delete rituals older than a year from the database',
+        tags: ['admin'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              deleted: { type: 'number' },
+            },
+          },
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const deleted = await fastify.db.cleanup();
+
+        fastify.log.info(
+          { deleted, actor: actorOf(request) },
+          'Database cleanup completed',
+        );
+        return reply.send({ success: true, deleted });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Database cleanup failed');
+      }
+    },
+  );
+}
+
+// Reply 404 or 409 unless the transaction is pending
+async function checkPending(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  txId: string,
+) {
+  const transaction = await fastify.db.getTransactionById(txId);
+  if (!transaction) {
+    return reply.status(404).send({
+      success: false,
+      error: 'Transaction not found',
+      details: [`No transaction found with ID: ${txId}`],
+    });
+  }
+  if (transaction.status !== 'pending') {
+    return notPending(reply, txId, transaction);
+  }
+  return null;
+}
+
+function notPending(
+  reply: FastifyReply,
+  txId: string,
+  transaction?: TransactionDocument,
+) {
+  return reply.status(409).send({
+    success: false,
+    error: 'Transaction not pending',
+    details: [
+      transaction
+        ? `Transaction ${txId} is ${transaction.status}`
+        : `Transaction ${txId} is no longer pending`,
+    ],
+  });
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
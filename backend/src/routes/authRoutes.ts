@@ -0,0 +1,180 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { PERMISSIONS, ROLES, permissionsOf } from '../auth/permissions';
+import { requireWallet, signedInWallet } from '../middleware/walletAuth';
+import { AuthService } from '../services/AuthService';
+import { RoleService } from '../services/RoleService';
+
+// Request schemas
+const verifySchema = z.object({
+  message: z.string().min(1, 'Message is required').max(4000),
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]+$/, 'Must be a hex signature')
+    .max(1000),
+});
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Sign-In with Ethereum: get a nonce, sign a message with it, get a token
+export async function authRoutes(fastify: FastifyInstance) {
+  const authService = () => new AuthService(fastify.db);
+
+  fastify.get(
+    '/nonce',
+    {
+      schema: {
+        description:
+          'Get a single-use nonce, domain and chain ID for a Sign-In with Ethereum message',
+        tags: ['auth'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              nonce: { type: 'string' },
+              domain: { type: 'string' },
+              chainId: { type: 'number' },
+              expiresAt: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        return reply.send({
+          success: true,
+          ...(await authService().createNonce()),
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to issue nonce');
+      }
+    },
+  );
+
+  fastify.post(
+    '/verify',
+    {
+      schema: {
+        description:
+          'Exchange a signed Sign-In with Ethereum message for a bearer token',
+        tags: ['auth'],
+        body: {
+          type: 'object',
+          required: ['message', 'signature'],
+          properties: {
+            message: { type: 'string', minLength: 1, maxLength: 4000 },
+            signature: { type: 'string', pattern: '^0x[a-fA-F0-9]+$' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              token: { type: 'string' },
+              address: { type: 'string' },
+              expiresAt: { type: 'string' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { message, signature } = verifySchema.parse(request.body);
+
+        const result = await authService().signIn(message, signature);
+        if ('errors' in result) {
+          return reply.status(401).send({
+            success: false,
+            error: 'Sign-in failed',
+            details: result.errors,
+          });
+        }
+
+        fastify.log.info({ address: result.session.address }, 'Signed in');
+        return reply.send({ success: true, ...result.session });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to sign in');
+      }
+    },
+  );
+
+  fastify.get(
+    '/me',
+    {
+      onRequest: requireWallet(),
+      schema: {
+        description:
+          'Get the wallet address the bearer token was issued to, with its roles and permissions',
+        tags: ['auth'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              address: { type: 'string' },
+              roles: {
+                type: 'array',
+                items: { type: 'string', enum: [...ROLES] },
+              },
+              permissions: {
+                type: 'array',
+                items: { type: 'string', enum: [...PERMISSIONS] },
+              },
+            },
+          },
+          401: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const address = signedInWallet(request);
+        const roles = await new RoleService(fastify.db).rolesOf(address);
+
+        return reply.send({
+          success: true,
+          address,
+          roles,
+          permissions: permissionsOf(roles),
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch roles');
+      }
+    },
+  );
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
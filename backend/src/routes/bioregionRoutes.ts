@@ -0,0 +1,622 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import {
+  boundaryJsonSchema,
+  boundarySchema,
+  geoPointJsonSchema,
+  locationSchema,
+  toGeoPoint,
+} from '../geo/geojson';
+import { requirePermission } from '../middleware/permissions';
+import { BioregionService } from '../services/BioregionService';
+
+// Request schemas
+const listQuerySchema = z.object({
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  ecosystem: z.string().max(64).optional(),
+});
+
+// Coordinates arrive as query strings
+const pointQuerySchema = z.object({
+  latitude: z.coerce.number().pipe(locationSchema.shape.latitude),
+  longitude: z.coerce.number().pipe(locationSchema.shape.longitude),
+});
+
+const nearbyQuerySchema = pointQuerySchema.extend({
+  radiusKm: z.coerce.number().positive().max(1000).default(50),
+  bioregionId: z.string().max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const ecosystemSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9]+(-[a-z0-9]+)*$/,
+    'Ecosystem tags must be lowercase words separated by hyphens',
+  )
+  .max(64, 'Ecosystem tag too long');
+
+const climateSchema = z.object({
+  zone: z.string().max(10, 'Climate zone too long').optional(),
+  meanTemperatureC: z.number().min(-60).max(60).optional(),
+  annualPrecipitationMm: z.number().min(0).max(15000).optional(),
+});
+
+const profileSchema = z.object({
+  boundary: boundarySchema,
+  ecosystems: z.array(ecosystemSchema).max(20, 'Too many ecosystem tags'),
+  climate: climateSchema,
+});
+
+const createSchema = z.object({
+  bioregionId: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      'Bioregion ID must be lowercase words separated by hyphens',
+    )
+    .max(64, 'Bioregion ID too long'),
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().max(1000, 'Description too long').default(''),
+  registrar: z.string().min(1, 'Registrar is required').max(100),
+  ...profileSchema.partial().shape,
+});
+
+const updateSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+    description: z.string().max(1000, 'Description too long'),
+    isActive: z.boolean(),
+    ...profileSchema.shape,
+  })
+  .partial();
+
+type BioregionParams = { id: string };
+
+const climateJsonSchema = {
+  type: 'object',
+  properties: {
+    zone: { type: 'string', maxLength: 10 },
+    meanTemperatureC: { type: 'number', minimum: -60, maximum: 60 },
+    annualPrecipitationMm: { type: 'number', minimum: 0, maximum: 15000 },
+  },
+};
+
+const profileJsonSchema = {
+  boundary: boundaryJsonSchema,
+  ecosystems: { type: 'array', maxItems: 20, items: { type: 'string' } },
+  climate: climateJsonSchema,
+};
+
+const pointQueryJsonSchema = {
+  type: 'object',
+  required: ['latitude', 'longitude'],
+  properties: {
+    latitude: { type: 'number', minimum: -90, maximum: 90 },
+    longitude: { type: 'number', minimum: -180, maximum: 180 },
+  },
+};
+
+const bioregionSchema = {
+  type: 'object',
+  properties: {
+    bioregionId: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    registrar: { type: 'string' },
+    registrationTimestamp: { type: 'string' },
+    ritualCount: { type: 'number' },
+    isActive: { type: 'boolean' },
+    boundary: boundaryJsonSchema,
+    ecosystems: { type: 'array', items: { type: 'string' } },
+    climate: climateJsonSchema,
+    chainSync: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['pending', 'proposed', 'synced', 'failed'],
+        },
+        ritualSubmissionTx: { type: 'string' },
+        symbiosisPledgeTx: { type: 'string' },
+        proposalId: { type: 'string' },
+        error: { type: 'string' },
+        syncedAt: { type: 'string' },
+      },
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const ritualSchema = {
+  type: 'object',
+  properties: {
+    ritualId: { type: 'string' },
+    name: { type: 'string' },
+    bioregionId: { type: 'string' },
+    status: { type: 'string' },
+    location: geoPointJsonSchema,
+    ipfsHash: { type: 'string' },
+    transactionHash: { type: 'string' },
+    validation: {
+      type: 'object',
+      properties: {
+        esepScore: { type: 'number' },
+        cedaScore: { type: 'number' },
+        isApproved: { type: 'boolean' },
+        policyVersion: { type: 'string' },
+      },
+    },
+    createdAt: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const paramsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const bioregionResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      bioregion: bioregionSchema,
+    },
+  },
+  400: errorSchema,
+  401: errorSchema,
+  403: errorSchema,
+  404: errorSchema,
+  409: errorSchema,
+};
+
+export async function bioregionRoutes(fastify: FastifyInstance) {
+  const bioregionService = () =>
+    new BioregionService(fastify.db, fastify.blockchain);
+
+  // List bioregions by name
+  fastify.get(
+    '/',
+    {
+      schema: {
+        description: 'List registered bioregions',
+        tags: ['bioregions'],
+        querystring: {
+          type: 'object',
+          properties: {
+            includeInactive: { type: 'string', enum: ['true', 'false'] },
+            ecosystem: { type: 'string', maxLength: 64 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              bioregions: { type: 'array', items: bioregionSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { includeInactive, ecosystem } = listQuerySchema.parse(
+          request.query,
+        );
+        const bioregions = await fastify.db.getAllBioregions({
+          ...(includeInactive !== undefined && { includeInactive }),
+          ...(ecosystem !== undefined && { ecosystem }),
+        });
+
+        return reply.send({
+          success: true,
+          bioregions,
+          count: bioregions.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list bioregions');
+      }
+    },
+  );
+
+  // Bioregions whose boundary contains a point
+  fastify.get(
+    '/locate',
+    {
+      schema: {
+        description: 'Find the active bioregions that contain a point',
+        tags: ['bioregions'],
+        querystring: pointQueryJsonSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              bioregions: { type: 'array', items: bioregionSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const location = pointQuerySchema.parse(request.query);
+        const bioregions = await fastify.db.getBioregionsContaining(
+          toGeoPoint(location),
+        );
+
+        return reply.send({
+          success: true,
+          bioregions,
+          count: bioregions.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to locate bioregion');
+      }
+    },
+  );
+
+  // Rituals located near a point, nearest first
+  fastify.get(
+    '/rituals/nearby',
+    {
+      schema: {
+        description: 'List the rituals within a distance of a point',
+        tags: ['bioregions'],
+        querystring: {
+          ...pointQueryJsonSchema,
+          properties: {
+            ...pointQueryJsonSchema.properties,
+            radiusKm: { type: 'number', exclusiveMinimum: 0, maximum: 1000 },
+            bioregionId: { type: 'string', maxLength: 64 },
+            limit: { type: 'integer', minimum: 1, maximum: 100 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              rituals: { type: 'array', items: ritualSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { radiusKm, bioregionId, limit, ...location } =
+          nearbyQuerySchema.parse(request.query);
+        const rituals = await fastify.db.getRitualsNear(
+          toGeoPoint(location),
+          radiusKm,
+          { limit, ...(bioregionId !== undefined && { bioregionId }) },
+        );
+
+        return reply.send({ success: true, rituals, count: rituals.length });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to fetch nearby rituals',
+        );
+      }
+    },
+  );
+
+  fastify.get(
+    '/:id',
+    {
+      schema: {
+        description: 'Get a bioregion by ID',
+        tags: ['bioregions'],
+        params: paramsSchema,
+        response: bioregionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as BioregionParams;
+        const bioregion = await fastify.db.getBioregionById(id);
+
+        if (!bioregion) {
+          return notFound(reply, id);
+        }
+
+        return reply.send({ success: true, bioregion });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch bioregion');
+      }
+    },
+  );
+
+  // Rituals submitted in a bioregion, newest first
+  fastify.get(
+    '/:id/rituals',
+    {
+      schema: {
+        description: 'List the rituals of a bioregion',
+        tags: ['bioregions'],
+        params: paramsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              rituals: { type: 'array', items: ritualSchema },
+              count: { type: 'number' },
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as BioregionParams;
+        if (!(await fastify.db.getBioregionById(id))) {
+          return notFound(reply, id);
+        }
+
+        const rituals = await fastify.db.getRitualsByBioregion(id);
+        return reply.send({ success: true, rituals, count: rituals.length });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to fetch bioregion rituals',
+        );
+      }
+    },
+  );
+
+  // Register a bioregion in the registry and on both contracts
+  fastify.post(
+    '/',
+    {
+      preHandler: requirePermission('bioregions:manage'),
+      schema: {
+        description:
+          'Register a bioregion; it is registered on chain as well, and a failed registration can be retried',
+        tags: ['bioregions'],
+        body: {
+          type: 'object',
+          required: ['bioregionId', 'name', 'registrar'],
+          properties: {
+            bioregionId: { type: 'string', minLength: 1, maxLength: 64 },
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            description: { type: 'string', maxLength: 1000 },
+            registrar: { type: 'string', minLength: 1, maxLength: 100 },
+            ...profileJsonSchema,
+          },
+        },
+        response: {
+          ...bioregionResponse,
+          201: bioregionResponse[200],
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = createSchema.parse(request.body);
+
+        if (await fastify.db.getBioregionById(data.bioregionId)) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Bioregion already exists',
+            details: [`A bioregion with ID ${data.bioregionId} is registered`],
+          });
+        }
+
+        const bioregion = await bioregionService().create(data);
+        fastify.log.info(
+          {
+            bioregionId: bioregion.bioregionId,
+            chainSync: bioregion.chainSync?.status,
+          },
+          'Bioregion registered',
+        );
+
+        return reply.status(201).send({ success: true, bioregion });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to register bioregion',
+        );
+      }
+    },
+  );
+
+  fastify.patch(
+    '/:id',
+    {
+      preHandler: requirePermission('bioregions:manage'),
+      schema: {
+        description:
+          'Update a bioregion; the name cannot change once it is registered on GRC_RitualSubmission',
+        tags: ['bioregions'],
+        params: paramsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            description: { type: 'string', maxLength: 1000 },
+            isActive: { type: 'boolean' },
+            ...profileJsonSchema,
+          },
+        },
+        response: bioregionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as BioregionParams;
+        const updates = updateSchema.parse(request.body);
+
+        const result = await bioregionService().update(id, {
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.description !== undefined && {
+            description: updates.description,
+          }),
+          ...(updates.isActive !== undefined && {
+            isActive: updates.isActive,
+          }),
+          ...(updates.boundary !== undefined && {
+            boundary: updates.boundary,
+          }),
+          ...(updates.ecosystems !== undefined && {
+            ecosystems: updates.ecosystems,
+          }),
+          ...(updates.climate !== undefined && {
+            climate: updates.climate,
+          }),
+        });
+        if (!result) {
+          return notFound(reply, id);
+        }
+        if ('errors' in result) {
+          return notRenamed(reply, result.errors);
+        }
+
+        return reply.send({ success: true, bioregion: result.bioregion });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to update bioregion');
+      }
+    },
+  );
+
+  // Registrations on chain cannot be undone, so bioregions are deactivated
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: requirePermission('bioregions:manage'),
+      schema: {
+        description:
+          'Deactivate a bioregion so it no longer accepts ritual submissions',
+        tags: ['bioregions'],
+        params: paramsSchema,
+        response: bioregionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as BioregionParams;
+        const result = await bioregionService().update(id, {
+          isActive: false,
+        });
+
+        if (!result) {
+          return notFound(reply, id);
+        }
+        if ('errors' in result) {
+          return notRenamed(reply, result.errors);
+        }
+
+        fastify.log.info({ bioregionId: id }, 'Bioregion deactivated');
+        return reply.send({ success: true, bioregion: result.bioregion });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to deactivate bioregion',
+        );
+      }
+    },
+  );
+
+  // Retry registering a bioregion on chain
+  fastify.post(
+    '/:id/sync',
+    {
+      preHandler: requirePermission('bioregions:manage'),
+      schema: {
+        description:
+          'Register a bioregion on both contracts again, through a council proposal when the council owns them',
+        tags: ['bioregions'],
+        params: paramsSchema,
+        response: bioregionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as BioregionParams;
+        if (!(await fastify.db.getBioregionById(id))) {
+          return notFound(reply, id);
+        }
+
+        const bioregion = await bioregionService().syncToChain(id);
+        return reply.send({ success: true, bioregion });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to sync bioregion');
+      }
+    },
+  );
+}
+
+function notFound(reply: FastifyReply, id: string) {
+  return reply.status(404).send({
+    success: false,
+    error: 'Bioregion not found',
+    details: [`No bioregion found with ID: ${id}`],
+  });
+}
+
+function notRenamed(reply: FastifyReply, errors: string[]) {
+  return reply.status(409).send({
+    success: false,
+    error: 'Bioregion cannot be renamed',
+    details: errors,
+  });
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
@@ -0,0 +1,889 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requirePermission } from '../middleware/permissions';
+import { requireWallet, signedInWallet } from '../middleware/walletAuth';
+import { validateChoice } from '../elections/votingMethods';
+import {
+  BallotChoice,
+  ElectionDocument,
+  ElectionResult,
+} from '../services/DatabaseService';
+import {
+  ElectionPhase,
+  ElectionService,
+  electionPhase,
+} from '../services/ElectionService';
+
+// Request schemas
+const phases = [
+  'scheduled',
+  'nomination',
+  'voting',
+  'closed',
+  'certified',
+] as const;
+
+const votingMethods = [
+  'plurality',
+  'ranked_choice',
+  'approval',
+  'quadratic',
+] as const;
+
+const listQuerySchema = z.object({
+  bioregionId: z.string().min(1).optional(),
+  phase: z.enum(phases).optional(),
+});
+
+const createSchema = z.object({
+  bioregionId: z.string().min(1, 'Bioregion is required').max(64),
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  seats: z.number().int().min(1).max(50),
+  votingMethod: z.enum(votingMethods).default('plurality'),
+  creditBudget: z.number().int().min(1).max(10000).optional(),
+  nominationStartsAt: z.coerce.date().optional(),
+});
+
+// Candidates and voters are the signed-in wallet, never a field
+const nominationSchema = z.object({
+  member: z.undefined({
+    invalid_type_error: 'Candidates register as the signed-in wallet',
+  }),
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  statement: z.string().max(2000, 'Statement too long').default(''),
+});
+
+const voteSchema = z.object({
+  electionId: z.string().min(1, 'Election is required'),
+  voter: z.undefined({
+    invalid_type_error: 'Ballots are cast by the signed-in wallet',
+  }),
+  // The field for the election's voting method is required
+  candidateId: z.string().min(1).optional(),
+  rankings: z.array(z.string().min(1)).max(50).optional(),
+  approvals: z.array(z.string().min(1)).max(50).optional(),
+  allocations: z
+    .array(
+      z.object({
+        candidateId: z.string().min(1),
+        votes: z.number().int().min(1),
+      }),
+    )
+    .max(50)
+    .optional(),
+});
+
+const certifySchema = z.object({
+  certifiedBy: z.string().min(1, 'Certifier is required').max(100),
+});
+
+type ElectionParams = { id: string };
+
+const candidateVotesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      candidateId: { type: 'string' },
+      votes: { type: 'number' },
+    },
+  },
+};
+
+const resultSchema = {
+  type: 'object',
+  properties: {
+    method: { type: 'string', enum: [...votingMethods] },
+    ballots: { type: 'number' },
+    totalVotes: { type: 'number' },
+    quorum: { type: 'number' },
+    quorumMet: { type: 'boolean' },
+    quota: { type: 'number' },
+    tallies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          candidateId: { type: 'string' },
+          name: { type: 'string' },
+          votes: { type: 'number' },
+          elected: { type: 'boolean' },
+        },
+      },
+    },
+    rounds: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          round: { type: 'number' },
+          votes: candidateVotesSchema,
+          exhausted: { type: 'number' },
+          elected: { type: 'string' },
+          excluded: { type: 'string' },
+          transferValue: { type: 'number' },
+        },
+      },
+    },
+    elected: { type: 'array', items: { type: 'string' } },
+    talliedAt: { type: 'string' },
+  },
+};
+
+// A ballot's choice, without the voter
+const choiceSchema = {
+  type: 'object',
+  properties: {
+    method: { type: 'string', enum: [...votingMethods] },
+    candidateId: { type: 'string' },
+    rankings: { type: 'array', items: { type: 'string' } },
+    approvals: { type: 'array', items: { type: 'string' } },
+    allocations: candidateVotesSchema,
+  },
+};
+
+const electionSchema = {
+  type: 'object',
+  properties: {
+    electionId: { type: 'string' },
+    bioregionId: { type: 'string' },
+    title: { type: 'string' },
+    seats: { type: 'number' },
+    votingMethod: { type: 'string', enum: [...votingMethods] },
+    creditBudget: { type: 'number' },
+    quorum: { type: 'number' },
+    phase: { type: 'string', enum: [...phases] },
+    nominationStartsAt: { type: 'string' },
+    nominationEndsAt: { type: 'string' },
+    votingEndsAt: { type: 'string' },
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          candidateId: { type: 'string' },
+          member: { type: 'string' },
+          name: { type: 'string' },
+          statement: { type: 'string' },
+          nominatedAt: { type: 'string' },
+        },
+      },
+    },
+    result: resultSchema,
+    certifiedBy: { type: 'string' },
+    certifiedAt: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+};
+
+const electionResultSchema = {
+  type: 'object',
+  properties: {
+    electionId: { type: 'string' },
+    bioregionId: { type: 'string' },
+    title: { type: 'string' },
+    seats: { type: 'number' },
+    votingMethod: { type: 'string', enum: [...votingMethods] },
+    certified: { type: 'boolean' },
+    certifiedAt: { type: 'string' },
+    result: resultSchema,
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const paramsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const electionResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      election: electionSchema,
+    },
+  },
+  400: errorSchema,
+  401: errorSchema,
+  403: errorSchema,
+  404: errorSchema,
+  409: errorSchema,
+};
+
+export async function daoRoutes(fastify: FastifyInstance) {
+  const electionService = () => new ElectionService(fastify.db);
+
+  // List Cultural Heritage Council elections, newest first
+  fastify.get(
+    '/elections',
+    {
+      schema: {
+        description: 'List Cultural Heritage Council elections',
+        tags: ['dao'],
+        querystring: {
+          type: 'object',
+          properties: {
+            bioregionId: { type: 'string' },
+            phase: { type: 'string', enum: [...phases] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              elections: { type: 'array', items: electionSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { bioregionId, phase } = listQuerySchema.parse(request.query);
+        const elections = (
+          await fastify.db.getElections({ ...(bioregionId && { bioregionId }) })
+        )
+          .map((election) => toResponse(election))
+          .filter((election) => !phase || election.phase === phase);
+
+        return reply.send({
+          success: true,
+          elections,
+          count: elections.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list elections');
+      }
+    },
+  );
+
+  fastify.get(
+    '/elections/:id',
+    {
+      schema: {
+        description: 'Get an election with its candidates',
+        tags: ['dao'],
+        params: paramsSchema,
+        response: electionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ElectionParams;
+        const election = await fastify.db.getElectionById(id);
+
+        if (!election) {
+          return notFound(reply, id);
+        }
+
+        return reply.send({ success: true, election: toResponse(election) });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch election');
+      }
+    },
+  );
+
+  // Open an election; its periods follow from the configured durations
+  fastify.post(
+    '/elections',
+    {
+      preHandler: requirePermission('elections:manage'),
+      schema: {
+        description:
+          'Schedule a council election for a bioregion; voting opens when nominations close',
+        tags: ['dao'],
+        body: {
+          type: 'object',
+          required: ['bioregionId', 'title', 'seats'],
+          properties: {
+            bioregionId: { type: 'string', minLength: 1, maxLength: 64 },
+            title: { type: 'string', minLength: 1, maxLength: 200 },
+            seats: { type: 'integer', minimum: 1, maximum: 50 },
+            votingMethod: { type: 'string', enum: [...votingMethods] },
+            creditBudget: { type: 'integer', minimum: 1, maximum: 10000 },
+            nominationStartsAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        response: {
+          ...electionResponse,
+          201: electionResponse[200],
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const data = createSchema.parse(request.body);
+
+        const bioregion = await fastify.db.getBioregionById(data.bioregionId);
+        if (!bioregion?.isActive) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: ['bioregionId: Invalid bioregion selection'],
+          });
+        }
+
+        if (data.creditBudget && data.votingMethod !== 'quadratic') {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: ['creditBudget: Only quadratic elections have a budget'],
+          });
+        }
+
+        const election = await electionService().create(data);
+        fastify.log.info(
+          {
+            electionId: election.electionId,
+            bioregionId: election.bioregionId,
+          },
+          'Election scheduled',
+        );
+
+        return reply
+          .status(201)
+          .send({ success: true, election: toResponse(election) });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to create election');
+      }
+    },
+  );
+
+  // Members register as candidates while nominations are open
+  fastify.post(
+    '/elections/:id/candidates',
+    {
+      onRequest: requireWallet(),
+      preHandler: requirePermission('elections:vote'),
+      schema: {
+        description:
+          'Register the signed-in wallet as a candidate in an election of its bioregion',
+        tags: ['dao'],
+        params: paramsSchema,
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 100 },
+            statement: { type: 'string', maxLength: 2000 },
+          },
+        },
+        response: {
+          ...electionResponse,
+          201: electionResponse[200],
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ElectionParams;
+        const { name, statement } = nominationSchema.parse(request.body);
+        const member = signedInWallet(request);
+
+        const election = await fastify.db.getElectionById(id);
+        if (!election) {
+          return notFound(reply, id);
+        }
+
+        const phase = electionPhase(election);
+        if (phase !== 'nomination') {
+          return reply.status(409).send({
+            success: false,
+            error: 'Nominations are not open',
+            details: [`Election is in the ${phase} phase`],
+          });
+        }
+
+        if (!(await electionService().isElector(election, member))) {
+          return notElector(reply, election);
+        }
+
+        const candidate = await electionService().nominate(id, {
+          member,
+          name,
+          statement,
+        });
+        if (!candidate) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Already a candidate',
+            details: [`${member} is already a candidate`],
+          });
+        }
+
+        fastify.log.info(
+          { electionId: id, candidateId: candidate.candidateId },
+          'Candidate registered',
+        );
+
+        const updated = (await fastify.db.getElectionById(id)) ?? election;
+        return reply
+          .status(201)
+          .send({ success: true, election: toResponse(updated) });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to register candidate',
+        );
+      }
+    },
+  );
+
+  // One member, one ballot, in the form of the election's voting method
+  fastify.post(
+    '/vote',
+    {
+      onRequest: requireWallet(),
+      preHandler: requirePermission('elections:vote'),
+      schema: {
+        description:
+          "Cast the signed-in wallet's ballot in an election of its bioregion: candidateId for plurality, rankings for ranked-choice, approvals for approval and allocations for quadratic voting",
+        tags: ['dao'],
+        body: {
+          type: 'object',
+          required: ['electionId'],
+          properties: {
+            electionId: { type: 'string', minLength: 1 },
+            candidateId: { type: 'string', minLength: 1 },
+            rankings: {
+              type: 'array',
+              items: { type: 'string', minLength: 1 },
+              maxItems: 50,
+            },
+            approvals: {
+              type: 'array',
+              items: { type: 'string', minLength: 1 },
+              maxItems: 50,
+            },
+            allocations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['candidateId', 'votes'],
+                properties: {
+                  candidateId: { type: 'string', minLength: 1 },
+                  votes: { type: 'integer', minimum: 1 },
+                },
+              },
+              maxItems: 50,
+            },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              electionId: { type: 'string' },
+              message: { type: 'string' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const {
+          electionId,
+          voter: _voter,
+          ...ballot
+        } = voteSchema.parse(request.body);
+        const voter = signedInWallet(request);
+
+        const election = await fastify.db.getElectionById(electionId);
+        if (!election) {
+          return notFound(reply, electionId);
+        }
+
+        const phase = electionPhase(election);
+        if (phase !== 'voting') {
+          return reply.status(409).send({
+            success: false,
+            error: 'Voting is not open',
+            details: [`Election is in the ${phase} phase`],
+          });
+        }
+
+        if (!(await electionService().isElector(election, voter))) {
+          return notElector(reply, election);
+        }
+
+        const choice = toChoice(election, ballot);
+        const problems = choice
+          ? validateChoice(election, choice)
+          : [
+              `${ballotFields[election.votingMethod]}: Required for ${election.votingMethod} voting`,
+            ];
+        if (!choice || problems.length > 0) {
+          return reply.status(400).send({
+            success: false,
+            error: 'Validation error',
+            details: problems,
+          });
+        }
+
+        if (!(await electionService().vote(electionId, voter, choice))) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Already voted',
+            details: [`${voter} has already voted in this election`],
+          });
+        }
+
+        return reply.status(201).send({
+          success: true,
+          electionId,
+          message: 'Ballot cast',
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to cast ballot');
+      }
+    },
+  );
+
+  // Results are published once voting ends; provisional until certified
+  fastify.get(
+    '/results',
+    {
+      schema: {
+        description: 'List the results of elections whose voting has ended',
+        tags: ['dao'],
+        querystring: {
+          type: 'object',
+          properties: {
+            bioregionId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              results: { type: 'array', items: electionResultSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { bioregionId } = listQuerySchema.parse(request.query);
+        const elections = await fastify.db.getElections({
+          ...(bioregionId && { bioregionId }),
+        });
+
+        const results = [];
+        for (const election of elections) {
+          const phase = electionPhase(election);
+          if (phase === 'closed' || phase === 'certified') {
+            results.push(
+              toResultResponse(
+                election,
+                election.result ?? (await electionService().tally(election)),
+              ),
+            );
+          }
+        }
+
+        return reply.send({ success: true, results, count: results.length });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list results');
+      }
+    },
+  );
+
+  fastify.get(
+    '/results/:id',
+    {
+      schema: {
+        description: 'Get the result of an election whose voting has ended',
+        tags: ['dao'],
+        params: paramsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              result: electionResultSchema,
+            },
+          },
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ElectionParams;
+        const election = await fastify.db.getElectionById(id);
+
+        if (!election) {
+          return notFound(reply, id);
+        }
+
+        const phase = electionPhase(election);
+        if (phase !== 'closed' && phase !== 'certified') {
+          return reply.status(409).send({
+            success: false,
+            error: 'Voting has not ended',
+            details: [`Election is in the ${phase} phase`],
+          });
+        }
+
+        return reply.send({
+          success: true,
+          result: toResultResponse(
+            election,
+            election.result ?? (await electionService().tally(election)),
+          ),
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch result');
+      }
+    },
+  );
+
+  // The choices on every ballot, without voters, so anyone can recount
+  fastify.get(
+    '/results/:id/ballots',
+    {
+      schema: {
+        description:
+          'List the anonymous ballots of an election whose voting has ended',
+        tags: ['dao'],
+        params: paramsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              electionId: { type: 'string' },
+              votingMethod: { type: 'string', enum: [...votingMethods] },
+              ballots: { type: 'array', items: choiceSchema },
+              count: { type: 'number' },
+            },
+          },
+          404: errorSchema,
+          409: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ElectionParams;
+        const election = await fastify.db.getElectionById(id);
+
+        if (!election) {
+          return notFound(reply, id);
+        }
+
+        const phase = electionPhase(election);
+        if (phase !== 'closed' && phase !== 'certified') {
+          return reply.status(409).send({
+            success: false,
+            error: 'Voting has not ended',
+            details: [`Election is in the ${phase} phase`],
+          });
+        }
+
+        const ballots = await fastify.db.getBallotChoices(id);
+        return reply.send({
+          success: true,
+          electionId: id,
+          votingMethod: election.votingMethod,
+          ballots,
+          count: ballots.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list ballots');
+      }
+    },
+  );
+
+  // Tally the ballots and make the result final
+  fastify.post(
+    '/elections/:id/certify',
+    {
+      preHandler: requirePermission('elections:manage'),
+      schema: {
+        description: 'Certify the result of an election whose voting has ended',
+        tags: ['dao'],
+        params: paramsSchema,
+        body: {
+          type: 'object',
+          required: ['certifiedBy'],
+          properties: {
+            certifiedBy: { type: 'string', minLength: 1, maxLength: 100 },
+          },
+        },
+        response: electionResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ElectionParams;
+        const { certifiedBy } = certifySchema.parse(request.body);
+
+        const election = await fastify.db.getElectionById(id);
+        if (!election) {
+          return notFound(reply, id);
+        }
+
+        const phase = electionPhase(election);
+        if (phase !== 'closed') {
+          return reply.status(409).send({
+            success: false,
+            error: 'Election cannot be certified',
+            details: [
+              phase === 'certified'
+                ? 'Election is already certified'
+                : `Election is in the ${phase} phase`,
+            ],
+          });
+        }
+
+        const certified = await electionService().certify(
+          election,
+          certifiedBy,
+        );
+        if (!certified) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Election cannot be certified',
+            details: ['Election is already certified'],
+          });
+        }
+
+        fastify.log.info(
+          {
+            electionId: id,
+            certifiedBy,
+            quorumMet: certified.result?.quorumMet,
+            elected: certified.result?.elected,
+          },
+          'Election certified',
+        );
+
+        return reply.send({ success: true, election: toResponse(certified) });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to certify election');
+      }
+    },
+  );
+}
+
+function toResponse(
+  election: ElectionDocument,
+): ElectionDocument & { phase: ElectionPhase } {
+  return { ...election, phase: electionPhase(election) };
+}
+
+function toResultResponse(election: ElectionDocument, result: ElectionResult) {
+  return {
+    electionId: election.electionId,
+    bioregionId: election.bioregionId,
+    title: election.title,
+    seats: election.seats,
+    votingMethod: election.votingMethod,
+    certified: electionPhase(election) === 'certified',
+    certifiedAt: election.certifiedAt,
+    result,
+  };
+}
+
+const ballotFields = {
+  plurality: 'candidateId',
+  ranked_choice: 'rankings',
+  approval: 'approvals',
+  quadratic: 'allocations',
+} as const;
+
+// The ballot in the form of the election's voting method; null if the
+// field for that method is missing
+function toChoice(
+  election: ElectionDocument,
+  ballot: Omit<z.infer<typeof voteSchema>, 'electionId' | 'voter'>,
+): BallotChoice | null {
+  switch (election.votingMethod) {
+    case 'plurality':
+      return ballot.candidateId
+        ? { method: 'plurality', candidateId: ballot.candidateId }
+        : null;
+    case 'ranked_choice':
+      return ballot.rankings
+        ? { method: 'ranked_choice', rankings: ballot.rankings }
+        : null;
+    case 'approval':
+      return ballot.approvals
+        ? { method: 'approval', approvals: ballot.approvals }
+        : null;
+    case 'quadratic':
+      return ballot.allocations
+        ? { method: 'quadratic', allocations: ballot.allocations }
+        : null;
+  }
+}
+
+function notFound(reply: FastifyReply, id: string) {
+  return reply.status(404).send({
+    success: false,
+    error: 'Election not found',
+    details: [`No election found with ID: ${id}`],
+  });
+}
+
+function notElector(reply: FastifyReply, election: ElectionDocument) {
+  return reply.status(403).send({
+    success: false,
+    error: 'Not a member of the electorate',
+    details: [
+      `Only authors of rituals approved in ${election.bioregionId} before nominations opened take part in this election`,
+    ],
+  });
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
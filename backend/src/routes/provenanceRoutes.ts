@@ -0,0 +1,235 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { verifyAuthorSignature } from '../auth/provenance';
+import { ProvenanceService } from '../services/ProvenanceService';
+import { RelayService } from '../services/RelayService';
+
+// Request schemas
+const verifySchema = z.object({
+  name: z.string().min(1, 'Ritual name is required'),
+  bioregionId: z.string().min(1, 'Bioregion is required'),
+  content: z.string().min(1, 'Content is required'),
+  author: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a wallet address'),
+  signature: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{130}$/, 'Must be a 65-byte hex signature'),
+  signedAt: z.number().int().positive(),
+});
+
+type RitualParams = { ritualId: string };
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Anyone can check that a ritual is what its author signed
+export async function provenanceRoutes(fastify: FastifyInstance) {
+  const provenanceService = () =>
+    new ProvenanceService(fastify.db, fastify.ipfs);
+  const relayService = () => new RelayService(fastify.db);
+
+  // What authors sign to have their ritual logged on chain in their name
+  fastify.get(
+    '/authorization',
+    {
+      schema: {
+        description:
+          'Get the EIP-712 domain and types of the authorization an author signs to have the backend log their ritual on chain',
+        tags: ['provenance'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              domain: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  version: { type: 'string' },
+                  chainId: { type: 'number' },
+                  verifyingContract: { type: 'string' },
+                },
+              },
+              types: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      type: { type: 'string' },
+                    },
+                  },
+                },
+              },
+              primaryType: { type: 'string' },
+              minDeadline: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        return reply.send({ success: true, ...relayService().typedData() });
+      } catch (error) {
+        return handleError(
+          fastify,
+          reply,
+          error,
+          'Failed to describe the authorization',
+        );
+      }
+    },
+  );
+
+  // Check the metadata pinned for a ritual against its author signature
+  fastify.get(
+    '/rituals/:ritualId',
+    {
+      schema: {
+        description:
+          'Check that the metadata pinned for a ritual was signed by its author',
+        tags: ['provenance'],
+        params: {
+          type: 'object',
+          properties: {
+            ritualId: { type: 'string' },
+          },
+          required: ['ritualId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              ritualId: { type: 'string' },
+              ipfsHash: { type: 'string' },
+              author: { type: 'string' },
+              signer: { type: ['string', 'null'] },
+              signedAt: { type: 'string' },
+              verified: { type: 'boolean' },
+              problems: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          404: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { ritualId } = request.params as RitualParams;
+      try {
+        const report = await provenanceService().verifyRitual(ritualId);
+        if (!report) {
+          return reply.status(404).send({
+            success: false,
+            error: 'Ritual not found',
+            details: [`No published ritual found with ID: ${ritualId}`],
+          });
+        }
+
+        return reply.send({ success: true, ...report });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to verify ritual');
+      }
+    },
+  );
+
+  // Check a signature over a ritual before or without submitting it
+  fastify.post(
+    '/verify',
+    {
+      schema: {
+        description:
+          'Check that an EIP-712 signature over a ritual was made by the given author',
+        tags: ['provenance'],
+        body: {
+          type: 'object',
+          required: [
+            'name',
+            'bioregionId',
+            'content',
+            'author',
+            'signature',
+            'signedAt',
+          ],
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            bioregionId: { type: 'string', minLength: 1 },
+            content: { type: 'string', minLength: 1 },
+            author: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+            signature: { type: 'string', pattern: '^0x[a-fA-F0-9]{130}$' },
+            signedAt: { type: 'integer', minimum: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              contentHash: { type: 'string' },
+              signer: { type: ['string', 'null'] },
+              verified: { type: 'boolean' },
+              problems: { type: 'array', items: { type: 'string' } },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { signature, signedAt, ...ritual } = verifySchema.parse(
+          request.body,
+        );
+        const authorSignature = provenanceService().signatureOf(
+          ritual.content,
+          signature,
+          signedAt,
+        );
+        const { signer, problems } = verifyAuthorSignature(
+          ritual,
+          authorSignature,
+        );
+
+        return reply.send({
+          success: true,
+          contentHash: authorSignature.contentHash,
+          signer,
+          verified: problems.length === 0,
+          problems,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to verify signature');
+      }
+    },
+  );
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
@@ -0,0 +1,465 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requirePermission } from '../middleware/permissions';
+import { requireWallet, signedInWallet } from '../middleware/walletAuth';
+import { ReviewDocument } from '../services/DatabaseService';
+import { ReviewService, isOwnRitual } from '../services/ReviewService';
+
+// Request schemas
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'claimed', 'approved', 'rejected']).optional(),
+  bioregionId: z.string().min(1).optional(),
+});
+
+// The reviewer is the signed-in wallet
+const commentSchema = z.object({
+  comment: z
+    .string()
+    .min(1, 'Comment is required')
+    .max(2000, 'Comment too long'),
+});
+
+const decisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().max(2000, 'Comment too long').optional(),
+});
+
+type ReviewParams = { id: string };
+
+const reviewSchema = {
+  type: 'object',
+  properties: {
+    reviewId: { type: 'string' },
+    ritualId: { type: 'string' },
+    bioregionId: { type: 'string' },
+    status: {
+      type: 'string',
+      enum: ['pending', 'claimed', 'approved', 'rejected'],
+    },
+    reasons: { type: 'array', items: { type: 'string' } },
+    ritual: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        culturalContext: { type: 'string' },
+        culturalTradition: { type: 'string' },
+        content: { type: 'string' },
+        author: { type: 'string' },
+        permissions: {
+          type: 'object',
+          properties: {
+            culturalConsultation: { type: 'boolean' },
+            communityApproval: { type: 'boolean' },
+            expertReview: { type: 'boolean' },
+          },
+        },
+        validation: {
+          type: 'object',
+          properties: {
+            esepScore: { type: 'number' },
+            cedaScore: { type: 'number' },
+            narrativeScore: { type: 'number' },
+            policyScore: { type: 'number' },
+            policyVersion: { type: 'string' },
+            language: { type: 'string' },
+            feedback: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    comments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          reviewer: { type: 'string' },
+          comment: { type: 'string' },
+          createdAt: { type: 'string' },
+        },
+      },
+    },
+    claimedBy: { type: 'string' },
+    claimedAt: { type: 'string' },
+    decidedBy: { type: 'string' },
+    decisionComment: { type: 'string' },
+    decidedAt: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const paramsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const reviewResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      review: reviewSchema,
+    },
+  },
+  400: errorSchema,
+  401: errorSchema,
+  403: errorSchema,
+  404: errorSchema,
+  409: errorSchema,
+};
+
+// Reviewers are signed-in wallets with the validator role
+const reviewerOnly = {
+  onRequest: requireWallet(),
+  preHandler: requirePermission('reviews:decide'),
+};
+
+export async function reviewRoutes(fastify: FastifyInstance) {
+  const reviewService = () =>
+    new ReviewService(fastify.db, fastify.ipfs, fastify.anchoring);
+
+  // List the review queue, oldest first
+  fastify.get(
+    '/',
+    {
+      schema: {
+        description: 'List rituals waiting for or decided by expert review',
+        tags: ['reviews'],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'string',
+              enum: ['pending', 'claimed', 'approved', 'rejected'],
+            },
+            bioregionId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              reviews: { type: 'array', items: reviewSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { status, bioregionId } = listQuerySchema.parse(request.query);
+        const reviews = await fastify.db.getReviews({
+          ...(status && { status }),
+          ...(bioregionId && { bioregionId }),
+        });
+
+        return reply.send({
+          success: true,
+          reviews: reviews.map(toResponse),
+          count: reviews.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list reviews');
+      }
+    },
+  );
+
+  // Get a review with the ritual under review
+  fastify.get(
+    '/:id',
+    {
+      schema: {
+        description: 'Get an expert review by ID',
+        tags: ['reviews'],
+        params: paramsSchema,
+        response: reviewResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ReviewParams;
+        const review = await fastify.db.getReviewById(id);
+
+        if (!review) {
+          return notFound(reply, id);
+        }
+
+        return reply.send({ success: true, review: toResponse(review) });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch review');
+      }
+    },
+  );
+
+  // Claim a review so no other reviewer decides it concurrently
+  fastify.post(
+    '/:id/claim',
+    {
+      ...reviewerOnly,
+      schema: {
+        description: 'Claim a pending review',
+        tags: ['reviews'],
+        params: paramsSchema,
+        response: reviewResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ReviewParams;
+        const reviewer = signedInWallet(request);
+
+        const existing = await fastify.db.getReviewById(id);
+        if (!existing) {
+          return notFound(reply, id);
+        }
+        if (isOwnRitual(existing, reviewer)) {
+          return ownRitual(reply);
+        }
+
+        const review = await fastify.db.claimReview(id, reviewer);
+        if (!review) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Review not available',
+            details: [
+              existing.status === 'claimed'
+                ? `Review is claimed by ${existing.claimedBy}`
+                : `Review is already ${existing.status}`,
+            ],
+          });
+        }
+
+        fastify.log.info({ reviewId: id, reviewer }, 'Review claimed');
+        return reply.send({ success: true, review: toResponse(review) });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to claim review');
+      }
+    },
+  );
+
+  // Return a claimed review to the queue
+  fastify.post(
+    '/:id/release',
+    {
+      ...reviewerOnly,
+      schema: {
+        description: 'Release a claimed review back to the queue',
+        tags: ['reviews'],
+        params: paramsSchema,
+        response: reviewResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ReviewParams;
+        const reviewer = signedInWallet(request);
+
+        const existing = await fastify.db.getReviewById(id);
+        if (!existing) {
+          return notFound(reply, id);
+        }
+
+        if (!(await fastify.db.releaseReview(id, reviewer))) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Review not claimed by reviewer',
+            details: ['Only the reviewer holding the claim can release it'],
+          });
+        }
+
+        const review = await fastify.db.getReviewById(id);
+        return reply.send({
+          success: true,
+          review: review ? toResponse(review) : undefined,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to release review');
+      }
+    },
+  );
+
+  // Comment on a review; any reviewer can comment at any stage
+  fastify.post(
+    '/:id/comments',
+    {
+      ...reviewerOnly,
+      schema: {
+        description: 'Add a reviewer comment to a review',
+        tags: ['reviews'],
+        params: paramsSchema,
+        body: {
+          type: 'object',
+          required: ['comment'],
+          properties: {
+            comment: { type: 'string', minLength: 1, maxLength: 2000 },
+          },
+        },
+        response: reviewResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ReviewParams;
+        const reviewer = signedInWallet(request);
+        const { comment } = commentSchema.parse(request.body);
+
+        const added = await fastify.db.addReviewComment(id, {
+          reviewer,
+          comment,
+          createdAt: new Date(),
+        });
+        if (!added) {
+          return notFound(reply, id);
+        }
+
+        const review = await fastify.db.getReviewById(id);
+        return reply.send({
+          success: true,
+          review: review ? toResponse(review) : undefined,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to add comment');
+      }
+    },
+  );
+
+  // Approve or reject a claimed review and publish the decision
+  fastify.post(
+    '/:id/decision',
+    {
+      ...reviewerOnly,
+      schema: {
+        description:
+          'Decide a claimed review; the ritual is published to IPFS and queued to be logged on chain',
+        tags: ['reviews'],
+        params: paramsSchema,
+        body: {
+          type: 'object',
+          required: ['decision'],
+          properties: {
+            decision: { type: 'string', enum: ['approve', 'reject'] },
+            comment: { type: 'string', maxLength: 2000 },
+          },
+        },
+        response: {
+          ...reviewResponse,
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              review: reviewSchema,
+              ipfsHash: { type: 'string' },
+              anchoringJobId: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { id } = request.params as ReviewParams;
+        const reviewer = signedInWallet(request);
+        const { decision, comment } = decisionSchema.parse(request.body);
+
+        const existing = await fastify.db.getReviewById(id);
+        if (!existing) {
+          return notFound(reply, id);
+        }
+        if (isOwnRitual(existing, reviewer)) {
+          return ownRitual(reply);
+        }
+
+        const result = await reviewService().decide(
+          id,
+          reviewer,
+          decision === 'approve',
+          comment,
+        );
+        if (!result) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Review not claimed by reviewer',
+            details: [
+              existing.status === 'approved' || existing.status === 'rejected'
+                ? `Review is already ${existing.status}`
+                : 'Claim the review before deciding it',
+            ],
+          });
+        }
+
+        fastify.log.info(
+          { reviewId: id, reviewer, decision, ipfsHash: result.ipfsHash },
+          'Review decided',
+        );
+
+        return reply.send({
+          success: true,
+          review: toResponse(result.review),
+          ipfsHash: result.ipfsHash,
+          anchoringJobId: result.anchoringJobId,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to decide review');
+      }
+    },
+  );
+}
+
+// The ritual under review is returned as "ritual"
+function toResponse(review: ReviewDocument) {
+  const { submission, ...rest } = review;
+  return { ...rest, ritual: submission };
+}
+
+function notFound(reply: FastifyReply, id: string) {
+  return reply.status(404).send({
+    success: false,
+    error: 'Review not found',
+    details: [`No review found with ID: ${id}`],
+  });
+}
+
+function ownRitual(reply: FastifyReply) {
+  return reply.status(403).send({
+    success: false,
+    error: 'Cannot review own ritual',
+    details: ['The author of a ritual cannot claim or decide its review'],
+  });
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
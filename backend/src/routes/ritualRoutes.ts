@@ -1,72 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { z } from 'zod';
-import { ESEPFilter } from '../filters/ESEPFilter';
-import { CEDAFilter } from '../filters/CEDAFilter';
-import { RitualService } from '../services/RitualService';
-
-// Request/Response schemas
-const submitRitualSchema = {
-  schema: {
-    description: 'Submit a regeneration ritual for validation',
-    tags: ['rituals'],
-    consumes: ['multipart/form-data'],
-    body: {
-      type: 'object',
-      properties: {
-        ritualFile: {
-          type: 'string',
-          format: 'binary',
-          description: 'Ritual file (.grc format)',
-        },
-        bioregionId: {
-          type: 'string',
-          description: 'Bioregion identifier',
-        },
-        ritualName: {
-          type: 'string',
-          description: 'Name of the ritual',
-        },
-        description: {
-          type: 'string',
-          description: 'Ritual description',
-        },
-        culturalContext: {
-          type: 'string',
-          description: 'Cultural context and background',
-        },
-      },
-      required: ['ritualFile', 'bioregionId', 'ritualName'],
-    },
-    response: {
-      200: {
-        type: 'object',
-        properties: {
-          success: { type: 'boolean' },
-          ritualId: { type: 'string' },
-          ipfsHash: { type: 'string' },
-          transactionHash: { type: 'string' },
-          validation: {
-            type: 'object',
-            properties: {
-              esepScore: { type: 'number' },
-              cedaScore: { type: 'number' },
-              isApproved: { type: 'boolean' },
-              feedback: { type: 'array', items: { type: 'string' } },
-            },
-          },
-        },
-      },
-      400: {
-        type: 'object',
-        properties: {
-          error: { type: 'string' },
-          details: { type: 'string' },
-        },
-      },
-    },
-  },
-};
 
+// Response schemas
 const getRitualSchema = {
   schema: {
     description: 'Get ritual details by ID',
@@ -93,6 +27,7 @@ const getRitualSchema = {
               esepScore: { type: 'number' },
               cedaScore: { type: 'number' },
               isApproved: { type: 'boolean' },
+              policyVersion: { type: 'string' },
             },
           },
           createdAt: { type: 'string' },
@@ -102,122 +37,8 @@ const getRitualSchema = {
   },
 };
 
+// Ritual lookups; submission is handled by endpoints/submitRitual.ts
 export async function ritualRoutes(fastify: FastifyInstance) {
-  const ritualService = new RitualService();
-  const esepFilter = new ESEPFilter();
-  const cedaFilter = new CEDAFilter();
-
-  // Submit ritual endpoint
-  fastify.post(
-    '/submit',
-    submitRitualSchema,
-    async (request: FastifyRequest, reply: FastifyReply) => {
-      try {
-        const data = await request.file();
-
-        if (!data) {
-          return reply.status(400).send({
-            error: 'No ritual file provided',
-            details: 'Please upload a .grc ritual file',
-          });
-        }
-
-        // Validate file type
-        if (!data.filename?.endsWith('.grc')) {
-          return reply.status(400).send({
-            error: 'Invalid file type',
-            details: 'Only .grc files are accepted',
-          });
-        }
-
-        // Parse form data
-        const bioregionId = data.fields.bioregionId?.value as string;
-        const ritualName = data.fields.ritualName?.value as string;
-        const description = data.fields.description?.value as string;
-        const culturalContext = data.fields.culturalContext?.value as string;
-
-        // Validate required fields
-        if (!bioregionId || !ritualName) {
-          return reply.status(400).send({
-            error: 'Missing required fields',
-            details: 'bioregionId and ritualName are required',
-          });
-        }
-
-        // Read ritual content
-        const ritualContent = await data.toBuffer();
-        const ritualText = ritualContent.toString('utf-8');
-
-        // Run AI validation filters
-        const esepResult = await esepFilter.validate(ritualText);
-        const cedaResult = await cedaFilter.validate(ritualText);
-
-        // Determine approval status
-        const isApproved = esepResult.score <= 0.7 && cedaResult.score >= 2;
-
-        // Store ritual metadata on IPFS
-        const metadata = {
-          name: ritualName,
-          bioregionId,
-          description,
-          culturalContext,
-          content: ritualText,
-          validation: {
-            esepScore: esepResult.score,
-            cedaScore: cedaResult.score,
-            isApproved,
-            feedback: [...esepResult.feedback, ...cedaResult.feedback],
-          },
-          submittedAt: new Date().toISOString(),
-        };
-
-        const ipfsHash = await fastify.ipfs.storeMetadata(metadata);
-
-        // Log transaction on blockchain
-        const transactionHash = await fastify.blockchain.logRitualSubmission({
-          ritualId: `ritual_${Date.now()}`,
-          bioregionId,
-          ipfsHash,
-          esepScore: esepResult.score,
-          cedaScore: cedaResult.score,
-          isApproved,
-        });
-
-        // Store in database
-        const ritualId = await ritualService.createRitual({
-          name: ritualName,
-          bioregionId,
-          ipfsHash,
-          transactionHash,
-          validation: {
-            esepScore: esepResult.score,
-            cedaScore: cedaResult.score,
-            isApproved,
-          },
-        });
-
-        return reply.send({
-          success: true,
-          ritualId,
-          ipfsHash,
-          transactionHash,
-          validation: {
-            esepScore: esepResult.score,
-            cedaScore: cedaResult.score,
-            isApproved,
-            feedback: [...esepResult.feedback, ...cedaResult.feedback],
-          },
-        });
-      } catch (error) {
-        fastify.log.error('Error submitting ritual:', error);
-        return reply.status(500).send({
-          error: 'Internal server error',
-          details: 'Failed to process ritual submission',
-        });
-      }
-    },
-  );
-
   // Get ritual by ID
   fastify.get(
     '/:id',
@@ -225,7 +46,7 @@ export async function ritualRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const { id } = request.params as { id: string };
-        const ritual = await ritualService.getRitualById(id);
+        const ritual = await fastify.db.getRitualById(id);
 
         if (!ritual) {
           return reply.status(404).send({
@@ -236,7 +57,7 @@ export async function ritualRoutes(fastify: FastifyInstance) {
 
         return reply.send(ritual);
       } catch (error) {
-        fastify.log.error('Error fetching ritual:', error);
+        fastify.log.error({ error }, 'Error fetching ritual');
         return reply.status(500).send({
           error: 'Internal server error',
           details: 'Failed to fetch ritual',
@@ -264,7 +85,7 @@ export async function ritualRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const { bioregionId } = request.params as { bioregionId: string };
-        const rituals = await ritualService.getRitualsByBioregion(bioregionId);
+        const rituals = await fastify.db.getRitualsByBioregion(bioregionId);
 
         return reply.send({
           bioregionId,
@@ -272,7 +93,7 @@ export async function ritualRoutes(fastify: FastifyInstance) {
           count: rituals.length,
         });
       } catch (error) {
-        fastify.log.error('Error fetching bioregion rituals:', error);
+        fastify.log.error({ error }, 'Error fetching bioregion rituals');
         return reply.status(500).send({
           error: 'Internal server error',
           details: 'Failed to fetch bioregion rituals',
@@ -0,0 +1,341 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { PERMISSIONS, ROLES, permissionsOf } from '../auth/permissions';
+import { actorOf, requirePermission } from '../middleware/permissions';
+import { RoleService } from '../services/RoleService';
+
+// Request schemas
+// Lowercased, as wallet addresses are stored
+const addressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a wallet address')
+  .transform((address) => address.toLowerCase());
+
+const listQuerySchema = z.object({
+  role: z.enum(ROLES).optional(),
+});
+
+const changeSchema = z.object({
+  address: addressSchema,
+  role: z.enum(ROLES),
+  reason: z.string().max(500, 'Reason too long').optional(),
+});
+
+const auditQuerySchema = z.object({
+  address: addressSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+type AddressParams = { address: string };
+
+const assignmentSchema = {
+  type: 'object',
+  properties: {
+    address: { type: 'string' },
+    role: { type: 'string', enum: [...ROLES] },
+    grantedBy: { type: 'string' },
+    grantedAt: { type: 'string' },
+  },
+};
+
+const auditEntrySchema = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: ['grant', 'revoke'] },
+    address: { type: 'string' },
+    role: { type: 'string', enum: [...ROLES] },
+    actor: { type: 'string' },
+    reason: { type: 'string' },
+    at: { type: 'string' },
+  },
+};
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const changeBody = {
+  type: 'object',
+  required: ['address', 'role'],
+  properties: {
+    address: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
+    role: { type: 'string', enum: [...ROLES] },
+    reason: { type: 'string', maxLength: 500 },
+  },
+};
+
+const changeResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      address: { type: 'string' },
+      roles: { type: 'array', items: { type: 'string', enum: [...ROLES] } },
+    },
+  },
+  400: errorSchema,
+  401: errorSchema,
+  403: errorSchema,
+  409: errorSchema,
+};
+
+// Roles of wallets, for wallets with the roles:manage permission and the
+// ADMIN_API_KEY sent as x-api-key; every change is kept in an audit trail
+export async function roleRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', requirePermission('roles:manage'));
+  const roleService = () => new RoleService(fastify.db);
+
+  // Granted roles, optionally of one role only
+  fastify.get(
+    '/',
+    {
+      schema: {
+        description: 'List role grants',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', enum: [...ROLES] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              assignments: { type: 'array', items: assignmentSchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { role } = listQuerySchema.parse(request.query);
+        const assignments = await fastify.db.getRoleAssignments({
+          ...(role && { role }),
+        });
+
+        return reply.send({
+          success: true,
+          assignments,
+          count: assignments.length,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list roles');
+      }
+    },
+  );
+
+  // Grants and revocations, most recent first
+  fastify.get(
+    '/audit',
+    {
+      schema: {
+        description: 'List role grants and revocations, most recent first',
+        tags: ['admin'],
+        querystring: {
+          type: 'object',
+          properties: {
+            address: { type: 'string' },
+            limit: { type: 'integer', minimum: 1, maximum: 500 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              entries: { type: 'array', items: auditEntrySchema },
+              count: { type: 'number' },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const { address, limit } = auditQuerySchema.parse(request.query);
+        const entries = await fastify.db.getRoleAudit(
+          { ...(address && { address }) },
+          limit,
+        );
+
+        return reply.send({ success: true, entries, count: entries.length });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to list role audit');
+      }
+    },
+  );
+
+  // Roles of a wallet, including the default role
+  fastify.get(
+    '/:address',
+    {
+      schema: {
+        description: 'Get the roles and permissions of a wallet',
+        tags: ['admin'],
+        params: {
+          type: 'object',
+          properties: {
+            address: { type: 'string' },
+          },
+          required: ['address'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              address: { type: 'string' },
+              roles: {
+                type: 'array',
+                items: { type: 'string', enum: [...ROLES] },
+              },
+              permissions: {
+                type: 'array',
+                items: { type: 'string', enum: [...PERMISSIONS] },
+              },
+              assignments: { type: 'array', items: assignmentSchema },
+            },
+          },
+          400: errorSchema,
+          401: errorSchema,
+          403: errorSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const address = addressSchema.parse(
+          (request.params as AddressParams).address,
+        );
+        const roles = await roleService().rolesOf(address);
+        const assignments = await fastify.db.getRoleAssignments({ address });
+
+        return reply.send({
+          success: true,
+          address,
+          roles,
+          permissions: permissionsOf(roles),
+          assignments,
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to fetch roles');
+      }
+    },
+  );
+
+  fastify.post(
+    '/grant',
+    {
+      schema: {
+        description: 'Grant a role to a wallet',
+        tags: ['admin'],
+        body: changeBody,
+        response: changeResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const change = changeSchema.parse(request.body);
+        const actor = actorOf(request);
+
+        if (!(await roleService().grant({ ...change, actor }))) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Role already granted',
+            details: [`${change.address} already has the ${change.role} role`],
+          });
+        }
+
+        fastify.log.info(
+          { address: change.address, role: change.role, actor },
+          'Role granted',
+        );
+        return reply.send({
+          success: true,
+          address: change.address,
+          roles: await roleService().rolesOf(change.address),
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to grant role');
+      }
+    },
+  );
+
+  fastify.post(
+    '/revoke',
+    {
+      schema: {
+        description:
+          'Revoke a role from a wallet; the default role cannot be revoked',
+        tags: ['admin'],
+        body: changeBody,
+        response: changeResponse,
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const change = changeSchema.parse(request.body);
+        const actor = actorOf(request);
+
+        if (!(await roleService().revoke({ ...change, actor }))) {
+          return reply.status(409).send({
+            success: false,
+            error: 'Role not granted',
+            details: [
+              `${change.address} has not been granted the ${change.role} role`,
+            ],
+          });
+        }
+
+        fastify.log.info(
+          { address: change.address, role: change.role, actor },
+          'Role revoked',
+        );
+        return reply.send({
+          success: true,
+          address: change.address,
+          roles: await roleService().rolesOf(change.address),
+        });
+      } catch (error) {
+        return handleError(fastify, reply, error, 'Failed to revoke role');
+      }
+    },
+  );
+}
+
+function handleError(
+  fastify: FastifyInstance,
+  reply: FastifyReply,
+  error: unknown,
+  message: string,
+) {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors.map((e) => `${e.path.join('.')}: ${e.message}`),
+    });
+  }
+
+  fastify.log.error({ error }, message);
+  return reply.status(500).send({
+    success: false,
+    error: 'Internal server error',
+    details: [message],
+  });
+}
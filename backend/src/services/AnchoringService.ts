@@ -0,0 +1,117 @@
+import { BlockchainService, RitualSubmissionData } from './BlockchainService';
+import { DatabaseService } from './DatabaseService';
+import { JobQueue, JobQueueOptions } from './JobQueue';
+import { Saga } from './Saga';
+
+export interface AnchoringJobPayload {
+  ritualId: string;
+  submission: RitualSubmissionData;
+}
+
+export interface AnchoringJobResult {
+  transactionHash?: string | undefined;
+  anchorError?: string | undefined; // Set when the authorization can never be relayed
+}
+
+/**
+ * Deferred anchoring of rituals. Each ritual is logged on chain by a
+ * committed job, retried until the chain has it; only an authorization that
+ * expired or was used ends the job early, and the ritual's anchoring then
+ * fails until its author signs a new authorization.
+ */
+export class AnchoringService {
+  private readonly queue: JobQueue<AnchoringJobPayload, AnchoringJobResult>;
+
+  constructor(
+    private db: DatabaseService,
+    private blockchain: BlockchainService,
+    options: Partial<JobQueueOptions> = JobQueue.optionsFromEnv(),
+  ) {
+    const saga = new Saga<AnchoringJobPayload, AnchoringJobResult>([
+      {
+        name: 'anchored',
+        run: ({ payload }) => this.anchor(payload),
+      },
+      {
+        name: 'indexed',
+        run: ({ payload, result }) => this.index(payload, result),
+      },
+    ]);
+    this.queue = new JobQueue(this.db, 'ritual-anchoring', saga.run, options);
+  }
+
+  /**
+   * Queue a ritual to be logged on chain. Returns the ID of the job.
+   */
+  async defer(
+    ritualId: string,
+    submission: RitualSubmissionData,
+  ): Promise<string> {
+    const job = await this.queue.enqueue(
+      { ritualId, submission },
+      {},
+      { committed: true },
+    );
+    return job.jobId;
+  }
+
+  start(): void {
+    this.queue.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.queue.stop();
+  }
+
+  private async anchor(
+    payload: AnchoringJobPayload,
+  ): Promise<AnchoringJobResult> {
+    try {
+      return {
+        transactionHash: await this.blockchain.logRitualSubmission(
+          payload.submission,
+        ),
+      };
+    } catch (error) {
+      // Retries cannot help once the authorization expired or was used
+      const { author, authorization } = payload.submission;
+      const problem =
+        authorization &&
+        (await this.blockchain.relayAuthorizationProblem(
+          author,
+          authorization,
+        ));
+      if (!problem) throw error;
+      return { anchorError: problem };
+    }
+  }
+
+  private async index(
+    payload: AnchoringJobPayload,
+    result: AnchoringJobResult,
+  ): Promise<void> {
+    if (result.anchorError) {
+      await this.db.updateRitual(payload.ritualId, {
+        anchorStatus: 'failed',
+        anchorError: `${result.anchorError}; sign a new authorization to log the ritual on chain`,
+      });
+      console.warn(
+        'Ritual anchoring failed, waiting for a new authorization:',
+        {
+          ritualId: payload.ritualId,
+          error: result.anchorError,
+        },
+      );
+      return;
+    }
+
+    await this.db.updateRitual(payload.ritualId, {
+      transactionHash: result.transactionHash,
+      anchorStatus: 'anchored',
+    });
+    console.log('Deferred ritual anchoring completed:', {
+      ritualId: payload.ritualId,
+      transactionHash: result.transactionHash,
+    });
+  }
+}
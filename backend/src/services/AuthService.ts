@@ -0,0 +1,144 @@
+import { randomBytes } from 'crypto';
+import { verifyMessage } from 'ethers';
+import { parseDuration, signJwt } from '../auth/jwt';
+import { checkSiweMessage, parseSiweMessage } from '../auth/siwe';
+import { DatabaseService } from './DatabaseService';
+
+export interface AuthOptions {
+  jwtSecret: string; // Tokens cannot be issued while empty
+  tokenTtlSeconds: number;
+  domain: string; // Host that SIWE messages must be signed for
+  chainId: number;
+  nonceTtlMinutes: number;
+}
+
+export interface NonceGrant {
+  nonce: string;
+  expiresAt: Date;
+  domain: string;
+  chainId: number;
+}
+
+export interface Session {
+  token: string;
+  address: string; // Lowercased wallet address
+  expiresAt: Date;
+}
+
+export type SignInResult = { session: Session } | { errors: string[] };
+
+// Tolerated drift between the clock of the wallet and the server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Sign-In with Ethereum. The server issues single-use nonces; a wallet signs
+ * a message carrying one, and the signed message is exchanged for a JWT
+ * naming the wallet address.
+ */
+export class AuthService {
+  constructor(
+    private db: DatabaseService,
+    private options: AuthOptions = AuthService.optionsFromEnv(),
+  ) {}
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): AuthOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      jwtSecret: env['JWT_SECRET'] || '',
+      tokenTtlSeconds: parseDuration(env['JWT_EXPIRES_IN'] || '24h'),
+      domain:
+        env['SIWE_DOMAIN'] ||
+        new URL(env['FRONTEND_URL'] || 'http://localhost:3000').host,
+      chainId: integer('BASE_TESTNET_CHAIN_ID', 84532, 1),
+      nonceTtlMinutes: integer('SIWE_NONCE_TTL_MINUTES', 10, 1),
+    };
+  }
+
+  /**
+   * Issue a nonce for a SIWE message, with the domain and chain ID the
+   * message must name.
+   */
+  async createNonce(): Promise<NonceGrant> {
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = new Date(
+      Date.now() + this.options.nonceTtlMinutes * 60 * 1000,
+    );
+
+    await this.db.createAuthNonce(nonce, expiresAt);
+    return {
+      nonce,
+      expiresAt,
+      domain: this.options.domain,
+      chainId: this.options.chainId,
+    };
+  }
+
+  /**
+   * Exchange a signed SIWE message for a session. The nonce is used up only
+   * once the signature checks out, so a forged message cannot spend it.
+   */
+  async signIn(message: string, signature: string): Promise<SignInResult> {
+    if (!this.options.jwtSecret) {
+      throw new Error('JWT_SECRET is not configured');
+    }
+
+    const parsed = parseSiweMessage(message);
+    if (!parsed) {
+      return { errors: ['message: Not a Sign-In with Ethereum message'] };
+    }
+
+    const errors = checkSiweMessage(parsed, {
+      domain: this.options.domain,
+      chainId: this.options.chainId,
+      maxClockSkewMs: MAX_CLOCK_SKEW_MS,
+    });
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const address = parsed.address.toLowerCase();
+    if (recoverSigner(message, signature) !== address) {
+      return { errors: ['signature: Not signed by the message address'] };
+    }
+
+    if (!(await this.db.consumeAuthNonce(parsed.nonce))) {
+      return { errors: ['message: Nonce is unknown, used or expired'] };
+    }
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    // A session does not outlive the expiration time of the message
+    const exp = Math.min(
+      issuedAt + this.options.tokenTtlSeconds,
+      parsed.expirationTime
+        ? Math.floor(parsed.expirationTime.getTime() / 1000)
+        : Infinity,
+    );
+
+    return {
+      session: {
+        token: signJwt(
+          { sub: address, iat: issuedAt, exp },
+          this.options.jwtSecret,
+        ),
+        address,
+        expiresAt: new Date(exp * 1000),
+      },
+    };
+  }
+}
+
+// Lowercased address that signed the message; null for a malformed signature
+function recoverSigner(message: string, signature: string): string | null {
+  try {
+    return verifyMessage(message, signature).toLowerCase();
+  } catch {
+    return null;
+  }
+}
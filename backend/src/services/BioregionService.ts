@@ -0,0 +1,213 @@
+import { BlockchainService } from './BlockchainService';
+import { BioregionDocument, DatabaseService } from './DatabaseService';
+
+// Geospatial profile of a bioregion
+export type BioregionProfile = Pick<
+  BioregionDocument,
+  'boundary' | 'ecosystems' | 'climate'
+>;
+
+export interface NewBioregion extends BioregionProfile {
+  bioregionId: string;
+  name: string;
+  description: string;
+  registrar: string;
+}
+
+export type BioregionUpdate = Partial<
+  Pick<BioregionDocument, 'name' | 'description' | 'isActive'>
+> &
+  BioregionProfile;
+
+export type BioregionUpdateResult =
+  { bioregion: BioregionDocument } | { errors: string[] };
+
+/**
+ * Bioregion registry. Bioregions are managed in the database and registered
+ * on GRC_RitualSubmission and SymbiosisPledge, by the wallet or, once the
+ * council owns the contracts, by a council proposal; a registration that
+ * fails is recorded on the bioregion so it can be retried.
+ */
+export class BioregionService {
+  constructor(
+    private db: DatabaseService,
+    private blockchain: BlockchainService,
+  ) {}
+
+  async create(data: NewBioregion): Promise<BioregionDocument> {
+    const now = new Date();
+    await this.db.createBioregion({
+      ...data,
+      registrationTimestamp: now,
+      ritualCount: 0,
+      isActive: true,
+      chainSync: { status: 'pending' },
+    });
+
+    return await this.syncToChain(data.bioregionId);
+  }
+
+  /**
+   * Update a bioregion. GRC_RitualSubmission cannot rename a bioregion, so
+   * the name only changes while it is not registered there, and is then
+   * registered under the new name. Returns null if there is no such
+   * bioregion.
+   */
+  async update(
+    bioregionId: string,
+    updates: BioregionUpdate,
+  ): Promise<BioregionUpdateResult | null> {
+    const existing = await this.db.getBioregionById(bioregionId);
+    if (!existing) return null;
+
+    const renamed =
+      updates.name !== undefined && updates.name !== existing.name;
+    if (renamed) {
+      const registered = await this.blockchain.getBioregionName(bioregionId);
+      if (registered !== null && registered !== updates.name) {
+        return {
+          errors: [
+            `name: Registered on GRC_RitualSubmission as "${registered}", which cannot change`,
+          ],
+        };
+      }
+    }
+
+    await this.db.updateBioregion(bioregionId, updates);
+    if (renamed) {
+      return { bioregion: await this.syncToChain(bioregionId) };
+    }
+
+    const bioregion = await this.db.getBioregionById(bioregionId);
+    return bioregion && { bioregion };
+  }
+
+  /**
+   * Register a bioregion on both contracts under its current name.
+   */
+  async syncToChain(bioregionId: string): Promise<BioregionDocument> {
+    const bioregion = await this.db.getBioregionById(bioregionId);
+    if (!bioregion) {
+      throw new Error(`Bioregion not found: ${bioregionId}`);
+    }
+
+    if (this.blockchain.hasCouncil()) {
+      return await this.proposeToCouncil(bioregion);
+    }
+
+    try {
+      const registration = await this.blockchain.registerBioregion(
+        bioregion.bioregionId,
+        bioregion.name,
+      );
+      await this.db.updateBioregion(bioregionId, {
+        chainSync: {
+          status: 'synced',
+          ritualSubmissionTx:
+            registration.ritualSubmission ??
+            bioregion.chainSync?.ritualSubmissionTx,
+          symbiosisPledgeTx:
+            registration.symbiosisPledge ??
+            bioregion.chainSync?.symbiosisPledgeTx,
+          syncedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      await this.recordSyncFailure(bioregion, error);
+    }
+
+    return (await this.db.getBioregionById(bioregionId)) ?? bioregion;
+  }
+
+  /**
+   * Register a bioregion through the council, which members vote on and
+   * execute. A proposal for the current name that is still open is not made
+   * again; once it is executed the bioregion is synced.
+   */
+  private async proposeToCouncil(
+    bioregion: BioregionDocument,
+  ): Promise<BioregionDocument> {
+    const { bioregionId, name, chainSync } = bioregion;
+
+    try {
+      if (chainSync?.proposalId) {
+        const proposal = await this.blockchain.getCouncilProposal(
+          chainSync.proposalId,
+        );
+        if (proposal.state === 'executed') {
+          await this.db.updateBioregion(bioregionId, {
+            chainSync: { ...chainSync, status: 'synced', syncedAt: new Date() },
+          });
+          return (await this.db.getBioregionById(bioregionId)) ?? bioregion;
+        }
+
+        const open =
+          proposal.state !== 'defeated' && proposal.state !== 'canceled';
+        if (
+          open &&
+          proposal.action.type === 'RegisterBioregion' &&
+          proposal.action.name === name
+        ) {
+          return bioregion;
+        }
+      }
+
+      const { proposalId } = await this.blockchain.proposeCouncilAction(
+        { type: 'RegisterBioregion', bioregionId, name },
+        `Register bioregion ${name} (${bioregionId})`,
+      );
+      await this.db.updateBioregion(bioregionId, {
+        chainSync: { status: 'proposed', proposalId },
+      });
+    } catch (error) {
+      await this.recordSyncFailure(bioregion, error);
+    }
+
+    return (await this.db.getBioregionById(bioregionId)) ?? bioregion;
+  }
+
+  private async recordSyncFailure(
+    bioregion: BioregionDocument,
+    error: unknown,
+  ): Promise<void> {
+    console.error('Failed to sync bioregion to chain:', error);
+    await this.db.updateBioregion(bioregion.bioregionId, {
+      chainSync: {
+        ...bioregion.chainSync,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+
+  /**
+   * Add bioregions registered on chain but missing from the registry, such as
+   * those registered when the contracts were deployed. Returns how many were
+   * added.
+   */
+  async importFromChain(): Promise<number> {
+    let imported = 0;
+
+    for (const bioregionId of await this.blockchain.getRegisteredBioregions()) {
+      if (await this.db.getBioregionById(bioregionId)) continue;
+
+      const name =
+        (await this.blockchain.getBioregionName(bioregionId)) ?? bioregionId;
+      const now = new Date();
+      await this.db.createBioregion({
+        bioregionId,
+        name,
+        description: '',
+        registrar: 'chain',
+        registrationTimestamp: now,
+        ritualCount: 0,
+        isActive: true,
+        // Registered on GRC_RitualSubmission; SymbiosisPledge is not listed
+        chainSync: { status: 'pending' },
+      });
+      imported++;
+    }
+
+    return imported;
+  }
+}
@@ -1,8 +1,20 @@
 import { ethers } from 'ethers';
 import {
+  CulturalHeritageCouncil,
+  CulturalHeritageCouncil__factory,
+  GRC_RitualSubmission,
   GRC_RitualSubmission__factory,
+  SymbiosisPledge,
   SymbiosisPledge__factory,
 } from '../contracts/typechain-types';
+import { RelayAuthorization } from '../auth/relay';
+import { TransactionDocument } from './DatabaseService';
+import {
+  MinedTransaction,
+  TransactionManager,
+  TransactionStore,
+  walletSigner,
+} from './TransactionManager';
 
 export interface RitualSubmissionData {
   ipfsHash: string;
@@ -12,6 +24,99 @@ export interface RitualSubmissionData {
   cedaScore: number;
   narrativeScore: number;
   isApproved: boolean;
+  authorization?: RelayAuthorization | undefined; // Absent on rituals submitted before relayed authorship
+}
+
+// RitualSubmitted event as logged by GRC_RitualSubmission
+export interface RitualSubmittedEvent {
+  chainRitualId: string;
+  ipfsHashTopic: string; // keccak256 of the IPFS hash; indexed strings are hashed
+  bioregionIdTopic: string;
+  author: string;
+  esepScore: number; // 0.0 to 1.0
+  cedaScore: number;
+  narrativeScore: number; // 0.0 to 1.0
+  isApproved: boolean;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+}
+
+export type ContractEventName =
+  | 'RitualSubmitted'
+  | 'BioregionRegistered'
+  | 'PledgeCreated'
+  | 'PledgeFulfilled'
+  | 'PledgeVerified';
+
+// Event logged by GRC_RitualSubmission or SymbiosisPledge, with its arguments
+// by name: integers as decimal strings and indexed strings as their topic
+export interface ContractEvent {
+  name: ContractEventName;
+  args: Record<string, string | boolean>;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+}
+
+// Transactions that registered a bioregion; null where it was up to date
+export interface BioregionRegistration {
+  ritualSubmission: string | null;
+  symbiosisPledge: string | null;
+}
+
+// Actions the Cultural Heritage Council can propose, in contract enum order
+export const COUNCIL_PROPOSAL_TYPES = [
+  'RegisterBioregion',
+  'AddPledgeType',
+  'Pause',
+  'Unpause',
+  'SetVerifier',
+  'AddMember',
+  'RemoveMember',
+  'SetRelayer',
+] as const;
+
+export const COUNCIL_PROPOSAL_STATES = [
+  'active',
+  'defeated',
+  'queued', // Passed; waiting for the timelock
+  'executable',
+  'executed',
+  'canceled',
+] as const;
+
+export type CouncilAction =
+  | { type: 'RegisterBioregion'; bioregionId: string; name: string }
+  | { type: 'AddPledgeType'; pledgeType: string }
+  | { type: 'Pause' } // Both contracts
+  | { type: 'Unpause' }
+  | { type: 'SetVerifier'; verifier: string } // Zero address leaves it to the council
+  | { type: 'AddMember'; member: string }
+  | { type: 'RemoveMember'; member: string }
+  | { type: 'SetRelayer'; relayer: string; allowed: boolean }; // Relayers of ritual authorizations
+
+export interface CouncilProposal {
+  proposalId: string;
+  action: CouncilAction;
+  description: string;
+  proposer: string;
+  state: (typeof COUNCIL_PROPOSAL_STATES)[number];
+  forVotes: number;
+  againstVotes: number;
+  votingEndsAt: Date;
+  eta: Date; // Earliest execution time if the proposal passes
+}
+
+export interface CouncilInfo {
+  address: string;
+  memberCount: number;
+  quorum: number;
+  votingPeriodSeconds: number;
+  timelockDelaySeconds: number;
+  proposalCount: number;
 }
 
 export interface PledgeData {
@@ -29,22 +134,31 @@ export interface BlockchainConfig {
   contractAddresses: {
     grcRitualSubmission: string;
     symbiosisPledge: string;
+    council: string; // Optional; the owner of both contracts when deployed
   };
 }
 
 export class BlockchainService {
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet;
-  private grcContract: any;
-  private pledgeContract: any;
+  private grcContract: GRC_RitualSubmission | null = null;
+  private pledgeContract: SymbiosisPledge | null = null;
+  private councilContract: CulturalHeritageCouncil | null = null;
+  private transactions: TransactionManager | null = null;
   private isConnected: boolean = false;
 
-  constructor() {
+  // Transactions are sent through a manager stored in the given store
+  constructor(store: TransactionStore) {
     const config = this.getConfig();
 
     try {
       this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
       this.wallet = new ethers.Wallet(config.privateKey, this.provider);
+      this.transactions = new TransactionManager(
+        store,
+        walletSigner(this.wallet),
+        TransactionManager.optionsFromEnv(),
+      );
 
       // Initialize contracts
       this.grcContract = GRC_RitualSubmission__factory.connect(
@@ -57,6 +171,13 @@ export class BlockchainService {
         this.wallet,
       );
 
+      if (config.contractAddresses.council) {
+        this.councilContract = CulturalHeritageCouncil__factory.connect(
+          config.contractAddresses.council,
+          this.wallet,
+        );
+      }
+
       this.isConnected = true;
       console.log('Blockchain service initialized successfully');
     } catch (error) {
@@ -73,12 +194,15 @@ export class BlockchainService {
       contractAddresses: {
         grcRitualSubmission: process.env.GRC_CONTRACT_ADDRESS || '',
         symbiosisPledge: process.env.PLEDGE_CONTRACT_ADDRESS || '',
+        council: process.env['COUNCIL_CONTRACT_ADDRESS'] || '',
       },
     };
   }
 
   /**
-   * Log ritual submission on blockchain
+   * Log ritual submission on blockchain. With the author's authorization
+   * the wallet relays it and the author is logged as such; without one, the
+   * wallet can only log the ritual as its own author.
    */
   async logRitualSubmission(data: RitualSubmissionData): Promise<string> {
     if (!this.isConnected) {
@@ -94,40 +218,44 @@ export class BlockchainService {
       const esepScore = Math.round(data.esepScore * 1000);
       const narrativeScore = Math.round(data.narrativeScore * 1000);
 
-      // Submit transaction
-      const tx = await this.grcContract.submitRitual(
-        data.ipfsHash,
-        data.bioregionId,
-        data.author,
-        esepScore,
-        data.cedaScore,
-        narrativeScore,
-        data.isApproved,
-        {
-          gasLimit: 300000,
-          gasPrice: await this.provider
-            .getFeeData()
-            .then((fee) => fee.gasPrice),
-        },
-      );
+      // Retries of the same submission wait for the transaction already sent
+      const tx = data.authorization
+        ? await this.execute(
+            this.grcContract,
+            'submitRitualBySig',
+            [
+              data.ipfsHash,
+              data.bioregionId,
+              data.author,
+              esepScore,
+              data.cedaScore,
+              narrativeScore,
+              data.isApproved,
+              data.authorization,
+            ],
+            { key: `ritual:${data.ipfsHash}` },
+          )
+        : await this.execute(
+            this.grcContract,
+            'submitRitual',
+            [
+              data.ipfsHash,
+              data.bioregionId,
+              this.wallet.address,
+              esepScore,
+              data.cedaScore,
+              narrativeScore,
+              data.isApproved,
+            ],
+            { key: `ritual:${data.ipfsHash}` },
+          );
 
-      console.log('Ritual submission transaction sent:', {
+      console.log('Ritual submission confirmed:', {
         hash: tx.hash,
+        blockNumber: tx.blockNumber,
         ipfsHash: data.ipfsHash,
         bioregionId: data.bioregionId,
-      });
-
-      // Wait for confirmation
-      const receipt = await tx.wait();
-
-      if (receipt?.status === 0) {
-        throw new Error('Transaction failed');
-      }
-
-      console.log('Ritual submission confirmed:', {
-        hash: tx.hash,
-        blockNumber: receipt?.blockNumber,
-        gasUsed: receipt?.gasUsed?.toString(),
+        relayed: Boolean(data.authorization),
       });
 
       return tx.hash;
@@ -154,38 +282,21 @@ export class BlockchainService {
     }
 
     try {
-      const tx = await this.pledgeContract.createPledge(
+      const tx = await this.execute(this.pledgeContract, 'createPledge', [
         data.bioregionId,
         data.pledgeType,
         data.description,
         data.targetAmount,
         data.deadline,
-        {
-          gasLimit: 400000,
-          gasPrice: await this.provider
-            .getFeeData()
-            .then((fee) => fee.gasPrice),
-        },
-      );
+      ]);
 
-      console.log('Pledge creation transaction sent:', {
+      console.log('Pledge creation confirmed:', {
         hash: tx.hash,
+        blockNumber: tx.blockNumber,
         bioregionId: data.bioregionId,
         pledgeType: data.pledgeType,
       });
 
-      const receipt = await tx.wait();
-
-      if (receipt?.status === 0) {
-        throw new Error('Transaction failed');
-      }
-
-      console.log('Pledge creation confirmed:', {
-        hash: tx.hash,
-        blockNumber: receipt?.blockNumber,
-        gasUsed: receipt?.gasUsed?.toString(),
-      });
-
       return tx.hash;
     } catch (error) {
       console.error('Failed to create pledge:', error);
@@ -210,30 +321,20 @@ export class BlockchainService {
     }
 
     try {
-      const tx = await this.pledgeContract.fulfillPledge(pledgeId, {
-        value: amount,
-        gasLimit: 200000,
-        gasPrice: await this.provider.getFeeData().then((fee) => fee.gasPrice),
-      });
+      const tx = await this.execute(
+        this.pledgeContract,
+        'fulfillPledge',
+        [pledgeId],
+        { value: amount },
+      );
 
-      console.log('Pledge fulfillment transaction sent:', {
+      console.log('Pledge fulfillment confirmed:', {
         hash: tx.hash,
+        blockNumber: tx.blockNumber,
         pledgeId: pledgeId.toString(),
         amount: ethers.formatEther(amount),
       });
 
-      const receipt = await tx.wait();
-
-      if (receipt?.status === 0) {
-        throw new Error('Transaction failed');
-      }
-
-      console.log('Pledge fulfillment confirmed:', {
-        hash: tx.hash,
-        blockNumber: receipt?.blockNumber,
-        gasUsed: receipt?.gasUsed?.toString(),
-      });
-
       return tx.hash;
     } catch (error) {
       console.error('Failed to fulfill pledge:', error);
@@ -263,11 +364,12 @@ export class BlockchainService {
         ipfsHash: ritual.ipfsHash,
         bioregionId: ritual.bioregionId,
         author: ritual.author,
-        esepScore: ritual.esepScore / 1000, // Convert back from contract format
-        cedaScore: ritual.cedaScore,
-        narrativeScore: ritual.narrativeScore / 1000,
+        esepScore: Number(ritual.esepScore) / 1000, // Convert back from contract format
+        cedaScore: Number(ritual.cedaScore),
+        narrativeScore: Number(ritual.narrativeScore) / 1000,
         isApproved: ritual.isApproved,
         timestamp: ritual.timestamp,
+        contentHash: ritual.contentHash, // Zero unless relayed
       };
     } catch (error) {
       console.error('Failed to get ritual submission:', error);
@@ -279,6 +381,387 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Why GRC_RitualSubmission will never accept a relayed authorization: it
+   * expired or its nonce was used. Null while it can still be relayed.
+   */
+  async relayAuthorizationProblem(
+    author: string,
+    authorization: RelayAuthorization,
+    now: Date = new Date(),
+  ): Promise<string | null> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract) {
+      throw new Error('GRC contract not initialized');
+    }
+
+    if (authorization.deadline * 1000 < now.getTime()) {
+      return 'Authorization expired';
+    }
+    if (await this.grcContract.isNonceUsed(author, authorization.nonce)) {
+      return 'Authorization already used';
+    }
+    return null;
+  }
+
+  /**
+   * RitualSubmitted events logged in a block range, inclusive
+   */
+  async getRitualSubmittedEvents(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<RitualSubmittedEvent[]> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract) {
+      throw new Error('GRC contract not initialized');
+    }
+
+    try {
+      const logs = await this.grcContract.queryFilter(
+        this.grcContract.filters.RitualSubmitted(),
+        fromBlock,
+        toBlock,
+      );
+
+      return logs.map((log) => ({
+        chainRitualId: log.args.ritualId.toString(),
+        ipfsHashTopic: topicOf(log.args.ipfsHash),
+        bioregionIdTopic: topicOf(log.args.bioregionId),
+        author: log.args.author,
+        esepScore: Number(log.args.esepScore) / 1000, // Convert back from contract format
+        cedaScore: Number(log.args.cedaScore),
+        narrativeScore: Number(log.args.narrativeScore) / 1000,
+        isApproved: log.args.isApproved,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+      }));
+    } catch (error) {
+      console.error('Failed to get ritual submission events:', error);
+      throw new Error(
+        `Failed to retrieve events: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Events of both contracts logged in a block range, inclusive, in the
+   * order they were logged
+   */
+  async getContractEvents(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<ContractEvent[]> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract || !this.pledgeContract) {
+      throw new Error('Contracts not initialized');
+    }
+
+    try {
+      const queries: [ethers.BaseContract, ethers.DeferredTopicFilter][] = [
+        [this.grcContract, this.grcContract.filters.RitualSubmitted()],
+        [this.grcContract, this.grcContract.filters.BioregionRegistered()],
+        [this.pledgeContract, this.pledgeContract.filters.PledgeCreated()],
+        [this.pledgeContract, this.pledgeContract.filters.PledgeFulfilled()],
+        [this.pledgeContract, this.pledgeContract.filters.PledgeVerified()],
+      ];
+
+      const logs = (
+        await Promise.all(
+          queries.map(([contract, filter]) =>
+            contract.queryFilter(filter, fromBlock, toBlock),
+          ),
+        )
+      )
+        .flat()
+        .filter(
+          (log): log is ethers.EventLog => log instanceof ethers.EventLog,
+        );
+
+      return logs
+        .map((log) => ({
+          name: log.eventName as ContractEventName,
+          args: Object.fromEntries(
+            log.fragment.inputs.map((input, i) => [
+              input.name,
+              toEventArg(log.args[i]),
+            ]),
+          ),
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          logIndex: log.index,
+        }))
+        .sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+        );
+    } catch (error) {
+      console.error('Failed to get contract events:', error);
+      throw new Error(
+        `Failed to retrieve events: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Hash of a block, or null if the chain has no such block
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    const block = await this.provider.getBlock(blockNumber);
+    return block?.hash ?? null;
+  }
+
+  /**
+   * Register a bioregion on both contracts. GRC_RitualSubmission keeps the
+   * name it was first registered with; SymbiosisPledge takes renames.
+   */
+  async registerBioregion(
+    bioregionId: string,
+    name: string,
+  ): Promise<BioregionRegistration> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract || !this.pledgeContract) {
+      throw new Error('Contracts not initialized');
+    }
+
+    try {
+      const registration: BioregionRegistration = {
+        ritualSubmission: null,
+        symbiosisPledge: null,
+      };
+
+      if (!(await this.grcContract.getBioregionName(bioregionId))) {
+        registration.ritualSubmission = (
+          await this.execute(this.grcContract, 'registerBioregion', [
+            bioregionId,
+            name,
+          ])
+        ).hash;
+      }
+
+      if ((await this.pledgeContract.bioregions(bioregionId)) !== name) {
+        registration.symbiosisPledge = (
+          await this.execute(this.pledgeContract, 'registerBioregion', [
+            bioregionId,
+            name,
+          ])
+        ).hash;
+      }
+
+      console.log('Bioregion registered:', { bioregionId, ...registration });
+      return registration;
+    } catch (error) {
+      console.error('Failed to register bioregion:', error);
+      throw new Error(
+        `Bioregion registration failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Name a bioregion is registered with on GRC_RitualSubmission, or null
+   */
+  async getBioregionName(bioregionId: string): Promise<string | null> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract) {
+      throw new Error('GRC contract not initialized');
+    }
+
+    return (await this.grcContract.getBioregionName(bioregionId)) || null;
+  }
+
+  /**
+   * IDs of the bioregions registered on GRC_RitualSubmission
+   */
+  async getRegisteredBioregions(): Promise<string[]> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.grcContract) {
+      throw new Error('GRC contract not initialized');
+    }
+
+    return [...(await this.grcContract.getRegisteredBioregions())];
+  }
+
+  /**
+   * Whether the Cultural Heritage Council is configured. It owns both
+   * contracts once deployed, so only its proposals can change them.
+   */
+  hasCouncil(): boolean {
+    return this.councilContract !== null;
+  }
+
+  /**
+   * Propose an action to the Cultural Heritage Council. The wallet must be a
+   * council member.
+   */
+  async proposeCouncilAction(
+    action: CouncilAction,
+    description: string,
+  ): Promise<{ proposalId: string; transactionHash: string }> {
+    const council = this.requireCouncil();
+    const { proposalType, params } = encodeCouncilAction(action);
+
+    try {
+      const tx = await this.execute(council, 'propose', [
+        proposalType,
+        params,
+        description,
+      ]);
+
+      const created = tx.logs
+        .map((log) => council.interface.parseLog(log))
+        .find(
+          (parsed: ethers.LogDescription | null) =>
+            parsed?.name === 'ProposalCreated',
+        );
+      if (!created) {
+        throw new Error('ProposalCreated event not found');
+      }
+
+      return {
+        proposalId: created.args['proposalId'].toString(),
+        transactionHash: tx.hash,
+      };
+    } catch (error) {
+      console.error('Failed to create council proposal:', error);
+      throw new Error(
+        `Council proposal failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Vote on an active council proposal as the wallet's member
+   */
+  async voteOnCouncilProposal(
+    proposalId: string,
+    support: boolean,
+  ): Promise<string> {
+    const council = this.requireCouncil();
+    return (
+      await this.execute(council, 'castVote', [BigInt(proposalId), support])
+    ).hash;
+  }
+
+  /**
+   * Execute a council proposal that passed and whose timelock has elapsed
+   */
+  async executeCouncilProposal(proposalId: string): Promise<string> {
+    const council = this.requireCouncil();
+    return (await this.execute(council, 'execute', [BigInt(proposalId)])).hash;
+  }
+
+  /**
+   * Cancel a council proposal made by the wallet while voting is open
+   */
+  async cancelCouncilProposal(proposalId: string): Promise<string> {
+    const council = this.requireCouncil();
+    return (await this.execute(council, 'cancel', [BigInt(proposalId)])).hash;
+  }
+
+  async getCouncilProposal(proposalId: string): Promise<CouncilProposal> {
+    const council = this.requireCouncil();
+    const [proposal, state] = await Promise.all([
+      council.getProposal(BigInt(proposalId)),
+      council.state(BigInt(proposalId)),
+    ]);
+
+    return {
+      proposalId,
+      action: decodeCouncilAction(
+        Number(proposal.proposalType),
+        proposal.params,
+      ),
+      description: proposal.description,
+      proposer: proposal.proposer,
+      state: COUNCIL_PROPOSAL_STATES[Number(state)] ?? 'active',
+      forVotes: Number(proposal.forVotes),
+      againstVotes: Number(proposal.againstVotes),
+      votingEndsAt: new Date(Number(proposal.votingEndsAt) * 1000),
+      eta: new Date(Number(proposal.eta) * 1000),
+    };
+  }
+
+  async getCouncilInfo(): Promise<CouncilInfo> {
+    const council = this.requireCouncil();
+    const [memberCount, quorum, votingPeriod, timelockDelay, proposalCount] =
+      await Promise.all([
+        council.memberCount(),
+        council.quorum(),
+        council.votingPeriod(),
+        council.timelockDelay(),
+        council.proposalCount(),
+      ]);
+
+    return {
+      address: await council.getAddress(),
+      memberCount: Number(memberCount),
+      quorum: Number(quorum),
+      votingPeriodSeconds: Number(votingPeriod),
+      timelockDelaySeconds: Number(timelockDelay),
+      proposalCount: Number(proposalCount),
+    };
+  }
+
+  async isCouncilMember(address: string): Promise<boolean> {
+    const council = this.requireCouncil();
+    return await council.isMember(address);
+  }
+
+  private requireCouncil(): CulturalHeritageCouncil {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    if (!this.councilContract) {
+      throw new Error('Council contract not configured');
+    }
+
+    return this.councilContract;
+  }
+
+  /**
+   * Latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    if (!this.isConnected) {
+      throw new Error('Blockchain service not connected');
+    }
+
+    return await this.provider.getBlockNumber();
+  }
+
   /**
    * Get pledge from blockchain
    */
@@ -298,13 +781,13 @@ export class BlockchainService {
         bioregionId: pledge.bioregionId,
         pledgeType: pledge.pledgeType,
         description: pledge.description,
-        targetAmount: pledge.targetAmount,
-        fulfilledAmount: pledge.fulfilledAmount,
+        targetAmount: pledge.commitmentAmount,
         deadline: pledge.deadline,
         isFulfilled: pledge.isFulfilled,
         isVerified: pledge.isVerified,
         verifier: pledge.verifier,
-        timestamp: pledge.timestamp,
+        timestamp: pledge.creationTimestamp,
+        fulfillmentTimestamp: pledge.fulfillmentTimestamp,
       };
     } catch (error) {
       console.error('Failed to get pledge:', error);
@@ -336,15 +819,15 @@ export class BlockchainService {
               totalSubmissions: grcStats.totalSubmissions,
               approvedSubmissions: grcStats.approvedSubmissions,
               rejectedSubmissions: grcStats.rejectedSubmissions,
-              approvalRate: grcStats.approvalRate / 1000, // Convert from contract format
+              approvalRate: Number(grcStats.approvalRate) / 1000, // Convert from contract format
             }
           : null,
         pledges: pledgeStats
           ? {
-              totalPledges: pledgeStats.totalPledges,
-              fulfilledPledges: pledgeStats.fulfilledPledges,
-              partiallyFulfilledPledges: pledgeStats.partiallyFulfilledPledges,
-              totalFulfilledAmount: pledgeStats.totalFulfilledAmount,
+              totalPledges: pledgeStats._totalPledges,
+              fulfilledPledges: pledgeStats._fulfilledPledges,
+              totalCommitment: pledgeStats._totalCommitment,
+              verifiedCommitment: pledgeStats._verifiedCommitment,
             }
           : null,
       };
@@ -405,34 +888,51 @@ export class BlockchainService {
   }
 
   /**
-   * Estimate gas for ritual submission
+   * Follow up the transactions left pending by an earlier run. Returns how
+   * many there are.
    */
-  async estimateRitualSubmissionGas(
-    data: RitualSubmissionData,
-  ): Promise<bigint> {
-    if (!this.isConnected || !this.grcContract) {
-      throw new Error('Blockchain service not connected');
-    }
+  async resumeTransactions(): Promise<number> {
+    return await this.requireTransactions().resume();
+  }
 
-    try {
-      const esepScore = Math.round(data.esepScore * 1000);
-      const narrativeScore = Math.round(data.narrativeScore * 1000);
+  /**
+   * Rebroadcast a pending transaction with higher fees; null if it is not
+   * pending
+   */
+  async speedUpTransaction(txId: string): Promise<TransactionDocument | null> {
+    return await this.requireTransactions().speedUp(txId);
+  }
 
-      const gasEstimate = await this.grcContract.submitRitual.estimateGas(
-        data.ipfsHash,
-        data.bioregionId,
-        data.author,
-        esepScore,
-        data.cedaScore,
-        narrativeScore,
-        data.isApproved,
-      );
+  /**
+   * Replace a pending transaction with one that does nothing; null if it is
+   * not pending
+   */
+  async cancelTransaction(txId: string): Promise<TransactionDocument | null> {
+    return await this.requireTransactions().cancel(txId);
+  }
 
-      return gasEstimate;
-    } catch (error) {
-      console.error('Failed to estimate gas for ritual submission:', error);
-      return ethers.parseUnits('300000', 'wei'); // Fallback gas limit
+  private requireTransactions(): TransactionManager {
+    if (!this.isConnected || !this.transactions) {
+      throw new Error('Blockchain service not connected');
     }
+
+    return this.transactions;
+  }
+
+  // Send a contract call through the transaction manager and wait for it
+  private async execute(
+    contract: ethers.BaseContract,
+    method: string,
+    args: unknown[],
+    options: { value?: bigint; key?: string } = {},
+  ): Promise<MinedTransaction> {
+    return await this.requireTransactions().send({
+      to: await contract.getAddress(),
+      data: contract.interface.encodeFunctionData(method, args),
+      value: options.value,
+      label: method,
+      key: options.key,
+    });
   }
 
   /**
@@ -456,3 +956,92 @@ export class BlockchainService {
     }
   }
 }
+
+// Proposal type and ABI-encoded params of a council action
+export function encodeCouncilAction(action: CouncilAction): {
+  proposalType: number;
+  params: string;
+} {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const proposalType = COUNCIL_PROPOSAL_TYPES.indexOf(action.type);
+
+  switch (action.type) {
+    case 'RegisterBioregion':
+      return {
+        proposalType,
+        params: coder.encode(
+          ['string', 'string'],
+          [action.bioregionId, action.name],
+        ),
+      };
+    case 'AddPledgeType':
+      return {
+        proposalType,
+        params: coder.encode(['string'], [action.pledgeType]),
+      };
+    case 'Pause':
+    case 'Unpause':
+      return { proposalType, params: '0x' };
+    case 'SetVerifier':
+      return {
+        proposalType,
+        params: coder.encode(['address'], [action.verifier]),
+      };
+    case 'AddMember':
+    case 'RemoveMember':
+      return {
+        proposalType,
+        params: coder.encode(['address'], [action.member]),
+      };
+    case 'SetRelayer':
+      return {
+        proposalType,
+        params: coder.encode(
+          ['address', 'bool'],
+          [action.relayer, action.allowed],
+        ),
+      };
+  }
+}
+
+export function decodeCouncilAction(
+  proposalType: number,
+  params: string,
+): CouncilAction {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const type = COUNCIL_PROPOSAL_TYPES[proposalType];
+
+  switch (type) {
+    case 'RegisterBioregion': {
+      const [bioregionId, name] = coder.decode(['string', 'string'], params);
+      return { type, bioregionId, name };
+    }
+    case 'AddPledgeType':
+      return { type, pledgeType: coder.decode(['string'], params)[0] };
+    case 'Pause':
+    case 'Unpause':
+      return { type };
+    case 'SetVerifier':
+      return { type, verifier: coder.decode(['address'], params)[0] };
+    case 'AddMember':
+    case 'RemoveMember':
+      return { type, member: coder.decode(['address'], params)[0] };
+    case 'SetRelayer': {
+      const [relayer, allowed] = coder.decode(['address', 'bool'], params);
+      return { type, relayer, allowed };
+    }
+    default:
+      throw new Error(`Unknown council proposal type: ${proposalType}`);
+  }
+}
+
+// Indexed strings decode to their hash only
+function topicOf(value: ethers.Indexed | string): string {
+  return typeof value === 'string' ? ethers.id(value) : (value.hash ?? '');
+}
+
+function toEventArg(value: unknown): string | boolean {
+  if (value instanceof ethers.Indexed) return value.hash ?? '';
+  if (typeof value === 'boolean') return value;
+  return String(value);
+}
@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { RitualSubmittedEvent } from './BlockchainService';
+import { matchEvents } from './ChainReconciler';
+import { RitualDocument } from './DatabaseService';
+
+const ritual = (overrides: Partial<RitualDocument> = {}): RitualDocument => ({
+  ritualId: 'ritual-1',
+  name: 'Dawn gathering',
+  bioregionId: 'cascadia',
+  status: 'approved',
+  ipfsHash: 'QmRitual',
+  ipfsHashTopic: ethers.id('QmRitual'),
+  validation: {
+    esepScore: 0.1,
+    cedaScore: 3,
+    isApproved: true,
+  },
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const event = (
+  overrides: Partial<RitualSubmittedEvent> = {},
+): RitualSubmittedEvent => ({
+  chainRitualId: '7',
+  ipfsHashTopic: ethers.id('QmRitual'),
+  bioregionIdTopic: ethers.id('cascadia'),
+  author: '0x0000000000000000000000000000000000000001',
+  esepScore: 10,
+  cedaScore: 3,
+  narrativeScore: 90,
+  isApproved: true,
+  transactionHash: '0xabc',
+  blockNumber: 100,
+  blockHash: '0xblock',
+  logIndex: 0,
+  ...overrides,
+});
+
+describe('matchEvents', () => {
+  it('backfills the transaction of a ritual whose anchoring is pending', () => {
+    const match = matchEvents([event()], [ritual({ anchorStatus: 'pending' })]);
+
+    expect(match.backfills).toEqual([
+      {
+        ritualId: 'ritual-1',
+        transactionHash: '0xabc',
+        chainRitualId: '7',
+        anchorStatus: 'anchored',
+      },
+    ]);
+    expect(match.discrepancies).toEqual([]);
+    expect(match.resolvedKeys).toEqual([
+      'orphaned_event:0xabc:0',
+      'missing_event:ritual-1',
+    ]);
+  });
+
+  it('backfills only the on-chain id of a ritual with the same transaction', () => {
+    const match = matchEvents(
+      [event()],
+      [ritual({ transactionHash: '0xabc', anchorStatus: 'anchored' })],
+    );
+
+    expect(match.backfills.map((backfill) => backfill.chainRitualId)).toEqual([
+      '7',
+    ]);
+    expect(match.discrepancies).toEqual([]);
+  });
+
+  it('leaves a fully reconciled ritual alone', () => {
+    const match = matchEvents(
+      [event()],
+      [ritual({ transactionHash: '0xabc', chainRitualId: '7' })],
+    );
+
+    expect(match.backfills).toEqual([]);
+    expect(match.discrepancies).toEqual([]);
+  });
+
+  it('reports events without a ritual as orphaned', () => {
+    const match = matchEvents(
+      [event({ ipfsHashTopic: ethers.id('QmUnknown'), logIndex: 2 })],
+      [ritual()],
+    );
+
+    expect(match.backfills).toEqual([]);
+    expect(match.discrepancies).toEqual([
+      expect.objectContaining({
+        key: 'orphaned_event:0xabc:2',
+        type: 'orphaned_event',
+        chainRitualId: '7',
+      }),
+    ]);
+  });
+
+  it('reports a second submission of the same ritual as a mismatch', () => {
+    const match = matchEvents(
+      [event(), event({ transactionHash: '0xdef', chainRitualId: '8' })],
+      [ritual()],
+    );
+
+    expect(match.backfills).toHaveLength(1);
+    expect(match.discrepancies).toEqual([
+      expect.objectContaining({
+        key: 'transaction_mismatch:0xdef:0',
+        type: 'transaction_mismatch',
+        ritualId: 'ritual-1',
+      }),
+    ]);
+  });
+
+  it('reports approval that differs from the chain', () => {
+    const match = matchEvents(
+      [event({ isApproved: false })],
+      [ritual({ transactionHash: '0xabc', chainRitualId: '7' })],
+    );
+
+    expect(match.discrepancies).toEqual([
+      expect.objectContaining({
+        key: 'approval_mismatch:ritual-1',
+        type: 'approval_mismatch',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,361 @@
+import { ethers } from 'ethers';
+import { BlockchainService, RitualSubmittedEvent } from './BlockchainService';
+import {
+  DatabaseService,
+  DiscrepancyDocument,
+  RitualDocument,
+} from './DatabaseService';
+
+export interface ReconcilerOptions {
+  enabled: boolean;
+  startBlock: number; // Deployment block of GRC_RitualSubmission
+  blockRange: number; // Blocks per event query
+  confirmations: number; // Blocks behind the head that are scanned
+  intervalMs: number;
+  graceMs: number; // Age after which a ritual's transaction must have an event
+}
+
+export type NewDiscrepancy = Omit<
+  DiscrepancyDocument,
+  '_id' | 'detectedAt' | 'lastSeenAt' | 'resolvedAt'
+>;
+
+// Fields of a ritual filled in from the event that anchored it
+export interface RitualBackfill {
+  ritualId: string;
+  transactionHash: string;
+  chainRitualId: string;
+  anchorStatus: 'anchored';
+}
+
+export interface EventMatch {
+  backfills: RitualBackfill[];
+  discrepancies: NewDiscrepancy[];
+  resolvedKeys: string[]; // Discrepancies the events show are resolved
+}
+
+export interface ReconciliationReport {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  backfilled: number;
+  discrepancies: number; // Found in this run, new or seen before
+  resolved: number;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface ReconcilerStatus {
+  enabled: boolean;
+  running: boolean;
+  cursor: number | null; // Last block reconciled
+  lastReport: ReconciliationReport | null;
+  lastError: string | null;
+}
+
+const CURSOR_NAME = 'ritual-reconciler';
+const BATCH_LIMIT = 100;
+
+/**
+ * Match RitualSubmitted events to rituals by the topic of their IPFS hash.
+ * Rituals that lack the event's transaction are backfilled; anything else the
+ * chain and the database disagree on is reported.
+ */
+export function matchEvents(
+  events: RitualSubmittedEvent[],
+  rituals: RitualDocument[],
+): EventMatch {
+  const match: EventMatch = {
+    backfills: [],
+    discrepancies: [],
+    resolvedKeys: [],
+  };
+  // Copies, so a second event for a ritual sees the first one's backfill
+  const byTopic = new Map(
+    rituals.map((ritual) => [ritual.ipfsHashTopic, { ...ritual }]),
+  );
+
+  for (const event of events) {
+    const orphanKey = `orphaned_event:${event.transactionHash}:${event.logIndex}`;
+    const ritual = byTopic.get(event.ipfsHashTopic);
+
+    if (!ritual) {
+      match.discrepancies.push({
+        key: orphanKey,
+        type: 'orphaned_event',
+        message: `On-chain ritual ${event.chainRitualId} has no ritual in the database`,
+        chainRitualId: event.chainRitualId,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      });
+      continue;
+    }
+    match.resolvedKeys.push(orphanKey, `missing_event:${ritual.ritualId}`);
+
+    if (!ritual.transactionHash || ritual.anchorStatus === 'pending') {
+      match.backfills.push({
+        ritualId: ritual.ritualId,
+        transactionHash: event.transactionHash,
+        chainRitualId: event.chainRitualId,
+        anchorStatus: 'anchored',
+      });
+      ritual.transactionHash = event.transactionHash;
+      ritual.chainRitualId = event.chainRitualId;
+      ritual.anchorStatus = 'anchored';
+    } else if (ritual.transactionHash !== event.transactionHash) {
+      match.discrepancies.push({
+        key: `transaction_mismatch:${event.transactionHash}:${event.logIndex}`,
+        type: 'transaction_mismatch',
+        message: `Ritual ${ritual.ritualId} records transaction ${ritual.transactionHash} but was also logged in ${event.transactionHash}`,
+        ritualId: ritual.ritualId,
+        chainRitualId: event.chainRitualId,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      });
+      continue;
+    } else if (ritual.chainRitualId !== event.chainRitualId) {
+      match.backfills.push({
+        ritualId: ritual.ritualId,
+        transactionHash: event.transactionHash,
+        chainRitualId: event.chainRitualId,
+        anchorStatus: 'anchored',
+      });
+      ritual.chainRitualId = event.chainRitualId;
+    }
+
+    if (ritual.validation.isApproved !== event.isApproved) {
+      match.discrepancies.push({
+        key: `approval_mismatch:${ritual.ritualId}`,
+        type: 'approval_mismatch',
+        message: `Ritual ${ritual.ritualId} is ${ritual.validation.isApproved ? 'approved' : 'rejected'} in the database but ${event.isApproved ? 'approved' : 'rejected'} on chain`,
+        ritualId: ritual.ritualId,
+        chainRitualId: event.chainRitualId,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      });
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Background worker that scans RitualSubmitted events by block range, keeps
+ * rituals in step with them and records the discrepancies it finds. The last
+ * reconciled block is stored, so scanning resumes where it stopped.
+ */
+export class ChainReconciler {
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<ReconciliationReport> | null = null;
+  private lastReport: ReconciliationReport | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private db: DatabaseService,
+    private blockchain: BlockchainService,
+    private options: ReconcilerOptions,
+  ) {}
+
+  static optionsFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+  ): ReconcilerOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      enabled: env['RECONCILER_ENABLED'] !== 'false',
+      startBlock: integer('RECONCILER_START_BLOCK', 0, 0),
+      blockRange: integer('RECONCILER_BLOCK_RANGE', 2000, 1),
+      confirmations: integer('RECONCILER_CONFIRMATIONS', 12, 0),
+      intervalMs: integer('RECONCILER_INTERVAL_MS', 5 * 60 * 1000, 1000),
+      graceMs: integer('RECONCILER_GRACE_MS', 60 * 60 * 1000, 0),
+    };
+  }
+
+  start(): void {
+    if (!this.options.enabled || this.timer) return;
+    this.schedule(0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.active?.catch(() => undefined);
+  }
+
+  async status(): Promise<ReconcilerStatus> {
+    return {
+      enabled: this.options.enabled,
+      running: this.active !== null,
+      cursor: (await this.db.getSyncCursor(CURSOR_NAME))?.block ?? null,
+      lastReport: this.lastReport,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Reconcile a block range, by default from the stored cursor to the last
+   * confirmed block. Explicit ranges rescan without moving the cursor.
+   */
+  async run(
+    range: { fromBlock?: number; toBlock?: number } = {},
+  ): Promise<ReconciliationReport> {
+    if (this.active) {
+      throw new Error('Reconciliation already running');
+    }
+
+    this.active = this.reconcile(range);
+    try {
+      this.lastReport = await this.active;
+      this.lastError = null;
+      return this.lastReport;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.active = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        console.error('Chain reconciliation failed:', error);
+      }
+      if (this.timer) {
+        this.schedule(this.options.intervalMs);
+      }
+    }, delayMs);
+  }
+
+  private async reconcile(range: {
+    fromBlock?: number;
+    toBlock?: number;
+  }): Promise<ReconciliationReport> {
+    const startedAt = new Date().toISOString();
+    const moveCursor =
+      range.fromBlock === undefined && range.toBlock === undefined;
+    const cursor = await this.db.getSyncCursor(CURSOR_NAME);
+    const fromBlock =
+      range.fromBlock ??
+      (cursor === null ? this.options.startBlock : cursor.block + 1);
+    const toBlock =
+      range.toBlock ??
+      (await this.blockchain.getBlockNumber()) - this.options.confirmations;
+
+    const report: ReconciliationReport = {
+      fromBlock,
+      toBlock,
+      events: 0,
+      backfilled: 0,
+      discrepancies: 0,
+      resolved: 0,
+      startedAt,
+      completedAt: startedAt,
+    };
+
+    await this.indexIpfsHashTopics();
+
+    for (
+      let batchFrom = fromBlock;
+      batchFrom <= toBlock;
+      batchFrom += this.options.blockRange
+    ) {
+      const batchTo = Math.min(
+        batchFrom + this.options.blockRange - 1,
+        toBlock,
+      );
+      const events = await this.blockchain.getRitualSubmittedEvents(
+        batchFrom,
+        batchTo,
+      );
+      const rituals = events.length
+        ? await this.db.getRitualsByIpfsHashTopics([
+            ...new Set(events.map((event) => event.ipfsHashTopic)),
+          ])
+        : [];
+      const match = matchEvents(events, rituals);
+
+      for (const { ritualId, ...backfill } of match.backfills) {
+        await this.db.updateRitual(ritualId, backfill);
+      }
+      for (const discrepancy of match.discrepancies) {
+        await this.db.recordDiscrepancy(discrepancy);
+      }
+      report.resolved += await this.db.resolveDiscrepancies(match.resolvedKeys);
+      report.events += events.length;
+      report.backfilled += match.backfills.length;
+      report.discrepancies += match.discrepancies.length;
+
+      if (moveCursor) {
+        await this.db.setSyncCursor(CURSOR_NAME, batchTo);
+      }
+    }
+
+    report.discrepancies += await this.checkUnconfirmedRituals(toBlock);
+    report.completedAt = new Date().toISOString();
+    return report;
+  }
+
+  // Rituals stored before reconciliation existed lack the topic to match on,
+  // the keccak256 hash the contract logs its indexed ipfsHash as
+  private async indexIpfsHashTopics(): Promise<void> {
+    let rituals: RitualDocument[];
+    do {
+      rituals = await this.db.getRitualsWithoutIpfsHashTopic(BATCH_LIMIT);
+      for (const ritual of rituals) {
+        await this.db.updateRitual(ritual.ritualId, {
+          ipfsHashTopic: ethers.id(ritual.ipfsHash ?? ''),
+        });
+      }
+    } while (rituals.length === BATCH_LIMIT);
+  }
+
+  /**
+   * Report rituals whose transaction is old enough to have been reconciled
+   * but has no matching event: the transaction is unknown, reverted, or
+   * logged a different IPFS hash.
+   */
+  private async checkUnconfirmedRituals(toBlock: number): Promise<number> {
+    const rituals = await this.db.getUnconfirmedRituals(
+      new Date(Date.now() - this.options.graceMs),
+      BATCH_LIMIT,
+    );
+    let found = 0;
+
+    for (const ritual of rituals) {
+      const receipt = await this.blockchain.getTransactionReceipt(
+        ritual.transactionHash ?? '',
+      );
+      // Not reconciled yet, or only by an explicit range that missed it
+      if (receipt && receipt.status === 1 && receipt.blockNumber > toBlock) {
+        continue;
+      }
+
+      await this.db.recordDiscrepancy({
+        key: `missing_event:${ritual.ritualId}`,
+        type: 'missing_event',
+        message: !receipt
+          ? `Transaction ${ritual.transactionHash} of ritual ${ritual.ritualId} was not found on chain`
+          : receipt.status === 1
+            ? `Transaction ${ritual.transactionHash} of ritual ${ritual.ritualId} did not log its IPFS hash`
+            : `Transaction ${ritual.transactionHash} of ritual ${ritual.ritualId} reverted`,
+        ritualId: ritual.ritualId,
+        transactionHash: ritual.transactionHash,
+        blockNumber: receipt?.blockNumber,
+      });
+      found++;
+    }
+
+    return found;
+  }
+}
@@ -1,21 +1,201 @@
 import { MongoClient, Db, Collection } from 'mongodb';
+import { Role } from '../auth/permissions';
+import { RelayAuthorization } from '../auth/relay';
+import { GeoBoundary, GeoPoint } from '../geo/geojson';
+import { IPFSMetadata } from './IPFSService';
+
+// Processing rituals are reserved by a submission that has not finished
+export type RitualStatus =
+  'processing' | 'approved' | 'rejected' | 'pending_review';
 
 export interface RitualDocument {
   _id?: string;
   ritualId: string;
   name: string;
   bioregionId: string;
-  ipfsHash: string;
-  transactionHash: string;
+  author?: string | undefined; // Wallet address that signed in to submit the ritual
+  status?: RitualStatus | undefined; // Absent on rituals stored before expert review
+  ipfsHash?: string | undefined; // Set once the decision is published
+  transactionHash?: string | undefined;
+  anchorStatus?: 'pending' | 'anchored' | 'failed' | undefined; // Pending while logging on chain is retried
+  anchorError?: string | undefined; // Why anchoring failed; the author must sign a new authorization
+  chainRitualId?: string | undefined; // Ritual ID on GRC_RitualSubmission, set by reconciliation
+  ipfsHashTopic?: string | undefined; // keccak256 of ipfsHash, as logged in RitualSubmitted
+  location?: GeoPoint | undefined; // Where the ritual takes place
   validation: {
     esepScore: number;
     cedaScore: number;
     isApproved: boolean;
+    policyVersion?: string | undefined;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ReviewStatus = 'pending' | 'claimed' | 'approved' | 'rejected';
+
+export interface ReviewComment {
+  reviewer: string;
+  comment: string;
+  createdAt: Date;
+}
+
+export interface ReviewDocument {
+  _id?: string;
+  reviewId: string;
+  ritualId: string;
+  bioregionId: string;
+  status: ReviewStatus;
+  reasons: string[]; // Why the filters could not decide on their own
+  submission: IPFSMetadata; // Published to IPFS once a reviewer decides
+  authorization?: RelayAuthorization | undefined; // Author's consent to log the ritual on chain
+  comments: ReviewComment[];
+  claimedBy?: string | undefined;
+  claimedAt?: Date | undefined;
+  decidedBy?: string | undefined;
+  decisionComment?: string | undefined;
+  decidedAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// A stage that could not be undone when the job failed
+export interface JobCompensationFailure {
+  stage: string;
+  error: string;
+}
+
+export interface JobDocument<TPayload = unknown, TResult = unknown> {
+  _id?: string;
+  jobId: string;
+  type: string;
+  status: JobStatus;
+  stages: string[]; // Completed stages, in order
+  payload: TPayload;
+  result: TResult; // Output of the completed stages
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: Date;
+  lockedAt?: Date | undefined; // When a worker last claimed the job
+  error?: string | undefined; // Error of the last failed attempt
+  committed?: boolean | undefined; // Retried until it completes, never failed
+  compensated?: string[] | undefined; // Stages undone when the job failed
+  compensationFailures?: JobCompensationFailure[] | undefined;
+  progress?: number | undefined; // Counts the changes, so updates can be ordered
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DiscrepancyType =
+  | 'orphaned_event' // Event on chain without a ritual in the database
+  | 'transaction_mismatch' // Ritual records a different transaction
+  | 'approval_mismatch' // Chain and database disagree on approval
+  | 'missing_event'; // Ritual transaction not found or reverted on chain
+
+export interface DiscrepancyDocument {
+  _id?: string;
+  key: string; // Identifies the discrepancy across reconciliation runs
+  type: DiscrepancyType;
+  message: string;
+  ritualId?: string | undefined;
+  chainRitualId?: string | undefined;
+  transactionHash?: string | undefined;
+  blockNumber?: number | undefined;
+  detectedAt: Date;
+  lastSeenAt: Date;
+  resolvedAt?: Date | undefined;
+}
+
+export interface SyncCursorDocument {
+  _id?: string;
+  name: string;
+  block: number; // Last block processed
+  blockHash?: string | undefined; // Hash of that block, to detect reorgs
+  updatedAt: Date;
+}
+
+// Materialized from RitualSubmitted
+export interface ChainRitualDocument {
+  _id?: string;
+  chainRitualId: string;
+  ipfsHashTopic: string; // keccak256 of the IPFS hash
+  bioregionIdTopic: string;
+  bioregionId?: string | undefined; // Resolved from the registered bioregions
+  author: string;
+  esepScore: number;
+  cedaScore: number;
+  narrativeScore: number;
+  isApproved: boolean;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+// Materialized from BioregionRegistered
+export interface ChainBioregionDocument {
+  _id?: string;
+  bioregionIdTopic: string;
+  bioregionId?: string | undefined;
+  name: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+// Materialized from PledgeCreated, PledgeFulfilled and PledgeVerified
+export interface ChainPledgeDocument {
+  _id?: string;
+  pledgeId: string;
+  pledger?: string | undefined;
+  bioregionIdTopic?: string | undefined;
+  bioregionId?: string | undefined;
+  pledgeType?: string | undefined;
+  description?: string | undefined;
+  commitmentAmount?: string | undefined; // Wei, as a decimal string
+  createdAt?: Date | undefined;
+  transactionHash?: string | undefined;
+  blockNumber?: number | undefined; // Of PledgeCreated
+  fulfillment?:
+    | {
+        proofHash: string;
+        fulfilledAt: Date;
+        transactionHash: string;
+        blockNumber: number;
+      }
+    | undefined;
+  verification?:
+    | {
+        verifier: string;
+        isVerified: boolean;
+        notes: string;
+        verifiedAt: Date;
+        transactionHash: string;
+        blockNumber: number;
+      }
+    | undefined;
+}
+
+export interface ChainStatistics {
+  rituals: { total: number; approved: number };
+  bioregions: number;
+  pledges: { total: number; fulfilled: number; verified: number };
+}
+
+export interface BioregionChainSync {
+  status: 'pending' | 'proposed' | 'synced' | 'failed'; // Proposed to the council that owns the contracts
+  ritualSubmissionTx?: string | undefined; // Last registration transactions
+  symbiosisPledgeTx?: string | undefined;
+  proposalId?: string | undefined; // Council proposal that registers the bioregion
+  error?: string | undefined;
+  syncedAt?: Date | undefined;
+}
+
+export interface BioregionClimate {
+  zone?: string | undefined; // Köppen classification, e.g. Csb
+  meanTemperatureC?: number | undefined;
+  annualPrecipitationMm?: number | undefined;
+}
+
 export interface BioregionDocument {
   _id?: string;
   bioregionId: string;
@@ -25,15 +205,196 @@ export interface BioregionDocument {
   registrationTimestamp: Date;
   ritualCount: number;
   isActive: boolean;
+  chainSync?: BioregionChainSync | undefined; // Registration on both contracts
+  boundary?: GeoBoundary | undefined;
+  ecosystems?: string[] | undefined; // Tags such as temperate-rainforest
+  climate?: BioregionClimate | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cultural Heritage Council elections, one per bioregion and term
+export interface CandidateDocument {
+  candidateId: string;
+  member: string; // Wallet address of the nominee
+  name: string;
+  statement: string;
+  nominatedAt: Date;
+}
+
+export type VotingMethod =
+  | 'plurality' // One candidate per ballot
+  | 'ranked_choice' // Single transferable vote
+  | 'approval' // Any number of candidates per ballot
+  | 'quadratic'; // Votes cost their square in credits
+
+// What a member voted for, in the form of the election's voting method
+export type BallotChoice =
+  | { method: 'plurality'; candidateId: string }
+  | { method: 'ranked_choice'; rankings: string[] } // Most preferred first
+  | { method: 'approval'; approvals: string[] }
+  | {
+      method: 'quadratic';
+      allocations: { candidateId: string; votes: number }[];
+    };
+
+export interface CandidateTally {
+  candidateId: string;
+  name: string;
+  votes: number; // Ranked choice: when the candidate was elected or excluded
+  elected: boolean;
+}
+
+// One count of a ranked-choice election
+export interface TallyRound {
+  round: number;
+  votes: { candidateId: string; votes: number }[]; // Continuing candidates
+  exhausted: number; // Votes of ballots without a continuing preference
+  elected?: string | undefined;
+  excluded?: string | undefined;
+  transferValue?: number | undefined; // Share of a ballot passed on
+}
+
+export interface ElectionResult {
+  method: VotingMethod;
+  ballots: number; // Ballots cast; the quorum counts these
+  totalVotes: number;
+  quorum: number;
+  quorumMet: boolean;
+  quota?: number | undefined; // Ranked choice: votes that elect a candidate
+  tallies: CandidateTally[]; // Elected first, then most votes first
+  rounds?: TallyRound[] | undefined; // Ranked choice counts, in order
+  elected: string[]; // Candidate IDs; empty when the quorum is not met
+  talliedAt: Date;
+}
+
+export interface ElectionDocument {
+  _id?: string;
+  electionId: string;
+  bioregionId: string;
+  title: string;
+  seats: number;
+  votingMethod: VotingMethod;
+  creditBudget?: number | undefined; // Quadratic voting credits per member
+  quorum: number; // Ballots needed for the election to be valid
+  nominationStartsAt: Date;
+  nominationEndsAt: Date; // Voting opens when nominations close
+  votingEndsAt: Date;
+  candidates: CandidateDocument[];
+  result?: ElectionResult | undefined; // Set when the result is certified
+  certifiedBy?: string | undefined;
+  certifiedAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One per member and election; the API publishes choices, never voters
+export interface BallotDocument {
+  _id?: string;
+  electionId: string;
+  voter: string; // Wallet address of the member
+  choice: BallotChoice;
+  castAt: Date;
+}
+
+// Issued for a Sign-In with Ethereum message; consumed by signing in
+export interface AuthNonceDocument {
+  _id?: string;
+  nonce: string;
+  expiresAt: Date; // Removed by a TTL index once past
+  createdAt: Date;
+}
+
+// Nonce of an author's relay authorization, reserved by the submission
+// that carries it so it cannot be submitted twice
+export interface RelayNonceDocument {
+  _id?: string;
+  author: string; // Lowercased wallet address
+  nonce: string;
+  reservedAt: Date;
+}
+
+export type TransactionStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'failed' // Reverted, or could not be broadcast
+  | 'canceled'
+  | 'dropped'; // Its nonce was used by a transaction sent elsewhere
+
+// One broadcast of a transaction; replacements reuse its nonce
+export interface TransactionBroadcast {
+  hash: string;
+  kind: 'original' | 'speed-up' | 'cancel';
+  maxFeePerGas: string; // Wei, as a decimal string
+  maxPriorityFeePerGas: string;
+  sentAt: Date;
+}
+
+// Sent from the backend wallet, kept so that pending transactions are
+// followed up across restarts
+export interface TransactionDocument {
+  _id?: string;
+  txId: string;
+  label: string; // Contract method called
+  key?: string | undefined; // Retries of the same action get the same transaction
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: string; // Wei, as a decimal string
+  gasLimit: string;
+  status: TransactionStatus;
+  canceling: boolean; // Replaced by a transfer of nothing to the wallet itself
+  broadcasts: TransactionBroadcast[];
+  minedHash?: string | undefined;
+  blockNumber?: number | undefined;
+  error?: string | undefined;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One per wallet and granted role
+export interface RoleAssignmentDocument {
+  _id?: string;
+  address: string; // Lowercased wallet address
+  role: Role;
+  grantedBy: string;
+  grantedAt: Date;
+}
+
+// Every grant and revocation, kept after the assignment is gone
+export interface RoleAuditDocument {
+  _id?: string;
+  action: 'grant' | 'revoke';
+  address: string;
+  role: Role;
+  actor: string; // Wallet of the admin, or admin-api-key
+  reason?: string | undefined;
+  at: Date;
+}
+
 export class DatabaseService {
   private client: MongoClient | null = null;
   private db: Db | null = null;
   private ritualsCollection: Collection<RitualDocument> | null = null;
   private bioregionsCollection: Collection<BioregionDocument> | null = null;
+  private reviewsCollection: Collection<ReviewDocument> | null = null;
+  private jobsCollection: Collection<JobDocument> | null = null;
+  private discrepanciesCollection: Collection<DiscrepancyDocument> | null =
+    null;
+  private syncCursorsCollection: Collection<SyncCursorDocument> | null = null;
+  private chainRitualsCollection: Collection<ChainRitualDocument> | null = null;
+  private chainBioregionsCollection: Collection<ChainBioregionDocument> | null =
+    null;
+  private chainPledgesCollection: Collection<ChainPledgeDocument> | null = null;
+  private electionsCollection: Collection<ElectionDocument> | null = null;
+  private ballotsCollection: Collection<BallotDocument> | null = null;
+  private authNoncesCollection: Collection<AuthNonceDocument> | null = null;
+  private roleAssignmentsCollection: Collection<RoleAssignmentDocument> | null =
+    null;
+  private roleAuditCollection: Collection<RoleAuditDocument> | null = null;
+  private relayNoncesCollection: Collection<RelayNonceDocument> | null = null;
+  private transactionsCollection: Collection<TransactionDocument> | null = null;
 
   async connect(): Promise<void> {
     try {
@@ -49,6 +410,32 @@ export class DatabaseService {
       this.ritualsCollection = this.db.collection<RitualDocument>('rituals');
       this.bioregionsCollection =
         this.db.collection<BioregionDocument>('bioregions');
+      this.reviewsCollection = this.db.collection<ReviewDocument>('reviews');
+      this.jobsCollection = this.db.collection<JobDocument>('jobs');
+      this.discrepanciesCollection =
+        this.db.collection<DiscrepancyDocument>('discrepancies');
+      this.syncCursorsCollection =
+        this.db.collection<SyncCursorDocument>('sync_cursors');
+      this.chainRitualsCollection =
+        this.db.collection<ChainRitualDocument>('chain_rituals');
+      this.chainBioregionsCollection =
+        this.db.collection<ChainBioregionDocument>('chain_bioregions');
+      this.chainPledgesCollection =
+        this.db.collection<ChainPledgeDocument>('chain_pledges');
+      this.electionsCollection =
+        this.db.collection<ElectionDocument>('elections');
+      this.ballotsCollection =
+        this.db.collection<BallotDocument>('election_ballots');
+      this.authNoncesCollection =
+        this.db.collection<AuthNonceDocument>('auth_nonces');
+      this.roleAssignmentsCollection =
+        this.db.collection<RoleAssignmentDocument>('role_assignments');
+      this.roleAuditCollection =
+        this.db.collection<RoleAuditDocument>('role_audit');
+      this.relayNoncesCollection =
+        this.db.collection<RelayNonceDocument>('relay_nonces');
+      this.transactionsCollection =
+        this.db.collection<TransactionDocument>('transactions');
 
       // Create indexes
       await this.createIndexes();
@@ -61,7 +448,24 @@ export class DatabaseService {
   }
 
   private async createIndexes(): Promise<void> {
-    if (!this.ritualsCollection || !this.bioregionsCollection) {
+    if (
+      !this.ritualsCollection ||
+      !this.bioregionsCollection ||
+      !this.reviewsCollection ||
+      !this.jobsCollection ||
+      !this.discrepanciesCollection ||
+      !this.syncCursorsCollection ||
+      !this.chainRitualsCollection ||
+      !this.chainBioregionsCollection ||
+      !this.chainPledgesCollection ||
+      !this.electionsCollection ||
+      !this.ballotsCollection ||
+      !this.authNoncesCollection ||
+      !this.roleAssignmentsCollection ||
+      !this.roleAuditCollection ||
+      !this.relayNoncesCollection ||
+      !this.transactionsCollection
+    ) {
       throw new Error('Collections not initialized');
     }
 
@@ -70,6 +474,10 @@ export class DatabaseService {
     await this.ritualsCollection.createIndex({ bioregionId: 1 });
     await this.ritualsCollection.createIndex({ createdAt: -1 });
     await this.ritualsCollection.createIndex({ 'validation.isApproved': 1 });
+    await this.ritualsCollection.createIndex({ status: 1 });
+    await this.ritualsCollection.createIndex({ ipfsHashTopic: 1 });
+    await this.ritualsCollection.createIndex({ location: '2dsphere' });
+    await this.ritualsCollection.createIndex({ author: 1 });
 
     // Bioregions collection indexes
     await this.bioregionsCollection.createIndex(
@@ -77,6 +485,92 @@ export class DatabaseService {
       { unique: true },
     );
     await this.bioregionsCollection.createIndex({ isActive: 1 });
+    await this.bioregionsCollection.createIndex({ boundary: '2dsphere' });
+    await this.bioregionsCollection.createIndex({ ecosystems: 1 });
+
+    // Reviews collection indexes
+    await this.reviewsCollection.createIndex({ reviewId: 1 }, { unique: true });
+    await this.reviewsCollection.createIndex({ ritualId: 1 });
+    await this.reviewsCollection.createIndex({ status: 1, createdAt: 1 });
+
+    // Jobs collection indexes
+    await this.jobsCollection.createIndex({ jobId: 1 }, { unique: true });
+    await this.jobsCollection.createIndex({ type: 1, status: 1, nextRunAt: 1 });
+
+    // Reconciliation indexes
+    await this.discrepanciesCollection.createIndex(
+      { key: 1 },
+      { unique: true },
+    );
+    await this.discrepanciesCollection.createIndex({ resolvedAt: 1, type: 1 });
+    await this.syncCursorsCollection.createIndex({ name: 1 }, { unique: true });
+
+    // Indexed chain event collections
+    await this.chainRitualsCollection.createIndex(
+      { chainRitualId: 1 },
+      { unique: true },
+    );
+    await this.chainRitualsCollection.createIndex({ ipfsHashTopic: 1 });
+    await this.chainRitualsCollection.createIndex({ bioregionId: 1 });
+    await this.chainRitualsCollection.createIndex({ author: 1 });
+    await this.chainRitualsCollection.createIndex({ blockNumber: 1 });
+    await this.chainBioregionsCollection.createIndex(
+      { bioregionIdTopic: 1 },
+      { unique: true },
+    );
+    await this.chainBioregionsCollection.createIndex({ blockNumber: 1 });
+    await this.chainPledgesCollection.createIndex(
+      { pledgeId: 1 },
+      { unique: true },
+    );
+    await this.chainPledgesCollection.createIndex({ bioregionId: 1 });
+    await this.chainPledgesCollection.createIndex({ pledger: 1 });
+    await this.chainPledgesCollection.createIndex({ blockNumber: 1 });
+
+    // Election collection indexes
+    await this.electionsCollection.createIndex(
+      { electionId: 1 },
+      { unique: true },
+    );
+    await this.electionsCollection.createIndex({
+      bioregionId: 1,
+      nominationStartsAt: -1,
+    });
+    await this.ballotsCollection.createIndex(
+      { electionId: 1, voter: 1 },
+      { unique: true },
+    );
+
+    // Auth nonce indexes
+    await this.authNoncesCollection.createIndex({ nonce: 1 }, { unique: true });
+    await this.authNoncesCollection.createIndex(
+      { expiresAt: 1 },
+      { expireAfterSeconds: 0 },
+    );
+
+    // Role indexes
+    await this.roleAssignmentsCollection.createIndex(
+      { address: 1, role: 1 },
+      { unique: true },
+    );
+    await this.roleAssignmentsCollection.createIndex({ role: 1 });
+    await this.roleAuditCollection.createIndex({ address: 1, at: -1 });
+    await this.roleAuditCollection.createIndex({ at: -1 });
+
+    // Relay nonce indexes
+    await this.relayNoncesCollection.createIndex(
+      { author: 1, nonce: 1 },
+      { unique: true },
+    );
+
+    // Transaction indexes
+    await this.transactionsCollection.createIndex(
+      { txId: 1 },
+      { unique: true },
+    );
+    await this.transactionsCollection.createIndex({ from: 1, status: 1 });
+    await this.transactionsCollection.createIndex({ key: 1, createdAt: -1 });
+    await this.transactionsCollection.createIndex({ createdAt: -1 });
   }
 
   async disconnect(): Promise<void> {
@@ -86,6 +580,20 @@ export class DatabaseService {
       this.db = null;
       this.ritualsCollection = null;
       this.bioregionsCollection = null;
+      this.reviewsCollection = null;
+      this.jobsCollection = null;
+      this.discrepanciesCollection = null;
+      this.syncCursorsCollection = null;
+      this.chainRitualsCollection = null;
+      this.chainBioregionsCollection = null;
+      this.chainPledgesCollection = null;
+      this.electionsCollection = null;
+      this.ballotsCollection = null;
+      this.authNoncesCollection = null;
+      this.roleAssignmentsCollection = null;
+      this.roleAuditCollection = null;
+      this.relayNoncesCollection = null;
+      this.transactionsCollection = null;
     }
   }
 
@@ -116,17 +624,61 @@ export class DatabaseService {
     return await this.ritualsCollection.findOne({ ritualId });
   }
 
+  /**
+   * Whether a wallet authored an approved ritual in a bioregion before the
+   * given time
+   */
+  async hasApprovedRitualBy(
+    author: string,
+    bioregionId: string,
+    before: Date,
+  ): Promise<boolean> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const count = await this.ritualsCollection.countDocuments(
+      { author, bioregionId, status: 'approved', createdAt: { $lt: before } },
+      { limit: 1 },
+    );
+    return count > 0;
+  }
+
   async getRitualsByBioregion(bioregionId: string): Promise<RitualDocument[]> {
     if (!this.ritualsCollection) {
       throw new Error('Database not connected');
     }
 
     return await this.ritualsCollection
-      .find({ bioregionId })
+      .find({ bioregionId, status: { $ne: 'processing' } })
       .sort({ createdAt: -1 })
       .toArray();
   }
 
+  /**
+   * Rituals located within the given distance of a point, nearest first.
+   */
+  async getRitualsNear(
+    point: GeoPoint,
+    radiusKm: number,
+    options: { bioregionId?: string; limit?: number } = {},
+  ): Promise<RitualDocument[]> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.ritualsCollection
+      .find({
+        location: {
+          $nearSphere: { $geometry: point, $maxDistance: radiusKm * 1000 },
+        },
+        status: { $ne: 'processing' },
+        ...(options.bioregionId && { bioregionId: options.bioregionId }),
+      })
+      .limit(options.limit ?? 100)
+      .toArray();
+  }
+
   async updateRitual(
     ritualId: string,
     updates: Partial<RitualDocument>,
@@ -148,6 +700,84 @@ export class DatabaseService {
     return result.modifiedCount > 0;
   }
 
+  /**
+   * Set a ritual whose anchoring failed back to pending, once its author
+   * signed a new authorization. False unless its anchoring had failed.
+   */
+  async reopenRitualAnchoring(ritualId: string): Promise<boolean> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.ritualsCollection.updateOne(
+      { ritualId, anchorStatus: 'failed' },
+      {
+        $set: { anchorStatus: 'pending', updatedAt: new Date() },
+        $unset: { anchorError: '' },
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  async getRitualsByIpfsHashTopics(
+    topics: string[],
+  ): Promise<RitualDocument[]> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.ritualsCollection
+      .find({ ipfsHashTopic: { $in: topics } })
+      .toArray();
+  }
+
+  // Published rituals not yet indexed by the topic of their IPFS hash
+  async getRitualsWithoutIpfsHashTopic(
+    limit: number,
+  ): Promise<RitualDocument[]> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.ritualsCollection
+      .find({
+        ipfsHash: { $type: 'string' },
+        ipfsHashTopic: { $exists: false },
+      })
+      .limit(limit)
+      .toArray();
+  }
+
+  // Rituals with a transaction that no event has been matched to yet
+  async getUnconfirmedRituals(
+    createdBefore: Date,
+    limit: number,
+  ): Promise<RitualDocument[]> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.ritualsCollection
+      .find({
+        transactionHash: { $type: 'string' },
+        chainRitualId: { $exists: false },
+        createdAt: { $lt: createdBefore },
+      })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  async deleteRitual(ritualId: string): Promise<boolean> {
+    if (!this.ritualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.ritualsCollection.deleteOne({ ritualId });
+    return result.deletedCount > 0;
+  }
+
   async getRitualStatistics(): Promise<{
     totalRituals: number;
     approvedRituals: number;
@@ -214,17 +844,52 @@ export class DatabaseService {
     return await this.bioregionsCollection.findOne({ bioregionId });
   }
 
-  async getAllBioregions(): Promise<BioregionDocument[]> {
+  async getAllBioregions(
+    options: { includeInactive?: boolean; ecosystem?: string } = {},
+  ): Promise<BioregionDocument[]> {
+    if (!this.bioregionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.bioregionsCollection
+      .find({
+        ...(!options.includeInactive && { isActive: true }),
+        ...(options.ecosystem && { ecosystems: options.ecosystem }),
+      })
+      .sort({ name: 1 })
+      .toArray();
+  }
+
+  // Active bioregions whose boundary contains the point
+  async getBioregionsContaining(point: GeoPoint): Promise<BioregionDocument[]> {
     if (!this.bioregionsCollection) {
       throw new Error('Database not connected');
     }
 
     return await this.bioregionsCollection
-      .find({ isActive: true })
+      .find({
+        isActive: true,
+        boundary: { $geoIntersects: { $geometry: point } },
+      })
       .sort({ name: 1 })
       .toArray();
   }
 
+  async isPointInBioregion(
+    bioregionId: string,
+    point: GeoPoint,
+  ): Promise<boolean> {
+    if (!this.bioregionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const count = await this.bioregionsCollection.countDocuments({
+      bioregionId,
+      boundary: { $geoIntersects: { $geometry: point } },
+    });
+    return count > 0;
+  }
+
   async updateBioregion(
     bioregionId: string,
     updates: Partial<BioregionDocument>,
@@ -262,6 +927,759 @@ export class DatabaseService {
     return result.modifiedCount > 0;
   }
 
+  // Review operations
+  async createReview(
+    reviewData: Omit<ReviewDocument, '_id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<string> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+    const review: ReviewDocument = {
+      ...reviewData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.reviewsCollection.insertOne(review);
+    return review.reviewId;
+  }
+
+  async getReviewById(reviewId: string): Promise<ReviewDocument | null> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.reviewsCollection.findOne({ reviewId });
+  }
+
+  // Oldest first, so the queue is worked in submission order
+  async getReviews(
+    filter: { status?: ReviewStatus; bioregionId?: string } = {},
+  ): Promise<ReviewDocument[]> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.reviewsCollection
+      .find(filter)
+      .sort({ createdAt: 1 })
+      .toArray();
+  }
+
+  /**
+   * Claim a pending review. Returns null if another reviewer holds it or it
+   * has been decided.
+   */
+  async claimReview(
+    reviewId: string,
+    reviewer: string,
+  ): Promise<ReviewDocument | null> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.reviewsCollection.findOneAndUpdate(
+      {
+        reviewId,
+        $or: [
+          { status: 'pending' },
+          { status: 'claimed', claimedBy: reviewer },
+        ],
+      },
+      {
+        $set: {
+          status: 'claimed',
+          claimedBy: reviewer,
+          claimedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: 'after' },
+    );
+  }
+
+  async releaseReview(reviewId: string, reviewer: string): Promise<boolean> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.reviewsCollection.updateOne(
+      { reviewId, status: 'claimed', claimedBy: reviewer },
+      {
+        $set: { status: 'pending', updatedAt: new Date() },
+        $unset: { claimedBy: '', claimedAt: '' },
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  async addReviewComment(
+    reviewId: string,
+    comment: ReviewComment,
+  ): Promise<boolean> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.reviewsCollection.updateOne(
+      { reviewId },
+      {
+        $push: { comments: comment },
+        $set: { updatedAt: new Date() },
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Record the decision on a review claimed by the reviewer. Returns null if
+   * the reviewer does not hold the claim.
+   */
+  async completeReview(
+    reviewId: string,
+    reviewer: string,
+    isApproved: boolean,
+    comment?: string,
+    decidedAt: Date = new Date(),
+  ): Promise<ReviewDocument | null> {
+    if (!this.reviewsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.reviewsCollection.findOneAndUpdate(
+      { reviewId, status: 'claimed', claimedBy: reviewer },
+      {
+        $set: {
+          status: isApproved ? 'approved' : 'rejected',
+          decidedBy: reviewer,
+          decisionComment: comment,
+          decidedAt,
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: 'after' },
+    );
+  }
+
+  // Job operations
+  async createJob(
+    jobData: Omit<JobDocument, '_id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<string> {
+    if (!this.jobsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+    const job: JobDocument = {
+      ...jobData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.jobsCollection.insertOne(job);
+    return job.jobId;
+  }
+
+  async getJobById(jobId: string): Promise<JobDocument | null> {
+    if (!this.jobsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.jobsCollection.findOne({ jobId });
+  }
+
+  /**
+   * Claim the next due job of a type, counting an attempt. Running jobs
+   * locked before staleBefore are claimed again, so jobs of a worker that
+   * stopped are not lost.
+   */
+  async claimNextJob(
+    type: string,
+    staleBefore: Date,
+  ): Promise<JobDocument | null> {
+    if (!this.jobsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+    return await this.jobsCollection.findOneAndUpdate(
+      {
+        type,
+        $or: [
+          { status: 'queued', nextRunAt: { $lte: now } },
+          { status: 'running', lockedAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: { status: 'running', lockedAt: now, updatedAt: now },
+        $inc: { attempts: 1, progress: 1 },
+      },
+      { sort: { nextRunAt: 1 }, returnDocument: 'after' },
+    );
+  }
+
+  async updateJob(
+    jobId: string,
+    updates: Partial<Omit<JobDocument, '_id' | 'jobId' | 'createdAt'>>,
+  ): Promise<boolean> {
+    if (!this.jobsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.jobsCollection.updateOne(
+      { jobId },
+      {
+        $set: {
+          ...updates,
+          updatedAt: new Date(),
+        },
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  // Reconciliation operations
+  async recordDiscrepancy(
+    discrepancy: Omit<
+      DiscrepancyDocument,
+      '_id' | 'detectedAt' | 'lastSeenAt' | 'resolvedAt'
+    >,
+  ): Promise<void> {
+    if (!this.discrepanciesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+    await this.discrepanciesCollection.updateOne(
+      { key: discrepancy.key },
+      {
+        $set: { ...discrepancy, lastSeenAt: now },
+        $setOnInsert: { detectedAt: now },
+        $unset: { resolvedAt: '' },
+      },
+      { upsert: true },
+    );
+  }
+
+  async resolveDiscrepancies(keys: string[]): Promise<number> {
+    if (!this.discrepanciesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.discrepanciesCollection.updateMany(
+      { key: { $in: keys }, resolvedAt: { $exists: false } },
+      { $set: { resolvedAt: new Date() } },
+    );
+
+    return result.modifiedCount;
+  }
+
+  // Most recently seen first
+  async getDiscrepancies(
+    filter: { type?: DiscrepancyType; resolved?: boolean } = {},
+  ): Promise<DiscrepancyDocument[]> {
+    if (!this.discrepanciesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.discrepanciesCollection
+      .find({
+        ...(filter.type && { type: filter.type }),
+        ...(filter.resolved !== undefined && {
+          resolvedAt: { $exists: filter.resolved },
+        }),
+      })
+      .sort({ lastSeenAt: -1 })
+      .toArray();
+  }
+
+  async getSyncCursor(name: string): Promise<SyncCursorDocument | null> {
+    if (!this.syncCursorsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.syncCursorsCollection.findOne({ name });
+  }
+
+  async setSyncCursor(
+    name: string,
+    block: number,
+    blockHash?: string,
+  ): Promise<void> {
+    if (!this.syncCursorsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.syncCursorsCollection.updateOne(
+      { name },
+      { $set: { block, blockHash, updatedAt: new Date() } },
+      { upsert: true },
+    );
+  }
+
+  // Indexed chain event operations
+  async upsertChainRitual(ritual: ChainRitualDocument): Promise<void> {
+    if (!this.chainRitualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.chainRitualsCollection.updateOne(
+      { chainRitualId: ritual.chainRitualId },
+      { $set: ritual },
+      { upsert: true },
+    );
+  }
+
+  async upsertChainBioregion(bioregion: ChainBioregionDocument): Promise<void> {
+    if (!this.chainBioregionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.chainBioregionsCollection.updateOne(
+      { bioregionIdTopic: bioregion.bioregionIdTopic },
+      { $set: bioregion },
+      { upsert: true },
+    );
+  }
+
+  // Pledges are built up by their events, so each event sets its own fields
+  async upsertChainPledge(
+    pledgeId: string,
+    fields: Partial<Omit<ChainPledgeDocument, '_id' | 'pledgeId'>>,
+  ): Promise<void> {
+    if (!this.chainPledgesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.chainPledgesCollection.updateOne(
+      { pledgeId },
+      { $set: fields },
+      { upsert: true },
+    );
+  }
+
+  /**
+   * Undo everything indexed from blocks after the given one, so a reorged
+   * range can be indexed again.
+   */
+  async rollbackChainIndex(afterBlock: number): Promise<void> {
+    if (
+      !this.chainRitualsCollection ||
+      !this.chainBioregionsCollection ||
+      !this.chainPledgesCollection
+    ) {
+      throw new Error('Database not connected');
+    }
+
+    const after = { $gt: afterBlock };
+    await this.chainRitualsCollection.deleteMany({ blockNumber: after });
+    await this.chainBioregionsCollection.deleteMany({ blockNumber: after });
+    // Pledges created before the block keep their creation fields
+    await this.chainPledgesCollection.deleteMany({ blockNumber: after });
+    await this.chainPledgesCollection.deleteMany({
+      blockNumber: { $exists: false },
+      'fulfillment.blockNumber': after,
+    });
+    await this.chainPledgesCollection.updateMany(
+      { 'fulfillment.blockNumber': after },
+      { $unset: { fulfillment: '' } },
+    );
+    await this.chainPledgesCollection.updateMany(
+      { 'verification.blockNumber': after },
+      { $unset: { verification: '' } },
+    );
+  }
+
+  async getChainRituals(
+    filter: { bioregionId?: string; author?: string } = {},
+  ): Promise<ChainRitualDocument[]> {
+    if (!this.chainRitualsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.chainRitualsCollection
+      .find(filter)
+      .sort({ blockNumber: -1 })
+      .toArray();
+  }
+
+  async getChainPledges(
+    filter: { bioregionId?: string; pledger?: string } = {},
+  ): Promise<ChainPledgeDocument[]> {
+    if (!this.chainPledgesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.chainPledgesCollection
+      .find(filter)
+      .sort({ blockNumber: -1 })
+      .toArray();
+  }
+
+  // Counted from the indexed events instead of looping over contract storage
+  async getChainStatistics(): Promise<ChainStatistics> {
+    if (
+      !this.chainRitualsCollection ||
+      !this.chainBioregionsCollection ||
+      !this.chainPledgesCollection
+    ) {
+      throw new Error('Database not connected');
+    }
+
+    const [
+      totalRituals,
+      approvedRituals,
+      bioregions,
+      totalPledges,
+      fulfilledPledges,
+      verifiedPledges,
+    ] = await Promise.all([
+      this.chainRitualsCollection.countDocuments(),
+      this.chainRitualsCollection.countDocuments({ isApproved: true }),
+      this.chainBioregionsCollection.countDocuments(),
+      this.chainPledgesCollection.countDocuments(),
+      this.chainPledgesCollection.countDocuments({
+        fulfillment: { $exists: true },
+      }),
+      this.chainPledgesCollection.countDocuments({
+        'verification.isVerified': true,
+      }),
+    ]);
+
+    return {
+      rituals: { total: totalRituals, approved: approvedRituals },
+      bioregions,
+      pledges: {
+        total: totalPledges,
+        fulfilled: fulfilledPledges,
+        verified: verifiedPledges,
+      },
+    };
+  }
+
+  // Election operations
+  async createElection(
+    electionData: Omit<ElectionDocument, '_id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<string> {
+    if (!this.electionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const now = new Date();
+    const election: ElectionDocument = {
+      ...electionData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result = await this.electionsCollection.insertOne(election);
+    return result.insertedId.toString();
+  }
+
+  async getElectionById(electionId: string): Promise<ElectionDocument | null> {
+    if (!this.electionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.electionsCollection.findOne({ electionId });
+  }
+
+  async getElections(
+    filter: { bioregionId?: string } = {},
+  ): Promise<ElectionDocument[]> {
+    if (!this.electionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.electionsCollection
+      .find(filter)
+      .sort({ nominationStartsAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Add a candidate to an election. Returns false if the member is already
+   * a candidate.
+   */
+  async addCandidate(
+    electionId: string,
+    candidate: CandidateDocument,
+  ): Promise<boolean> {
+    if (!this.electionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.electionsCollection.updateOne(
+      { electionId, 'candidates.member': { $ne: candidate.member } },
+      {
+        $push: { candidates: candidate },
+        $set: { updatedAt: new Date() },
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Record a member's ballot. Returns false if the member has already voted
+   * in the election.
+   */
+  async castBallot(ballot: Omit<BallotDocument, '_id'>): Promise<boolean> {
+    if (!this.ballotsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.ballotsCollection.updateOne(
+      { electionId: ballot.electionId, voter: ballot.voter },
+      { $setOnInsert: ballot },
+      { upsert: true },
+    );
+
+    return result.upsertedCount > 0;
+  }
+
+  // Choices of the ballots cast in an election, without their voters
+  async getBallotChoices(electionId: string): Promise<BallotChoice[]> {
+    if (!this.ballotsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const ballots = await this.ballotsCollection
+      .find({ electionId }, { projection: { choice: 1 } })
+      .toArray();
+    return ballots.map((ballot) => ballot.choice);
+  }
+
+  /**
+   * Store the certified result of an election. Returns null if the election
+   * does not exist or is already certified.
+   */
+  async certifyElection(
+    electionId: string,
+    result: ElectionResult,
+    certifiedBy: string,
+  ): Promise<ElectionDocument | null> {
+    if (!this.electionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.electionsCollection.findOneAndUpdate(
+      { electionId, certifiedAt: { $exists: false } },
+      {
+        $set: {
+          result,
+          certifiedBy,
+          certifiedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: 'after' },
+    );
+  }
+
+  // Auth nonce operations
+  async createAuthNonce(nonce: string, expiresAt: Date): Promise<void> {
+    if (!this.authNoncesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.authNoncesCollection.insertOne({
+      nonce,
+      expiresAt,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Use up a nonce. Returns false if it was never issued, has been used or
+   * has expired, so a signed message cannot be replayed.
+   */
+  async consumeAuthNonce(
+    nonce: string,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    if (!this.authNoncesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const consumed = await this.authNoncesCollection.findOneAndDelete({
+      nonce,
+      expiresAt: { $gt: now },
+    });
+    return consumed !== null;
+  }
+
+  /**
+   * Reserve the nonce of an author's relay authorization. Returns false if
+   * it has been reserved before, so one authorization logs one ritual.
+   */
+  async reserveRelayNonce(author: string, nonce: string): Promise<boolean> {
+    if (!this.relayNoncesCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.relayNoncesCollection.updateOne(
+      { author, nonce },
+      { $setOnInsert: { author, nonce, reservedAt: new Date() } },
+      { upsert: true },
+    );
+
+    return result.upsertedCount > 0;
+  }
+
+  // Transaction operations
+  async createTransaction(
+    transaction: Omit<TransactionDocument, '_id'>,
+  ): Promise<void> {
+    if (!this.transactionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.transactionsCollection.insertOne(transaction);
+  }
+
+  async getTransactionById(txId: string): Promise<TransactionDocument | null> {
+    if (!this.transactionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.transactionsCollection.findOne({ txId });
+  }
+
+  // Most recent first
+  async getTransactions(
+    filter: { status?: TransactionStatus; from?: string; key?: string } = {},
+    limit: number = 100,
+  ): Promise<TransactionDocument[]> {
+    if (!this.transactionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.transactionsCollection
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  async updateTransaction(
+    txId: string,
+    updates: Partial<Omit<TransactionDocument, '_id' | 'txId' | 'createdAt'>>,
+  ): Promise<boolean> {
+    if (!this.transactionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.transactionsCollection.updateOne(
+      { txId },
+      { $set: { ...updates, updatedAt: new Date() } },
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Append a broadcast to a transaction, keeping broadcasts recorded
+   * concurrently. Returns the transaction as stored, or null if not found.
+   */
+  async addTransactionBroadcast(
+    txId: string,
+    broadcast: TransactionBroadcast,
+    canceling: boolean,
+  ): Promise<TransactionDocument | null> {
+    if (!this.transactionsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.transactionsCollection.findOneAndUpdate(
+      { txId },
+      {
+        $push: { broadcasts: broadcast },
+        // Once canceling, later broadcasts keep canceling
+        $set: { ...(canceling ? { canceling } : {}), updatedAt: new Date() },
+      },
+      { returnDocument: 'after' },
+    );
+  }
+
+  // Role operations
+  async getRoleAssignments(
+    filter: { address?: string; role?: Role } = {},
+  ): Promise<RoleAssignmentDocument[]> {
+    if (!this.roleAssignmentsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.roleAssignmentsCollection
+      .find(filter)
+      .sort({ grantedAt: 1 })
+      .toArray();
+  }
+
+  /**
+   * Grant a role to a wallet. Returns false if the wallet already has it.
+   */
+  async grantRole(
+    assignment: Omit<RoleAssignmentDocument, '_id'>,
+  ): Promise<boolean> {
+    if (!this.roleAssignmentsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.roleAssignmentsCollection.updateOne(
+      { address: assignment.address, role: assignment.role },
+      { $setOnInsert: assignment },
+      { upsert: true },
+    );
+
+    return result.upsertedCount > 0;
+  }
+
+  /**
+   * Revoke a role from a wallet. Returns false if it was not granted.
+   */
+  async revokeRole(address: string, role: Role): Promise<boolean> {
+    if (!this.roleAssignmentsCollection) {
+      throw new Error('Database not connected');
+    }
+
+    const result = await this.roleAssignmentsCollection.deleteOne({
+      address,
+      role,
+    });
+    return result.deletedCount > 0;
+  }
+
+  async addRoleAuditEntry(
+    entry: Omit<RoleAuditDocument, '_id'>,
+  ): Promise<void> {
+    if (!this.roleAuditCollection) {
+      throw new Error('Database not connected');
+    }
+
+    await this.roleAuditCollection.insertOne(entry);
+  }
+
+  // Most recent first
+  async getRoleAudit(
+    filter: { address?: string } = {},
+    limit: number = 100,
+  ): Promise<RoleAuditDocument[]> {
+    if (!this.roleAuditCollection) {
+      throw new Error('Database not connected');
+    }
+
+    return await this.roleAuditCollection
+      .find(filter)
+      .sort({ at: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
   // Health check
   async healthCheck(): Promise<boolean> {
     try {
@@ -288,7 +1706,8 @@ export class DatabaseService {
     console.log('Backup requested for database:', this.db.databaseName);
   }
 
-  async cleanup(): Promise<void> {
+  // Returns the number of rituals removed
+  async cleanup(): Promise<number> {
     if (!this.ritualsCollection || !this.bioregionsCollection) {
       throw new Error('Database not connected');
     }
@@ -302,5 +1721,6 @@ export class DatabaseService {
     });
 
     console.log(`Cleaned up ${result.deletedCount} old rituals`);
+    return result.deletedCount;
   }
 }
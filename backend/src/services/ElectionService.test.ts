@@ -0,0 +1,59 @@
+import { DatabaseService, ElectionDocument } from './DatabaseService';
+import { ElectionService, electionPhase } from './ElectionService';
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+const candidate = (candidateId: string, nominatedOn: number) => ({
+  candidateId,
+  member: `0x${candidateId.padStart(40, '0')}`,
+  name: `Candidate ${candidateId}`,
+  statement: '',
+  nominatedAt: day(nominatedOn),
+});
+
+const election = (
+  overrides: Partial<ElectionDocument> = {},
+): ElectionDocument => ({
+  electionId: 'e1',
+  bioregionId: 'cascadia',
+  title: 'Cascadia council',
+  seats: 2,
+  votingMethod: 'plurality',
+  quorum: 5,
+  nominationStartsAt: day(1),
+  nominationEndsAt: day(8),
+  votingEndsAt: day(15),
+  candidates: [candidate('a', 1), candidate('b', 2), candidate('c', 3)],
+  createdAt: day(1),
+  updatedAt: day(1),
+  ...overrides,
+});
+
+describe('electionPhase', () => {
+  it('follows the nomination and voting periods', () => {
+    expect(electionPhase(election(), new Date('2025-12-31'))).toBe('scheduled');
+    expect(electionPhase(election(), day(1))).toBe('nomination');
+    expect(electionPhase(election(), day(8))).toBe('voting');
+    expect(electionPhase(election(), day(15))).toBe('closed');
+    expect(electionPhase(election({ certifiedAt: day(16) }), day(16))).toBe(
+      'certified',
+    );
+  });
+});
+
+describe('ElectionService.isElector', () => {
+  it('admits authors of rituals approved in the bioregion before nominations opened', async () => {
+    const hasApprovedRitualBy = jest.fn().mockResolvedValue(true);
+    const service = new ElectionService(
+      { hasApprovedRitualBy } as unknown as DatabaseService,
+      ElectionService.optionsFromEnv({}),
+    );
+
+    expect(await service.isElector(election(), '0xABCDEF')).toBe(true);
+    expect(hasApprovedRitualBy).toHaveBeenCalledWith(
+      '0xabcdef',
+      'cascadia',
+      day(1),
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { randomUUID } from 'crypto';
+import { tallyElection } from '../elections/votingMethods';
+import {
+  BallotChoice,
+  CandidateDocument,
+  DatabaseService,
+  ElectionDocument,
+  ElectionResult,
+  VotingMethod,
+} from './DatabaseService';
+
+export interface ElectionOptions {
+  nominationPeriodDays: number;
+  votingPeriodDays: number;
+  minimumQuorum: number; // Ballots needed for a valid election
+  creditBudget: number; // Default quadratic voting credits per member
+}
+
+export type ElectionPhase =
+  | 'scheduled' // Nominations have not opened
+  | 'nomination'
+  | 'voting'
+  | 'closed' // Voting has ended; the result is not certified yet
+  | 'certified';
+
+export interface NewElection {
+  bioregionId: string;
+  title: string;
+  seats: number;
+  votingMethod: VotingMethod;
+  creditBudget?: number | undefined; // Quadratic voting only
+  nominationStartsAt?: Date | undefined; // Defaults to now
+}
+
+export interface Nomination {
+  member: string;
+  name: string;
+  statement: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function electionPhase(
+  election: ElectionDocument,
+  now: Date = new Date(),
+): ElectionPhase {
+  if (election.certifiedAt) return 'certified';
+  if (now < election.nominationStartsAt) return 'scheduled';
+  if (now < election.nominationEndsAt) return 'nomination';
+  if (now < election.votingEndsAt) return 'voting';
+  return 'closed';
+}
+
+/**
+ * Cultural Heritage Council elections. Each election belongs to a bioregion
+ * and runs a nomination period followed by a voting period in which every
+ * member casts one ballot, in the form of the election's voting method.
+ * Members are the authors of the rituals approved in the bioregion before
+ * nominations opened, so wallets made for an election cannot take part.
+ */
+export class ElectionService {
+  constructor(
+    private db: DatabaseService,
+    private options: ElectionOptions = ElectionService.optionsFromEnv(),
+  ) {}
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): ElectionOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      nominationPeriodDays: integer('NOMINATION_PERIOD_DAYS', 7, 1),
+      votingPeriodDays: integer('VOTING_PERIOD_DAYS', 7, 1),
+      minimumQuorum: integer('MINIMUM_QUORUM', 100, 1),
+      creditBudget: integer('QUADRATIC_CREDIT_BUDGET', 100, 1),
+    };
+  }
+
+  async create(data: NewElection): Promise<ElectionDocument> {
+    const nominationStartsAt = data.nominationStartsAt ?? new Date();
+    const nominationEndsAt = new Date(
+      nominationStartsAt.getTime() + this.options.nominationPeriodDays * DAY_MS,
+    );
+    const election: Omit<ElectionDocument, '_id' | 'createdAt' | 'updatedAt'> =
+      {
+        electionId: randomUUID(),
+        bioregionId: data.bioregionId,
+        title: data.title,
+        seats: data.seats,
+        votingMethod: data.votingMethod,
+        ...(data.votingMethod === 'quadratic' && {
+          creditBudget: data.creditBudget ?? this.options.creditBudget,
+        }),
+        quorum: this.options.minimumQuorum,
+        nominationStartsAt,
+        nominationEndsAt,
+        votingEndsAt: new Date(
+          nominationEndsAt.getTime() + this.options.votingPeriodDays * DAY_MS,
+        ),
+        candidates: [],
+      };
+
+    await this.db.createElection(election);
+    const created = await this.db.getElectionById(election.electionId);
+    if (!created) {
+      throw new Error(`Election not found: ${election.electionId}`);
+    }
+    return created;
+  }
+
+  /**
+   * Whether a wallet is a member of the electorate of an election
+   */
+  async isElector(
+    election: ElectionDocument,
+    address: string,
+  ): Promise<boolean> {
+    return await this.db.hasApprovedRitualBy(
+      address.toLowerCase(),
+      election.bioregionId,
+      election.nominationStartsAt,
+    );
+  }
+
+  /**
+   * Register a candidate. Returns null if the member is already a candidate.
+   */
+  async nominate(
+    electionId: string,
+    nomination: Nomination,
+  ): Promise<CandidateDocument | null> {
+    const candidate: CandidateDocument = {
+      candidateId: randomUUID(),
+      ...nomination,
+      nominatedAt: new Date(),
+    };
+
+    return (await this.db.addCandidate(electionId, candidate))
+      ? candidate
+      : null;
+  }
+
+  /**
+   * Cast a member's ballot, checked with validateChoice beforehand. Returns
+   * false if the member has already voted.
+   */
+  async vote(
+    electionId: string,
+    voter: string,
+    choice: BallotChoice,
+  ): Promise<boolean> {
+    return await this.db.castBallot({
+      electionId,
+      voter,
+      choice,
+      castAt: new Date(),
+    });
+  }
+
+  async tally(election: ElectionDocument): Promise<ElectionResult> {
+    return tallyElection(
+      election,
+      await this.db.getBallotChoices(election.electionId),
+    );
+  }
+
+  /**
+   * Tally the ballots and store the result as final. Returns null if the
+   * election is already certified.
+   */
+  async certify(
+    election: ElectionDocument,
+    certifiedBy: string,
+  ): Promise<ElectionDocument | null> {
+    return await this.db.certifyElection(
+      election.electionId,
+      await this.tally(election),
+      certifiedBy,
+    );
+  }
+}
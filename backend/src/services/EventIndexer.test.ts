@@ -0,0 +1,147 @@
+import { ethers } from 'ethers';
+import { ContractEvent } from './BlockchainService';
+import { toProjection } from './EventIndexer';
+
+const cascadia = ethers.id('cascadia');
+const bioregionIds = new Map([[cascadia, 'cascadia']]);
+
+const event = (
+  name: ContractEvent['name'],
+  args: ContractEvent['args'],
+): ContractEvent => ({
+  name,
+  args,
+  transactionHash: '0xabc',
+  blockNumber: 100,
+  blockHash: '0xblock',
+  logIndex: 0,
+});
+
+describe('toProjection', () => {
+  it('materializes a submitted ritual with its resolved bioregion', () => {
+    const projection = toProjection(
+      event('RitualSubmitted', {
+        ritualId: '7',
+        ipfsHash: ethers.id('QmRitual'),
+        bioregionId: cascadia,
+        author: '0x0000000000000000000000000000000000000001',
+        esepScore: '120',
+        cedaScore: '3',
+        narrativeScore: '850',
+        isApproved: true,
+      }),
+      bioregionIds,
+    );
+
+    expect(projection).toEqual({
+      kind: 'ritual',
+      ritual: {
+        chainRitualId: '7',
+        ipfsHashTopic: ethers.id('QmRitual'),
+        bioregionIdTopic: cascadia,
+        bioregionId: 'cascadia',
+        author: '0x0000000000000000000000000000000000000001',
+        esepScore: 0.12,
+        cedaScore: 3,
+        narrativeScore: 0.85,
+        isApproved: true,
+        transactionHash: '0xabc',
+        blockNumber: 100,
+      },
+    });
+  });
+
+  it('keeps the topic of a bioregion that is not registered', () => {
+    const unknown = ethers.id('unknown');
+    const projection = toProjection(
+      event('BioregionRegistered', { bioregionId: unknown, name: 'Unknown' }),
+      bioregionIds,
+    );
+
+    expect(projection).toEqual({
+      kind: 'bioregion',
+      bioregion: {
+        bioregionIdTopic: unknown,
+        bioregionId: undefined,
+        name: 'Unknown',
+        transactionHash: '0xabc',
+        blockNumber: 100,
+      },
+    });
+  });
+
+  it('sets the creation fields of a pledge', () => {
+    const projection = toProjection(
+      event('PledgeCreated', {
+        pledgeId: '3',
+        pledger: '0x0000000000000000000000000000000000000002',
+        bioregionId: cascadia,
+        pledgeType: 'reforestation',
+        description: 'Plant 100 trees',
+        commitmentAmount: '1000000000000000000',
+        timestamp: '1767225600',
+      }),
+      bioregionIds,
+    );
+
+    expect(projection).toEqual({
+      kind: 'pledge',
+      pledgeId: '3',
+      fields: expect.objectContaining({
+        bioregionId: 'cascadia',
+        commitmentAmount: '1000000000000000000',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        blockNumber: 100,
+      }),
+    });
+  });
+
+  it('sets only the fulfillment or verification of a pledge', () => {
+    const fulfilled = toProjection(
+      event('PledgeFulfilled', {
+        pledgeId: '3',
+        pledger: '0x0000000000000000000000000000000000000002',
+        proofHash: 'QmProof',
+        fulfillmentTimestamp: '1767225600',
+      }),
+      bioregionIds,
+    );
+    const verified = toProjection(
+      event('PledgeVerified', {
+        pledgeId: '3',
+        verifier: '0x0000000000000000000000000000000000000003',
+        isVerified: false,
+        verificationNotes: 'No proof of planting',
+        timestamp: '1767225600',
+      }),
+      bioregionIds,
+    );
+
+    expect(fulfilled).toEqual({
+      kind: 'pledge',
+      pledgeId: '3',
+      fields: {
+        fulfillment: {
+          proofHash: 'QmProof',
+          fulfilledAt: new Date('2026-01-01T00:00:00Z'),
+          transactionHash: '0xabc',
+          blockNumber: 100,
+        },
+      },
+    });
+    expect(verified).toEqual({
+      kind: 'pledge',
+      pledgeId: '3',
+      fields: {
+        verification: {
+          verifier: '0x0000000000000000000000000000000000000003',
+          isVerified: false,
+          notes: 'No proof of planting',
+          verifiedAt: new Date('2026-01-01T00:00:00Z'),
+          transactionHash: '0xabc',
+          blockNumber: 100,
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { ethers } from 'ethers';
+import { BlockchainService, ContractEvent } from './BlockchainService';
+import {
+  ChainBioregionDocument,
+  ChainPledgeDocument,
+  ChainRitualDocument,
+  DatabaseService,
+} from './DatabaseService';
+
+export interface IndexerOptions {
+  enabled: boolean;
+  startBlock: number; // Earliest deployment block of the contracts
+  blockRange: number; // Blocks per event query
+  confirmations: number; // Blocks behind the head that are indexed
+  rollbackBlocks: number; // Blocks indexed again when a reorg is detected
+  intervalMs: number;
+}
+
+// Change to the indexed collections for one event
+export type Projection =
+  | { kind: 'ritual'; ritual: ChainRitualDocument }
+  | { kind: 'bioregion'; bioregion: ChainBioregionDocument }
+  | {
+      kind: 'pledge';
+      pledgeId: string;
+      fields: Partial<Omit<ChainPledgeDocument, '_id' | 'pledgeId'>>;
+    };
+
+export interface IndexerReport {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  rolledBackTo: number | null; // Set when a reorg was detected
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface IndexerStatus {
+  enabled: boolean;
+  running: boolean;
+  cursor: number | null; // Last block indexed
+  lastReport: IndexerReport | null;
+  lastError: string | null;
+}
+
+const CURSOR_NAME = 'event-indexer';
+
+/**
+ * Translate a contract event into the change it makes to the indexed
+ * collections. Indexed bioregion IDs are logged as topics and resolved with
+ * the given map from topic to ID.
+ */
+export function toProjection(
+  event: ContractEvent,
+  bioregionIds: Map<string, string>,
+): Projection {
+  const { args } = event;
+  const text = (name: string) => String(args[name] ?? '');
+  const integer = (name: string) => Number(args[name] ?? 0);
+  const date = (name: string) => new Date(integer(name) * 1000);
+  const logged = {
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+  };
+
+  switch (event.name) {
+    case 'RitualSubmitted':
+      return {
+        kind: 'ritual',
+        ritual: {
+          chainRitualId: text('ritualId'),
+          ipfsHashTopic: text('ipfsHash'),
+          bioregionIdTopic: text('bioregionId'),
+          bioregionId: bioregionIds.get(text('bioregionId')),
+          author: text('author'),
+          esepScore: integer('esepScore') / 1000, // Convert from contract format
+          cedaScore: integer('cedaScore'),
+          narrativeScore: integer('narrativeScore') / 1000,
+          isApproved: args['isApproved'] === true,
+          ...logged,
+        },
+      };
+    case 'BioregionRegistered':
+      return {
+        kind: 'bioregion',
+        bioregion: {
+          bioregionIdTopic: text('bioregionId'),
+          bioregionId: bioregionIds.get(text('bioregionId')),
+          name: text('name'),
+          ...logged,
+        },
+      };
+    case 'PledgeCreated':
+      return {
+        kind: 'pledge',
+        pledgeId: text('pledgeId'),
+        fields: {
+          pledger: text('pledger'),
+          bioregionIdTopic: text('bioregionId'),
+          bioregionId: bioregionIds.get(text('bioregionId')),
+          pledgeType: text('pledgeType'),
+          description: text('description'),
+          commitmentAmount: text('commitmentAmount'),
+          createdAt: date('timestamp'),
+          ...logged,
+        },
+      };
+    case 'PledgeFulfilled':
+      return {
+        kind: 'pledge',
+        pledgeId: text('pledgeId'),
+        fields: {
+          fulfillment: {
+            proofHash: text('proofHash'),
+            fulfilledAt: date('fulfillmentTimestamp'),
+            ...logged,
+          },
+        },
+      };
+    case 'PledgeVerified':
+      return {
+        kind: 'pledge',
+        pledgeId: text('pledgeId'),
+        fields: {
+          verification: {
+            verifier: text('verifier'),
+            isVerified: args['isVerified'] === true,
+            notes: text('verificationNotes'),
+            verifiedAt: date('timestamp'),
+            ...logged,
+          },
+        },
+      };
+  }
+}
+
+/**
+ * Background worker that indexes the events of GRC_RitualSubmission and
+ * SymbiosisPledge into query-friendly collections. Only blocks the given
+ * number of confirmations deep are indexed; if the last indexed block is
+ * reorged out anyway, the most recent blocks are rolled back and indexed
+ * again.
+ */
+export class EventIndexer {
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<IndexerReport> | null = null;
+  private lastReport: IndexerReport | null = null;
+  private lastError: string | null = null;
+  private bioregionIds = new Map<string, string>();
+
+  constructor(
+    private db: DatabaseService,
+    private blockchain: BlockchainService,
+    private options: IndexerOptions,
+  ) {}
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): IndexerOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      enabled: env['INDEXER_ENABLED'] !== 'false',
+      startBlock: integer('INDEXER_START_BLOCK', 0, 0),
+      blockRange: integer('INDEXER_BLOCK_RANGE', 2000, 1),
+      confirmations: integer('INDEXER_CONFIRMATIONS', 12, 0),
+      rollbackBlocks: integer('INDEXER_ROLLBACK_BLOCKS', 100, 1),
+      intervalMs: integer('INDEXER_INTERVAL_MS', 15 * 1000, 1000),
+    };
+  }
+
+  start(): void {
+    if (!this.options.enabled || this.timer) return;
+    this.schedule(0);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.active?.catch(() => undefined);
+  }
+
+  async status(): Promise<IndexerStatus> {
+    return {
+      enabled: this.options.enabled,
+      running: this.active !== null,
+      cursor: (await this.db.getSyncCursor(CURSOR_NAME))?.block ?? null,
+      lastReport: this.lastReport,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Index the confirmed blocks after the cursor.
+   */
+  async run(): Promise<IndexerReport> {
+    if (this.active) {
+      throw new Error('Indexing already running');
+    }
+
+    this.active = this.index();
+    try {
+      this.lastReport = await this.active;
+      this.lastError = null;
+      return this.lastReport;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.active = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        console.error('Event indexing failed:', error);
+      }
+      if (this.timer) {
+        this.schedule(this.options.intervalMs);
+      }
+    }, delayMs);
+  }
+
+  private async index(): Promise<IndexerReport> {
+    const startedAt = new Date().toISOString();
+    let cursor = await this.db.getSyncCursor(CURSOR_NAME);
+    let rolledBackTo: number | null = null;
+
+    if (
+      cursor?.blockHash &&
+      (await this.blockchain.getBlockHash(cursor.block)) !== cursor.blockHash
+    ) {
+      rolledBackTo = Math.max(
+        cursor.block - this.options.rollbackBlocks,
+        this.options.startBlock - 1,
+      );
+      console.warn(
+        `Block ${cursor.block} was reorged; indexing again from block ${rolledBackTo + 1}`,
+      );
+      await this.db.rollbackChainIndex(rolledBackTo);
+      await this.setCursor(rolledBackTo);
+      cursor = await this.db.getSyncCursor(CURSOR_NAME);
+    }
+
+    const fromBlock = cursor ? cursor.block + 1 : this.options.startBlock;
+    const toBlock =
+      (await this.blockchain.getBlockNumber()) - this.options.confirmations;
+    const report: IndexerReport = {
+      fromBlock,
+      toBlock,
+      events: 0,
+      rolledBackTo,
+      startedAt,
+      completedAt: startedAt,
+    };
+
+    for (
+      let batchFrom = fromBlock;
+      batchFrom <= toBlock;
+      batchFrom += this.options.blockRange
+    ) {
+      const batchTo = Math.min(
+        batchFrom + this.options.blockRange - 1,
+        toBlock,
+      );
+      const events = await this.blockchain.getContractEvents(
+        batchFrom,
+        batchTo,
+      );
+      await this.resolveBioregionIds(events);
+
+      for (const event of events) {
+        await this.apply(toProjection(event, this.bioregionIds));
+      }
+      await this.setCursor(batchTo);
+      report.events += events.length;
+    }
+
+    report.completedAt = new Date().toISOString();
+    return report;
+  }
+
+  private async apply(projection: Projection): Promise<void> {
+    switch (projection.kind) {
+      case 'ritual':
+        return await this.db.upsertChainRitual(projection.ritual);
+      case 'bioregion':
+        return await this.db.upsertChainBioregion(projection.bioregion);
+      case 'pledge':
+        return await this.db.upsertChainPledge(
+          projection.pledgeId,
+          projection.fields,
+        );
+    }
+  }
+
+  private async setCursor(block: number): Promise<void> {
+    const blockHash =
+      block >= 0 ? await this.blockchain.getBlockHash(block) : null;
+    await this.db.setSyncCursor(CURSOR_NAME, block, blockHash ?? undefined);
+  }
+
+  // Refresh the registered bioregions when an event names an unknown one
+  private async resolveBioregionIds(events: ContractEvent[]): Promise<void> {
+    const unknown = events.some((event) => {
+      const topic = event.args['bioregionId'];
+      return typeof topic === 'string' && !this.bioregionIds.has(topic);
+    });
+    if (!unknown) return;
+
+    for (const bioregionId of await this.blockchain.getRegisteredBioregions()) {
+      this.bioregionIds.set(ethers.id(bioregionId), bioregionId);
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import { create } from 'ipfs-http-client';
+import { AuthorSignature } from '../auth/provenance';
+import { GeoPoint } from '../geo/geojson';
 
 export interface IPFSMetadata {
   name: string;
   bioregionId: string;
+  location?: GeoPoint | undefined;
   description: string;
   culturalContext: string;
+  culturalTradition?: string | undefined;
   content: string;
-  author: string;
+  author: string; // Wallet address; a name on rituals stored before wallet sign-in
   culturalReferences: string[];
   permissions: {
     culturalConsultation: boolean;
@@ -17,15 +21,30 @@ export interface IPFSMetadata {
     esepScore: number;
     cedaScore: number;
     narrativeScore: number;
+    policyScore?: number | undefined;
     isApproved: boolean;
+    policyVersion?: string | undefined; // Absent on rituals stored before validation policies
+    language?: string | undefined; // Lexicon code; absent on rituals stored before multilingual lexicons
     feedback: string[];
     culturalReferences: string[];
     validationTimestamp: string;
   };
+  review?: ReviewRecord | undefined; // Absent on rituals decided by the filters alone
+  authorSignature?: AuthorSignature | undefined; // Absent on rituals stored before signed submissions
   submittedAt: string;
   version: string;
 }
 
+// Expert review that decided a ritual the filters could not
+export interface ReviewRecord {
+  reviewId: string;
+  reviewer: string;
+  isApproved: boolean;
+  comment?: string | undefined;
+  reasons: string[]; // Why the ritual was sent to review
+  decidedAt: string;
+}
+
 export interface IPFSResult {
   hash: string;
   size: number;
@@ -178,6 +197,27 @@ export class IPFSService {
     }
   }
 
+  /**
+   * Unpin content so it can be garbage collected
+   */
+  async unpinContent(hash: string): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('IPFS client not connected');
+    }
+
+    try {
+      await this.ipfs.pin.rm(hash);
+      console.log('Content unpinned on IPFS:', hash);
+    } catch (error) {
+      console.error('Failed to unpin content on IPFS:', error);
+      throw new Error(
+        `IPFS unpinning failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
   /**
    * Check if content exists on IPFS
    */
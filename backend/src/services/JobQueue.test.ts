@@ -0,0 +1,216 @@
+import { JobDocument } from './DatabaseService';
+import { JobQueue, JobStore } from './JobQueue';
+
+// Store with the claim semantics of the DatabaseService, kept in memory
+function memoryStore(): JobStore & { jobs: Map<string, JobDocument> } {
+  const jobs = new Map<string, JobDocument>();
+
+  return {
+    jobs,
+    async createJob(job) {
+      const now = new Date();
+      jobs.set(job.jobId, { ...job, createdAt: now, updatedAt: now });
+      return job.jobId;
+    },
+    async getJobById(jobId) {
+      return jobs.get(jobId) ?? null;
+    },
+    async claimNextJob(type, staleBefore) {
+      const now = new Date();
+      const due = [...jobs.values()].find(
+        (job) =>
+          job.type === type &&
+          ((job.status === 'queued' && job.nextRunAt <= now) ||
+            (job.status === 'running' &&
+              job.lockedAt !== undefined &&
+              job.lockedAt < staleBefore)),
+      );
+      if (!due) return null;
+
+      const claimed: JobDocument = {
+        ...due,
+        status: 'running',
+        lockedAt: now,
+        attempts: due.attempts + 1,
+        progress: (due.progress ?? 0) + 1,
+      };
+      jobs.set(due.jobId, claimed);
+      return claimed;
+    },
+    async updateJob(jobId, updates) {
+      const job = jobs.get(jobId);
+      if (!job) return false;
+      jobs.set(jobId, { ...job, ...updates, updatedAt: new Date() });
+      return true;
+    },
+  };
+}
+
+describe('JobQueue', () => {
+  it('records each completed stage and completes the job', async () => {
+    const store = memoryStore();
+    const queue = new JobQueue<string, { length?: number }>(
+      store,
+      'test',
+      async ({ job, completeStage }) => {
+        await completeStage('measured', { length: job.payload.length });
+        await completeStage('stored');
+      },
+    );
+    const progress: string[] = [];
+    const sequence: (number | undefined)[] = [];
+
+    const job = await queue.enqueue('ritual', {});
+    queue.subscribe(job.jobId, (update) => {
+      progress.push(`${update.status}:${update.stages.join(',')}`);
+      sequence.push(update.progress);
+    });
+
+    expect(await queue.processNext()).toBe(true);
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'completed',
+      stages: ['measured', 'stored'],
+      result: { length: 6 },
+      attempts: 1,
+      progress: 4,
+    });
+    expect(progress).toEqual([
+      'running:',
+      'running:measured',
+      'running:measured,stored',
+      'completed:measured,stored',
+    ]);
+    // Every change is numbered, in order, as stored
+    expect(sequence).toEqual([1, 2, 3, 4]);
+    expect(await queue.processNext()).toBe(false);
+  });
+
+  it('retries failed attempts after the completed stages', async () => {
+    const store = memoryStore();
+    const attempts: string[][] = [];
+    const queue = new JobQueue<string, Record<string, never>>(
+      store,
+      'test',
+      async ({ job, completeStage }) => {
+        attempts.push(job.stages);
+        if (!job.stages.includes('pinned')) await completeStage('pinned');
+        if (job.attempts === 1) throw new Error('RPC timeout');
+        await completeStage('anchored');
+      },
+      { retryDelayMs: 0 },
+    );
+
+    const job = await queue.enqueue('ritual', {});
+    await queue.processNext();
+
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'queued',
+      error: 'RPC timeout',
+    });
+
+    await queue.processNext();
+
+    expect(attempts).toEqual([[], ['pinned']]);
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'completed',
+      stages: ['pinned', 'anchored'],
+      attempts: 2,
+    });
+  });
+
+  it('fails the job after the last attempt', async () => {
+    const store = memoryStore();
+    const lastAttempts: boolean[] = [];
+    const queue = new JobQueue<string, Record<string, never>>(
+      store,
+      'test',
+      async ({ isLastAttempt }) => {
+        lastAttempts.push(isLastAttempt);
+        throw new Error('IPFS unavailable');
+      },
+      { maxAttempts: 2, retryDelayMs: 0 },
+    );
+
+    const job = await queue.enqueue('ritual', {});
+    await queue.processNext();
+    await queue.processNext();
+
+    expect(lastAttempts).toEqual([false, true]);
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'failed',
+      error: 'IPFS unavailable',
+    });
+    expect(await queue.processNext()).toBe(false);
+  });
+
+  it('keeps retrying committed jobs after the last attempt', async () => {
+    const store = memoryStore();
+    const queue = new JobQueue<string, Record<string, never>>(
+      store,
+      'test',
+      async ({ commit }) => {
+        await commit();
+        throw new Error('Database unavailable');
+      },
+      { maxAttempts: 1, retryDelayMs: 0 },
+    );
+
+    const job = await queue.enqueue('ritual', {});
+    await queue.processNext();
+    await queue.processNext();
+
+    expect(await queue.getJob(job.jobId)).toMatchObject({
+      status: 'queued',
+      committed: true,
+      attempts: 2,
+    });
+  });
+
+  it('backs off exponentially between attempts', async () => {
+    const store = memoryStore();
+    const queue = new JobQueue<string, Record<string, never>>(
+      store,
+      'test',
+      async () => {
+        throw new Error('down');
+      },
+      { retryDelayMs: 60000 },
+    );
+
+    const job = await queue.enqueue('ritual', {});
+    const before = Date.now();
+    await queue.processNext();
+
+    const retry = await queue.getJob(job.jobId);
+    expect(retry?.nextRunAt.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    expect(await queue.processNext()).toBe(false);
+  });
+
+  it('only works jobs of its own type', async () => {
+    const store = memoryStore();
+    const other = new JobQueue(store, 'other', async () => undefined);
+    const queue = new JobQueue(store, 'test', async () => undefined);
+
+    const job = await other.enqueue('ritual', {});
+
+    expect(await queue.processNext()).toBe(false);
+    expect(await queue.getJob(job.jobId)).toBeNull();
+  });
+});
+
+describe('JobQueue.optionsFromEnv', () => {
+  it('reads the options that are set', () => {
+    expect(
+      JobQueue.optionsFromEnv({
+        JOB_MAX_ATTEMPTS: '3',
+        JOB_RETRY_DELAY_MS: '',
+      }),
+    ).toEqual({ maxAttempts: 3 });
+  });
+
+  it('rejects values that are not positive integers', () => {
+    expect(() => JobQueue.optionsFromEnv({ JOB_MAX_ATTEMPTS: '0' })).toThrow(
+      'JOB_MAX_ATTEMPTS must be a positive integer',
+    );
+  });
+});
@@ -0,0 +1,294 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { DatabaseService, JobDocument } from './DatabaseService';
+
+// Job operations of the DatabaseService the queue depends on
+export type JobStore = Pick<
+  DatabaseService,
+  'createJob' | 'getJobById' | 'claimNextJob' | 'updateJob'
+>;
+
+export interface JobContext<TPayload, TResult> {
+  job: JobDocument<TPayload, TResult>; // As claimed, with earlier stages' output
+  isLastAttempt: boolean; // Never true once the job is committed
+  // Persist a completed stage and its output, so a retry resumes after it
+  completeStage(stage: string, output?: Partial<TResult>): Promise<void>;
+  // Retry the job until it completes from now on, instead of failing it
+  commit(): Promise<void>;
+  // Record a stage that was undone before the job fails
+  recordCompensation(stage: string): Promise<void>;
+  // Record a stage that could not be undone, so it can be undone by hand
+  recordCompensationFailure(stage: string, error: string): Promise<void>;
+}
+
+export type JobHandler<TPayload, TResult> = (
+  context: JobContext<TPayload, TResult>,
+) => Promise<void>;
+
+export interface JobQueueOptions {
+  maxAttempts: number;
+  retryDelayMs: number; // Doubled after every failed attempt
+  maxRetryDelayMs: number;
+  pollIntervalMs: number;
+  lockTimeoutMs: number; // Running jobs not updated for this long are retried
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  maxAttempts: 5,
+  retryDelayMs: 2000,
+  maxRetryDelayMs: 10 * 60 * 1000,
+  pollIntervalMs: 1000,
+  lockTimeoutMs: 5 * 60 * 1000,
+};
+
+/**
+ * Durable in-process job queue. Jobs are stored in MongoDB and worked one at
+ * a time by the process that polls them; failed attempts are retried with
+ * exponential backoff, and committed jobs are retried until they complete.
+ * Every change to a job is emitted as a progress event.
+ */
+export class JobQueue<TPayload, TResult> {
+  private readonly options: JobQueueOptions;
+  private readonly events = new EventEmitter();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private working: Promise<void> | null = null;
+
+  constructor(
+    private store: JobStore,
+    readonly type: string,
+    private handler: JobHandler<TPayload, TResult>,
+    options: Partial<JobQueueOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Queue options from JOB_MAX_ATTEMPTS, JOB_RETRY_DELAY_MS,
+   * JOB_MAX_RETRY_DELAY_MS, JOB_POLL_INTERVAL_MS and JOB_LOCK_TIMEOUT_MS.
+   */
+  static optionsFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+  ): Partial<JobQueueOptions> {
+    const options: Partial<JobQueueOptions> = {};
+    const variables: Record<keyof JobQueueOptions, string> = {
+      maxAttempts: 'JOB_MAX_ATTEMPTS',
+      retryDelayMs: 'JOB_RETRY_DELAY_MS',
+      maxRetryDelayMs: 'JOB_MAX_RETRY_DELAY_MS',
+      pollIntervalMs: 'JOB_POLL_INTERVAL_MS',
+      lockTimeoutMs: 'JOB_LOCK_TIMEOUT_MS',
+    };
+
+    for (const [option, variable] of Object.entries(variables)) {
+      const value = env[variable];
+      if (value === undefined || value === '') continue;
+
+      const parsed = parseInt(value);
+      if (Number.isNaN(parsed) || parsed < 1) {
+        throw new Error(`${variable} must be a positive integer`);
+      }
+      options[option as keyof JobQueueOptions] = parsed;
+    }
+
+    return options;
+  }
+
+  /**
+   * Queue a job. Committed jobs are retried until they complete.
+   */
+  async enqueue(
+    payload: TPayload,
+    result: TResult,
+    options: { committed?: boolean } = {},
+  ): Promise<JobDocument<TPayload, TResult>> {
+    const now = new Date();
+    const job: JobDocument<TPayload, TResult> = {
+      jobId: randomUUID(),
+      type: this.type,
+      status: 'queued',
+      stages: [],
+      payload,
+      result,
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      committed: options.committed,
+      progress: 0,
+      nextRunAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.createJob(job);
+    this.emit(job);
+    this.wake();
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<JobDocument<TPayload, TResult> | null> {
+    const job = await this.store.getJobById(jobId);
+    return job?.type === this.type
+      ? (job as JobDocument<TPayload, TResult>)
+      : null;
+  }
+
+  /**
+   * Listen to the progress of a job. Returns a function that stops listening.
+   */
+  subscribe(
+    jobId: string,
+    listener: (job: JobDocument<TPayload, TResult>) => void,
+  ): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.wake();
+  }
+
+  // Stop polling and wait for the job being worked to settle
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.working;
+  }
+
+  /**
+   * Claim and work the next due job. Returns false if no job was due.
+   */
+  async processNext(): Promise<boolean> {
+    const claimed = await this.store.claimNextJob(
+      this.type,
+      new Date(Date.now() - this.options.lockTimeoutMs),
+    );
+    if (!claimed) return false;
+
+    let job = claimed as JobDocument<TPayload, TResult>;
+    this.emit(job);
+
+    try {
+      await this.handler({
+        job,
+        isLastAttempt: !job.committed && job.attempts >= job.maxAttempts,
+        commit: async () => {
+          job = { ...job, committed: true };
+          await this.store.updateJob(job.jobId, { committed: true });
+        },
+        recordCompensation: async (stage) => {
+          job = {
+            ...job,
+            compensated: [...(job.compensated ?? []), stage],
+            progress: nextProgress(job),
+          };
+          await this.store.updateJob(job.jobId, {
+            compensated: job.compensated,
+            progress: job.progress,
+          });
+          this.emit(job);
+        },
+        recordCompensationFailure: async (stage, error) => {
+          job = {
+            ...job,
+            compensationFailures: [
+              ...(job.compensationFailures ?? []),
+              { stage, error },
+            ],
+            progress: nextProgress(job),
+          };
+          await this.store.updateJob(job.jobId, {
+            compensationFailures: job.compensationFailures,
+            progress: job.progress,
+          });
+          this.emit(job);
+        },
+        completeStage: async (stage, output) => {
+          job = {
+            ...job,
+            stages: [...job.stages, stage],
+            result: { ...job.result, ...output },
+            lockedAt: new Date(),
+            progress: nextProgress(job),
+          };
+          await this.store.updateJob(job.jobId, {
+            stages: job.stages,
+            result: job.result,
+            lockedAt: job.lockedAt,
+            progress: job.progress,
+          });
+          this.emit(job);
+        },
+      });
+
+      job = {
+        ...job,
+        status: 'completed',
+        error: undefined,
+        progress: nextProgress(job),
+      };
+    } catch (error) {
+      const retry = job.committed || job.attempts < job.maxAttempts;
+      const delay = Math.min(
+        this.options.retryDelayMs * 2 ** (job.attempts - 1),
+        this.options.maxRetryDelayMs,
+      );
+      job = {
+        ...job,
+        status: retry ? 'queued' : 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        nextRunAt: new Date(Date.now() + delay),
+        progress: nextProgress(job),
+      };
+    }
+
+    await this.store.updateJob(job.jobId, {
+      status: job.status,
+      error: job.error,
+      nextRunAt: job.nextRunAt,
+      progress: job.progress,
+    });
+    this.emit(job);
+    return true;
+  }
+
+  private emit(job: JobDocument<TPayload, TResult>): void {
+    this.events.emit(job.jobId, job);
+  }
+
+  // Work every due job now, then poll again after the interval
+  private wake(): void {
+    if (!this.running || this.working) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.working = this.drain().finally(() => {
+      this.working = null;
+      if (this.running) {
+        this.timer = setTimeout(() => this.wake(), this.options.pollIntervalMs);
+      }
+    });
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.running && (await this.processNext())) {
+        // Keep working while jobs are due
+      }
+    } catch (error) {
+      console.error(`Job queue ${this.type} failed to poll:`, error);
+    }
+  }
+}
+
+function nextProgress(job: JobDocument): number {
+  return (job.progress ?? 0) + 1;
+}
@@ -0,0 +1,145 @@
+import {
+  AuthorSignature,
+  SignedRitual,
+  checkSignatureAge,
+  contentHashOf,
+  verifyAuthorSignature,
+} from '../auth/provenance';
+import { DatabaseService } from './DatabaseService';
+import { IPFSService } from './IPFSService';
+
+export interface ProvenanceOptions {
+  chainId: number; // Chain ID authors sign their rituals for
+  maxSignatureAgeMinutes: number;
+}
+
+export type SignatureCheck =
+  { authorSignature: AuthorSignature } | { errors: string[] };
+
+export interface ProvenanceReport {
+  ritualId: string;
+  ipfsHash: string;
+  author: string;
+  signer: string | null; // Wallet that signed the published ritual
+  signedAt?: Date | undefined;
+  verified: boolean;
+  problems: string[];
+}
+
+// Tolerated drift between the clock of the wallet and the server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Provenance of rituals. Authors sign their ritual as EIP-712 typed data;
+ * the signature is checked before the ritual is pinned and published with
+ * it, so anyone can check the pinned content against it.
+ */
+export class ProvenanceService {
+  constructor(
+    private db: DatabaseService,
+    private ipfs: IPFSService,
+    private options: ProvenanceOptions = ProvenanceService.optionsFromEnv(),
+  ) {}
+
+  static optionsFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+  ): ProvenanceOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      chainId: integer('BASE_TESTNET_CHAIN_ID', 84532, 1),
+      maxSignatureAgeMinutes: integer(
+        'AUTHOR_SIGNATURE_MAX_AGE_MINUTES',
+        60,
+        1,
+      ),
+    };
+  }
+
+  /**
+   * The signature of a ritual as it is published, for the chain ID authors
+   * sign for.
+   */
+  signatureOf(
+    content: string,
+    signature: string,
+    signedAt: number,
+  ): AuthorSignature {
+    return {
+      scheme: 'eip712',
+      chainId: this.options.chainId,
+      contentHash: contentHashOf(content),
+      timestamp: signedAt,
+      signature,
+    };
+  }
+
+  /**
+   * Check the signature of a submitted ritual by the submitting wallet.
+   */
+  checkSubmission(
+    ritual: SignedRitual,
+    signature: string,
+    signedAt: number,
+  ): SignatureCheck {
+    const errors = checkSignatureAge(signedAt, {
+      maxAgeMs: this.options.maxSignatureAgeMinutes * 60 * 1000,
+      maxClockSkewMs: MAX_CLOCK_SKEW_MS,
+    });
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const authorSignature = this.signatureOf(
+      ritual.content,
+      signature,
+      signedAt,
+    );
+    const { problems } = verifyAuthorSignature(ritual, authorSignature);
+    return problems.length > 0 ? { errors: problems } : { authorSignature };
+  }
+
+  /**
+   * Check the published metadata of a ritual against the signature of its
+   * author. Returns null if the ritual is unknown or not published yet.
+   */
+  async verifyRitual(ritualId: string): Promise<ProvenanceReport | null> {
+    const ritual = await this.db.getRitualById(ritualId);
+    if (!ritual?.ipfsHash) {
+      return null;
+    }
+
+    const metadata = await this.ipfs.retrieveMetadata(ritual.ipfsHash);
+    const report = {
+      ritualId,
+      ipfsHash: ritual.ipfsHash,
+      author: metadata.author,
+    };
+    if (!metadata.authorSignature) {
+      return {
+        ...report,
+        signer: null,
+        verified: false,
+        problems: ['signature: Published without an author signature'],
+      };
+    }
+
+    const { signer, problems } = verifyAuthorSignature(
+      metadata,
+      metadata.authorSignature,
+    );
+    return {
+      ...report,
+      signer,
+      signedAt: new Date(metadata.authorSignature.timestamp * 1000),
+      verified: problems.length === 0,
+      problems,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { TypedDataDomain, TypedDataField } from 'ethers';
+import { contentHashOf } from '../auth/provenance';
+import {
+  RELAY_AUTHORIZATION_TYPES,
+  RelayAuthorization,
+  checkRelayAuthorization,
+  relayDomain,
+} from '../auth/relay';
+import { DatabaseService } from './DatabaseService';
+
+export interface RelayOptions {
+  chainId: number;
+  contractAddress: string; // Authorizations cannot be checked while empty
+  minValidityHours: number;
+}
+
+// Typed data that authors sign, for their wallet
+export interface RelayTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  minDeadline: number; // Earliest deadline accepted now, in Unix seconds
+}
+
+export type RelayCheck =
+  { authorization: RelayAuthorization } | { errors: string[] };
+
+/**
+ * Relayed authorship. Authors sign an authorization for their ritual, which
+ * the backend wallet submits to GRC_RitualSubmission with the ritual, so the
+ * author on chain is the signer while the backend pays the gas.
+ */
+export class RelayService {
+  constructor(
+    private db: DatabaseService,
+    private options: RelayOptions = RelayService.optionsFromEnv(),
+  ) {}
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): RelayOptions {
+    const integer = (name: string, fallback: number, min: number): number => {
+      const value = parseInt(env[name] || `${fallback}`);
+      if (Number.isNaN(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+      return value;
+    };
+
+    return {
+      chainId: integer('BASE_TESTNET_CHAIN_ID', 84532, 1),
+      contractAddress: env['GRC_CONTRACT_ADDRESS'] || '',
+      minValidityHours: integer('RELAY_AUTHORIZATION_MIN_HOURS', 168, 1),
+    };
+  }
+
+  typedData(now: Date = new Date()): RelayTypedData {
+    return {
+      domain: relayDomain(this.options.chainId, this.contractAddress()),
+      types: RELAY_AUTHORIZATION_TYPES,
+      primaryType: 'RitualAuthorization',
+      minDeadline: Math.ceil((now.getTime() + this.minValidityMs()) / 1000),
+    };
+  }
+
+  /**
+   * Check the authorization of a submitted ritual and reserve its nonce. The
+   * nonce is reserved only once the signature checks out, so a forged
+   * authorization cannot spend it.
+   */
+  async authorize(
+    ritual: { author: string; bioregionId: string; content: string },
+    signed: { nonce: string; deadline: number; signature: string },
+  ): Promise<RelayCheck> {
+    const authorization: RelayAuthorization = {
+      contentHash: contentHashOf(ritual.content),
+      nonce: signed.nonce.toLowerCase(),
+      deadline: signed.deadline,
+      signature: signed.signature,
+    };
+
+    const errors = checkRelayAuthorization(authorization, ritual, {
+      chainId: this.options.chainId,
+      contractAddress: this.contractAddress(),
+      minValidityMs: this.minValidityMs(),
+    });
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    if (
+      !(await this.db.reserveRelayNonce(
+        ritual.author.toLowerCase(),
+        authorization.nonce,
+      ))
+    ) {
+      return { errors: ['authorization.nonce: Already used'] };
+    }
+    return { authorization };
+  }
+
+  private contractAddress(): string {
+    if (!this.options.contractAddress) {
+      throw new Error('GRC_CONTRACT_ADDRESS is not configured');
+    }
+    return this.options.contractAddress;
+  }
+
+  private minValidityMs(): number {
+    return this.options.minValidityHours * 60 * 60 * 1000;
+  }
+}
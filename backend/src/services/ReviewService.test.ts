@@ -0,0 +1,116 @@
+import { AnchoringService } from './AnchoringService';
+import { DatabaseService, ReviewDocument } from './DatabaseService';
+import { IPFSMetadata, IPFSService } from './IPFSService';
+import { ReviewService, isOwnRitual } from './ReviewService';
+
+const AUTHOR = '0x00000000000000000000000000000000000000Aa';
+const REVIEWER = '0x00000000000000000000000000000000000000bb';
+
+const review = (overrides: Partial<ReviewDocument> = {}): ReviewDocument => ({
+  reviewId: 'r1',
+  ritualId: 'ritual-1',
+  bioregionId: 'cascadia',
+  status: 'claimed',
+  reasons: ['Borderline narrative score'],
+  submission: {
+    name: 'Spring gathering',
+    bioregionId: 'cascadia',
+    content: 'Gather at the spring at first light.',
+    author: AUTHOR,
+    validation: {
+      esepScore: 0.7,
+      cedaScore: 3,
+      narrativeScore: 0.5,
+      isApproved: false,
+    },
+  } as IPFSMetadata,
+  comments: [],
+  claimedBy: REVIEWER,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+// Records the order in which the services are called
+function services(completed: ReviewDocument | null) {
+  const calls: string[] = [];
+  const record =
+    <T>(name: string, value: T) =>
+    async () => {
+      calls.push(name);
+      return value;
+    };
+
+  const db = {
+    getReviewById: jest.fn(record('getReviewById', review())),
+    completeReview: jest.fn(record('completeReview', completed)),
+    updateRitual: jest.fn(record('updateRitual', true)),
+  };
+  const ipfs = {
+    storeMetadata: jest.fn(record('storeMetadata', 'bafyhash')),
+    unpinContent: jest.fn(record('unpinContent', undefined)),
+  };
+  const anchoring = { defer: jest.fn(record('defer', 'job-1')) };
+
+  return {
+    calls,
+    db,
+    ipfs,
+    anchoring,
+    service: new ReviewService(
+      db as unknown as DatabaseService,
+      ipfs as unknown as IPFSService,
+      anchoring as unknown as AnchoringService,
+    ),
+  };
+}
+
+describe('ReviewService.decide', () => {
+  it('pins the decision before completing the review and queues its anchoring', async () => {
+    const { calls, db, anchoring, service } = services(
+      review({ status: 'approved' }),
+    );
+
+    expect(await service.decide('r1', REVIEWER, true)).toMatchObject({
+      ipfsHash: 'bafyhash',
+      anchoringJobId: 'job-1',
+    });
+    expect(calls).toEqual([
+      'getReviewById',
+      'storeMetadata',
+      'completeReview',
+      'updateRitual',
+      'defer',
+    ]);
+    expect(db.updateRitual).toHaveBeenCalledWith(
+      'ritual-1',
+      expect.objectContaining({ status: 'approved', anchorStatus: 'pending' }),
+    );
+    expect(anchoring.defer).toHaveBeenCalledWith(
+      'ritual-1',
+      expect.objectContaining({ ipfsHash: 'bafyhash', isApproved: true }),
+    );
+  });
+
+  it('unpins the decision when the claim was lost before completing', async () => {
+    const { calls, ipfs, service } = services(null);
+
+    expect(await service.decide('r1', REVIEWER, false)).toBeNull();
+    expect(ipfs.unpinContent).toHaveBeenCalledWith('bafyhash');
+    expect(calls).not.toContain('defer');
+  });
+
+  it('publishes nothing for a reviewer without the claim', async () => {
+    const { calls, service } = services(review());
+
+    expect(await service.decide('r1', AUTHOR, true)).toBeNull();
+    expect(calls).toEqual(['getReviewById']);
+  });
+});
+
+describe('isOwnRitual', () => {
+  it('matches the author in any case', () => {
+    expect(isOwnRitual(review(), AUTHOR.toLowerCase())).toBe(true);
+    expect(isOwnRitual(review(), REVIEWER)).toBe(false);
+  });
+});
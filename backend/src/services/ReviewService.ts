@@ -0,0 +1,140 @@
+import { randomUUID } from 'crypto';
+import { RelayAuthorization } from '../auth/relay';
+import { AnchoringService } from './AnchoringService';
+import { DatabaseService, ReviewDocument } from './DatabaseService';
+import { IPFSMetadata, IPFSService } from './IPFSService';
+
+export interface ReviewDecision {
+  review: ReviewDocument;
+  ipfsHash: string;
+  anchoringJobId: string; // Job that logs the decision on chain
+}
+
+// Authors cannot review their own rituals
+export function isOwnRitual(review: ReviewDocument, wallet: string): boolean {
+  return review.submission.author.toLowerCase() === wallet.toLowerCase();
+}
+
+/**
+ * Queue of rituals waiting for a human decision. Rituals stay unpublished
+ * until a reviewer decides; the decision is then published to IPFS and
+ * logged on chain by the anchoring queue.
+ */
+export class ReviewService {
+  constructor(
+    private db: DatabaseService,
+    private ipfs: IPFSService,
+    private anchoring: AnchoringService,
+  ) {}
+
+  /**
+   * Store a ritual as pending review and open a review for it, with the
+   * author's authorization to log it on chain once decided.
+   */
+  async enqueue(
+    submission: IPFSMetadata,
+    reasons: string[],
+    ritualId: string = randomUUID(),
+    authorization?: RelayAuthorization,
+  ): Promise<{ ritualId: string; reviewId: string }> {
+    const reviewId = randomUUID();
+
+    await this.db.createRitual({
+      ritualId,
+      name: submission.name,
+      bioregionId: submission.bioregionId,
+      author: submission.author,
+      location: submission.location,
+      status: 'pending_review',
+      validation: {
+        esepScore: submission.validation.esepScore,
+        cedaScore: submission.validation.cedaScore,
+        isApproved: false,
+        policyVersion: submission.validation.policyVersion,
+      },
+    });
+    await this.db.createReview({
+      reviewId,
+      ritualId,
+      bioregionId: submission.bioregionId,
+      status: 'pending',
+      reasons,
+      submission,
+      authorization,
+      comments: [],
+    });
+
+    return { ritualId, reviewId };
+  }
+
+  /**
+   * Record the reviewer's decision and publish the ritual with it. The
+   * decision is pinned before the review is completed, and the ritual is
+   * queued to be logged on chain. Returns null if the reviewer does not hold
+   * the claim on the review.
+   */
+  async decide(
+    reviewId: string,
+    reviewer: string,
+    isApproved: boolean,
+    comment?: string,
+  ): Promise<ReviewDecision | null> {
+    const claimed = await this.db.getReviewById(reviewId);
+    if (claimed?.status !== 'claimed' || claimed.claimedBy !== reviewer) {
+      return null;
+    }
+
+    const decidedAt = new Date();
+    const metadata: IPFSMetadata = {
+      ...claimed.submission,
+      validation: { ...claimed.submission.validation, isApproved },
+      review: {
+        reviewId,
+        reviewer,
+        isApproved,
+        comment,
+        reasons: claimed.reasons,
+        decidedAt: decidedAt.toISOString(),
+      },
+    };
+    const ipfsHash = await this.ipfs.storeMetadata(metadata);
+
+    const review = await this.db.completeReview(
+      reviewId,
+      reviewer,
+      isApproved,
+      comment,
+      decidedAt,
+    );
+    if (!review) {
+      // The claim was released meanwhile, so the decision is not published
+      await this.ipfs.unpinContent(ipfsHash);
+      return null;
+    }
+
+    await this.db.updateRitual(review.ritualId, {
+      status: isApproved ? 'approved' : 'rejected',
+      ipfsHash,
+      anchorStatus: 'pending',
+      validation: {
+        esepScore: metadata.validation.esepScore,
+        cedaScore: metadata.validation.cedaScore,
+        isApproved,
+        policyVersion: metadata.validation.policyVersion,
+      },
+    });
+
+    const anchoringJobId = await this.anchoring.defer(review.ritualId, {
+      ipfsHash,
+      bioregionId: metadata.bioregionId,
+      author: metadata.author,
+      esepScore: metadata.validation.esepScore,
+      cedaScore: metadata.validation.cedaScore,
+      narrativeScore: metadata.validation.narrativeScore,
+      isApproved,
+      authorization: review.authorization,
+    });
+
+    return { review, ipfsHash, anchoringJobId };
+  }
+}
@@ -0,0 +1,82 @@
+import { ROLES, Role } from '../auth/permissions';
+import { DatabaseService } from './DatabaseService';
+
+export interface RoleOptions {
+  defaultRole: Role | null; // Held by every signed-in wallet without a grant
+}
+
+export interface RoleChange {
+  address: string;
+  role: Role;
+  actor: string;
+  reason?: string | undefined;
+}
+
+/**
+ * Roles of wallets. Granted roles are stored in the database along with an
+ * audit trail of every grant and revocation; the default role is implicit.
+ */
+export class RoleService {
+  constructor(
+    private db: DatabaseService,
+    private options: RoleOptions = RoleService.optionsFromEnv(),
+  ) {}
+
+  static optionsFromEnv(env: NodeJS.ProcessEnv = process.env): RoleOptions {
+    const defaultRole = env['DEFAULT_ROLE'] ?? 'submitter';
+    if (defaultRole === '') {
+      return { defaultRole: null };
+    }
+    if (!ROLES.includes(defaultRole as Role)) {
+      throw new Error(`DEFAULT_ROLE must be one of ${ROLES.join(', ')}`);
+    }
+    return { defaultRole: defaultRole as Role };
+  }
+
+  async rolesOf(address: string): Promise<Role[]> {
+    const granted = (await this.db.getRoleAssignments({ address })).map(
+      (assignment) => assignment.role,
+    );
+    const roles = new Set(granted);
+    if (this.options.defaultRole) {
+      roles.add(this.options.defaultRole);
+    }
+    return ROLES.filter((role) => roles.has(role));
+  }
+
+  /**
+   * Grant a role and record it. Returns false if the wallet already has it.
+   */
+  async grant(change: RoleChange): Promise<boolean> {
+    const granted = await this.db.grantRole({
+      address: change.address,
+      role: change.role,
+      grantedBy: change.actor,
+      grantedAt: new Date(),
+    });
+    if (granted) {
+      await this.db.addRoleAuditEntry({
+        action: 'grant',
+        ...change,
+        at: new Date(),
+      });
+    }
+    return granted;
+  }
+
+  /**
+   * Revoke a granted role and record it. Returns false if it was not
+   * granted; the default role cannot be revoked.
+   */
+  async revoke(change: RoleChange): Promise<boolean> {
+    const revoked = await this.db.revokeRole(change.address, change.role);
+    if (revoked) {
+      await this.db.addRoleAuditEntry({
+        action: 'revoke',
+        ...change,
+        at: new Date(),
+      });
+    }
+    return revoked;
+  }
+}
@@ -0,0 +1,192 @@
+import { JobDocument } from './DatabaseService';
+import { JobContext } from './JobQueue';
+import { Saga, SagaStep } from './Saga';
+
+type Result = { pinned?: string; anchored?: boolean };
+
+// Context of one attempt, recording what the saga reports to the queue
+function attempt(
+  stages: string[],
+  isLastAttempt: boolean,
+  result: Result = {},
+): JobContext<string, Result> & { log: string[] } {
+  const log: string[] = [];
+  const job: JobDocument<string, Result> = {
+    jobId: 'job',
+    type: 'test',
+    status: 'running',
+    stages,
+    payload: 'ritual',
+    result,
+    attempts: 1,
+    maxAttempts: 3,
+    nextRunAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  return {
+    log,
+    job,
+    isLastAttempt,
+    completeStage: async (stage) => {
+      log.push(`completed ${stage}`);
+    },
+    commit: async () => {
+      log.push('committed');
+    },
+    recordCompensation: async (stage) => {
+      log.push(`compensated ${stage}`);
+    },
+    recordCompensationFailure: async (stage, error) => {
+      log.push(`could not compensate ${stage}: ${error}`);
+    },
+  };
+}
+
+function steps(failAt: string, undone: string[]): SagaStep<string, Result>[] {
+  const step = (
+    name: string,
+    extra: Partial<SagaStep<string, Result>> = {},
+  ): SagaStep<string, Result> => ({
+    name,
+    run: async () => {
+      if (name === failAt) throw new Error(`${name} failed`);
+    },
+    compensate: async () => {
+      undone.push(name);
+    },
+    ...extra,
+  });
+
+  return [
+    step('reserved'),
+    step('pinned'),
+    step('anchored', { pivot: true }),
+    step('indexed'),
+  ];
+}
+
+describe('Saga', () => {
+  it('rejects steps with the same stage name', () => {
+    expect(
+      () =>
+        new Saga([
+          ...steps('none', []),
+          { name: 'pinned', run: async () => {} },
+        ]),
+    ).toThrow('Saga step pinned is defined more than once');
+  });
+
+  it('commits the job once the pivot step completes', async () => {
+    const context = attempt([], false);
+    await new Saga(steps('none', [])).run(context);
+
+    expect(context.log).toEqual([
+      'completed reserved',
+      'completed pinned',
+      'completed anchored',
+      'committed',
+      'completed indexed',
+    ]);
+  });
+
+  it('resumes after the stages of earlier attempts', async () => {
+    const context = attempt(['reserved', 'pinned'], false);
+    await new Saga(steps('none', [])).run(context);
+
+    expect(context.log).toEqual([
+      'completed anchored',
+      'committed',
+      'completed indexed',
+    ]);
+  });
+
+  it('retries without compensating before the last attempt', async () => {
+    const undone: string[] = [];
+    const context = attempt([], false);
+
+    await expect(
+      new Saga(steps('anchored', undone)).run(context),
+    ).rejects.toThrow('anchored failed');
+    expect(undone).toEqual([]);
+  });
+
+  it('compensates completed steps in reverse when the last attempt fails', async () => {
+    const undone: string[] = [];
+    const context = attempt(['reserved'], true);
+
+    await expect(
+      new Saga(steps('anchored', undone)).run(context),
+    ).rejects.toThrow('anchored failed');
+    expect(undone).toEqual(['pinned', 'reserved']);
+    expect(context.log).toContain('compensated reserved');
+  });
+
+  it('records steps that could not be undone and undoes the others', async () => {
+    const undone: string[] = [];
+    const context = attempt([], true);
+    const saga = steps('anchored', undone).map((step) =>
+      step.name === 'pinned'
+        ? {
+            ...step,
+            compensate: async () => {
+              throw new Error('unpin failed');
+            },
+          }
+        : step,
+    );
+
+    await expect(new Saga(saga).run(context)).rejects.toThrow(
+      'anchored failed',
+    );
+    expect(undone).toEqual(['reserved']);
+    expect(context.log).toEqual([
+      'completed reserved',
+      'completed pinned',
+      'could not compensate pinned: unpin failed',
+      'compensated reserved',
+    ]);
+  });
+
+  it('never compensates once the pivot completed, even on the last attempt', async () => {
+    const undone: string[] = [];
+    const context = attempt([], true);
+
+    await expect(
+      new Saga(steps('indexed', undone)).run(context),
+    ).rejects.toThrow('indexed failed');
+    expect(undone).toEqual([]);
+    expect(context.log).toEqual([
+      'completed reserved',
+      'completed pinned',
+      'completed anchored',
+      'committed',
+    ]);
+  });
+
+  it('commits a job resumed past its pivot before retrying forward', async () => {
+    const undone: string[] = [];
+    const context = attempt(['reserved', 'pinned', 'anchored'], true);
+
+    await expect(
+      new Saga(steps('indexed', undone)).run(context),
+    ).rejects.toThrow('indexed failed');
+    expect(undone).toEqual([]);
+    expect(context.log).toEqual(['committed']);
+  });
+
+  it('skips steps that do not apply', async () => {
+    const context = attempt([], false);
+    await new Saga<string, Result>([
+      { name: 'validated', run: async () => ({ anchored: false }) },
+      {
+        name: 'anchored',
+        when: ({ result }) => result.anchored !== false,
+        run: async () => undefined,
+      },
+    ]).run(context);
+
+    expect(context.log).toEqual(['completed validated']);
+  });
+});
@@ -0,0 +1,107 @@
+import { JobDocument } from './DatabaseService';
+import { JobContext } from './JobQueue';
+
+export interface SagaState<TPayload, TResult> {
+  job: JobDocument<TPayload, TResult>;
+  payload: TPayload;
+  result: TResult; // Output of the steps completed so far
+  isLastAttempt: boolean;
+}
+
+export interface SagaStep<TPayload, TResult> {
+  name: string; // Stage recorded on the job once the step completes
+  // Steps that do not apply to the saga's result so far are skipped
+  when?(state: SagaState<TPayload, TResult>): boolean;
+  run(state: SagaState<TPayload, TResult>): Promise<Partial<TResult> | void>;
+  // Undo the step when the saga is abandoned before its pivot
+  compensate?(state: SagaState<TPayload, TResult>): Promise<void>;
+  // Past a pivot step the saga cannot be undone, only completed: later
+  // failures are retried until they succeed
+  pivot?: boolean;
+}
+
+/**
+ * Job handler that runs steps in order, resuming after the stages a previous
+ * attempt completed. When the last attempt fails before the pivot, completed
+ * steps are compensated in reverse order and the job fails. Once a pivot
+ * step has completed nothing is compensated; the job is committed and
+ * retried until the remaining steps succeed.
+ */
+export class Saga<TPayload, TResult> {
+  constructor(private steps: SagaStep<TPayload, TResult>[]) {
+    // Completed stages are matched by name, so a repeated name would skip
+    // every later step with it
+    const names = steps.map((step) => step.name);
+    const repeated = names.find((name, i) => names.indexOf(name) !== i);
+    if (repeated) {
+      throw new Error(`Saga step ${repeated} is defined more than once`);
+    }
+  }
+
+  readonly run = async (
+    context: JobContext<TPayload, TResult>,
+  ): Promise<void> => {
+    const { job } = context;
+    const completed = [...job.stages];
+    let result = job.result;
+    let pastPivot = this.steps.some(
+      (step) => step.pivot && completed.includes(step.name),
+    );
+    const state = (): SagaState<TPayload, TResult> => ({
+      job,
+      payload: job.payload,
+      result,
+      isLastAttempt: context.isLastAttempt && !pastPivot,
+    });
+
+    // An attempt may have stopped between the pivot and committing the job
+    if (pastPivot && !job.committed) {
+      await context.commit();
+    }
+
+    for (const step of this.steps) {
+      if (completed.includes(step.name)) continue;
+      if (step.when && !step.when(state())) continue;
+
+      try {
+        const output = (await step.run(state())) || {};
+        result = { ...result, ...output };
+        await context.completeStage(step.name, output);
+        completed.push(step.name);
+
+        if (step.pivot) {
+          pastPivot = true;
+          await context.commit();
+        }
+      } catch (error) {
+        if (context.isLastAttempt && !pastPivot) {
+          await this.compensate(context, completed, state());
+        }
+        throw error;
+      }
+    }
+  };
+
+  private async compensate(
+    context: JobContext<TPayload, TResult>,
+    completed: string[],
+    state: SagaState<TPayload, TResult>,
+  ): Promise<void> {
+    const steps = this.steps
+      .filter((step) => completed.includes(step.name) && step.compensate)
+      .reverse();
+
+    for (const step of steps) {
+      try {
+        await step.compensate?.(state);
+        await context.recordCompensation(step.name);
+      } catch (error) {
+        // Keep undoing the other steps; the job records what was not undone
+        await context.recordCompensationFailure(
+          step.name,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+  }
+}
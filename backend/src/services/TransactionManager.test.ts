@@ -0,0 +1,381 @@
+import { TransactionDocument } from './DatabaseService';
+import {
+  Fees,
+  TransactionManager,
+  TransactionSigner,
+  TransactionStore,
+  bumpFees,
+} from './TransactionManager';
+
+const WALLET = '0x00000000000000000000000000000000000000aa';
+const CONTRACT = '0x00000000000000000000000000000000000000cc';
+
+// Store with the query semantics of the DatabaseService, kept in memory
+function memoryStore(): TransactionStore & {
+  transactions: Map<string, TransactionDocument>;
+} {
+  const transactions = new Map<string, TransactionDocument>();
+
+  return {
+    transactions,
+    async createTransaction(transaction) {
+      transactions.set(transaction.txId, transaction);
+    },
+    async getTransactionById(txId) {
+      return transactions.get(txId) ?? null;
+    },
+    async getTransactions(filter = {}, limit = 100) {
+      return [...transactions.values()]
+        .filter(
+          (transaction) =>
+            (!filter.status || transaction.status === filter.status) &&
+            (!filter.from || transaction.from === filter.from) &&
+            (!filter.key || transaction.key === filter.key),
+        )
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit);
+    },
+    async updateTransaction(txId, updates) {
+      const transaction = transactions.get(txId);
+      if (!transaction) return false;
+      transactions.set(txId, {
+        ...transaction,
+        ...updates,
+        updatedAt: new Date(),
+      });
+      return true;
+    },
+    async addTransactionBroadcast(txId, broadcast, canceling) {
+      const transaction = transactions.get(txId);
+      if (!transaction) return null;
+      const updated = {
+        ...transaction,
+        broadcasts: [...transaction.broadcasts, broadcast],
+        canceling: transaction.canceling || canceling,
+        updatedAt: new Date(),
+      };
+      transactions.set(txId, updated);
+      return updated;
+    },
+  };
+}
+
+type Sent = Parameters<TransactionSigner['send']>[0] & { hash: string };
+
+// Chain that mines what the test tells it to
+class FakeChain {
+  sent: Sent[] = [];
+  mined = new Map<string, number>();
+  reverted = new Set<string>();
+  blockNumber = 100;
+  minedNonce = 0; // Transactions of the wallet mined so far
+  pendingNonce = 0; // Including those in the mempool
+  fees: Fees = { maxFeePerGas: 100n, maxPriorityFeePerGas: 2n };
+  rejectNext: Error | null = null;
+
+  readonly signer: TransactionSigner = {
+    address: WALLET,
+    getNonce: async (blockTag) =>
+      blockTag === 'latest'
+        ? this.minedNonce
+        : Math.max(this.minedNonce, this.pendingNonce),
+    getBlockNumber: async () => this.blockNumber,
+    estimateGas: async () => 100000n,
+    getFees: async () => this.fees,
+    send: async (transaction) => {
+      if (this.rejectNext) {
+        const error = this.rejectNext;
+        this.rejectNext = null;
+        throw error;
+      }
+      const hash = `0x${(this.sent.length + 1).toString(16).padStart(64, '0')}`;
+      this.sent.push({ ...transaction, hash });
+      return hash;
+    },
+    getReceipt: async (hash) => {
+      const blockNumber = this.mined.get(hash);
+      return blockNumber === undefined
+        ? null
+        : {
+            hash,
+            status: this.reverted.has(hash) ? 0 : 1,
+            blockNumber,
+            logs: [{ topics: ['0x01'], data: '0x' }],
+          };
+    },
+  };
+
+  mine(hash: string, reverted = false): void {
+    const transaction = this.sent.find((sent) => sent.hash === hash);
+    if (!transaction) throw new Error(`Not sent: ${hash}`);
+    this.mined.set(hash, ++this.blockNumber);
+    if (reverted) this.reverted.add(hash);
+    this.minedNonce = Math.max(this.minedNonce, transaction.nonce + 1);
+  }
+}
+
+// Let the manager poll until the condition holds
+async function until(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 500 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+  if (!condition()) throw new Error('Condition not reached');
+}
+
+const options = { pollIntervalMs: 1, stuckAfterMs: 60 * 1000 };
+
+describe('TransactionManager', () => {
+  it('sends concurrent transactions one after another with consecutive nonces', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    chain.pendingNonce = 7;
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    const first = manager.send({ to: CONTRACT, data: '0x01', label: 'a' });
+    const second = manager.send({ to: CONTRACT, data: '0x02', label: 'b' });
+    await until(() => chain.sent.length === 2);
+
+    expect(chain.sent.map(({ nonce, data }) => [nonce, data])).toEqual([
+      [7, '0x01'],
+      [8, '0x02'],
+    ]);
+    expect(chain.sent[0]).toMatchObject({
+      gasLimit: 120000n, // The estimate with a 20% margin
+      maxFeePerGas: 100n,
+      maxPriorityFeePerGas: 2n,
+    });
+
+    chain.mine(chain.sent[0]!.hash);
+    chain.mine(chain.sent[1]!.hash);
+    expect(await first).toMatchObject({
+      hash: chain.sent[0]!.hash,
+      blockNumber: 101,
+    });
+    expect((await second).logs).toHaveLength(1);
+    expect(
+      [...store.transactions.values()].map(({ status }) => status),
+    ).toEqual(['confirmed', 'confirmed']);
+  });
+
+  it('starts after the nonces of transactions stored as pending', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const now = new Date();
+    await store.createTransaction({
+      txId: 'earlier',
+      label: 'a',
+      from: WALLET,
+      nonce: 3,
+      to: CONTRACT,
+      data: '0x01',
+      value: '0',
+      gasLimit: '120000',
+      status: 'pending',
+      canceling: false,
+      broadcasts: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    manager.send({ to: CONTRACT, data: '0x02', label: 'b' }).catch(() => {});
+    await until(() => chain.sent.length === 1);
+
+    expect(chain.sent[0]!.nonce).toBe(4);
+    chain.mine(chain.sent[0]!.hash);
+  });
+
+  it('speeds up a stuck transaction with the same nonce and higher fees', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    const sending = manager.send({ to: CONTRACT, data: '0x01', label: 'a' });
+    await until(() => chain.sent.length === 1);
+
+    // Sent long enough ago to count as stuck
+    const [stored] = store.transactions.values();
+    stored!.broadcasts[0]!.sentAt = new Date(Date.now() - 5 * 60 * 1000);
+    await until(() => chain.sent.length === 2);
+
+    expect(chain.sent[1]).toMatchObject({
+      nonce: 0,
+      data: '0x01',
+      maxFeePerGas: 115n,
+      maxPriorityFeePerGas: 3n,
+    });
+
+    chain.mine(chain.sent[1]!.hash);
+    expect((await sending).hash).toBe(chain.sent[1]!.hash);
+    expect(store.transactions.get(stored!.txId)).toMatchObject({
+      status: 'confirmed',
+      minedHash: chain.sent[1]!.hash,
+      broadcasts: [{ kind: 'original' }, { kind: 'speed-up' }],
+    });
+  });
+
+  it('cancels a pending transaction with a transfer of nothing to the wallet', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    const sending = manager.send({ to: CONTRACT, data: '0x01', label: 'a' });
+    await until(() => chain.sent.length === 1);
+    const [stored] = store.transactions.values();
+
+    const canceled = await manager.cancel(stored!.txId);
+    expect(canceled?.canceling).toBe(true);
+    expect(chain.sent[1]).toMatchObject({
+      to: WALLET,
+      data: '0x',
+      value: 0n,
+      nonce: 0,
+      gasLimit: 21000n,
+    });
+
+    chain.mine(chain.sent[1]!.hash);
+    await expect(sending).rejects.toThrow('Transaction canceled');
+    expect(store.transactions.get(stored!.txId)?.status).toBe('canceled');
+    expect(await manager.cancel(stored!.txId)).toBeNull();
+  });
+
+  it('keeps every broadcast of replacements made concurrently', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    const sending = manager.send({ to: CONTRACT, data: '0x01', label: 'a' });
+    await until(() => chain.sent.length === 1);
+    const [stored] = store.transactions.values();
+
+    await Promise.all([
+      manager.speedUp(stored!.txId),
+      manager.cancel(stored!.txId),
+    ]);
+    expect(
+      store.transactions.get(stored!.txId)?.broadcasts.map(({ kind }) => kind),
+    ).toEqual(['original', 'speed-up', 'cancel']);
+    expect(store.transactions.get(stored!.txId)?.canceling).toBe(true);
+
+    chain.mine(chain.sent[2]!.hash);
+    await expect(sending).rejects.toThrow('Transaction canceled');
+  });
+
+  it('waits for the transaction already sent for the same key', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+    const request = { to: CONTRACT, data: '0x01', label: 'a', key: 'ritual:1' };
+
+    const first = manager.send(request);
+    await until(() => chain.sent.length === 1);
+    const retry = manager.send(request);
+
+    chain.mine(chain.sent[0]!.hash);
+    expect((await retry).hash).toBe((await first).hash);
+    expect((await manager.send(request)).hash).toBe(chain.sent[0]!.hash);
+    expect(chain.sent).toHaveLength(1);
+  });
+
+  it('rejects a reverted transaction', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    const sending = manager.send({ to: CONTRACT, data: '0x01', label: 'a' });
+    await until(() => chain.sent.length === 1);
+    chain.mine(chain.sent[0]!.hash, true);
+
+    await expect(sending).rejects.toThrow('Transaction failed');
+    const [stored] = store.transactions.values();
+    expect(stored?.status).toBe('failed');
+  });
+
+  it('reuses the nonce of a transaction that could not be broadcast', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    chain.rejectNext = new Error('insufficient funds');
+    await expect(
+      manager.send({ to: CONTRACT, data: '0x01', label: 'a' }),
+    ).rejects.toThrow('insufficient funds');
+
+    manager.send({ to: CONTRACT, data: '0x02', label: 'b' }).catch(() => {});
+    await until(() => chain.sent.length === 1);
+
+    expect(chain.sent[0]!.nonce).toBe(0);
+    expect(
+      [...store.transactions.values()].map(({ status }) => status),
+    ).toEqual(['failed', 'pending']);
+    chain.mine(chain.sent[0]!.hash);
+  });
+
+  it('follows up transactions left pending by an earlier run', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const earlier = new TransactionManager(store, chain.signer, options);
+
+    earlier.send({ to: CONTRACT, data: '0x01', label: 'a' }).catch(() => {});
+    await until(() => chain.sent.length === 1);
+
+    const manager = new TransactionManager(store, chain.signer, options);
+    expect(await manager.resume()).toBe(1);
+
+    chain.mine(chain.sent[0]!.hash);
+    const [stored] = store.transactions.values();
+    await until(
+      () => store.transactions.get(stored!.txId)?.status === 'confirmed',
+    );
+  });
+
+  it('marks a transaction dropped when its nonce was used elsewhere', async () => {
+    const store = memoryStore();
+    const chain = new FakeChain();
+    const manager = new TransactionManager(store, chain.signer, options);
+
+    manager.send({ to: CONTRACT, data: '0x01', label: 'a' }).catch(() => {});
+    await until(() => chain.sent.length === 1);
+    chain.minedNonce = 1;
+
+    const [stored] = store.transactions.values();
+    expect(await manager.check(stored!.txId)).toMatchObject({
+      status: 'dropped',
+      error: 'Nonce 0 was used by another transaction',
+    });
+  });
+
+  it('reads its options from the environment', () => {
+    expect(
+      TransactionManager.optionsFromEnv({
+        TX_CONFIRMATIONS: '3',
+        TX_FEE_BUMP_PERCENT: '25',
+      }),
+    ).toEqual({ confirmations: 3, feeBumpPercent: 25 });
+    expect(() =>
+      TransactionManager.optionsFromEnv({ TX_STUCK_AFTER_MS: 'soon' }),
+    ).toThrow('TX_STUCK_AFTER_MS must be a non-negative integer');
+  });
+});
+
+describe('bumpFees', () => {
+  it('raises the previous fees by the bump, rounding up', () => {
+    expect(
+      bumpFees(
+        { maxFeePerGas: 100n, maxPriorityFeePerGas: 2n },
+        { maxFeePerGas: 90n, maxPriorityFeePerGas: 1n },
+        15,
+      ),
+    ).toEqual({ maxFeePerGas: 115n, maxPriorityFeePerGas: 3n });
+  });
+
+  it('takes the current fees when they rose further', () => {
+    expect(
+      bumpFees(
+        { maxFeePerGas: 100n, maxPriorityFeePerGas: 2n },
+        { maxFeePerGas: 300n, maxPriorityFeePerGas: 10n },
+        15,
+      ),
+    ).toEqual({ maxFeePerGas: 300n, maxPriorityFeePerGas: 10n });
+  });
+});
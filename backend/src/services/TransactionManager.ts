@@ -0,0 +1,542 @@
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import {
+  DatabaseService,
+  TransactionBroadcast,
+  TransactionDocument,
+} from './DatabaseService';
+
+// Transaction operations of the DatabaseService the manager depends on
+export type TransactionStore = Pick<
+  DatabaseService,
+  | 'createTransaction'
+  | 'getTransactionById'
+  | 'getTransactions'
+  | 'updateTransaction'
+  | 'addTransactionBroadcast'
+>;
+
+// EIP-1559 fees, in wei
+export interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  value?: bigint | undefined;
+  label: string; // Contract method, for operators
+  key?: string | undefined; // Retries of the same action get the same transaction
+}
+
+export interface MinedTransaction {
+  hash: string;
+  blockNumber: number;
+  logs: ReadonlyArray<{ topics: ReadonlyArray<string>; data: string }>;
+}
+
+// What the manager needs of the wallet and its provider
+export interface TransactionSigner {
+  address: string;
+  getNonce(blockTag: 'latest' | 'pending'): Promise<number>;
+  getBlockNumber(): Promise<number>;
+  estimateGas(request: {
+    to: string;
+    data: string;
+    value: bigint;
+  }): Promise<bigint>;
+  getFees(): Promise<Fees>;
+  // Sign and broadcast; returns the transaction hash
+  send(transaction: {
+    to: string;
+    data: string;
+    value: bigint;
+    nonce: number;
+    gasLimit: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }): Promise<string>;
+  getReceipt(
+    hash: string,
+  ): Promise<(MinedTransaction & { status: number | null }) | null>;
+}
+
+export interface TransactionManagerOptions {
+  confirmations: number;
+  pollIntervalMs: number;
+  stuckAfterMs: number; // Pending this long, a transaction is sped up
+  feeBumpPercent: number; // Nodes take replacements bumped by 10% or more
+  maxReplacements: number; // Automatic speed-ups before operators step in
+  gasLimitMarginPercent: number; // Added to the gas estimate
+}
+
+const DEFAULT_OPTIONS: TransactionManagerOptions = {
+  confirmations: 1,
+  pollIntervalMs: 4000,
+  stuckAfterMs: 3 * 60 * 1000,
+  feeBumpPercent: 15,
+  maxReplacements: 10,
+  gasLimitMarginPercent: 20,
+};
+
+const CANCEL_GAS_LIMIT = 21000n;
+
+/**
+ * Sends the transactions of one wallet. Transactions are broadcast one at a
+ * time with locally tracked nonces and EIP-1559 fees, and stored before they
+ * are broadcast, so those pending at a restart are followed up by resume().
+ * Transactions pending for too long are sped up with higher fees; operators
+ * can speed them up or cancel them too. There must be one manager per
+ * wallet, or nonces collide.
+ */
+export class TransactionManager {
+  private readonly options: TransactionManagerOptions;
+  private nextNonce: number | null = null;
+  private lane: Promise<void> = Promise.resolve();
+  private settling = new Map<string, Promise<MinedTransaction>>();
+
+  constructor(
+    private store: TransactionStore,
+    private signer: TransactionSigner,
+    options: Partial<TransactionManagerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (this.options.feeBumpPercent < 10) {
+      throw new Error('The fee bump must be at least 10 percent');
+    }
+  }
+
+  /**
+   * Manager options from TX_CONFIRMATIONS, TX_POLL_INTERVAL_MS,
+   * TX_STUCK_AFTER_MS, TX_FEE_BUMP_PERCENT, TX_MAX_REPLACEMENTS and
+   * TX_GAS_LIMIT_MARGIN_PERCENT.
+   */
+  static optionsFromEnv(
+    env: NodeJS.ProcessEnv = process.env,
+  ): Partial<TransactionManagerOptions> {
+    const options: Partial<TransactionManagerOptions> = {};
+    const variables: Record<keyof TransactionManagerOptions, string> = {
+      confirmations: 'TX_CONFIRMATIONS',
+      pollIntervalMs: 'TX_POLL_INTERVAL_MS',
+      stuckAfterMs: 'TX_STUCK_AFTER_MS',
+      feeBumpPercent: 'TX_FEE_BUMP_PERCENT',
+      maxReplacements: 'TX_MAX_REPLACEMENTS',
+      gasLimitMarginPercent: 'TX_GAS_LIMIT_MARGIN_PERCENT',
+    };
+
+    for (const [option, variable] of Object.entries(variables)) {
+      const value = env[variable];
+      if (value === undefined || value === '') continue;
+
+      const parsed = parseInt(value);
+      if (Number.isNaN(parsed) || parsed < 0) {
+        throw new Error(`${variable} must be a non-negative integer`);
+      }
+      options[option as keyof TransactionManagerOptions] = parsed;
+    }
+
+    return options;
+  }
+
+  /**
+   * Send a transaction and wait until it is mined and confirmed. Throws if
+   * it reverts, is canceled or cannot be sent. With a key, a transaction
+   * already sent for it is waited for instead of sending another.
+   */
+  async send(request: TransactionRequest): Promise<MinedTransaction> {
+    if (request.key) {
+      const [earlier] = await this.store.getTransactions(
+        { key: request.key },
+        1,
+      );
+      if (earlier?.status === 'pending' || earlier?.status === 'confirmed') {
+        return await this.settle(earlier.txId);
+      }
+    }
+
+    const transaction = await this.serialize(() => this.broadcast(request));
+    return await this.settle(transaction.txId);
+  }
+
+  /**
+   * Follow up the transactions left pending by an earlier run, in the
+   * background.
+   */
+  async resume(): Promise<number> {
+    const pending = await this.store.getTransactions(
+      { from: this.signer.address, status: 'pending' },
+      1000,
+    );
+
+    for (const transaction of pending) {
+      this.settle(transaction.txId).catch((error) =>
+        console.error('Resumed transaction did not go through:', {
+          txId: transaction.txId,
+          error: error instanceof Error ? error.message : error,
+        }),
+      );
+    }
+    return pending.length;
+  }
+
+  /**
+   * Rebroadcast a pending transaction with higher fees. Returns null if it
+   * is not pending.
+   */
+  async speedUp(txId: string): Promise<TransactionDocument | null> {
+    const transaction = await this.store.getTransactionById(txId);
+    if (transaction?.status !== 'pending') return null;
+
+    return await this.replace(
+      transaction,
+      transaction.canceling ? 'cancel' : 'speed-up',
+    );
+  }
+
+  /**
+   * Replace a pending transaction with a transfer of nothing to the wallet
+   * itself, with higher fees. Returns null if it is not pending.
+   */
+  async cancel(txId: string): Promise<TransactionDocument | null> {
+    const transaction = await this.store.getTransactionById(txId);
+    if (transaction?.status !== 'pending') return null;
+
+    return await this.replace(transaction, 'cancel');
+  }
+
+  /**
+   * Check a pending transaction once: record it if mined, rebroadcast it if
+   * it never was and speed it up if it is stuck. Returns the transaction as
+   * it is now.
+   */
+  async check(txId: string): Promise<TransactionDocument | null> {
+    const transaction = await this.store.getTransactionById(txId);
+    if (transaction?.status !== 'pending') return transaction;
+
+    const latest = transaction.broadcasts[transaction.broadcasts.length - 1];
+    if (!latest) {
+      // Stored, but the process stopped before broadcasting it
+      return await this.replace(transaction, 'original');
+    }
+
+    // Read before the receipts, so a transaction mined in between is found
+    const minedNonce = await this.signer.getNonce('latest');
+
+    for (const broadcast of [...transaction.broadcasts].reverse()) {
+      const receipt = await this.signer.getReceipt(broadcast.hash);
+      if (!receipt) continue;
+
+      const blockNumber = await this.signer.getBlockNumber();
+      if (receipt.blockNumber + this.options.confirmations - 1 > blockNumber) {
+        return transaction;
+      }
+
+      const mined = {
+        minedHash: broadcast.hash,
+        blockNumber: receipt.blockNumber,
+      };
+      if (receipt.status === 0) {
+        return await this.finish(transaction, {
+          status: 'failed',
+          ...mined,
+          error: 'Transaction failed',
+        });
+      }
+      return await this.finish(transaction, {
+        status: broadcast.kind === 'cancel' ? 'canceled' : 'confirmed',
+        ...mined,
+      });
+    }
+
+    if (minedNonce > transaction.nonce) {
+      return await this.finish(transaction, {
+        status: 'dropped',
+        error: `Nonce ${transaction.nonce} was used by another transaction`,
+      });
+    }
+
+    const replacements = transaction.broadcasts.length - 1;
+    if (
+      Date.now() - new Date(latest.sentAt).getTime() >
+        this.options.stuckAfterMs &&
+      replacements < this.options.maxReplacements
+    ) {
+      return await this.replace(
+        transaction,
+        transaction.canceling ? 'cancel' : 'speed-up',
+      );
+    }
+    return transaction;
+  }
+
+  // Estimate, store and broadcast a new transaction with the next nonce
+  private async broadcast(
+    request: TransactionRequest,
+  ): Promise<TransactionDocument> {
+    const value = request.value ?? 0n;
+    const estimate = await this.signer.estimateGas({
+      to: request.to,
+      data: request.data,
+      value,
+    });
+    const gasLimit =
+      (estimate * BigInt(100 + this.options.gasLimitMarginPercent)) / 100n;
+    const fees = await this.signer.getFees();
+    const nonce = await this.takeNonce();
+
+    const now = new Date();
+    const transaction: TransactionDocument = {
+      txId: randomUUID(),
+      label: request.label,
+      key: request.key,
+      from: this.signer.address,
+      nonce,
+      to: request.to,
+      data: request.data,
+      value: value.toString(),
+      gasLimit: gasLimit.toString(),
+      status: 'pending',
+      canceling: false,
+      broadcasts: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.createTransaction(transaction);
+
+    try {
+      return await this.record(transaction, 'original', fees);
+    } catch (error) {
+      // The nonce may not have been used; read it from the chain again
+      this.nextNonce = null;
+      await this.finish(transaction, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  // Broadcast a transaction again with its nonce
+  private async replace(
+    transaction: TransactionDocument,
+    kind: TransactionBroadcast['kind'],
+  ): Promise<TransactionDocument> {
+    const latest = transaction.broadcasts[transaction.broadcasts.length - 1];
+    const current = await this.signer.getFees();
+    const fees = latest
+      ? bumpFees(
+          {
+            maxFeePerGas: BigInt(latest.maxFeePerGas),
+            maxPriorityFeePerGas: BigInt(latest.maxPriorityFeePerGas),
+          },
+          current,
+          this.options.feeBumpPercent,
+        )
+      : current;
+
+    return await this.record(transaction, kind, fees);
+  }
+
+  // Sign and broadcast, then store the broadcast
+  private async record(
+    transaction: TransactionDocument,
+    kind: TransactionBroadcast['kind'],
+    fees: Fees,
+  ): Promise<TransactionDocument> {
+    const canceling = transaction.canceling || kind === 'cancel';
+    const hash = await this.signer.send({
+      ...(canceling
+        ? {
+            to: transaction.from,
+            data: '0x',
+            value: 0n,
+            gasLimit: CANCEL_GAS_LIMIT,
+          }
+        : {
+            to: transaction.to,
+            data: transaction.data,
+            value: BigInt(transaction.value),
+            gasLimit: BigInt(transaction.gasLimit),
+          }),
+      nonce: transaction.nonce,
+      ...fees,
+    });
+
+    const broadcast: TransactionBroadcast = {
+      hash,
+      kind,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      sentAt: new Date(),
+    };
+    const stored = await this.store.addTransactionBroadcast(
+      transaction.txId,
+      broadcast,
+      canceling,
+    );
+    return (
+      stored ?? {
+        ...transaction,
+        broadcasts: [...transaction.broadcasts, broadcast],
+        canceling,
+      }
+    );
+  }
+
+  private async finish(
+    transaction: TransactionDocument,
+    outcome: Pick<
+      TransactionDocument,
+      'status' | 'minedHash' | 'blockNumber' | 'error'
+    >,
+  ): Promise<TransactionDocument> {
+    await this.store.updateTransaction(transaction.txId, outcome);
+    return { ...transaction, ...outcome };
+  }
+
+  // Poll a transaction until it is no longer pending
+  private settle(txId: string): Promise<MinedTransaction> {
+    const settling = this.settling.get(txId);
+    if (settling) return settling;
+
+    const settled = (async () => {
+      for (;;) {
+        const transaction = await this.check(txId);
+        if (!transaction) {
+          throw new Error(`Unknown transaction: ${txId}`);
+        }
+
+        if (transaction.status === 'confirmed' && transaction.minedHash) {
+          const receipt = await this.signer.getReceipt(transaction.minedHash);
+          return {
+            hash: transaction.minedHash,
+            blockNumber: transaction.blockNumber ?? 0,
+            logs: receipt?.logs ?? [],
+          };
+        }
+        if (transaction.status !== 'pending') {
+          throw new Error(
+            transaction.status === 'canceled'
+              ? 'Transaction canceled'
+              : (transaction.error ?? `Transaction ${transaction.status}`),
+          );
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.options.pollIntervalMs),
+        );
+      }
+    })().finally(() => this.settling.delete(txId));
+
+    this.settling.set(txId, settled);
+    return settled;
+  }
+
+  // Nonce for the next transaction: the higher of the chain's pending count
+  // and the stored pending transactions, so none is used twice
+  private async takeNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      const [pendingOnChain, [lastStored]] = await Promise.all([
+        this.signer.getNonce('pending'),
+        this.store.getTransactions(
+          { from: this.signer.address, status: 'pending' },
+          1,
+        ),
+      ]);
+      this.nextNonce = Math.max(
+        pendingOnChain,
+        lastStored ? lastStored.nonce + 1 : 0,
+      );
+    }
+
+    return this.nextNonce++;
+  }
+
+  // Run tasks one after another, whether or not earlier ones failed
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lane.then(task);
+    this.lane = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+}
+
+/**
+ * Fees for a replacement: the current fees, but at least the previous ones
+ * raised by the bump, which nodes require to replace a transaction.
+ */
+export function bumpFees(previous: Fees, current: Fees, percent: number): Fees {
+  const bump = (fee: bigint): bigint =>
+    (fee * BigInt(100 + percent) + 99n) / 100n;
+  const max = (a: bigint, b: bigint): bigint => (a > b ? a : b);
+
+  const maxPriorityFeePerGas = max(
+    current.maxPriorityFeePerGas,
+    bump(previous.maxPriorityFeePerGas),
+  );
+  return {
+    maxFeePerGas: max(
+      max(current.maxFeePerGas, bump(previous.maxFeePerGas)),
+      maxPriorityFeePerGas,
+    ),
+    maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * The manager's view of an ethers wallet connected to a provider. Chains
+ * without EIP-1559 fees are paid their gas price.
+ */
+export function walletSigner(wallet: ethers.Wallet): TransactionSigner {
+  const provider = wallet.provider;
+  if (!provider) {
+    throw new Error('Wallet is not connected to a provider');
+  }
+
+  return {
+    address: wallet.address,
+    getNonce: (blockTag) =>
+      provider.getTransactionCount(wallet.address, blockTag),
+    getBlockNumber: () => provider.getBlockNumber(),
+    estimateGas: (request) =>
+      provider.estimateGas({ ...request, from: wallet.address }),
+    getFees: async () => {
+      const fee = await provider.getFeeData();
+      const gasPrice = fee.gasPrice ?? ethers.parseUnits('1', 'gwei');
+      return {
+        maxFeePerGas: fee.maxFeePerGas ?? gasPrice,
+        maxPriorityFeePerGas: fee.maxPriorityFeePerGas ?? gasPrice,
+      };
+    },
+    send: async (transaction) => {
+      const signed = await wallet.signTransaction({
+        ...transaction,
+        type: 2,
+        chainId: (await provider.getNetwork()).chainId,
+      });
+      try {
+        return (await provider.broadcastTransaction(signed)).hash;
+      } catch (error) {
+        // A rebroadcast the node already has is as good as sent
+        if (error instanceof Error && /already known/i.test(error.message)) {
+          return ethers.keccak256(signed);
+        }
+        throw error;
+      }
+    },
+    getReceipt: async (hash) => {
+      const receipt = await provider.getTransactionReceipt(hash);
+      return (
+        receipt && {
+          hash: receipt.hash,
+          status: receipt.status,
+          blockNumber: receipt.blockNumber,
+          logs: receipt.logs,
+        }
+      );
+    },
+  };
+}
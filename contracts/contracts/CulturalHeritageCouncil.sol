@@ -0,0 +1,376 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+
+interface IGRCRitualSubmission {
+    function registerBioregion(string calldata bioregionId, string calldata name) external;
+    function getBioregionName(string calldata bioregionId) external view returns (string memory);
+    function setRelayer(address relayer, bool allowed) external;
+    function pause() external;
+    function unpause() external;
+    function paused() external view returns (bool);
+}
+
+interface ISymbiosisPledge {
+    function registerBioregion(string memory id, string memory name) external;
+    function bioregions(string memory id) external view returns (string memory);
+    function addPledgeType(string memory pledgeType) external;
+    function setVerifier(address newVerifier) external;
+    function pause() external;
+    function unpause() external;
+    function paused() external view returns (bool);
+}
+
+/**
+ * @title CulturalHeritageCouncil
+ * @dev Governance of GRC_RitualSubmission and SymbiosisPledge by the Cultural Heritage Council
+ * @notice Owns both contracts. Council members propose changes and vote on them; a proposal
+ * that passes can be executed once its timelock has elapsed. Only members who joined before a
+ * proposal was made vote on it, and its proposer can cancel it only while voting is open.
+ */
+contract CulturalHeritageCouncil is ReentrancyGuard {
+
+    enum ProposalType {
+        RegisterBioregion,  // params: (string bioregionId, string name)
+        AddPledgeType,      // params: (string pledgeType)
+        Pause,              // params: none; pauses both contracts
+        Unpause,            // params: none; unpauses both contracts
+        SetVerifier,        // params: (address verifier)
+        AddMember,          // params: (address member)
+        RemoveMember,       // params: (address member)
+        SetRelayer          // params: (address relayer, bool allowed); relayers of ritual authorizations
+    }
+
+    enum ProposalState {
+        Active,     // Voting is open
+        Defeated,   // Quorum not met or not more votes for than against
+        Queued,     // Passed; waiting for the timelock
+        Executable,
+        Executed,
+        Canceled
+    }
+
+    struct Proposal {
+        ProposalType proposalType;
+        bytes params;           // ABI-encoded arguments of the action
+        string description;
+        address proposer;
+        uint256 votingEndsAt;
+        uint256 eta;            // Earliest execution time if the proposal passes
+        uint256 snapshotBlock;  // Members who joined at or after this block cannot vote
+        uint256 forVotes;
+        uint256 againstVotes;
+        bool executed;
+        bool canceled;
+    }
+
+    // State variables
+    IGRCRitualSubmission public immutable ritualSubmission;
+    ISymbiosisPledge public immutable symbiosisPledge;
+    uint256 public immutable votingPeriod;      // Seconds
+    uint256 public immutable timelockDelay;     // Seconds between the end of voting and execution
+    uint256 public immutable quorum;            // Votes needed for a proposal to pass
+
+    mapping(address => bool) public isMember;
+    mapping(address => uint256) public memberSince; // Block the member joined in
+    uint256 public memberCount;
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) private _proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    // Events
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        ProposalType proposalType,
+        bytes params,
+        string description,
+        uint256 votingEndsAt,
+        uint256 eta
+    );
+
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bool support);
+    event ProposalExecuted(uint256 indexed proposalId);
+    event ProposalCanceled(uint256 indexed proposalId);
+    event MemberAdded(address indexed member);
+    event MemberRemoved(address indexed member);
+
+    // Errors
+    error NotMember(address account);
+    error AlreadyMember(address account);
+    error InvalidQuorum(uint256 quorum, uint256 memberCount);
+    error InvalidParams(ProposalType proposalType);
+    error ProposalNotFound(uint256 proposalId);
+    error VotingClosed(uint256 proposalId);
+    error AlreadyVoted(uint256 proposalId, address voter);
+    error NotProposer(uint256 proposalId, address account);
+    error NotEligibleVoter(uint256 proposalId, address voter);
+    error InvalidProposalState(uint256 proposalId, ProposalState state);
+
+    modifier onlyMember() {
+        if (!isMember[msg.sender]) {
+            revert NotMember(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * @dev Constructor
+     * @param _ritualSubmission GRC_RitualSubmission, whose ownership is transferred to the council
+     * @param _symbiosisPledge SymbiosisPledge, whose ownership is transferred to the council
+     * @param members Initial council members
+     * @param _quorum Votes needed for a proposal to pass
+     * @param _votingPeriod Voting period in seconds
+     * @param _timelockDelay Delay in seconds between the end of voting and execution
+     */
+    constructor(
+        address _ritualSubmission,
+        address _symbiosisPledge,
+        address[] memory members,
+        uint256 _quorum,
+        uint256 _votingPeriod,
+        uint256 _timelockDelay
+    ) {
+        ritualSubmission = IGRCRitualSubmission(_ritualSubmission);
+        symbiosisPledge = ISymbiosisPledge(_symbiosisPledge);
+        votingPeriod = _votingPeriod;
+        timelockDelay = _timelockDelay;
+        quorum = _quorum;
+
+        for (uint256 i = 0; i < members.length; i++) {
+            _addMember(members[i]);
+        }
+
+        if (_quorum == 0 || _quorum > memberCount) {
+            revert InvalidQuorum(_quorum, memberCount);
+        }
+    }
+
+    /**
+     * @dev Propose an action on the governed contracts or the council
+     * @param proposalType Type of the action
+     * @param params ABI-encoded arguments of the action
+     * @param description Rationale for the proposal
+     * @return proposalId ID of the new proposal
+     */
+    function propose(
+        ProposalType proposalType,
+        bytes calldata params,
+        string calldata description
+    )
+        external
+        onlyMember
+        returns (uint256 proposalId)
+    {
+        _validateParams(proposalType, params);
+
+        proposalId = ++proposalCount;
+        Proposal storage proposal = _proposals[proposalId];
+        proposal.proposalType = proposalType;
+        proposal.params = params;
+        proposal.description = description;
+        proposal.proposer = msg.sender;
+        proposal.votingEndsAt = block.timestamp + votingPeriod;
+        proposal.eta = proposal.votingEndsAt + timelockDelay;
+        proposal.snapshotBlock = block.number;
+
+        emit ProposalCreated(
+            proposalId,
+            msg.sender,
+            proposalType,
+            params,
+            description,
+            proposal.votingEndsAt,
+            proposal.eta
+        );
+    }
+
+    /**
+     * @dev Vote on an active proposal; each member who joined before it was made votes once
+     * @param proposalId ID of the proposal
+     * @param support True to vote for, false to vote against
+     */
+    function castVote(uint256 proposalId, bool support) external onlyMember {
+        if (state(proposalId) != ProposalState.Active) {
+            revert VotingClosed(proposalId);
+        }
+        if (memberSince[msg.sender] >= _proposals[proposalId].snapshotBlock) {
+            revert NotEligibleVoter(proposalId, msg.sender);
+        }
+        if (hasVoted[proposalId][msg.sender]) {
+            revert AlreadyVoted(proposalId, msg.sender);
+        }
+
+        hasVoted[proposalId][msg.sender] = true;
+        if (support) {
+            _proposals[proposalId].forVotes++;
+        } else {
+            _proposals[proposalId].againstVotes++;
+        }
+
+        emit VoteCast(proposalId, msg.sender, support);
+    }
+
+    /**
+     * @dev Execute a passed proposal once its timelock has elapsed; anyone may execute
+     * @param proposalId ID of the proposal
+     */
+    function execute(uint256 proposalId) external nonReentrant {
+        ProposalState current = state(proposalId);
+        if (current != ProposalState.Executable) {
+            revert InvalidProposalState(proposalId, current);
+        }
+
+        Proposal storage proposal = _proposals[proposalId];
+        proposal.executed = true;
+        _execute(proposal.proposalType, proposal.params);
+
+        emit ProposalExecuted(proposalId);
+    }
+
+    /**
+     * @dev Cancel a proposal while voting is open (proposer only); once the council has
+     * decided, the proposer cannot overturn the decision
+     * @param proposalId ID of the proposal
+     */
+    function cancel(uint256 proposalId) external {
+        ProposalState current = state(proposalId);
+        if (current != ProposalState.Active) {
+            revert InvalidProposalState(proposalId, current);
+        }
+        if (_proposals[proposalId].proposer != msg.sender) {
+            revert NotProposer(proposalId, msg.sender);
+        }
+
+        _proposals[proposalId].canceled = true;
+        emit ProposalCanceled(proposalId);
+    }
+
+    /**
+     * @dev Get the state of a proposal
+     * @param proposalId ID of the proposal
+     * @return Current state
+     */
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        if (proposalId == 0 || proposalId > proposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+
+        Proposal storage proposal = _proposals[proposalId];
+        if (proposal.executed) return ProposalState.Executed;
+        if (proposal.canceled) return ProposalState.Canceled;
+        if (block.timestamp < proposal.votingEndsAt) return ProposalState.Active;
+        if (
+            proposal.forVotes + proposal.againstVotes < quorum ||
+            proposal.forVotes <= proposal.againstVotes
+        ) {
+            return ProposalState.Defeated;
+        }
+        if (block.timestamp < proposal.eta) return ProposalState.Queued;
+        return ProposalState.Executable;
+    }
+
+    /**
+     * @dev Get proposal by ID
+     * @param proposalId ID of the proposal
+     * @return proposal Proposal data
+     */
+    function getProposal(uint256 proposalId) external view returns (Proposal memory proposal) {
+        if (proposalId == 0 || proposalId > proposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+        return _proposals[proposalId];
+    }
+
+    function _validateParams(ProposalType proposalType, bytes calldata params) private view {
+        if (proposalType == ProposalType.RegisterBioregion) {
+            (string memory bioregionId, string memory name) = abi.decode(params, (string, string));
+            if (bytes(bioregionId).length == 0 || bytes(name).length == 0) {
+                revert InvalidParams(proposalType);
+            }
+        } else if (proposalType == ProposalType.AddPledgeType) {
+            string memory pledgeType = abi.decode(params, (string));
+            if (bytes(pledgeType).length == 0) {
+                revert InvalidParams(proposalType);
+            }
+        } else if (proposalType == ProposalType.Pause || proposalType == ProposalType.Unpause) {
+            if (params.length != 0) {
+                revert InvalidParams(proposalType);
+            }
+        } else if (proposalType == ProposalType.SetVerifier) {
+            abi.decode(params, (address)); // The zero address leaves verification to the owner
+        } else if (proposalType == ProposalType.AddMember) {
+            address member = abi.decode(params, (address));
+            if (member == address(0) || isMember[member]) {
+                revert InvalidParams(proposalType);
+            }
+        } else if (proposalType == ProposalType.RemoveMember) {
+            address member = abi.decode(params, (address));
+            if (!isMember[member]) {
+                revert InvalidParams(proposalType);
+            }
+        } else if (proposalType == ProposalType.SetRelayer) {
+            (address relayer, ) = abi.decode(params, (address, bool));
+            if (relayer == address(0)) {
+                revert InvalidParams(proposalType);
+            }
+        }
+    }
+
+    function _execute(ProposalType proposalType, bytes memory params) private {
+        if (proposalType == ProposalType.RegisterBioregion) {
+            (string memory bioregionId, string memory name) = abi.decode(params, (string, string));
+            // GRC_RitualSubmission rejects a second registration
+            if (bytes(ritualSubmission.getBioregionName(bioregionId)).length == 0) {
+                ritualSubmission.registerBioregion(bioregionId, name);
+            }
+            symbiosisPledge.registerBioregion(bioregionId, name);
+        } else if (proposalType == ProposalType.AddPledgeType) {
+            symbiosisPledge.addPledgeType(abi.decode(params, (string)));
+        } else if (proposalType == ProposalType.Pause) {
+            if (!ritualSubmission.paused()) ritualSubmission.pause();
+            if (!symbiosisPledge.paused()) symbiosisPledge.pause();
+        } else if (proposalType == ProposalType.Unpause) {
+            if (ritualSubmission.paused()) ritualSubmission.unpause();
+            if (symbiosisPledge.paused()) symbiosisPledge.unpause();
+        } else if (proposalType == ProposalType.SetVerifier) {
+            symbiosisPledge.setVerifier(abi.decode(params, (address)));
+        } else if (proposalType == ProposalType.AddMember) {
+            _addMember(abi.decode(params, (address)));
+        } else if (proposalType == ProposalType.RemoveMember) {
+            _removeMember(abi.decode(params, (address)));
+        } else if (proposalType == ProposalType.SetRelayer) {
+            (address relayer, bool allowed) = abi.decode(params, (address, bool));
+            ritualSubmission.setRelayer(relayer, allowed);
+        }
+    }
+
+    function _addMember(address member) private {
+        if (member == address(0)) {
+            revert NotMember(member);
+        }
+        if (isMember[member]) {
+            revert AlreadyMember(member);
+        }
+
+        isMember[member] = true;
+        memberSince[member] = block.number;
+        memberCount++;
+        emit MemberAdded(member);
+    }
+
+    function _removeMember(address member) private {
+        if (!isMember[member]) {
+            revert NotMember(member);
+        }
+        // The remaining members must still be able to reach quorum
+        if (memberCount - 1 < quorum) {
+            revert InvalidQuorum(quorum, memberCount - 1);
+        }
+
+        isMember[member] = false;
+        memberCount--;
+        emit MemberRemoved(member);
+    }
+}
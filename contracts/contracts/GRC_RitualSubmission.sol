@@ -4,13 +4,22 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 
 /**
  * @title GRC_RitualSubmission
- * @dev Smart contract for logging ritual submissions on Base testnet
+ * @dev Smart contract for logging ritual submissions on Base testnet. Authors
+ * log their rituals themselves, or sign an EIP-712 authorization that a
+ * relayer submits on their behalf and pays the gas for. Authors sign before
+ * the metadata is pinned, so the authorization covers the content hash and
+ * not the IPFS hash; the content hash is stored with the ritual, and the
+ * metadata at the IPFS hash holds the content to check it against. The
+ * authorization does not cover the IPFS hash or the validation scores, so
+ * only the owner and the relayers it allows may relay it.
  * @author Valtid Caushi - Symbiotic Syntheconomy v1.0
  */
-contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
+contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard, EIP712 {
 
     struct Ritual {
         string ipfsHash;
@@ -21,6 +30,15 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
         uint256 narrativeScore; // 0-1000 (0.0-1.0 * 1000)
         bool isApproved;
         uint256 timestamp;
+        bytes32 contentHash;    // Signed by the author; zero when submitted directly
+    }
+
+    // Author's consent to log a ritual, signed as EIP-712 typed data
+    struct Authorization {
+        bytes32 contentHash;    // keccak256 of the ritual content
+        bytes32 nonce;          // Chosen by the author; usable once
+        uint256 deadline;       // Unix time after which it cannot be used
+        bytes signature;
     }
 
     struct Statistics {
@@ -36,6 +54,12 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
     mapping(string => string) private _bioregionNames;
     mapping(string => uint256) private _submissionsByBioregion;
     string[] private _registeredBioregions;
+    mapping(address => mapping(bytes32 => bool)) private _usedNonces;
+    mapping(address => bool) private _relayers;
+
+    bytes32 private constant AUTHORIZATION_TYPEHASH = keccak256(
+        "RitualAuthorization(address author,string bioregionId,bytes32 contentHash,bytes32 nonce,uint256 deadline)"
+    );
 
     // Events
     event RitualSubmitted(
@@ -49,6 +73,15 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
         bool isApproved
     );
 
+    event AuthorizationUsed(
+        address indexed author,
+        bytes32 indexed nonce,
+        address indexed relayer,
+        uint256 ritualId,
+        bytes32 contentHash
+    );
+
+    event RelayerUpdated(address indexed relayer, bool allowed);
     event BioregionRegistered(string indexed bioregionId, string name);
     event ContractPaused(address indexed by);
     event ContractUnpaused(address indexed by);
@@ -58,11 +91,16 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
     error BioregionAlreadyRegistered(string bioregionId);
     error RitualNotFound(uint256 ritualId);
     error InvalidScore(uint256 score, uint256 maxScore);
+    error NotAuthor(address author, address sender);
+    error AuthorizationExpired(uint256 deadline);
+    error NonceAlreadyUsed(address author, bytes32 nonce);
+    error InvalidSignature(address author);
+    error NotRelayer(address sender);
 
     /**
      * @dev Constructor
      */
-    constructor() Ownable() {
+    constructor() Ownable() EIP712("GRC_RitualSubmission", "1") {
         _ritualCounter = 0;
     }
 
@@ -86,10 +124,29 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
     }
 
     /**
-     * @dev Submit a ritual for logging
+     * @dev Allow or disallow an address to relay authorizations
+     * @param relayer Address of the relayer
+     * @param allowed True to allow it to relay
+     */
+    function setRelayer(address relayer, bool allowed) external onlyOwner {
+        _relayers[relayer] = allowed;
+        emit RelayerUpdated(relayer, allowed);
+    }
+
+    /**
+     * @dev Whether an address may relay authorizations
+     * @param account Address to check
+     * @return allowed True for the owner and allowed relayers
+     */
+    function isRelayer(address account) public view returns (bool allowed) {
+        return _relayers[account] || account == owner();
+    }
+
+    /**
+     * @dev Submit a ritual for logging, as its author
      * @param ipfsHash IPFS hash of the ritual metadata
      * @param bioregionId ID of the bioregion
-     * @param author Address of the ritual author
+     * @param author Address of the ritual author; must be the sender
      * @param esepScore ESEP validation score (0-1000)
      * @param cedaScore CEDA cultural reference count
      * @param narrativeScore Narrative forensics score (0-1000)
@@ -107,6 +164,133 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
         external
         whenNotPaused
         nonReentrant
+    {
+        if (author != msg.sender) {
+            revert NotAuthor(author, msg.sender);
+        }
+
+        _submitRitual(
+            ipfsHash,
+            bioregionId,
+            author,
+            esepScore,
+            cedaScore,
+            narrativeScore,
+            isApproved,
+            bytes32(0)
+        );
+    }
+
+    /**
+     * @dev Submit a ritual on behalf of its author, who signed an
+     * authorization for it; the sender, the owner or an allowed relayer,
+     * relays it and pays the gas
+     * @param ipfsHash IPFS hash of the ritual metadata
+     * @param bioregionId ID of the bioregion, as signed
+     * @param author Address of the ritual author, who signed the authorization
+     * @param esepScore ESEP validation score (0-1000)
+     * @param cedaScore CEDA cultural reference count
+     * @param narrativeScore Narrative forensics score (0-1000)
+     * @param isApproved Whether the ritual passed validation
+     * @param authorization Signed authorization of the author
+     */
+    function submitRitualBySig(
+        string calldata ipfsHash,
+        string calldata bioregionId,
+        address author,
+        uint256 esepScore,
+        uint256 cedaScore,
+        uint256 narrativeScore,
+        bool isApproved,
+        Authorization calldata authorization
+    )
+        external
+        whenNotPaused
+        nonReentrant
+    {
+        if (!isRelayer(msg.sender)) {
+            revert NotRelayer(msg.sender);
+        }
+        if (block.timestamp > authorization.deadline) {
+            revert AuthorizationExpired(authorization.deadline);
+        }
+        if (_usedNonces[author][authorization.nonce]) {
+            revert NonceAlreadyUsed(author, authorization.nonce);
+        }
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    AUTHORIZATION_TYPEHASH,
+                    author,
+                    keccak256(bytes(bioregionId)),
+                    authorization.contentHash,
+                    authorization.nonce,
+                    authorization.deadline
+                )
+            )
+        );
+        if (
+            !SignatureChecker.isValidSignatureNow(
+                author,
+                digest,
+                authorization.signature
+            )
+        ) {
+            revert InvalidSignature(author);
+        }
+
+        _usedNonces[author][authorization.nonce] = true;
+        uint256 ritualId = _submitRitual(
+            ipfsHash,
+            bioregionId,
+            author,
+            esepScore,
+            cedaScore,
+            narrativeScore,
+            isApproved,
+            authorization.contentHash
+        );
+
+        emit AuthorizationUsed(
+            author,
+            authorization.nonce,
+            msg.sender,
+            ritualId,
+            authorization.contentHash
+        );
+    }
+
+    /**
+     * @dev Whether an author's authorization nonce has been used
+     * @param author Address of the author
+     * @param nonce Nonce of the authorization
+     * @return used True if a ritual was submitted with it
+     */
+    function isNonceUsed(address author, bytes32 nonce) external view returns (bool used) {
+        return _usedNonces[author][nonce];
+    }
+
+    /**
+     * @dev EIP-712 domain separator that authorizations are signed for
+     * @return separator Domain separator of this contract
+     */
+    function domainSeparator() external view returns (bytes32 separator) {
+        return _domainSeparatorV4();
+    }
+
+    function _submitRitual(
+        string calldata ipfsHash,
+        string calldata bioregionId,
+        address author,
+        uint256 esepScore,
+        uint256 cedaScore,
+        uint256 narrativeScore,
+        bool isApproved,
+        bytes32 contentHash
+    )
+        private
+        returns (uint256 ritualId)
     {
         // Validate bioregion is registered
         if (bytes(_bioregionNames[bioregionId]).length == 0) {
@@ -131,7 +315,8 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
             cedaScore: cedaScore,
             narrativeScore: narrativeScore,
             isApproved: isApproved,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            contentHash: contentHash
         });
 
         _rituals[_ritualCounter] = ritual;
@@ -147,6 +332,8 @@ contract GRC_RitualSubmission is Ownable, Pausable, ReentrancyGuard {
             narrativeScore,
             isApproved
         );
+
+        return _ritualCounter;
     }
 
     /**
@@ -41,6 +41,8 @@ contract SymbiosisPledge is Ownable, ReentrancyGuard, Pausable {
         uint256 timestamp
     );
 
+    event VerifierChanged(address indexed previousVerifier, address indexed newVerifier);
+
     event BioregionPledge(
         string indexed bioregionId,
         uint256 totalPledges,
@@ -90,6 +92,9 @@ contract SymbiosisPledge is Ownable, ReentrancyGuard, Pausable {
     uint256 public totalCommitment;
     uint256 public verifiedCommitment;
 
+    // Designated verifier of pledges besides the owner; none when zero
+    address public verifier;
+
     // Constants
     uint256 public constant MIN_COMMITMENT_AMOUNT = 1;
     uint256 public constant MAX_COMMITMENT_AMOUNT = 1000000;
@@ -140,6 +145,14 @@ contract SymbiosisPledge is Ownable, ReentrancyGuard, Pausable {
         _;
     }
 
+    modifier onlyOwnerOrVerifier() {
+        require(
+            msg.sender == owner() || (verifier != address(0) && msg.sender == verifier),
+            "Only owner or verifier can verify"
+        );
+        _;
+    }
+
     modifier pledgeNotFulfilled(uint256 pledgeId) {
         require(!pledges[pledgeId].isFulfilled, "Pledge already fulfilled");
         _;
@@ -298,7 +311,7 @@ contract SymbiosisPledge is Ownable, ReentrancyGuard, Pausable {
         string memory verificationNotes
     )
         external
-        onlyOwner
+        onlyOwnerOrVerifier
         validPledgeId(pledgeId)
     {
         require(pledges[pledgeId].isFulfilled, "Pledge must be fulfilled before verification");
@@ -429,6 +442,15 @@ contract SymbiosisPledge is Ownable, ReentrancyGuard, Pausable {
         pledgeTypes.push(pledgeType);
     }
 
+    /**
+     * @dev Designate the verifier of pledges (owner only)
+     * @param newVerifier The new verifier, or the zero address to leave verification to the owner
+     */
+    function setVerifier(address newVerifier) external onlyOwner {
+        emit VerifierChanged(verifier, newVerifier);
+        verifier = newVerifier;
+    }
+
     /**
      * @dev Pause contract (emergency only)
      */
@@ -1,5 +1,8 @@
 import { ethers } from 'hardhat';
 import { verify } from './verify';
+// Bioregions registered at deployment; the backend imports them into its
+// registry and registers later ones itself
+import bioregions from './bioregions.json';
 
 async function main() {
   console.log('🚀 Starting GRC contract deployment...');
@@ -45,18 +48,12 @@ async function main() {
   console.log('\n🌍 Registering bioregions...');
   // If registerBioregion does not exist, use a generic function call or skip
   if (typeof (grcRitualSubmission as any).registerBioregion === 'function') {
-    await (grcRitualSubmission as any).registerBioregion(
-      'tech-haven',
-      'Tech Haven',
-    );
-    await (grcRitualSubmission as any).registerBioregion(
-      'mythic-forest',
-      'Mythic Forest',
-    );
-    await (grcRitualSubmission as any).registerBioregion(
-      'isolated-bastion',
-      'Isolated Bastion',
-    );
+    for (const bioregion of bioregions) {
+      await (grcRitualSubmission as any).registerBioregion(
+        bioregion.id,
+        bioregion.name,
+      );
+    }
   } else {
     console.warn(
       '⚠️  registerBioregion function not found on GRC_RitualSubmission contract. Skipping bioregion registration.',
@@ -66,14 +63,61 @@ async function main() {
 
   // Register bioregions in Pledge contract
   console.log('\n🌍 Registering bioregions in pledge contract...');
-  await symbiosisPledge.registerBioregion('tech-haven', 'Tech Haven');
-  await symbiosisPledge.registerBioregion('mythic-forest', 'Mythic Forest');
-  await symbiosisPledge.registerBioregion(
-    'isolated-bastion',
-    'Isolated Bastion',
-  );
+  for (const bioregion of bioregions) {
+    await symbiosisPledge.registerBioregion(bioregion.id, bioregion.name);
+  }
   console.log('✅ Bioregions registered in pledge contract');
 
+  // The backend wallet relays authors' signed ritual authorizations; allowed
+  // explicitly, as the deployer stops being the owner once the council is
+  const relayer = process.env.RELAYER_ADDRESS || deployer.address;
+  await (await grcRitualSubmission.setRelayer(relayer, true)).wait();
+  console.log('✅ Ritual authorization relayer:', relayer);
+
+  // Deploy the Cultural Heritage Council and hand it both contracts; without
+  // council members the deployer keeps ownership
+  const councilMembers = Object.keys(process.env)
+    .filter((name) => /^COUNCIL_MEMBER_\d+$/.test(name))
+    .map((name) => process.env[name]!)
+    .filter((address) => ethers.isAddress(address));
+  let councilAddress: string | null = null;
+
+  if (councilMembers.length > 0) {
+    console.log('\n🏛️  Deploying CulturalHeritageCouncil...');
+    const councilArgs = [
+      grcRitualSubmissionAddress,
+      symbiosisPledgeAddress,
+      councilMembers,
+      parseInt(
+        process.env.COUNCIL_QUORUM ||
+          `${Math.floor(councilMembers.length / 2) + 1}`,
+      ),
+      parseInt(process.env.COUNCIL_VOTING_PERIOD_DAYS || '3') * 24 * 60 * 60,
+      parseInt(process.env.COUNCIL_TIMELOCK_HOURS || '48') * 60 * 60,
+    ] as const;
+    const Council = await ethers.getContractFactory('CulturalHeritageCouncil');
+    const council = await Council.deploy(...councilArgs);
+    await council.waitForDeployment();
+    await council.deploymentTransaction()?.wait(5);
+    councilAddress = await council.getAddress();
+    console.log('✅ CulturalHeritageCouncil deployed to:', councilAddress);
+
+    await (await grcRitualSubmission.transferOwnership(councilAddress)).wait();
+    await (await symbiosisPledge.transferOwnership(councilAddress)).wait();
+    console.log('✅ Contract ownership transferred to the council');
+
+    try {
+      await verify(councilAddress, [...councilArgs]);
+      console.log('✅ CulturalHeritageCouncil verified on BaseScan');
+    } catch (error) {
+      console.log('⚠️  CulturalHeritageCouncil verification failed:', error);
+    }
+  } else {
+    console.warn(
+      '⚠️  No COUNCIL_MEMBER_* addresses set. Skipping council deployment.',
+    );
+  }
+
   // Verify contracts on BaseScan
   console.log('\n🔍 Verifying contracts on BaseScan...');
 
@@ -98,6 +142,7 @@ async function main() {
   console.log('Deployer:', deployer.address);
   console.log('GRC_RitualSubmission:', grcRitualSubmissionAddress);
   console.log('SymbiosisPledge:', symbiosisPledgeAddress);
+  console.log('CulturalHeritageCouncil:', councilAddress ?? 'not deployed');
   console.log('================================');
 
   // Save deployment addresses to file
@@ -107,8 +152,9 @@ async function main() {
     contracts: {
       GRCRitualSubmission: grcRitualSubmissionAddress,
       SymbiosisPledge: symbiosisPledgeAddress,
+      ...(councilAddress && { CulturalHeritageCouncil: councilAddress }),
     },
-    bioregions: ['tech-haven', 'mythic-forest', 'isolated-bastion'],
+    bioregions: bioregions.map((bioregion) => bioregion.id),
     timestamp: new Date().toISOString(),
   };
 
@@ -123,6 +169,7 @@ async function main() {
   const envContent = `# GRC Contract Addresses (Base Testnet)
 GRC_CONTRACT_ADDRESS=${grcRitualSubmissionAddress}
 PLEDGE_CONTRACT_ADDRESS=${symbiosisPledgeAddress}
+COUNCIL_CONTRACT_ADDRESS=${councilAddress ?? ''}
 
 # Base Testnet Configuration
 BASE_TESTNET_URL=https://sepolia.base.org
@@ -139,6 +186,7 @@ BASESCAN_API_KEY=your_basescan_api_key_here
   return {
     grcRitualSubmission: grcRitualSubmissionAddress,
     symbiosisPledge: symbiosisPledgeAddress,
+    council: councilAddress,
   };
 }
 
@@ -0,0 +1,339 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import {
+  CulturalHeritageCouncil,
+  GRC_RitualSubmission,
+  SymbiosisPledge,
+} from '../typechain-types';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+// Proposal types and states, in contract order
+const RegisterBioregion = 0;
+const AddPledgeType = 1;
+const Pause = 2;
+const Unpause = 3;
+const SetVerifier = 4;
+const AddMember = 5;
+const RemoveMember = 6;
+const SetRelayer = 7;
+
+const Active = 0;
+const Defeated = 1;
+const Queued = 2;
+const Executable = 3;
+const Executed = 4;
+const Canceled = 5;
+
+const VOTING_PERIOD = 3 * 24 * 60 * 60;
+const TIMELOCK_DELAY = 2 * 24 * 60 * 60;
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+describe('CulturalHeritageCouncil', function () {
+  let council: CulturalHeritageCouncil;
+  let grcRitualSubmission: GRC_RitualSubmission;
+  let symbiosisPledge: SymbiosisPledge;
+  let members: SignerWithAddress[];
+  let outsider: SignerWithAddress;
+
+  beforeEach(async function () {
+    let rest: SignerWithAddress[];
+    // The first signer deploys and owns the contracts
+    [, outsider, ...rest] = await ethers.getSigners();
+    members = rest.slice(0, 3);
+
+    const GRCRitualSubmission = await ethers.getContractFactory(
+      'GRC_RitualSubmission',
+    );
+    grcRitualSubmission = await GRCRitualSubmission.deploy();
+    const SymbiosisPledge = await ethers.getContractFactory('SymbiosisPledge');
+    symbiosisPledge = await SymbiosisPledge.deploy();
+
+    const Council = await ethers.getContractFactory('CulturalHeritageCouncil');
+    council = await Council.deploy(
+      await grcRitualSubmission.getAddress(),
+      await symbiosisPledge.getAddress(),
+      members.map((member) => member.address),
+      2,
+      VOTING_PERIOD,
+      TIMELOCK_DELAY,
+    );
+    await council.waitForDeployment();
+
+    const councilAddress = await council.getAddress();
+    await grcRitualSubmission.transferOwnership(councilAddress);
+    await symbiosisPledge.transferOwnership(councilAddress);
+  });
+
+  // Propose, pass with every member's vote and wait out the timelock
+  async function pass(proposalType: number, params: string) {
+    await council.connect(members[0]).propose(proposalType, params, 'test');
+    const proposalId = await council.proposalCount();
+    for (const member of members) {
+      await council.connect(member).castVote(proposalId, true);
+    }
+    await time.increase(VOTING_PERIOD + TIMELOCK_DELAY);
+    return proposalId;
+  }
+
+  describe('Deployment', function () {
+    it('Should register the initial members', async function () {
+      expect(await council.memberCount()).to.equal(3);
+      expect(await council.isMember(members[0].address)).to.be.true;
+      expect(await council.isMember(outsider.address)).to.be.false;
+    });
+
+    it('Should reject a quorum larger than the council', async function () {
+      const Council = await ethers.getContractFactory(
+        'CulturalHeritageCouncil',
+      );
+      await expect(
+        Council.deploy(
+          await grcRitualSubmission.getAddress(),
+          await symbiosisPledge.getAddress(),
+          [members[0].address],
+          2,
+          VOTING_PERIOD,
+          TIMELOCK_DELAY,
+        ),
+      ).to.be.revertedWithCustomError(council, 'InvalidQuorum');
+    });
+  });
+
+  describe('Proposals', function () {
+    it('Should only allow members to propose', async function () {
+      await expect(
+        council.connect(outsider).propose(Pause, '0x', 'Emergency stop'),
+      ).to.be.revertedWithCustomError(council, 'NotMember');
+    });
+
+    it('Should reject malformed params', async function () {
+      await expect(
+        council
+          .connect(members[0])
+          .propose(
+            RegisterBioregion,
+            coder.encode(['string', 'string'], ['', 'Tech Haven']),
+            'Empty ID',
+          ),
+      ).to.be.revertedWithCustomError(council, 'InvalidParams');
+    });
+
+    it('Should emit ProposalCreated with the timelock', async function () {
+      await expect(
+        council.connect(members[0]).propose(Pause, '0x', 'Emergency stop'),
+      ).to.emit(council, 'ProposalCreated');
+
+      const proposal = await council.getProposal(1);
+      expect(proposal.eta - proposal.votingEndsAt).to.equal(TIMELOCK_DELAY);
+      expect(await council.state(1)).to.equal(Active);
+    });
+  });
+
+  describe('Voting', function () {
+    beforeEach(async function () {
+      await council.connect(members[0]).propose(Pause, '0x', 'Emergency stop');
+    });
+
+    it('Should allow one vote per member', async function () {
+      await council.connect(members[0]).castVote(1, true);
+      await expect(
+        council.connect(members[0]).castVote(1, true),
+      ).to.be.revertedWithCustomError(council, 'AlreadyVoted');
+    });
+
+    it('Should not allow outsiders to vote', async function () {
+      await expect(
+        council.connect(outsider).castVote(1, true),
+      ).to.be.revertedWithCustomError(council, 'NotMember');
+    });
+
+    it('Should not allow votes after the voting period', async function () {
+      await time.increase(VOTING_PERIOD);
+      await expect(
+        council.connect(members[0]).castVote(1, true),
+      ).to.be.revertedWithCustomError(council, 'VotingClosed');
+    });
+
+    it('Should not allow members who joined during the vote to vote', async function () {
+      await council
+        .connect(members[0])
+        .propose(
+          AddMember,
+          coder.encode(['address'], [outsider.address]),
+          'New member',
+        );
+      for (const member of members) {
+        await council.connect(member).castVote(2, true);
+      }
+      await time.increase(VOTING_PERIOD);
+      await council.connect(members[0]).propose(Unpause, '0x', 'Resume');
+      await time.increase(TIMELOCK_DELAY);
+      await council.execute(2);
+
+      expect(await council.state(1)).to.equal(Defeated);
+      expect(await council.state(3)).to.equal(Active);
+      await expect(
+        council.connect(outsider).castVote(3, true),
+      ).to.be.revertedWithCustomError(council, 'NotEligibleVoter');
+
+      // Proposals made after joining are open to the new member
+      await council.connect(members[0]).propose(Pause, '0x', 'Stop again');
+      await expect(council.connect(outsider).castVote(4, true)).to.emit(
+        council,
+        'VoteCast',
+      );
+    });
+
+    it('Should defeat a proposal without quorum', async function () {
+      await council.connect(members[0]).castVote(1, true);
+      await time.increase(VOTING_PERIOD);
+      expect(await council.state(1)).to.equal(Defeated);
+    });
+
+    it('Should defeat a proposal on a tie', async function () {
+      await council.connect(members[0]).castVote(1, true);
+      await council.connect(members[1]).castVote(1, false);
+      await time.increase(VOTING_PERIOD);
+      expect(await council.state(1)).to.equal(Defeated);
+    });
+  });
+
+  describe('Execution', function () {
+    it('Should not execute before the timelock has elapsed', async function () {
+      await council.connect(members[0]).propose(Pause, '0x', 'Emergency stop');
+      await council.connect(members[0]).castVote(1, true);
+      await council.connect(members[1]).castVote(1, true);
+      await time.increase(VOTING_PERIOD);
+
+      expect(await council.state(1)).to.equal(Queued);
+      await expect(council.execute(1)).to.be.revertedWithCustomError(
+        council,
+        'InvalidProposalState',
+      );
+
+      await time.increase(TIMELOCK_DELAY);
+      expect(await council.state(1)).to.equal(Executable);
+    });
+
+    it('Should register a bioregion on both contracts', async function () {
+      const proposalId = await pass(
+        RegisterBioregion,
+        coder.encode(['string', 'string'], ['tech-haven', 'Tech Haven']),
+      );
+
+      await expect(council.connect(outsider).execute(proposalId)).to.emit(
+        council,
+        'ProposalExecuted',
+      );
+      expect(await council.state(proposalId)).to.equal(Executed);
+      expect(await grcRitualSubmission.getBioregionName('tech-haven')).to.equal(
+        'Tech Haven',
+      );
+      expect(await symbiosisPledge.bioregions('tech-haven')).to.equal(
+        'Tech Haven',
+      );
+    });
+
+    it('Should add a pledge type', async function () {
+      const proposalId = await pass(
+        AddPledgeType,
+        coder.encode(['string'], ['seed_saving']),
+      );
+      await council.execute(proposalId);
+
+      expect(await symbiosisPledge.getPledgeTypes()).to.include('seed_saving');
+    });
+
+    it('Should pause and unpause both contracts', async function () {
+      await council.execute(await pass(Pause, '0x'));
+      expect(await grcRitualSubmission.paused()).to.be.true;
+      expect(await symbiosisPledge.paused()).to.be.true;
+
+      await council.execute(await pass(Unpause, '0x'));
+      expect(await grcRitualSubmission.paused()).to.be.false;
+      expect(await symbiosisPledge.paused()).to.be.false;
+    });
+
+    it('Should change the pledge verifier', async function () {
+      const proposalId = await pass(
+        SetVerifier,
+        coder.encode(['address'], [outsider.address]),
+      );
+
+      await expect(council.execute(proposalId))
+        .to.emit(symbiosisPledge, 'VerifierChanged')
+        .withArgs(ethers.ZeroAddress, outsider.address);
+      expect(await symbiosisPledge.verifier()).to.equal(outsider.address);
+    });
+
+    it('Should add and remove members', async function () {
+      await council.execute(
+        await pass(AddMember, coder.encode(['address'], [outsider.address])),
+      );
+      expect(await council.isMember(outsider.address)).to.be.true;
+      expect(await council.memberCount()).to.equal(4);
+
+      await council.execute(
+        await pass(RemoveMember, coder.encode(['address'], [outsider.address])),
+      );
+      expect(await council.isMember(outsider.address)).to.be.false;
+    });
+
+    it('Should allow a relayer of ritual authorizations', async function () {
+      const proposalId = await pass(
+        SetRelayer,
+        coder.encode(['address', 'bool'], [outsider.address, true]),
+      );
+
+      await expect(council.execute(proposalId))
+        .to.emit(grcRitualSubmission, 'RelayerUpdated')
+        .withArgs(outsider.address, true);
+      expect(await grcRitualSubmission.isRelayer(outsider.address)).to.be.true;
+    });
+
+    it('Should not execute a proposal twice', async function () {
+      const proposalId = await pass(Pause, '0x');
+      await council.execute(proposalId);
+
+      await expect(council.execute(proposalId)).to.be.revertedWithCustomError(
+        council,
+        'InvalidProposalState',
+      );
+    });
+  });
+
+  describe('Cancellation', function () {
+    it('Should allow the proposer to cancel', async function () {
+      await council.connect(members[0]).propose(Pause, '0x', 'Emergency stop');
+      await council.connect(members[0]).cancel(1);
+
+      expect(await council.state(1)).to.equal(Canceled);
+    });
+
+    it('Should not allow a proposal the council passed to be canceled', async function () {
+      await council.connect(members[0]).propose(Pause, '0x', 'Emergency stop');
+      await council.connect(members[0]).castVote(1, true);
+      await council.connect(members[1]).castVote(1, true);
+      await time.increase(VOTING_PERIOD);
+
+      expect(await council.state(1)).to.equal(Queued);
+      await expect(
+        council.connect(members[0]).cancel(1),
+      ).to.be.revertedWithCustomError(council, 'InvalidProposalState');
+
+      await time.increase(TIMELOCK_DELAY);
+      await expect(
+        council.connect(members[0]).cancel(1),
+      ).to.be.revertedWithCustomError(council, 'InvalidProposalState');
+    });
+
+    it('Should not allow others to cancel', async function () {
+      await council.connect(members[0]).propose(Pause, '0x', 'Emergency stop');
+      await expect(
+        council.connect(members[1]).cancel(1),
+      ).to.be.revertedWithCustomError(council, 'NotProposer');
+    });
+  });
+});
@@ -199,6 +199,174 @@ describe('GRC_RitualSubmission', function () {
     });
   });
 
+  describe('Relayed Submission', function () {
+    const contentHash = ethers.id('Gather at the spring at first light.');
+    const nonce = ethers.id('nonce-1');
+    let deadline: number;
+
+    // Authorization as the author signs it in their wallet
+    const authorize = async (
+      signer: SignerWithAddress,
+      overrides: { bioregionId?: string; deadline?: number } = {},
+    ) => {
+      const value = {
+        author: submitter.address,
+        bioregionId: overrides.bioregionId ?? 'tech-haven',
+        contentHash,
+        nonce,
+        deadline: overrides.deadline ?? deadline,
+      };
+      const signature = await signer.signTypedData(
+        {
+          name: 'GRC_RitualSubmission',
+          version: '1',
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await grcRitualSubmission.getAddress(),
+        },
+        {
+          RitualAuthorization: [
+            { name: 'author', type: 'address' },
+            { name: 'bioregionId', type: 'string' },
+            { name: 'contentHash', type: 'bytes32' },
+            { name: 'nonce', type: 'bytes32' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        value,
+      );
+      return {
+        contentHash,
+        nonce,
+        deadline: value.deadline,
+        signature,
+      };
+    };
+
+    const relay = (
+      authorization: Awaited<ReturnType<typeof authorize>>,
+      relayer: SignerWithAddress = daoMember,
+    ) =>
+      grcRitualSubmission
+        .connect(relayer)
+        .submitRitualBySig(
+          'QmTestHash123456789',
+          'tech-haven',
+          submitter.address,
+          500,
+          2,
+          600,
+          true,
+          authorization,
+        );
+
+    beforeEach(async function () {
+      await grcRitualSubmission.registerBioregion('tech-haven', 'Tech Haven');
+      await grcRitualSubmission.setRelayer(daoMember.address, true);
+      const block = await ethers.provider.getBlock('latest');
+      deadline = block!.timestamp + 3600;
+    });
+
+    it('Should log the signer as author when relayed', async function () {
+      await expect(relay(await authorize(submitter)))
+        .to.emit(grcRitualSubmission, 'AuthorizationUsed')
+        .withArgs(submitter.address, nonce, daoMember.address, 1, contentHash);
+
+      const ritual = await grcRitualSubmission.getRitual(1);
+      expect(ritual.author).to.equal(submitter.address);
+      expect(ritual.contentHash).to.equal(contentHash);
+      expect(await grcRitualSubmission.isNonceUsed(submitter.address, nonce)).to
+        .be.true;
+    });
+
+    it('Should not accept a relay from a third party', async function () {
+      const [thirdParty] = addrs;
+      await expect(
+        relay(await authorize(submitter), thirdParty),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'NotRelayer');
+      expect(await grcRitualSubmission.isNonceUsed(submitter.address, nonce)).to
+        .be.false;
+
+      // Nor from a relayer that was disallowed
+      await grcRitualSubmission.setRelayer(daoMember.address, false);
+      await expect(
+        relay(await authorize(submitter)),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'NotRelayer');
+    });
+
+    it('Should only allow the owner to change relayers', async function () {
+      await expect(
+        grcRitualSubmission
+          .connect(daoMember)
+          .setRelayer(submitter.address, true),
+      ).to.be.revertedWithCustomError(
+        grcRitualSubmission,
+        'OwnableUnauthorizedAccount',
+      );
+      await expect(grcRitualSubmission.setRelayer(submitter.address, true))
+        .to.emit(grcRitualSubmission, 'RelayerUpdated')
+        .withArgs(submitter.address, true);
+      expect(await grcRitualSubmission.isRelayer(owner.address)).to.be.true;
+    });
+
+    it('Should not allow an authorization to be replayed', async function () {
+      const authorization = await authorize(submitter);
+      await relay(authorization);
+
+      await expect(relay(authorization)).to.be.revertedWithCustomError(
+        grcRitualSubmission,
+        'NonceAlreadyUsed',
+      );
+    });
+
+    it('Should not accept an authorization signed by someone else', async function () {
+      await expect(
+        relay(await authorize(daoMember)),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'InvalidSignature');
+    });
+
+    it('Should not accept an authorization for another bioregion', async function () {
+      await expect(
+        relay(await authorize(submitter, { bioregionId: 'mythic-forest' })),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'InvalidSignature');
+    });
+
+    it('Should not accept an authorization with a tampered content hash', async function () {
+      const authorization = await authorize(submitter);
+      await expect(
+        relay({
+          ...authorization,
+          contentHash: ethers.id('Gather at the river at dusk.'),
+        }),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'InvalidSignature');
+    });
+
+    it('Should not accept an expired authorization', async function () {
+      const block = await ethers.provider.getBlock('latest');
+      await expect(
+        relay(await authorize(submitter, { deadline: block!.timestamp - 1 })),
+      ).to.be.revertedWithCustomError(
+        grcRitualSubmission,
+        'AuthorizationExpired',
+      );
+    });
+
+    it('Should not allow direct submission in the name of another author', async function () {
+      await expect(
+        grcRitualSubmission
+          .connect(daoMember)
+          .submitRitual(
+            'QmTestHash123456789',
+            'tech-haven',
+            submitter.address,
+            500,
+            2,
+            600,
+            true,
+          ),
+      ).to.be.revertedWithCustomError(grcRitualSubmission, 'NotAuthor');
+    });
+  });
+
   describe('Ritual Retrieval', function () {
     beforeEach(async function () {
       await grcRitualSubmission.registerBioregion('tech-haven', 'Tech Haven');
@@ -234,6 +402,7 @@ describe('GRC_RitualSubmission', function () {
       expect(ritual.narrativeScore).to.equal(narrativeScore);
       expect(ritual.isApproved).to.equal(isApproved);
       expect(ritual.timestamp).to.be.gt(0);
+      expect(ritual.contentHash).to.equal(ethers.ZeroHash);
     });
 
     it('Should revert for non-existent ritual ID', async function () {
@@ -7,57 +7,70 @@ import { BioregionSelector } from '@/components/BioregionSelector';
 import { ValidationResults } from '@/components/ValidationResults';
 import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
+import { useBioregions } from '@/hooks/useBioregions';
+import { useSession } from '@/hooks/useSession';
+import { useSubmissionJob } from '@/hooks/useSubmissionJob';
+import { apiFetch, errorMessage } from '@/lib/api';
+import { RitualToSign, signRitual } from '@/lib/signing';
+import { getSigner } from '@/lib/wallet';
 
 export default function Home() {
   const [selectedBioregion, setSelectedBioregion] = useState<string>('');
-  const [submissionResult, setSubmissionResult] = useState<any>(null);
+  const [submissionError, setSubmissionError] = useState<string | null>(null);
+  const [jobEventsUrl, setJobEventsUrl] = useState<string | null>(null);
+  const job = useSubmissionJob(jobEventsUrl);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const { session, isSigningIn, signIn, signOut } = useSession();
 
-  const bioregions = [
-    {
-      id: 'tech-haven',
-      name: 'Tech Haven',
-      description:
-        'Digital innovation, sustainable technology, and urban regeneration',
-      image: '/images/tech-haven.jpg',
-    },
-    {
-      id: 'mythic-forest',
-      name: 'Mythic Forest',
-      description: 'Ancient wisdom, biodiversity, and spiritual connection',
-      image: '/images/mythic-forest.jpg',
-    },
-    {
-      id: 'isolated-bastion',
-      name: 'Isolated Bastion',
-      description: 'Self-sufficiency, resilience, and community autonomy',
-      image: '/images/isolated-bastion.jpg',
-    },
-  ];
+  const bioregions = useBioregions().map((bioregion) => ({
+    id: bioregion.bioregionId,
+    name: bioregion.name,
+    description: bioregion.description,
+    image: `/images/${bioregion.bioregionId}.jpg`,
+  }));
+
+  const handleSignIn = async () => {
+    setSignInError(null);
+    try {
+      await signIn();
+    } catch (error) {
+      console.error('Sign-in error:', error);
+      setSignInError(error instanceof Error ? error.message : 'Sign-in failed');
+    }
+  };
 
+  // The author signs the ritual with the signed-in wallet; the backend
+  // accepts it as a job, whose progress is then followed
   const handleRitualSubmission = async (formData: FormData) => {
     setIsSubmitting(true);
+    setSubmissionError(null);
+    setJobEventsUrl(null);
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/v1/rituals/submit`,
-        {
-          method: 'POST',
-          body: formData,
-        },
-      );
+      const ritual = await ritualFromForm(formData, selectedBioregion);
+      const signer = await getSigner();
+      if (signer.address.toLowerCase() !== session?.address) {
+        throw new Error(
+          'Switch your wallet to the account you signed in with, or sign in again',
+        );
+      }
+      const signatures = await signRitual(signer, ritual);
 
-      if (response.ok) {
-        const result = await response.json();
-        setSubmissionResult(result);
-      } else {
-        const error = await response.json();
-        throw new Error(error.details || 'Submission failed');
+      const response = await apiFetch('/api/v1/rituals/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...ritual, ...signatures }),
+      });
+      const result = await response.json();
+      if (response.status !== 202) {
+        throw new Error(errorMessage(result, 'Submission failed'));
       }
+      setJobEventsUrl(result.eventsUrl);
     } catch (error) {
       console.error('Submission error:', error);
-      setSubmissionResult({
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+      setSubmissionError(
+        error instanceof Error ? error.message : 'Unknown error',
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -146,20 +159,56 @@ export default function Home() {
               <h2 className='text-2xl font-semibold text-gray-900 mb-4'>
                 Submit Your Ritual
               </h2>
-              <RitualSubmissionForm
-                selectedBioregion={selectedBioregion}
-                onSubmit={handleRitualSubmission}
-                isSubmitting={isSubmitting}
-              />
+              {session ? (
+                <>
+                  <div className='flex items-center justify-between mb-4 text-sm text-gray-600'>
+                    <span>
+                      Signed in as {session.address.slice(0, 6)}…
+                      {session.address.slice(-4)}
+                    </span>
+                    <button
+                      type='button'
+                      onClick={signOut}
+                      className='text-emerald-700 hover:underline'
+                    >
+                      Sign out
+                    </button>
+                  </div>
+                  <RitualSubmissionForm
+                    selectedBioregion={selectedBioregion}
+                    onSubmit={handleRitualSubmission}
+                    isSubmitting={isSubmitting}
+                  />
+                </>
+              ) : (
+                <div className='space-y-3'>
+                  <p className='text-gray-600'>
+                    Sign in with your wallet to submit a ritual as its author.
+                  </p>
+                  <button
+                    type='button'
+                    onClick={handleSignIn}
+                    disabled={isSigningIn}
+                    className='px-4 py-2 rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50'
+                  >
+                    {isSigningIn ? 'Signing in…' : 'Sign in with Ethereum'}
+                  </button>
+                  {signInError && (
+                    <p className='text-sm text-red-600'>{signInError}</p>
+                  )}
+                </div>
+              )}
             </div>
 
-            {submissionResult && (
+            {(submissionError || job) && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.4 }}
               >
-                <ValidationResults result={submissionResult} />
+                <ValidationResults
+                  result={submissionError ? { error: submissionError } : job}
+                />
               </motion.div>
             )}
           </motion.div>
@@ -220,3 +269,33 @@ export default function Home() {
     </div>
   );
 }
+
+// Ritual fields of the submission form; the content is typed or a .grc file
+async function ritualFromForm(
+  formData: FormData,
+  selectedBioregion: string,
+): Promise<RitualToSign & Record<string, unknown>> {
+  const field = (name: string): string | undefined => {
+    const value = formData.get(name);
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  const flag = (name: string): boolean =>
+    ['on', 'true'].includes(field(name) ?? '');
+  const file = formData.get('file');
+
+  return {
+    name: field('name') ?? '',
+    bioregionId: field('bioregionId') ?? selectedBioregion,
+    description: field('description'),
+    culturalContext: field('culturalContext'),
+    culturalTradition: field('culturalTradition'),
+    content:
+      file instanceof File ? await file.text() : (field('content') ?? ''),
+    language: field('language'),
+    permissions: {
+      culturalConsultation: flag('culturalConsultation'),
+      communityApproval: flag('communityApproval'),
+      expertReview: flag('expertReview'),
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '@/lib/api';
+
+export interface Bioregion {
+  bioregionId: string;
+  name: string;
+  description: string;
+}
+
+// Active bioregions from the backend registry
+export function useBioregions(): Bioregion[] {
+  const [bioregions, setBioregions] = useState<Bioregion[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiFetch('/api/v1/bioregions')
+      .then((response) => response.json())
+      .then((result) => {
+        if (!cancelled && result.success) {
+          setBioregions(result.bioregions);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading bioregions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return bioregions;
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  SESSION_EVENT,
+  Session,
+  apiFetch,
+  errorMessage,
+  loadSession,
+  saveSession,
+} from '@/lib/api';
+import { formatSiweMessage, getSigner } from '@/lib/wallet';
+
+// Session of the wallet signed in with Sign-In with Ethereum
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  useEffect(() => {
+    const update = () => setSession(loadSession());
+
+    update();
+    window.addEventListener(SESSION_EVENT, update);
+    window.addEventListener('storage', update);
+    return () => {
+      window.removeEventListener(SESSION_EVENT, update);
+      window.removeEventListener('storage', update);
+    };
+  }, []);
+
+  // Sign a message with a nonce from the backend and exchange it for a token
+  const signIn = useCallback(async () => {
+    setIsSigningIn(true);
+    try {
+      const signer = await getSigner();
+      const grant = await (await apiFetch('/api/v1/auth/nonce')).json();
+      if (!grant.success) {
+        throw new Error(errorMessage(grant, 'Could not start signing in'));
+      }
+
+      const message = formatSiweMessage({
+        domain: grant.domain,
+        address: signer.address,
+        statement: 'Sign in to the Global Regeneration Ceremony.',
+        uri: window.location.origin,
+        chainId: grant.chainId,
+        nonce: grant.nonce,
+        issuedAt: new Date(),
+        expirationTime: new Date(grant.expiresAt),
+      });
+      const signature = await signer.signMessage(message);
+
+      const response = await apiFetch('/api/v1/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(errorMessage(result, 'Sign-in failed'));
+      }
+
+      saveSession({
+        token: result.token,
+        address: result.address,
+        expiresAt: result.expiresAt,
+      });
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, []);
+
+  const signOut = useCallback(() => saveSession(null), []);
+
+  return { session, isSigningIn, signIn, signOut };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { apiUrl } from '@/lib/api';
+
+// Progress of a submission job, streamed from its events URL until it ends
+export function useSubmissionJob(eventsUrl: string | null) {
+  const [job, setJob] = useState<any>(null);
+
+  useEffect(() => {
+    setJob(null);
+    if (!eventsUrl) return;
+
+    // EventSource reconnects on its own; the stream resends the job first
+    const events = new EventSource(apiUrl(eventsUrl));
+    events.addEventListener('progress', (event) => {
+      const update = JSON.parse((event as MessageEvent<string>).data);
+      setJob(update);
+      if (update.status === 'completed' || update.status === 'failed') {
+        events.close();
+      }
+    });
+
+    return () => {
+      events.close();
+    };
+  }, [eventsUrl]);
+
+  return job;
+}
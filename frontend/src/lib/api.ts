@@ -0,0 +1,72 @@
+const SESSION_KEY = 'grc.session';
+
+// Dispatched on the window whenever the stored session changes
+export const SESSION_EVENT = 'grc:session';
+
+// Bearer token issued by /api/v1/auth/verify
+export interface Session {
+  token: string;
+  address: string; // Lowercased wallet address
+  expiresAt: string;
+}
+
+export function apiUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_API_URL}${path}`;
+}
+
+// The stored session, unless it has expired
+export function loadSession(): Session | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const session: Session | null = JSON.parse(
+      localStorage.getItem(SESSION_KEY) ?? 'null',
+    );
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session;
+    }
+  } catch {
+    // Unreadable sessions are dropped below
+  }
+  localStorage.removeItem(SESSION_KEY);
+  return null;
+}
+
+export function saveSession(session: Session | null): void {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  window.dispatchEvent(new Event(SESSION_EVENT));
+}
+
+/**
+ * fetch a backend API path, sending the token of the stored session as a
+ * bearer token. The session is dropped when the backend no longer accepts
+ * its token.
+ */
+export async function apiFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const session = loadSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(apiUrl(path), { ...init, headers });
+  if (response.status === 401 && session) {
+    saveSession(null);
+  }
+  return response;
+}
+
+// Message of a failed API response, which carries error and details
+export function errorMessage(result: any, fallback: string): string {
+  const details = Array.isArray(result?.details)
+    ? result.details.join('; ')
+    : result?.details;
+  return details || result?.error || fallback;
+}
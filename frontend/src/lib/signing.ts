@@ -0,0 +1,97 @@
+import {
+  JsonRpcSigner,
+  TypedDataDomain,
+  TypedDataField,
+  hexlify,
+  id,
+  randomBytes,
+} from 'ethers';
+import { apiFetch, errorMessage } from '@/lib/api';
+
+// The ritual as the author signs it; mirrors backend/src/auth/provenance.ts
+const AUTHORSHIP_TYPES: Record<string, TypedDataField[]> = {
+  RitualAuthorship: [
+    { name: 'name', type: 'string' },
+    { name: 'bioregionId', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'timestamp', type: 'uint256' },
+  ],
+};
+
+// Time beyond the backend's minimum deadline, to sign and send the ritual
+const DEADLINE_MARGIN_SECONDS = 60 * 60;
+
+export interface RitualToSign {
+  name: string;
+  bioregionId: string;
+  content: string;
+}
+
+// Signature fields of a submission to /api/v1/rituals/submit
+export interface RitualSignatures {
+  signature: string;
+  signedAt: number; // Unix seconds, as signed
+  authorization: {
+    nonce: string;
+    deadline: number; // Unix seconds
+    signature: string;
+  };
+}
+
+/**
+ * Sign a ritual as its author: the authorship published with its metadata,
+ * and the authorization for the backend to log it on chain in the author's
+ * name. The relay domain, types and deadline come from the backend, and both
+ * signatures are made for the chain of that domain.
+ */
+export async function signRitual(
+  signer: JsonRpcSigner,
+  ritual: RitualToSign,
+): Promise<RitualSignatures> {
+  const response = await apiFetch('/api/v1/provenance/authorization');
+  const relay: {
+    domain: TypedDataDomain & { chainId: number };
+    types: Record<string, TypedDataField[]>;
+    minDeadline: number;
+  } = await response.json();
+  if (!response.ok) {
+    throw new Error(errorMessage(relay, 'Could not load what to sign'));
+  }
+
+  const contentHash = id(ritual.content);
+  const signedAt = Math.floor(Date.now() / 1000);
+  const signature = await signer.signTypedData(
+    {
+      name: 'Global Regeneration Ceremony',
+      version: '1',
+      chainId: relay.domain.chainId,
+    },
+    AUTHORSHIP_TYPES,
+    {
+      name: ritual.name,
+      bioregionId: ritual.bioregionId,
+      contentHash,
+      timestamp: signedAt,
+    },
+  );
+
+  const nonce = hexlify(randomBytes(32));
+  const deadline = relay.minDeadline + DEADLINE_MARGIN_SECONDS;
+  const authorizationSignature = await signer.signTypedData(
+    relay.domain,
+    relay.types,
+    {
+      author: signer.address,
+      bioregionId: ritual.bioregionId,
+      contentHash,
+      nonce,
+      deadline,
+    },
+  );
+
+  return {
+    signature,
+    signedAt,
+    authorization: { nonce, deadline, signature: authorizationSignature },
+  };
+}
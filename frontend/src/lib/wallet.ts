@@ -0,0 +1,43 @@
+import { BrowserProvider, Eip1193Provider, JsonRpcSigner } from 'ethers';
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider; // Injected by browser wallets
+  }
+}
+
+// Signer of the account the browser wallet is connected with
+export async function getSigner(): Promise<JsonRpcSigner> {
+  if (!window.ethereum) {
+    throw new Error('Install a browser wallet such as MetaMask to sign');
+  }
+  return new BrowserProvider(window.ethereum).getSigner();
+}
+
+export interface SiweFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime: Date;
+}
+
+// Text of a Sign-In with Ethereum (EIP-4361) message
+export function formatSiweMessage(fields: SiweFields): string {
+  return [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expirationTime.toISOString()}`,
+  ].join('\n');
+}
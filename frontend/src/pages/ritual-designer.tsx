@@ -5,6 +5,15 @@ import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import {
+  GRCDiagnostic,
+  GRC_SECTIONS,
+  fromRitualDraft,
+  parseGRC,
+  serializeGRC,
+  toRitualDraft,
+  validateGRC,
+} from 'grc-grammar';
 import {
   FileText,
   Save,
@@ -16,6 +25,8 @@ import {
   AlertCircle,
   Info,
 } from 'lucide-react';
+import { useBioregions } from '@/hooks/useBioregions';
+import { apiFetch } from '@/lib/api';
 
 // Validation schema for ritual form
 const ritualSchema = z.object({
@@ -41,16 +52,86 @@ interface ValidationResult {
   cedaScore: number;
   narrativeScore: number;
   isApproved: boolean;
+  appropriationRisk?: 'none' | 'low' | 'medium' | 'high';
+  requiredReviews?: string[];
   feedback: string[];
 }
 
+const REVIEW_LABELS: Record<string, string> = {
+  culturalConsultation: 'Cultural consultation',
+  communityApproval: 'Community approval',
+  expertReview: 'Expert review',
+};
+
+// Keyword lexicon the filters evaluated the ritual with
+interface LanguageDetection {
+  code: string;
+  name: string;
+  detected: boolean;
+  confidence: number;
+}
+
+// Phrase that contributed to a filter score, as character offsets
+interface TextAnnotation {
+  filterId: string;
+  start: number;
+  end: number;
+  text: string;
+  kind: string;
+  label: string;
+}
+
+const ANNOTATION_COLORS: Record<string, string> = {
+  esep: 'bg-emerald-100 text-emerald-900',
+  ceda: 'bg-blue-100 text-blue-900',
+  narrative: 'bg-purple-100 text-purple-900',
+};
+
+// Split text into plain and highlighted segments, skipping overlapping spans
+function highlightSegments(
+  text: string,
+  annotations: TextAnnotation[],
+): { text: string; annotation?: TextAnnotation }[] {
+  const segments: { text: string; annotation?: TextAnnotation }[] = [];
+  let position = 0;
+
+  for (const annotation of [...annotations].sort((a, b) => a.start - b.start)) {
+    if (annotation.start < position || annotation.end > text.length) continue;
+
+    if (annotation.start > position) {
+      segments.push({ text: text.slice(position, annotation.start) });
+    }
+    segments.push({
+      text: text.slice(annotation.start, annotation.end),
+      annotation,
+    });
+    position = annotation.end;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) });
+  }
+
+  return segments;
+}
+
 export default function RitualDesigner() {
+  const bioregions = useBioregions();
   const [content, setContent] = useState('');
   const [validationResult, setValidationResult] =
     useState<ValidationResult | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [language, setLanguage] = useState<LanguageDetection | null>(null);
+  const [annotations, setAnnotations] = useState<{
+    content: string;
+    items: TextAnnotation[];
+  } | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [autoSave, setAutoSave] = useState(true);
+  const [fileDiagnostics, setFileDiagnostics] = useState<{
+    fileName: string;
+    diagnostics: GRCDiagnostic[];
+  } | null>(null);
 
   const {
     register,
@@ -123,23 +204,27 @@ export default function RitualDesigner() {
   const validateRitual = async (ritualContent: string) => {
     setIsValidating(true);
     try {
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/api/v1/rituals/validate`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            content: ritualContent,
-            bioregionId: watch('bioregionId'),
-          }),
+      const response = await apiFetch('/api/v1/rituals/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      );
+        body: JSON.stringify({
+          content: ritualContent,
+          bioregionId: watch('bioregionId'),
+          culturalContext: watch('culturalContext'),
+        }),
+      });
 
       if (response.ok) {
         const result = await response.json();
-        setValidationResult(result);
+        setValidationResult(result.validation);
+        setLanguage(result.language ?? null);
+        // Offsets refer to the text that was validated, not the live editor
+        setAnnotations({
+          content: ritualContent,
+          items: result.annotations ?? [],
+        });
       }
     } catch (error) {
       console.error('Validation error:', error);
@@ -175,42 +260,42 @@ export default function RitualDesigner() {
   };
 
   const generateGRCContent = (data: RitualFormData): string => {
-    const bioregionNames = {
-      'tech-haven': 'Tech Haven',
-      'mythic-forest': 'Mythic Forest',
-      'isolated-bastion': 'Isolated Bastion',
-    };
-
-    return `# ${data.name}
-# Bioregion: ${bioregionNames[data.bioregionId as keyof typeof bioregionNames]}
-# Created: ${new Date().toLocaleDateString()}
-
-## Description
-${data.description}
-
-## Cultural Context
-${data.culturalContext}
-
-## Ritual Content
-
-${data.content}
-
-## Validation Results
-${
-  validationResult
-    ? `
-- ESEP Score: ${(validationResult.esepScore * 100).toFixed(1)}%
-- CEDA Score: ${validationResult.cedaScore} cultural references
-- Narrative Score: ${(validationResult.narrativeScore * 100).toFixed(1)}%
-- Approved: ${validationResult.isApproved ? 'Yes' : 'No'}
-`
-    : 'Pending validation...'
-}
+    const validationSummary = validationResult
+      ? [
+          `- ESEP Score: ${(validationResult.esepScore * 100).toFixed(1)}%`,
+          `- CEDA Score: ${validationResult.cedaScore} cultural references`,
+          `- Narrative Score: ${(validationResult.narrativeScore * 100).toFixed(
+            1,
+          )}%`,
+          `- Approved: ${validationResult.isApproved ? 'Yes' : 'No'}`,
+        ].join('\n')
+      : 'Pending validation...';
+
+    const grcDocument = fromRitualDraft(
+      {
+        name: data.name,
+        bioregion:
+          bioregions.find(
+            (bioregion) => bioregion.bioregionId === data.bioregionId,
+          )?.name ?? data.bioregionId,
+        created: new Date().toLocaleDateString(),
+        description: data.description,
+        culturalContext: data.culturalContext,
+        content: data.content,
+      },
+      [
+        {
+          title: GRC_SECTIONS.validationResults,
+          body: `${validationSummary}
 
 ---
 Generated by Global Regeneration Ceremony Ritual Designer
-Symbiotic Syntheconomy v1.0
-`;
+Symbiotic Syntheconomy v1.0`,
+        },
+      ],
+    );
+
+    return serializeGRC(grcDocument);
   };
 
   const loadFile = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -220,56 +305,42 @@ Symbiotic Syntheconomy v1.0
       reader.onload = (e) => {
         const content = e.target?.result as string;
         // Parse .grc file and populate form
-        parseGRCFile(content);
+        parseGRCFile(file.name, content);
       };
       reader.readAsText(file);
     }
   };
 
-  const parseGRCFile = (content: string) => {
-    const lines = content.split('\n');
-    let name = '';
-    let bioregionId = '';
-    let description = '';
-    let culturalContext = '';
-    let ritualContent = '';
-    let inContent = false;
-
-    for (const line of lines) {
-      if (line.startsWith('# ')) {
-        if (line.includes('Bioregion:')) {
-          const bioregionName = line.split('Bioregion:')[1]?.trim();
-          bioregionId = getBioregionId(bioregionName);
-        } else if (!line.includes('Created:') && !line.includes('Bioregion:')) {
-          name = line.replace('# ', '').trim();
-        }
-      } else if (line.startsWith('## Description')) {
-        // Skip to next section
-      } else if (line.startsWith('## Cultural Context')) {
-        // Skip to next section
-      } else if (line.startsWith('## Ritual Content')) {
-        inContent = true;
-      } else if (line.startsWith('## ') && inContent) {
-        inContent = false;
-      } else if (inContent && line.trim()) {
-        ritualContent += line + '\n';
-      }
-    }
-
-    setValue('name', name);
-    setValue('bioregionId', bioregionId);
-    setValue('description', description);
-    setValue('culturalContext', culturalContext);
-    setValue('content', ritualContent.trim());
+  const parseGRCFile = (fileName: string, content: string) => {
+    const grcDocument = parseGRC(content);
+    const draft = toRitualDraft(grcDocument);
+
+    setFileDiagnostics({
+      fileName,
+      diagnostics: validateGRC(grcDocument, {
+        bioregions: bioregions.map((bioregion) => bioregion.name),
+      }),
+    });
+
+    setValue('name', draft.name);
+    setValue('bioregionId', getBioregionId(draft.bioregion));
+    setValue('description', draft.description);
+    setValue('culturalContext', draft.culturalContext);
+    setValue('content', draft.content);
   };
 
-  const getBioregionId = (name: string): string => {
-    const mapping: Record<string, string> = {
-      'Tech Haven': 'tech-haven',
-      'Mythic Forest': 'mythic-forest',
-      'Isolated Bastion': 'isolated-bastion',
-    };
-    return mapping[name] || '';
+  const getBioregionId = (name: string): string =>
+    bioregions.find((bioregion) => bioregion.name === name)?.bioregionId ?? '';
+
+  const getDiagnosticColor = (severity: GRCDiagnostic['severity']) => {
+    switch (severity) {
+      case 'error':
+        return 'text-red-600';
+      case 'warning':
+        return 'text-yellow-600';
+      default:
+        return 'text-blue-600';
+    }
   };
 
   const getValidationStatus = () => {
@@ -356,9 +427,14 @@ Symbiotic Syntheconomy v1.0
                       className='w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent'
                     >
                       <option value=''>Select a bioregion...</option>
-                      <option value='tech-haven'>Tech Haven</option>
-                      <option value='mythic-forest'>Mythic Forest</option>
-                      <option value='isolated-bastion'>Isolated Bastion</option>
+                      {bioregions.map((bioregion) => (
+                        <option
+                          key={bioregion.bioregionId}
+                          value={bioregion.bioregionId}
+                        >
+                          {bioregion.name}
+                        </option>
+                      ))}
                     </select>
                     {errors.bioregionId && (
                       <p className='text-red-600 text-sm mt-1'>
@@ -483,6 +559,61 @@ Symbiotic Syntheconomy v1.0
                 </div>
               </div>
 
+              {/* File Diagnostics */}
+              {fileDiagnostics && (
+                <div className='bg-white rounded-2xl shadow-xl p-6'>
+                  <div className='flex items-center justify-between mb-4'>
+                    <h2 className='text-2xl font-semibold text-gray-900'>
+                      File Check
+                    </h2>
+                    <button
+                      type='button'
+                      onClick={() => setFileDiagnostics(null)}
+                      className='text-sm text-gray-500 hover:text-gray-700'
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                  <p className='text-sm text-gray-600 mb-3'>
+                    {fileDiagnostics.fileName}
+                  </p>
+                  {fileDiagnostics.diagnostics.length === 0 ? (
+                    <div className='flex items-center space-x-2 text-green-600'>
+                      <CheckCircle className='w-5 h-5' />
+                      <span>No problems found</span>
+                    </div>
+                  ) : (
+                    <ul className='space-y-3'>
+                      {fileDiagnostics.diagnostics.map((diagnostic, index) => (
+                        <li
+                          key={index}
+                          className={`flex items-start text-sm ${getDiagnosticColor(
+                            diagnostic.severity,
+                          )}`}
+                        >
+                          {diagnostic.severity === 'info' ? (
+                            <Info className='w-4 h-4 mr-2 mt-0.5 flex-shrink-0' />
+                          ) : (
+                            <AlertCircle className='w-4 h-4 mr-2 mt-0.5 flex-shrink-0' />
+                          )}
+                          <div>
+                            <span className='font-mono text-xs text-gray-500 mr-2'>
+                              {diagnostic.line}:{diagnostic.column}
+                            </span>
+                            {diagnostic.message}
+                            {diagnostic.suggestion && (
+                              <p className='text-gray-500'>
+                                {diagnostic.suggestion}
+                              </p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {/* Validation Results */}
               <div className='bg-white rounded-2xl shadow-xl p-6'>
                 <h2 className='text-2xl font-semibold text-gray-900 mb-4'>
@@ -508,6 +639,18 @@ Symbiotic Syntheconomy v1.0
                       </span>
                     </div>
 
+                    {/* Lexicon */}
+                    {language && (
+                      <p className='text-xs text-gray-500'>
+                        Evaluated with the {language.name} lexicon
+                        {language.detected
+                          ? ` (detected, ${Math.round(
+                              language.confidence * 100,
+                            )}% confidence)`
+                          : ''}
+                      </p>
+                    )}
+
                     {/* Scores */}
                     <div className='grid grid-cols-2 gap-4'>
                       <div className='bg-gray-50 rounded-lg p-4'>
@@ -546,6 +689,28 @@ Symbiotic Syntheconomy v1.0
                       </p>
                     </div>
 
+                    {/* Cultural appropriation risk */}
+                    {validationResult.appropriationRisk &&
+                      validationResult.appropriationRisk !== 'none' && (
+                        <div className='bg-amber-50 rounded-lg p-4'>
+                          <h3 className='text-sm font-medium text-gray-700'>
+                            Appropriation Risk:{' '}
+                            {validationResult.appropriationRisk.toUpperCase()}
+                          </h3>
+                          {(validationResult.requiredReviews ?? []).length >
+                            0 && (
+                            <p className='text-xs text-gray-600 mt-1'>
+                              Required before approval:{' '}
+                              {(validationResult.requiredReviews ?? [])
+                                .map(
+                                  (review) => REVIEW_LABELS[review] ?? review,
+                                )
+                                .join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                     {/* Feedback */}
                     {validationResult.feedback.length > 0 && (
                       <div>
@@ -565,6 +730,37 @@ Symbiotic Syntheconomy v1.0
                         </ul>
                       </div>
                     )}
+
+                    {/* Highlighted phrases */}
+                    {annotations && annotations.items.length > 0 && (
+                      <div>
+                        <h3 className='text-sm font-medium text-gray-700 mb-2'>
+                          Highlighted Phrases
+                        </h3>
+                        <p className='text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-4 max-h-64 overflow-y-auto'>
+                          {highlightSegments(
+                            annotations.content,
+                            annotations.items,
+                          ).map((segment, index) =>
+                            segment.annotation ? (
+                              <mark
+                                key={index}
+                                title={segment.annotation.label}
+                                className={`rounded px-0.5 ${
+                                  ANNOTATION_COLORS[
+                                    segment.annotation.filterId
+                                  ] ?? 'bg-yellow-100 text-yellow-900'
+                                }`}
+                              >
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{segment.text}</span>
+                            ),
+                          )}
+                        </p>
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className='text-center py-8 text-gray-500'>
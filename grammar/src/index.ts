@@ -0,0 +1,24 @@
+export * from './types';
+export { parseGRC, parseBody, GRC_VERSION_HEADER } from './parser';
+export {
+  serializeGRC,
+  serializeSection,
+  serializeSectionBody,
+  serializeBlocks,
+} from './serializer';
+export {
+  GRC_HEADERS,
+  GRC_SECTIONS,
+  getHeader,
+  findSection,
+  sectionText,
+  toRitualDraft,
+  fromRitualDraft,
+} from './ritualDraft';
+export {
+  validateGRC,
+  hasErrors,
+  formatDiagnostic,
+  GRC_LIMITS,
+  SUPPORTED_GRAMMAR_VERSIONS,
+} from './validator';
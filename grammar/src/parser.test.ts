@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  findSection,
+  fromRitualDraft,
+  parseGRC,
+  serializeGRC,
+  toRitualDraft,
+} from './index';
+
+const sampleRitual = readFileSync(
+  join(__dirname, '../../sample-ritual.grc'),
+  'utf-8',
+);
+
+describe('parseGRC', () => {
+  it('reads the header fields of sample-ritual.grc', () => {
+    const document = parseGRC(sampleRitual);
+
+    expect(document.title).toBe('Salmon River Blessing Ceremony');
+    expect(document.headers.map((field) => [field.key, field.value])).toEqual([
+      ['Bioregion', 'Pacific Northwest'],
+      ['Cultural Tradition', 'Coast Salish'],
+    ]);
+  });
+
+  it('nests subsections, numbered steps and invocations', () => {
+    const document = parseGRC(sampleRitual);
+    const elements = findSection(document, 'Ritual Elements');
+
+    expect(elements?.subsections.map((section) => section.title)).toEqual([
+      'Sacred Space Preparation',
+      'Opening Invocation',
+      'Sacred Actions',
+      'Closing Ceremony',
+    ]);
+
+    const actions = findSection(document, 'Sacred Actions');
+    const steps = actions?.blocks.find((block) => block.type === 'list');
+    expect(steps?.type === 'list' && steps.ordered).toBe(true);
+    expect(
+      steps?.type === 'list' && steps.items.map((item) => item.label),
+    ).toEqual([
+      'Water Blessing',
+      'Cedar Smudging',
+      'Salmon Song',
+      'Seed Planting',
+      'Gratitude Offering',
+    ]);
+
+    const invocation = findSection(document, 'Opening Invocation')?.blocks.find(
+      (block) => block.type === 'invocation',
+    );
+    expect(invocation?.type === 'invocation' && invocation.text).toMatch(
+      /^Great Spirit, we call upon you/,
+    );
+  });
+
+  it('round-trips sample-ritual.grc losslessly', () => {
+    expect(serializeGRC(parseGRC(sampleRitual))).toBe(sampleRitual);
+  });
+
+  it('round-trips CRLF line endings and multi-line invocations', () => {
+    const source =
+      '# Dawn Circle\r\n# Bioregion: Tech Haven\r\n\r\n## Opening\r\n"May we\r\nbegin"\r\n-----\r\n';
+    const document = parseGRC(source);
+
+    expect(document.sections[0]?.blocks.map((block) => block.type)).toEqual([
+      'invocation',
+      'rule',
+    ]);
+    expect(serializeGRC(document)).toBe(source);
+  });
+});
+
+describe('toRitualDraft', () => {
+  it('keeps every ritual section of sample-ritual.grc as content', () => {
+    const draft = toRitualDraft(parseGRC(sampleRitual));
+
+    expect(draft.name).toBe('Salmon River Blessing Ceremony');
+    expect(draft.bioregion).toBe('Pacific Northwest');
+    expect(draft.culturalTradition).toBe('Coast Salish');
+    expect(draft.culturalContext).toMatch(/^This ritual draws from/);
+    expect(draft.description).toMatch(/^In the presence of the ancient cedar/);
+    expect(draft.content).toContain('## Sacred Opening');
+    expect(draft.content).toContain('### Sacred Space Preparation');
+    expect(draft.content).not.toContain('## Cultural Context');
+  });
+
+  it('reads back drafts written with fromRitualDraft', () => {
+    const draft = {
+      name: 'Dawn Circle',
+      bioregion: 'Mythic Forest',
+      description: 'A short morning gathering.',
+      culturalContext: 'Drawn from shared community practice.',
+      content: 'We gather in a circle.\n\n## Closing\n\n"Go gently"',
+    };
+    const document = fromRitualDraft(draft, [
+      { title: 'Validation Results', body: 'Pending validation...' },
+    ]);
+
+    expect(toRitualDraft(document)).toEqual(draft);
+    expect(parseGRC(serializeGRC(document))).toEqual(document);
+  });
+});
@@ -0,0 +1,207 @@
+import {
+  GRC_GRAMMAR_VERSION,
+  GRCBlock,
+  GRCDocument,
+  GRCHeaderField,
+  GRCListItem,
+  GRCSection,
+} from './types';
+
+const TITLE_PATTERN = /^# (.*)$/;
+const HEADER_FIELD_PATTERN = /^# ([A-Za-z][\w -]*?): ?(.*)$/;
+const HEADING_PATTERN = /^(#{1,6}) (.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)(\d+[.)]|[-*+]) (.*)$/;
+const RULE_PATTERN = /^-{3,}$/;
+const LABEL_PATTERN = /^\*\*(.+?)\*\*/;
+
+export const GRC_VERSION_HEADER = 'GRC Version';
+
+/**
+ * Parse .grc source into a document tree. Parsing never fails: anything that
+ * is not a heading, list, invocation or rule is kept as a paragraph so that
+ * `serializeGRC(parseGRC(source))` reproduces the source.
+ */
+export function parseGRC(source: string): GRCDocument {
+  const lineEnding = source.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = source.endsWith('\n');
+  const lines = source.length > 0 ? source.split(/\r?\n/) : [];
+  if (finalNewline) {
+    lines.pop();
+  }
+
+  let index = 0;
+  let title: string | null = null;
+  const headers: GRCHeaderField[] = [];
+
+  // Header block: a "# Title" line followed by "# Key: Value" lines
+  const titleMatch = lines[0]?.match(TITLE_PATTERN);
+  if (titleMatch) {
+    title = titleMatch[1] ?? '';
+    index = 1;
+
+    while (index < lines.length) {
+      const fieldMatch = lines[index]?.match(HEADER_FIELD_PATTERN);
+      if (!fieldMatch) break;
+
+      headers.push({
+        key: fieldMatch[1] ?? '',
+        value: fieldMatch[2] ?? '',
+        position: { line: index + 1, column: 1 },
+      });
+      index++;
+    }
+  }
+
+  const { blocks, sections } = parseBody(lines, index);
+
+  const versionHeader = headers.find(
+    (field) => field.key.toLowerCase() === GRC_VERSION_HEADER.toLowerCase(),
+  );
+
+  return {
+    grammarVersion: versionHeader?.value || GRC_GRAMMAR_VERSION,
+    title,
+    headers,
+    preamble: blocks,
+    sections,
+    lineEnding,
+    finalNewline,
+  };
+}
+
+/**
+ * Parse a run of lines into leading blocks and a tree of headed sections.
+ * `offset` is the index of `lines[offset]` in the original source.
+ */
+export function parseBody(
+  lines: string[],
+  offset = 0,
+): { blocks: GRCBlock[]; sections: GRCSection[] } {
+  const blocks: GRCBlock[] = [];
+  const sections: GRCSection[] = [];
+  const stack: GRCSection[] = [];
+
+  const currentBlocks = (): GRCBlock[] =>
+    stack.length > 0 ? stack[stack.length - 1]!.blocks : blocks;
+
+  let index = offset;
+  while (index < lines.length) {
+    const line = lines[index] ?? '';
+    const position = { line: index + 1, column: 1 };
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      const section: GRCSection = {
+        level: headingMatch[1]!.length,
+        title: headingMatch[2] ?? '',
+        blocks: [],
+        subsections: [],
+        position,
+      };
+
+      while (
+        stack.length > 0 &&
+        stack[stack.length - 1]!.level >= section.level
+      ) {
+        stack.pop();
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.subsections.push(section);
+      } else {
+        sections.push(section);
+      }
+
+      stack.push(section);
+      index++;
+      continue;
+    }
+
+    const target = currentBlocks();
+    const previous = target[target.length - 1];
+
+    if (line.trim() === '') {
+      target.push({ type: 'blank', raw: line, position });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      target.push({ type: 'rule', raw: line, position });
+      index++;
+      continue;
+    }
+
+    const listMatch = line.match(LIST_ITEM_PATTERN);
+    if (listMatch) {
+      const indent = listMatch[1] ?? '';
+      const marker = listMatch[2] ?? '';
+      const text = listMatch[3] ?? '';
+      const ordered = /^\d/.test(marker);
+
+      const item: GRCListItem = {
+        indent,
+        marker,
+        text,
+        position: { line: index + 1, column: indent.length + 1 },
+      };
+      const label = text.match(LABEL_PATTERN)?.[1];
+      if (label) {
+        item.label = label;
+      }
+
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        target.push({ type: 'list', ordered, items: [item], position });
+      }
+      index++;
+      continue;
+    }
+
+    if (line.startsWith('"')) {
+      const end = findInvocationEnd(lines, index);
+      if (end !== -1) {
+        const text = lines.slice(index, end + 1).join('\n');
+        target.push({
+          type: 'invocation',
+          text: text.slice(1, -1),
+          position,
+        });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (previous?.type === 'paragraph') {
+      previous.lines.push(line);
+    } else {
+      target.push({ type: 'paragraph', lines: [line], position });
+    }
+    index++;
+  }
+
+  return { blocks, sections };
+}
+
+/**
+ * An invocation opens with a quote at the start of a line and closes with a
+ * quote at the end of the same or a following line, without crossing a blank
+ * line or heading. Returns the index of the closing line, or -1.
+ */
+function findInvocationEnd(lines: string[], start: number): number {
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    if (index > start && (line.trim() === '' || HEADING_PATTERN.test(line))) {
+      return -1;
+    }
+
+    const closes = line.endsWith('"') && (index > start || line.length > 1);
+    if (closes) {
+      return index;
+    }
+  }
+
+  return -1;
+}
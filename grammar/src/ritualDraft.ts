@@ -0,0 +1,184 @@
+import { GRC_VERSION_HEADER, parseGRC } from './parser';
+import {
+  serializeBlocks,
+  serializeSection,
+  serializeSectionBody,
+} from './serializer';
+import {
+  GRC_GRAMMAR_VERSION,
+  GRCDocument,
+  GRCRitualDraft,
+  GRCSection,
+} from './types';
+
+export const GRC_HEADERS = {
+  bioregion: 'Bioregion',
+  culturalTradition: 'Cultural Tradition',
+  author: 'Author',
+  created: 'Created',
+  version: GRC_VERSION_HEADER,
+} as const;
+
+export const GRC_SECTIONS = {
+  description: 'Description',
+  culturalContext: 'Cultural Context',
+  ritualContent: 'Ritual Content',
+  validationResults: 'Validation Results',
+} as const;
+
+// Sections that describe the ritual rather than form part of its content
+const METADATA_SECTIONS: string[] = [
+  GRC_SECTIONS.description,
+  GRC_SECTIONS.culturalContext,
+  GRC_SECTIONS.validationResults,
+];
+
+function hasTitle(section: GRCSection, title: string): boolean {
+  return section.title.trim().toLowerCase() === title.toLowerCase();
+}
+
+/**
+ * Look up a header field value by key (case-insensitive).
+ */
+export function getHeader(
+  document: GRCDocument,
+  key: string,
+): string | undefined {
+  return document.headers.find(
+    (field) => field.key.toLowerCase() === key.toLowerCase(),
+  )?.value;
+}
+
+/**
+ * Find the first section with the given title (case-insensitive), searching
+ * nested subsections depth-first.
+ */
+export function findSection(
+  document: GRCDocument,
+  title: string,
+): GRCSection | undefined {
+  const search = (sections: GRCSection[]): GRCSection | undefined => {
+    for (const section of sections) {
+      if (hasTitle(section, title)) {
+        return section;
+      }
+      const nested = search(section.subsections);
+      if (nested) return nested;
+    }
+    return undefined;
+  };
+
+  return search(document.sections);
+}
+
+/**
+ * Plain text of a section body, without its heading.
+ */
+export function sectionText(section: GRCSection): string {
+  return serializeSectionBody(section).join('\n').trim();
+}
+
+/**
+ * Read a parsed document as a ritual submission draft.
+ *
+ * Documents written by the ritual designer carry their content in a
+ * "Ritual Content" section. Free-form documents such as sample-ritual.grc
+ * spread it over several sections ("Sacred Opening", "Ritual Elements", ...),
+ * so in that case every section that is not ritual metadata becomes content.
+ */
+export function toRitualDraft(document: GRCDocument): GRCRitualDraft {
+  const descriptionSection = findSection(document, GRC_SECTIONS.description);
+  const contextSection = findSection(document, GRC_SECTIONS.culturalContext);
+
+  const bodySections = document.sections.filter(
+    (section) => !METADATA_SECTIONS.some((title) => hasTitle(section, title)),
+  );
+
+  // Headings written inside the designer's content field end up as sibling
+  // sections, so content runs from "Ritual Content" to the end of the body.
+  const contentIndex = bodySections.findIndex((section) =>
+    hasTitle(section, GRC_SECTIONS.ritualContent),
+  );
+  const contentLines =
+    contentIndex !== -1
+      ? [
+          ...serializeSectionBody(bodySections[contentIndex]!),
+          ...bodySections.slice(contentIndex + 1).flatMap(serializeSection),
+        ]
+      : [
+          ...serializeBlocks(document.preamble),
+          ...bodySections.flatMap(serializeSection),
+        ];
+  const content = contentLines.join('\n').trim();
+
+  let description = descriptionSection ? sectionText(descriptionSection) : '';
+  if (!description) {
+    // Fall back to the opening paragraph of the ritual itself
+    const opening = bodySections[0]?.blocks.find(
+      (block) => block.type === 'paragraph',
+    );
+    description = opening?.type === 'paragraph' ? opening.lines.join(' ') : '';
+  }
+
+  const draft: GRCRitualDraft = {
+    name: document.title?.trim() ?? '',
+    bioregion: getHeader(document, GRC_HEADERS.bioregion)?.trim() ?? '',
+    description,
+    culturalContext: contextSection ? sectionText(contextSection) : '',
+    content,
+  };
+
+  const culturalTradition = getHeader(
+    document,
+    GRC_HEADERS.culturalTradition,
+  )?.trim();
+  if (culturalTradition) draft.culturalTradition = culturalTradition;
+
+  const author = getHeader(document, GRC_HEADERS.author)?.trim();
+  if (author) draft.author = author;
+
+  const created = getHeader(document, GRC_HEADERS.created)?.trim();
+  if (created) draft.created = created;
+
+  return draft;
+}
+
+/**
+ * Build a document in the canonical designer layout from a ritual draft.
+ * `extraSections` are appended after the ritual content, e.g. validation
+ * results.
+ */
+export function fromRitualDraft(
+  draft: GRCRitualDraft,
+  extraSections: Array<{ title: string; body: string }> = [],
+): GRCDocument {
+  const lines = [
+    `# ${draft.name}`,
+    `# ${GRC_HEADERS.bioregion}: ${draft.bioregion}`,
+  ];
+  if (draft.culturalTradition) {
+    lines.push(
+      `# ${GRC_HEADERS.culturalTradition}: ${draft.culturalTradition}`,
+    );
+  }
+  if (draft.author) {
+    lines.push(`# ${GRC_HEADERS.author}: ${draft.author}`);
+  }
+  if (draft.created) {
+    lines.push(`# ${GRC_HEADERS.created}: ${draft.created}`);
+  }
+  lines.push(`# ${GRC_HEADERS.version}: ${GRC_GRAMMAR_VERSION}`);
+
+  const sections = [
+    { title: GRC_SECTIONS.description, body: draft.description },
+    { title: GRC_SECTIONS.culturalContext, body: draft.culturalContext },
+    { title: GRC_SECTIONS.ritualContent, body: draft.content },
+    ...extraSections,
+  ];
+  for (const section of sections) {
+    lines.push('', `## ${section.title}`, '', section.body.trim());
+  }
+
+  // Round-trip through the parser so positions match the serialized text
+  return parseGRC(`${lines.join('\n')}\n`);
+}
@@ -0,0 +1,76 @@
+import { GRCBlock, GRCDocument, GRCSection } from './types';
+
+/**
+ * Serialize a document back to .grc source. For any parsed document this
+ * yields the original source, so edits made through the tree only change the
+ * lines they touch.
+ */
+export function serializeGRC(document: GRCDocument): string {
+  const lines: string[] = [];
+
+  if (document.title !== null) {
+    lines.push(`# ${document.title}`);
+    for (const field of document.headers) {
+      lines.push(`# ${field.key}:${field.value ? ` ${field.value}` : ''}`);
+    }
+  }
+
+  lines.push(...serializeBlocks(document.preamble));
+  for (const section of document.sections) {
+    lines.push(...serializeSection(section));
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+
+  const body = lines.join(document.lineEnding);
+  return document.finalNewline ? body + document.lineEnding : body;
+}
+
+/**
+ * Serialize a section including its heading and all nested subsections.
+ */
+export function serializeSection(section: GRCSection): string[] {
+  return [
+    `${'#'.repeat(section.level)} ${section.title}`,
+    ...serializeSectionBody(section),
+  ];
+}
+
+/**
+ * Serialize the contents of a section without its heading.
+ */
+export function serializeSectionBody(section: GRCSection): string[] {
+  const lines = serializeBlocks(section.blocks);
+  for (const subsection of section.subsections) {
+    lines.push(...serializeSection(subsection));
+  }
+  return lines;
+}
+
+export function serializeBlocks(blocks: GRCBlock[]): string[] {
+  const lines: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'blank':
+      case 'rule':
+        lines.push(block.raw);
+        break;
+      case 'paragraph':
+        lines.push(...block.lines);
+        break;
+      case 'invocation':
+        lines.push(...`"${block.text}"`.split('\n'));
+        break;
+      case 'list':
+        for (const item of block.items) {
+          lines.push(`${item.indent}${item.marker} ${item.text}`);
+        }
+        break;
+    }
+  }
+
+  return lines;
+}
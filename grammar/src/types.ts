@@ -0,0 +1,110 @@
+/**
+ * Version of the .grc grammar implemented by this package. Documents may
+ * declare the version they were written against with a `# GRC Version:`
+ * header; documents without one are read as the current version.
+ */
+export const GRC_GRAMMAR_VERSION = '1.0';
+
+export interface GRCPosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface GRCHeaderField {
+  key: string;
+  value: string;
+  position: GRCPosition;
+}
+
+export interface GRCParagraph {
+  type: 'paragraph';
+  lines: string[];
+  position: GRCPosition;
+}
+
+export interface GRCListItem {
+  indent: string;
+  marker: string; // "1.", "-", "*" ...
+  text: string; // authoritative item text, serialized verbatim after the marker
+  label?: string; // "Water Blessing" for "**Water Blessing**: Pour river water..."
+  position: GRCPosition;
+}
+
+export interface GRCList {
+  type: 'list';
+  ordered: boolean;
+  items: GRCListItem[];
+  position: GRCPosition;
+}
+
+export interface GRCInvocation {
+  type: 'invocation';
+  text: string; // quoted words without the surrounding quotes
+  position: GRCPosition;
+}
+
+export interface GRCRule {
+  type: 'rule';
+  raw: string; // "---", "-----" ...
+  position: GRCPosition;
+}
+
+export interface GRCBlankLine {
+  type: 'blank';
+  raw: string;
+  position: GRCPosition;
+}
+
+export type GRCBlock =
+  GRCParagraph | GRCList | GRCInvocation | GRCRule | GRCBlankLine;
+
+export interface GRCSection {
+  level: number; // 2 for "##", 3 for "###" ...
+  title: string;
+  blocks: GRCBlock[];
+  subsections: GRCSection[];
+  position: GRCPosition;
+}
+
+export interface GRCDocument {
+  grammarVersion: string;
+  title: string | null; // null when the document does not open with "# Title"
+  headers: GRCHeaderField[];
+  preamble: GRCBlock[]; // blocks between the header and the first section
+  sections: GRCSection[];
+  lineEnding: '\n' | '\r\n';
+  finalNewline: boolean;
+}
+
+/**
+ * Flat view of a .grc document in the shape of a ritual submission.
+ * Bioregions are carried by display name; mapping them to ids is left to
+ * the caller since the set of bioregions is not part of the grammar.
+ */
+export interface GRCRitualDraft {
+  name: string;
+  bioregion: string;
+  culturalTradition?: string;
+  author?: string;
+  created?: string;
+  description: string;
+  culturalContext: string;
+  content: string;
+}
+
+export type GRCDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface GRCDiagnostic {
+  severity: GRCDiagnosticSeverity;
+  code: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+  suggestion?: string;
+}
+
+export interface GRCValidationOptions {
+  // Display names of the bioregions a ritual may be submitted to. When
+  // omitted the Bioregion header is only checked for presence.
+  bioregions?: string[];
+}
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { hasErrors, parseGRC, validateGRC } from './index';
+
+const sampleRitual = readFileSync(
+  join(__dirname, '../../sample-ritual.grc'),
+  'utf-8',
+);
+
+const bioregions = ['Tech Haven', 'Mythic Forest', 'Isolated Bastion'];
+
+describe('validateGRC', () => {
+  it('accepts sample-ritual.grc apart from its bioregion', () => {
+    const diagnostics = validateGRC(parseGRC(sampleRitual), { bioregions });
+
+    expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([
+      expect.objectContaining({
+        code: 'unknown-bioregion',
+        line: 2,
+        column: 14,
+      }),
+    ]);
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({ code: 'missing-section', severity: 'info' }),
+    );
+  });
+
+  it('reports unknown headers, typos in bioregions and duplicate sections', () => {
+    const source = [
+      '# Dawn Circle',
+      '# Bioregion: Mythic Forrest',
+      '# Tradition: Shared',
+      '',
+      '## Cultural Context',
+      'Drawn from shared community practice of greeting the sunrise.',
+      '',
+      '## Cultural Context',
+      'Repeated by mistake.',
+      '',
+      '## Ritual Content',
+      'We gather in a circle at dawn. '.repeat(5),
+    ].join('\n');
+
+    const diagnostics = validateGRC(parseGRC(source), { bioregions });
+
+    expect(diagnostics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: 'unknown-bioregion',
+          line: 2,
+          suggestion: 'Did you mean "Mythic Forest"?',
+        }),
+        expect.objectContaining({
+          code: 'unknown-header',
+          severity: 'warning',
+          line: 3,
+        }),
+        expect.objectContaining({
+          code: 'duplicate-section',
+          severity: 'error',
+          line: 8,
+        }),
+      ]),
+    );
+    expect(hasErrors(diagnostics)).toBe(true);
+  });
+
+  it('reports missing required sections instead of partial fields', () => {
+    const diagnostics = validateGRC(parseGRC('# Dawn Circle\n'));
+
+    expect(diagnostics.map((d) => d.code)).toEqual(
+      expect.arrayContaining(['missing-bioregion', 'missing-section']),
+    );
+    expect(diagnostics.filter((d) => d.code === 'missing-section').length).toBe(
+      3,
+    );
+  });
+});
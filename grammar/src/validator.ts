@@ -0,0 +1,393 @@
+import {
+  GRC_HEADERS,
+  GRC_SECTIONS,
+  findSection,
+  toRitualDraft,
+} from './ritualDraft';
+import {
+  GRC_GRAMMAR_VERSION,
+  GRCDiagnostic,
+  GRCDocument,
+  GRCPosition,
+  GRCSection,
+  GRCValidationOptions,
+} from './types';
+
+export const SUPPORTED_GRAMMAR_VERSIONS = [GRC_GRAMMAR_VERSION];
+
+// Mirrors the limits of the ritual submission schema in the backend
+export const GRC_LIMITS = {
+  name: { max: 100 },
+  description: { min: 10, max: 500 },
+  culturalContext: { min: 20, max: 1000 },
+  content: { min: 100, max: 10000 },
+} as const;
+
+const KNOWN_HEADERS: string[] = Object.values(GRC_HEADERS);
+
+type Reporter = (
+  diagnostic: Omit<GRCDiagnostic, 'line' | 'column'>,
+  position?: GRCPosition,
+) => void;
+
+/**
+ * Check a parsed document against the .grc grammar and the requirements of a
+ * ritual submission. Returns diagnostics ordered by position; the document is
+ * submittable when none of them has severity "error".
+ */
+export function validateGRC(
+  document: GRCDocument,
+  options: GRCValidationOptions = {},
+): GRCDiagnostic[] {
+  const diagnostics: GRCDiagnostic[] = [];
+  const report: Reporter = (diagnostic, position = { line: 1, column: 1 }) => {
+    diagnostics.push({ ...diagnostic, ...position });
+  };
+
+  // Title
+  if (document.title === null) {
+    report({
+      severity: 'error',
+      code: 'missing-title',
+      message: 'The file must start with the ritual name as "# <name>"',
+      suggestion: 'Add a first line such as "# Salmon River Blessing"',
+    });
+  } else if (!document.title.trim()) {
+    report({
+      severity: 'error',
+      code: 'missing-title',
+      message: 'The ritual name is empty',
+      suggestion: 'Write the ritual name after "# " on the first line',
+    });
+  } else if (document.title.trim().length > GRC_LIMITS.name.max) {
+    report(
+      {
+        severity: 'error',
+        code: 'value-too-long',
+        message: `The ritual name is longer than ${GRC_LIMITS.name.max} characters`,
+        suggestion: 'Shorten the ritual name',
+      },
+      { line: 1, column: 3 },
+    );
+  }
+
+  // Header fields
+  const seenHeaders = new Map<string, GRCPosition>();
+  for (const field of document.headers) {
+    const key = field.key.toLowerCase();
+    const known = KNOWN_HEADERS.find((header) => header.toLowerCase() === key);
+
+    if (!known) {
+      const closest = closestMatch(field.key, KNOWN_HEADERS);
+      report(
+        {
+          severity: 'warning',
+          code: 'unknown-header',
+          message: `Unknown header "${field.key}"`,
+          suggestion: closest
+            ? `Did you mean "${closest}"?`
+            : `Known headers are: ${KNOWN_HEADERS.join(', ')}`,
+        },
+        { line: field.position.line, column: 3 },
+      );
+    }
+
+    const previous = seenHeaders.get(key);
+    if (previous) {
+      report(
+        {
+          severity: 'error',
+          code: 'duplicate-header',
+          message: `Header "${field.key}" is already set on line ${previous.line}`,
+          suggestion: 'Remove one of the duplicate header lines',
+        },
+        { line: field.position.line, column: 3 },
+      );
+    } else {
+      seenHeaders.set(key, field.position);
+    }
+  }
+
+  const bioregionField = document.headers.find(
+    (field) => field.key.toLowerCase() === GRC_HEADERS.bioregion.toLowerCase(),
+  );
+  if (!bioregionField || !bioregionField.value.trim()) {
+    report(
+      {
+        severity: 'error',
+        code: 'missing-bioregion',
+        message: 'The ritual does not name its bioregion',
+        suggestion: 'Add a header line such as "# Bioregion: Mythic Forest"',
+      },
+      bioregionField?.position ?? {
+        line: document.headers.length + 2,
+        column: 1,
+      },
+    );
+  } else if (options.bioregions) {
+    const bioregion = bioregionField.value.trim();
+    const isKnown = options.bioregions.some(
+      (name) => name.toLowerCase() === bioregion.toLowerCase(),
+    );
+    if (!isKnown) {
+      const closest = closestMatch(bioregion, options.bioregions);
+      report(
+        {
+          severity: 'error',
+          code: 'unknown-bioregion',
+          message: `Unknown bioregion "${bioregion}"`,
+          suggestion: closest
+            ? `Did you mean "${closest}"?`
+            : `Registered bioregions are: ${options.bioregions.join(', ')}`,
+        },
+        {
+          line: bioregionField.position.line,
+          column: bioregionField.key.length + 5,
+        },
+      );
+    }
+  }
+
+  const versionField = document.headers.find(
+    (field) => field.key.toLowerCase() === GRC_HEADERS.version.toLowerCase(),
+  );
+  if (
+    versionField &&
+    !SUPPORTED_GRAMMAR_VERSIONS.includes(versionField.value.trim())
+  ) {
+    report(
+      {
+        severity: 'error',
+        code: 'unsupported-version',
+        message: `Grammar version "${versionField.value}" is not supported`,
+        suggestion: `Use "# ${GRC_HEADERS.version}: ${GRC_GRAMMAR_VERSION}"`,
+      },
+      {
+        line: versionField.position.line,
+        column: versionField.key.length + 5,
+      },
+    );
+  }
+
+  // A "#" line that is not "Key: Value" ends the header and becomes a level 1
+  // section, which is almost always a malformed header field
+  for (const section of document.sections) {
+    if (section.level === 1) {
+      report(
+        {
+          severity: 'warning',
+          code: 'malformed-header',
+          message: `"# ${section.title}" is not a "Key: Value" header field`,
+          suggestion:
+            'Write header fields as "# Key: Value" directly below the title, or use "##" for a section',
+        },
+        section.position,
+      );
+    }
+  }
+
+  // Sections
+  checkDuplicateSections(document.sections, report);
+
+  const draft = toRitualDraft(document);
+
+  const contextSection = findSection(document, GRC_SECTIONS.culturalContext);
+  if (!contextSection) {
+    report(
+      {
+        severity: 'error',
+        code: 'missing-section',
+        message: `Missing required section "${GRC_SECTIONS.culturalContext}"`,
+        suggestion: `Add a "## ${GRC_SECTIONS.culturalContext}" section describing the cultural background of the ritual`,
+      },
+      endOfDocument(document),
+    );
+  } else {
+    checkLength(
+      draft.culturalContext,
+      GRC_LIMITS.culturalContext,
+      GRC_SECTIONS.culturalContext,
+      contextSection.position,
+      report,
+    );
+  }
+
+  const descriptionSection = findSection(document, GRC_SECTIONS.description);
+  if (!descriptionSection) {
+    report(
+      {
+        severity: draft.description ? 'info' : 'error',
+        code: 'missing-section',
+        message: draft.description
+          ? `No "${GRC_SECTIONS.description}" section; the opening paragraph is used as the description`
+          : `Missing required section "${GRC_SECTIONS.description}"`,
+        suggestion: `Add a "## ${GRC_SECTIONS.description}" section with a short summary of the ritual`,
+      },
+      endOfDocument(document),
+    );
+  }
+  if (draft.description) {
+    checkLength(
+      draft.description,
+      GRC_LIMITS.description,
+      GRC_SECTIONS.description,
+      descriptionSection?.position ?? { line: 1, column: 1 },
+      report,
+    );
+  }
+
+  if (!draft.content) {
+    report(
+      {
+        severity: 'error',
+        code: 'missing-section',
+        message: 'The ritual has no content',
+        suggestion: `Add a "## ${GRC_SECTIONS.ritualContent}" section, or sections such as "## Sacred Opening"`,
+      },
+      endOfDocument(document),
+    );
+  } else {
+    const contentSection = findSection(document, GRC_SECTIONS.ritualContent);
+    checkLength(
+      draft.content,
+      GRC_LIMITS.content,
+      'Ritual content',
+      contentSection?.position ?? { line: 1, column: 1 },
+      report,
+    );
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function hasErrors(diagnostics: GRCDiagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
+
+/**
+ * Format a diagnostic as "line:column severity message (suggestion)".
+ */
+export function formatDiagnostic(diagnostic: GRCDiagnostic): string {
+  const location = `${diagnostic.line}:${diagnostic.column}`;
+  const suggestion = diagnostic.suggestion ? ` (${diagnostic.suggestion})` : '';
+  return `${location} ${diagnostic.severity} ${diagnostic.message}${suggestion}`;
+}
+
+function checkDuplicateSections(
+  sections: GRCSection[],
+  report: Reporter,
+): void {
+  const seen = new Map<string, GRCSection>();
+  const metadataTitles: string[] = Object.values(GRC_SECTIONS).map((title) =>
+    title.toLowerCase(),
+  );
+
+  for (const section of sections) {
+    const key = section.title.trim().toLowerCase();
+    const previous = seen.get(key);
+
+    if (previous) {
+      // Repeated metadata sections make the submission ambiguous
+      const isMetadata = metadataTitles.includes(key);
+      report(
+        {
+          severity: isMetadata ? 'error' : 'warning',
+          code: 'duplicate-section',
+          message: `Section "${section.title}" already appears on line ${previous.position.line}`,
+          suggestion:
+            'Merge the two sections or give one of them a distinct title',
+        },
+        section.position,
+      );
+    } else {
+      seen.set(key, section);
+    }
+
+    checkDuplicateSections(section.subsections, report);
+  }
+}
+
+function checkLength(
+  value: string,
+  limits: { min?: number; max: number },
+  label: string,
+  position: GRCPosition,
+  report: Reporter,
+): void {
+  if (limits.min !== undefined && value.length < limits.min) {
+    report(
+      {
+        severity: 'error',
+        code: 'value-too-short',
+        message: `${label} must be at least ${limits.min} characters (found ${value.length})`,
+        suggestion: `Expand the ${label.toLowerCase()}`,
+      },
+      position,
+    );
+  } else if (value.length > limits.max) {
+    report(
+      {
+        severity: 'error',
+        code: 'value-too-long',
+        message: `${label} must be at most ${limits.max} characters (found ${value.length})`,
+        suggestion: `Shorten the ${label.toLowerCase()}`,
+      },
+      position,
+    );
+  }
+}
+
+function endOfDocument(document: GRCDocument): GRCPosition {
+  const lastLine = (sections: GRCSection[], fallback: number): number => {
+    const last = sections[sections.length - 1];
+    if (!last) return fallback;
+    const lastBlock = last.blocks[last.blocks.length - 1];
+    return lastLine(
+      last.subsections,
+      lastBlock?.position.line ?? last.position.line,
+    );
+  };
+
+  return {
+    line: lastLine(document.sections, document.headers.length + 1),
+    column: 1,
+  };
+}
+
+/**
+ * Closest candidate by edit distance, if it is close enough to be a typo.
+ */
+function closestMatch(value: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= Math.max(2, Math.floor(value.length / 3))
+    ? best
+    : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+}